@@ -3,8 +3,20 @@ import {
     Scheduler,
     type Appointment,
     type AppointmentStatus,
+    type BlockedTime,
+    type ColorByMode,
+    type DaySchedule,
+    type NewBlockedTimeData,
     type DetailDisplayMode,
     type NewAppointmentData,
+    type RecurrenceEditScope,
+    type Service,
+    type ViewMode,
+    type VisibleRange,
+    applyRecurrenceDelete,
+    applyRecurrenceReschedule,
+    applyRecurrenceResize,
+    applyRecurrenceUpdate,
 } from './components/Scheduler';
 import { initializeTheme } from './utils/themeUtils';
 
@@ -16,7 +28,7 @@ import { initializeTheme } from './utils/themeUtils';
  */
 
 // Generate mock appointments for the current week
-const APPOINTMENT_STATUSES: AppointmentStatus[] = ['pending', 'confirmed', 'canceled', 'completed'];
+const APPOINTMENT_STATUSES: AppointmentStatus[] = ['pending', 'confirmed', 'cancelled', 'completed'];
 
 function generateMockAppointments(): Appointment[] {
     const today = new Date();
@@ -146,6 +158,18 @@ function generateMockAppointments(): Appointment[] {
         },
 
 
+        // Recurring refill every 2 weeks (10 visits)
+        {
+            id: '12',
+            client: { name: 'Gwyneth Paltrow', path: '/admin/collections/customers/14' },
+            serviceType: 'Refill',
+            artist: artists[2],
+            startTime: createDate(addDays(today, 2), 11, 0),
+            duration: 60,
+            email: 'gwyneth.paltrow@example.com',
+            recurrence: { frequency: 'weekly' as const, interval: 2, count: 10 },
+        },
+
         // Past appointments (earlier this week if today is not Sunday)
         ...(today.getDay() > 0
             ? [
@@ -180,6 +204,74 @@ function generateMockAppointments(): Appointment[] {
     }));
 }
 
+// Studio hours for the 'Tue – Sat' layout: Sunday and Monday have no rows, so they are closed
+const STUDIO_HOURS: DaySchedule[] = ['tuesday', 'wednesday', 'thursday', 'friday', 'saturday'].map((day) => ({
+    day,
+    open: '8:00',
+    close: '21:00',
+}));
+
+// Week layouts offered in the header: first day of the week and hidden weekdays (0 = Sunday),
+// or business hours whose closed days are hidden
+const WEEK_LAYOUTS: Record<
+    string,
+    { label: string; weekStartsOn?: number; hiddenDays?: number[]; businessHours?: DaySchedule[] }
+> = {
+    full: { label: 'Whole week' },
+    workWeek: { label: 'Mon – Fri', weekStartsOn: 1, hiddenDays: [0, 6] },
+    studio: { label: 'Tue – Sat', weekStartsOn: 2, businessHours: STUDIO_HOURS },
+};
+
+// View and date are kept in the URL (?view=day&date=2025-02-17) so a reload shows the same place
+const VIEW_MODES: ViewMode[] = ['day', 'days', 'week', 'timeline', 'month', 'agenda'];
+
+function readViewFromUrl(): ViewMode {
+    const view = new URLSearchParams(window.location.search).get('view') as ViewMode | null;
+    return view && VIEW_MODES.includes(view) ? view : 'week';
+}
+
+function readDateFromUrl(): Date {
+    const param = new URLSearchParams(window.location.search).get('date') ?? '';
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(param);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date();
+}
+
+function formatDateParam(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Simulated server round trip for moves and edits (the Scheduler shows them as pending meanwhile)
+const SAVE_DELAY_MS = 800;
+
+function simulateSave(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, SAVE_DELAY_MS));
+}
+
+// Generate mock blocked time (a studio-wide meeting today, training for one artist tomorrow)
+function generateMockBlockedTimes(): BlockedTime[] {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    return [
+        {
+            id: 'blocked-1',
+            title: 'Staff meeting',
+            startTime: createDate(today, 8, 0),
+            duration: 30,
+        },
+        {
+            id: 'blocked-2',
+            title: 'Training',
+            startTime: createDate(addDays(today, 1), 13, 0),
+            duration: 60,
+            technicianId: 'Sofia Chen',
+            notes: 'Volume fans refresher',
+        },
+    ];
+}
+
 function createDate(baseDate: Date, hours: number, minutes: number): Date {
     const date = new Date(baseDate);
     date.setHours(hours, minutes, 0, 0);
@@ -200,16 +292,70 @@ export default function App() {
 
     // Define technicians and services
     const technicians = ['Emma Wilson', 'Sofia Chen', 'Maya Rodriguez'];
-    const services = ['Classic', 'Hybrid', 'Volume', 'Refill'];
+    const services: Service[] = [
+        { id: 'Classic', name: 'Classic', category: 'Full sets' },
+        { id: 'Hybrid', name: 'Hybrid', category: 'Full sets' },
+        { id: 'Volume', name: 'Volume', category: 'Full sets' },
+        { id: 'Refill', name: 'Refill', category: 'Refills' },
+    ];
 
     // State for appointments (allows rescheduling demo)
     const [appointments, setAppointments] = useState<Appointment[]>(
         generateMockAppointments
     );
 
+    // State for blocked time (meetings, cleaning, training)
+    const [blockedTimes, setBlockedTimes] = useState<BlockedTime[]>(generateMockBlockedTimes);
+
     // State for detail display mode toggle
     const [detailDisplay, setDetailDisplay] = useState<DetailDisplayMode>('modal');
 
+    // State for the studio time zone ('' = this device's zone)
+    const [timeZone, setTimeZone] = useState('');
+
+    // State for the scheduler locale (texts, date formats, first day of the week)
+    const [locale, setLocale] = useState('en-US');
+
+    // State for the visible week days (key of WEEK_LAYOUTS)
+    const [weekLayout, setWeekLayout] = useState('full');
+
+    // State for splitting the week's days into technician columns
+    const [groupByTechnician, setGroupByTechnician] = useState(false);
+
+    // State for what appointment blocks are colored by (with a legend under the header)
+    const [colorBy, setColorBy] = useState<ColorByMode>('technician');
+
+    // Signed-in user ('' = the studio manager): artists start on their own schedule
+    const [signedInAs, setSignedInAs] = useState('');
+    const [technicianFilter, setTechnicianFilter] = useState<string[] | null>(null);
+    const handleSignedInAsChange = useCallback((name: string) => {
+        setSignedInAs(name);
+        setTechnicianFilter(name ? [name] : null);
+    }, []);
+
+    // Controlled view and date, mirrored in the URL
+    const [view, setView] = useState<ViewMode>(readViewFromUrl);
+    const [selectedDate, setSelectedDate] = useState<Date>(readDateFromUrl);
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        params.set('view', view);
+        params.set('date', formatDateParam(selectedDate));
+        window.history.replaceState(null, '', `?${params}`);
+    }, [view, selectedDate]);
+
+    // Simulated fetch of the visible range (the mock data is already local)
+    const [loading, setLoading] = useState(false);
+    useEffect(() => {
+        if (!loading) return;
+        const timer = setTimeout(() => setLoading(false), 600);
+        return () => clearTimeout(timer);
+    }, [loading]);
+
+    const handleRangeChange = useCallback((range: VisibleRange) => {
+        console.log('Visible range:', range);
+        setLoading(true);
+    }, []);
+
     // Handle appointment selection
     const handleSelectAppointment = useCallback((appointment: Appointment) => {
         console.log('Selected appointment:', appointment);
@@ -237,6 +383,7 @@ export default function App() {
                 ...(primaryArtist && { artist: primaryArtist }),
                 phone: appointmentData.phone,
                 ...(appointmentData.notes && { notes: appointmentData.notes }),
+                ...(appointmentData.recurrence && { recurrence: appointmentData.recurrence }),
             };
 
             setAppointments((prev) => [...prev, newAppointment]);
@@ -245,43 +392,78 @@ export default function App() {
     );
 
     // Handle rescheduling appointment via drag-and-drop
+    // (scope is set when an occurrence of a recurring series was moved)
     const handleRescheduleAppointment = useCallback(
-        (id: string, newStartTime: Date) => {
-            console.log('Reschedule appointment:', { id, newStartTime: newStartTime.toISOString() });
+        async (id: string, newStartTime: Date, scope?: RecurrenceEditScope, newTechnicianId?: string) => {
+            console.log('Reschedule appointment:', { id, newStartTime: newStartTime.toISOString(), scope, newTechnicianId });
 
-            setAppointments((prev) =>
-                prev.map((apt) =>
-                    apt.id === id ? { ...apt, startTime: newStartTime } : apt
-                )
-            );
+            await simulateSave();
+            setAppointments((prev) => applyRecurrenceReschedule(prev, id, newStartTime, scope, newTechnicianId));
+        },
+        []
+    );
+
+    // Handle resizing appointment by its bottom edge
+    const handleResizeAppointment = useCallback(
+        (id: string, newDuration: number, scope?: RecurrenceEditScope) => {
+            console.log('Resize appointment:', { id, newDuration, scope });
+
+            setAppointments((prev) => applyRecurrenceResize(prev, id, newDuration, scope));
         },
         []
     );
 
     // Handle updating appointment from edit modal
     const handleUpdateAppointment = useCallback(
-        (updatedAppointment: Appointment) => {
-            console.log('Update appointment:', updatedAppointment);
+        async (updatedAppointment: Appointment, scope?: RecurrenceEditScope) => {
+            console.log('Update appointment:', updatedAppointment, scope);
 
-            setAppointments((prev) =>
-                prev.map((apt) =>
-                    apt.id === updatedAppointment.id ? updatedAppointment : apt
-                )
-            );
+            await simulateSave();
+            setAppointments((prev) => applyRecurrenceUpdate(prev, updatedAppointment, scope));
         },
         []
     );
 
     // Handle deleting appointment
     const handleDeleteAppointment = useCallback(
-        (id: string) => {
-            console.log('Delete appointment:', id);
+        (id: string, scope?: RecurrenceEditScope) => {
+            console.log('Delete appointment:', id, scope);
+
+            setAppointments((prev) => applyRecurrenceDelete(prev, id, scope));
+        },
+        []
+    );
 
-            setAppointments((prev) => prev.filter((apt) => apt.id !== id));
+    // Handle creating blocked time from the Create modal
+    const handleCreateBlockedTime = useCallback((data: NewBlockedTimeData) => {
+        console.log('Create blocked time:', data);
+
+        setBlockedTimes((prev) => [...prev, { ...data, id: `blocked-${Date.now()}` }]);
+    }, []);
+
+    // Handle moving blocked time via drag-and-drop
+    const handleRescheduleBlockedTime = useCallback(
+        (id: string, newStartTime: Date, newTechnicianId?: string) => {
+            console.log('Reschedule blocked time:', { id, newStartTime: newStartTime.toISOString(), newTechnicianId });
+
+            setBlockedTimes((prev) =>
+                prev.map((block) =>
+                    block.id === id
+                        ? { ...block, startTime: newStartTime, ...(newTechnicianId && { technicianId: newTechnicianId }) }
+                        : block
+                )
+            );
         },
         []
     );
 
+    // Handle deleting blocked time
+    const handleDeleteBlockedTime = useCallback((id: string) => {
+        console.log('Delete blocked time:', id);
+
+        setBlockedTimes((prev) => prev.filter((block) => block.id !== id));
+    }, []);
+
     return (
         <div className="app-container">
             {/* Header */}
@@ -306,6 +488,75 @@ export default function App() {
                             <option value="modal">Modal</option>
                             <option value="panel">Side Panel</option>
                         </select>
+                        <span className="app-header-label">Studio time:</span>
+                        <select
+                            value={timeZone}
+                            onChange={(e) => setTimeZone(e.target.value)}
+                            className="form-select"
+                            style={{ width: 'auto', padding: '0.375rem 0.75rem' }}
+                        >
+                            <option value="">This device</option>
+                            <option value="America/Vancouver">Vancouver</option>
+                            <option value="America/New_York">New York</option>
+                            <option value="Europe/London">London</option>
+                            <option value="Asia/Tokyo">Tokyo</option>
+                        </select>
+                        <span className="app-header-label">Language:</span>
+                        <select
+                            value={locale}
+                            onChange={(e) => setLocale(e.target.value)}
+                            className="form-select"
+                            style={{ width: 'auto', padding: '0.375rem 0.75rem' }}
+                        >
+                            <option value="en-US">English (US)</option>
+                            <option value="en-GB">English (UK)</option>
+                            <option value="fr-CA">Français (Canada)</option>
+                            <option value="fr-FR">Français (France)</option>
+                        </select>
+                        <span className="app-header-label">Days:</span>
+                        <select
+                            value={weekLayout}
+                            onChange={(e) => setWeekLayout(e.target.value)}
+                            className="form-select"
+                            style={{ width: 'auto', padding: '0.375rem 0.75rem' }}
+                        >
+                            {Object.entries(WEEK_LAYOUTS).map(([key, layout]) => (
+                                <option key={key} value={key}>{layout.label}</option>
+                            ))}
+                        </select>
+                        <span className="app-header-label">Week columns:</span>
+                        <select
+                            value={groupByTechnician ? 'technician' : 'day'}
+                            onChange={(e) => setGroupByTechnician(e.target.value === 'technician')}
+                            className="form-select"
+                            style={{ width: 'auto', padding: '0.375rem 0.75rem' }}
+                        >
+                            <option value="day">One per day</option>
+                            <option value="technician">Per technician</option>
+                        </select>
+                        <span className="app-header-label">Color by:</span>
+                        <select
+                            value={colorBy}
+                            onChange={(e) => setColorBy(e.target.value as ColorByMode)}
+                            className="form-select"
+                            style={{ width: 'auto', padding: '0.375rem 0.75rem' }}
+                        >
+                            <option value="technician">Technician</option>
+                            <option value="category">Service category</option>
+                            <option value="status">Status</option>
+                        </select>
+                        <span className="app-header-label">Signed in as:</span>
+                        <select
+                            value={signedInAs}
+                            onChange={(e) => handleSignedInAsChange(e.target.value)}
+                            className="form-select"
+                            style={{ width: 'auto', padding: '0.375rem 0.75rem' }}
+                        >
+                            <option value="">Manager</option>
+                            {technicians.map((name) => (
+                                <option key={name} value={name}>{name}</option>
+                            ))}
+                        </select>
                     </div>
                 </div>
             </header>
@@ -321,13 +572,34 @@ export default function App() {
                             services={services}
                             startHour={8}
                             endHour={21}
-                            view="week"
+                            view={view}
+                            onViewChange={setView}
+                            selectedDate={selectedDate}
+                            onDateChange={setSelectedDate}
+                            onRangeChange={handleRangeChange}
+                            loading={loading}
                             detailDisplay={detailDisplay}
+                            timeZone={timeZone || undefined}
+                            locale={locale}
+                            weekStartsOn={WEEK_LAYOUTS[weekLayout].weekStartsOn}
+                            hiddenDays={WEEK_LAYOUTS[weekLayout].hiddenDays}
+                            businessHours={WEEK_LAYOUTS[weekLayout].businessHours}
+                            hideClosedDays
+                            groupByTechnician={groupByTechnician}
+                            colorBy={colorBy}
+                            showLegend
+                            technicianFilter={technicianFilter}
+                            onTechnicianFilterChange={setTechnicianFilter}
                             onSelectAppointment={handleSelectAppointment}
                             onNewAppointment={handleNewAppointment}
                             onUpdateAppointment={handleUpdateAppointment}
                             onDeleteAppointment={handleDeleteAppointment}
                             onRescheduleAppointment={handleRescheduleAppointment}
+                            onResizeAppointment={handleResizeAppointment}
+                            blockedTimes={blockedTimes}
+                            onCreateBlockedTime={handleCreateBlockedTime}
+                            onRescheduleBlockedTime={handleRescheduleBlockedTime}
+                            onDeleteBlockedTime={handleDeleteBlockedTime}
                         />
                     </div>
 
@@ -0,0 +1,241 @@
+import { memo, useMemo } from 'react';
+import type { Appointment, Job, Service, Technician } from '../../types/scheduler';
+import {
+  formatFullDate,
+  formatShortDate,
+  formatTime,
+  addMinutes,
+  isToday,
+} from '../../utils/timeUtils';
+import { filterAppointmentsByDay } from '../../utils/layoutUtils';
+import { getArtistId } from '../../utils/artistUtils';
+import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { formatMessage, formatCountMessage, getStatusLabel } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * AgendaView Component
+ *
+ * Displays appointments for a date range as a list grouped by day:
+ * - One row per appointment with time, client, service, technician and status
+ * - Days without appointments are listed so gaps are visible
+ * - Rows open the appointment detail (modal or panel)
+ * - Print button; print styles hide the rest of the scheduler
+ */
+
+interface AgendaViewProps {
+  /** First day of the listed range */
+  startDate: Date;
+  /** Number of days listed, starting at startDate */
+  days: number;
+  /** All appointments (will be filtered per day) */
+  appointments: Appointment[];
+  /** List of services (used to resolve service names) */
+  services?: Service[];
+  /** List of technicians (used to resolve names and colors) */
+  technicians?: Technician[];
+  /** Callback when an appointment row is clicked */
+  onAppointmentClick?: (appointment: Appointment) => void;
+  /** Currently selected appointment ID */
+  selectedAppointmentId?: string | null;
+  /** Studio time zone; decides which day is "today" (default: the viewer's) */
+  timeZone?: string;
+  /** Color of an appointment's row marker (default: its technician's color) */
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+/**
+ * Jobs of an appointment; legacy appointments without jobs use serviceType/artist
+ */
+function getAppointmentJobs(appointment: Appointment): Job[] {
+  if (appointment.jobs?.length) return appointment.jobs;
+  return [{ serviceType: appointment.serviceType, technicianId: getArtistId(appointment.artist) }];
+}
+
+/**
+ * Single appointment row
+ */
+interface AgendaRowProps {
+  appointment: Appointment;
+  services: Service[];
+  technicians: Technician[];
+  onClick?: (appointment: Appointment) => void;
+  isSelected: boolean;
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+const AgendaRow = memo(function AgendaRow({
+  appointment,
+  services,
+  technicians,
+  onClick,
+  isSelected,
+  getAppointmentColor,
+}: AgendaRowProps) {
+  const i18n = useSchedulerLocale();
+  const jobs = getAppointmentJobs(appointment);
+  const serviceNames = jobs
+    .map((job) => services.find((s) => s.id === job.serviceType)?.name ?? job.serviceType)
+    .join(', ');
+  const technicianNames = Array.from(
+    new Set(
+      jobs
+        .map((job) => technicians.find((t) => t.id === job.technicianId)?.name ?? job.technicianId)
+        .filter(Boolean)
+    )
+  ).join(', ');
+
+  const endTime = addMinutes(appointment.startTime, appointment.duration);
+  const appointmentStatus = appointment.status ?? 'pending';
+  const statusLabel = getStatusLabel(appointmentStatus, i18n.messages);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onClick?.(appointment);
+    }
+  };
+
+  return (
+    <tr
+      className={`agenda-row ${isSelected ? 'selected' : ''}`}
+      style={{ ['--block-color' as string]: getAppointmentColor?.(appointment) ?? getTechnicianColorForAppointment(appointment, technicians) }}
+      onClick={() => onClick?.(appointment)}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      aria-label={formatMessage(i18n.messages.appointmentLabel, {
+        client: appointment.client.name,
+        service: serviceNames,
+        time: formatTime(appointment.startTime, i18n),
+      })}
+    >
+      <td className="agenda-cell agenda-time">
+        {formatTime(appointment.startTime, i18n)} – {formatTime(endTime, i18n)}
+      </td>
+      <td className="agenda-cell agenda-client">
+        <span className="agenda-client-name">{appointment.client.name}</span>
+        {appointment.phone && <span className="agenda-client-phone">{appointment.phone}</span>}
+      </td>
+      <td className="agenda-cell agenda-service">{serviceNames}</td>
+      <td className="agenda-cell agenda-technician">
+        {technicianNames && <span className="agenda-technician-dot" aria-hidden="true" />}
+        {technicianNames || '—'}
+      </td>
+      <td className="agenda-cell">
+        <span className={`appointment-status appointment-status-${appointmentStatus}`}>
+          {statusLabel}
+        </span>
+      </td>
+    </tr>
+  );
+});
+
+export const AgendaView = memo(function AgendaView({
+  startDate,
+  days,
+  appointments,
+  services = [],
+  technicians = [],
+  onAppointmentClick,
+  selectedAppointmentId,
+  timeZone,
+  getAppointmentColor,
+}: AgendaViewProps) {
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
+
+  // Dates in the range
+  const dates = useMemo(() => {
+    return Array.from({ length: Math.max(1, days) }, (_, i) => {
+      const date = new Date(startDate);
+      date.setHours(0, 0, 0, 0);
+      date.setDate(date.getDate() + i);
+      return date;
+    });
+  }, [startDate, days]);
+
+  // Appointments per day, sorted by start time
+  const groups = useMemo(
+    () =>
+      dates.map((date) => ({
+        date,
+        appointments: filterAppointmentsByDay(appointments, date).sort(
+          (a, b) => a.startTime.getTime() - b.startTime.getTime()
+        ),
+      })),
+    [appointments, dates]
+  );
+
+  const totalCount = groups.reduce((sum, group) => sum + group.appointments.length, 0);
+  const rangeLabel = dates.length > 1
+    ? `${formatShortDate(dates[0], i18n)} - ${formatShortDate(dates[dates.length - 1], i18n)}`
+    : formatFullDate(dates[0], i18n);
+
+  return (
+    <div className="view-container agenda-view">
+      {/* Toolbar: range summary and print */}
+      <div className="agenda-toolbar">
+        <p className="agenda-summary">
+          <span className="agenda-summary-range">{rangeLabel}</span>
+          <span className="agenda-summary-count">
+            {formatCountMessage(i18n, messages.appointmentCountOne, messages.appointmentCountOther, totalCount)}
+          </span>
+        </p>
+        <button
+          type="button"
+          className="btn btn-outline agenda-print-btn"
+          onClick={() => window.print()}
+        >
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+          </svg>
+          {messages.print}
+        </button>
+      </div>
+
+      {/* Grouped list */}
+      <div className="view-scroll-area scheduler-scroll">
+        <table className="agenda-table">
+          <thead>
+            <tr>
+              <th scope="col" className="agenda-heading">{messages.columnTime}</th>
+              <th scope="col" className="agenda-heading">{messages.columnClient}</th>
+              <th scope="col" className="agenda-heading">{messages.columnService}</th>
+              <th scope="col" className="agenda-heading">{messages.columnTechnician}</th>
+              <th scope="col" className="agenda-heading">{messages.columnStatus}</th>
+            </tr>
+          </thead>
+          {groups.map(({ date, appointments: dayAppointments }) => (
+            <tbody key={date.toISOString()} className="agenda-day">
+              <tr>
+                <th scope="colgroup" colSpan={5} className={`agenda-day-header ${isToday(date, timeZone) ? 'today' : ''}`}>
+                  {formatFullDate(date, i18n)}
+                  {isToday(date, timeZone) && <span className="agenda-today-badge">{messages.today}</span>}
+                </th>
+              </tr>
+              {dayAppointments.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="agenda-cell agenda-empty">{messages.noAppointments}</td>
+                </tr>
+              ) : (
+                dayAppointments.map((appointment) => (
+                  <AgendaRow
+                    key={appointment.id}
+                    appointment={appointment}
+                    services={services}
+                    technicians={technicians}
+                    onClick={onAppointmentClick}
+                    isSelected={selectedAppointmentId === appointment.id}
+                    getAppointmentColor={getAppointmentColor}
+                  />
+                ))
+              )}
+            </tbody>
+          ))}
+        </table>
+      </div>
+    </div>
+  );
+});
+
+export default AgendaView;
@@ -2,7 +2,18 @@ import { memo } from 'react';
 import { useDraggable } from '@dnd-kit/core';
 import type { Appointment, AppointmentLayout } from '../../types/scheduler';
 import { getServiceDisplayName, DEFAULT_TECHNICIAN_COLOR } from '../../utils/colorUtils';
-import { formatTime, addMinutes } from '../../utils/timeUtils';
+import {
+  formatTime,
+  addMinutes,
+  calculateHeight,
+  calculateResizedDuration,
+  SLOT_DURATION,
+  SLOT_HEIGHT,
+} from '../../utils/timeUtils';
+import { getMinuteOfDay } from '../../utils/businessHoursUtils';
+import { getAppointmentCellKey } from '../../utils/gridNavigationUtils';
+import { formatMessage, getStatusLabel } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
 
 /**
  * AppointmentBlock Component
@@ -15,6 +26,12 @@ import { formatTime, addMinutes } from '../../utils/timeUtils';
  * - Color-coded by service type
  * - Draggable for rescheduling (uses @dnd-kit)
  * - Displays client name, service type, and time range
+ * - Repeat icon for occurrences of a recurring series
+ * - Optional bottom-edge handle to change the duration, with a live end-time preview
+ * - Warning marker when the appointment double-books a technician
+ * - Pending state (not draggable) while a change to it is being saved
+ * - Grid cell with roving focus in the day and week views (see useGridNavigation);
+ *   Space picks it (or the focused resize handle) up for a keyboard drag
  */
 
 interface AppointmentBlockProps {
@@ -26,6 +43,27 @@ interface AppointmentBlockProps {
   isSelected?: boolean;
   /** Whether this appointment is being dragged */
   isDragging?: boolean;
+  /** Show the bottom-edge resize handle */
+  resizable?: boolean;
+  /** Closing hour of the appointment's day; resizing does not stretch past it */
+  endHour?: number;
+  /** Whether the appointment overlaps another booking of the same technician */
+  hasConflict?: boolean;
+  /** Whether the appointment falls outside opening hours (a day or closure declared after it was booked) */
+  isOutsideHours?: boolean;
+  /** Whether a change to the appointment is still being saved */
+  isPending?: boolean;
+  /** Length of each grid slot in minutes (resize snapping) */
+  slotDuration?: number;
+  /** Height of each grid slot in pixels (resize snapping) */
+  slotHeight?: number;
+  /**
+   * Set in the day and week grids, where the block is a grid cell: whether it holds the
+   * grid's tab stop (other cells are reached with the arrow keys)
+   */
+  isTabStop?: boolean;
+  /** DOM ID in the day and week grids, where the slot the block starts in owns it (aria-owns) */
+  cellId?: string;
 }
 
 /**
@@ -36,8 +74,19 @@ export const AppointmentBlock = memo(function AppointmentBlock({
   onClick,
   isSelected = false,
   isDragging = false,
+  resizable = false,
+  endHour,
+  hasConflict = false,
+  isOutsideHours = false,
+  isPending = false,
+  slotDuration = SLOT_DURATION,
+  slotHeight = SLOT_HEIGHT,
+  isTabStop,
+  cellId,
 }: AppointmentBlockProps) {
   const { appointment, lane, totalLanes, top, height } = layout;
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
   const blockColor = layout.color ?? DEFAULT_TECHNICIAN_COLOR;
 
   // Set up draggable behavior with @dnd-kit
@@ -50,13 +99,47 @@ export const AppointmentBlock = memo(function AppointmentBlock({
   } = useDraggable({
     id: appointment.id,
     data: { appointment },
+    disabled: isPending,
+    attributes: { roleDescription: messages.draggableRoleDescription },
   });
 
+  // Bottom-edge resize handle: a separate draggable so moving and resizing don't clash
+  const {
+    attributes: resizeAttributes,
+    listeners: resizeListeners,
+    setNodeRef: setResizeNodeRef,
+    transform: resizeTransform,
+    isDragging: isResizing,
+  } = useDraggable({
+    id: `resize-${appointment.id}`,
+    data: { appointment, resize: true },
+    disabled: !resizable || isPending,
+    attributes: { roleDescription: messages.draggableRoleDescription },
+  });
+
+  // In a grid, only the tab stop (and its resize handle) is in the tab order
+  const isGridCell = isTabStop !== undefined;
+  const tabIndex = isGridCell ? (isTabStop ? 0 : -1) : attributes.tabIndex;
+
   // Provide a safe ref callback in case DndContext is not available
   const safeSetNodeRef = setNodeRef || (() => { });
+  const safeSetResizeNodeRef = setResizeNodeRef || (() => { });
+
+  // While resizing, preview the duration the drop would produce
+  const duration = isResizing && resizeTransform
+    ? calculateResizedDuration(
+        appointment.startTime,
+        appointment.duration,
+        resizeTransform.y,
+        endHour,
+        slotDuration,
+        slotHeight
+      )
+    : appointment.duration;
+  const displayHeight = isResizing ? calculateHeight(duration, slotDuration, slotHeight) : height;
 
   // Calculate end time for display
-  const endTime = addMinutes(appointment.startTime, appointment.duration);
+  const endTime = addMinutes(appointment.startTime, duration);
 
   // Calculate horizontal position and width based on lane assignment
   // Adds small gaps between overlapping appointments for visual clarity
@@ -69,15 +152,16 @@ export const AppointmentBlock = memo(function AppointmentBlock({
   const isCurrentlyDragging = isDragging || isDraggingLocal;
   const appointmentStatus = appointment.status ?? 'pending';
   const statusClassName = `appointment-status-${appointmentStatus}`;
-  const statusLabel = appointmentStatus.charAt(0).toUpperCase() + appointmentStatus.slice(1);
+  const statusLabel = getStatusLabel(appointmentStatus, messages);
 
   const style: React.CSSProperties = {
     position: 'absolute',
     top: `${top}px`,
     left: `${leftPosition}%`,
     width: `${laneWidth}%`,
-    height: `${Math.max(height - gapSize, 30)}px`,
-    zIndex: isCurrentlyDragging ? 100 : isSelected ? 50 : 10,
+    // Keep short blocks readable, but never taller than one slot when slots are small
+    height: `${Math.max(displayHeight - gapSize, Math.min(30, slotHeight - gapSize))}px`,
+    zIndex: isCurrentlyDragging || isResizing ? 100 : isSelected ? 50 : 10,
     transform: transform
       ? `translate(${transform.x}px, ${transform.y}px)`
       : undefined,
@@ -102,6 +186,11 @@ export const AppointmentBlock = memo(function AppointmentBlock({
     'technician-color',
     isCurrentlyDragging ? 'dragging' : '',
     isSelected ? 'selected' : '',
+    isResizing ? 'resizing' : '',
+    hasConflict ? 'conflict' : '',
+    isOutsideHours ? 'outside-hours' : '',
+    isPending ? 'pending' : '',
+    appointment.seriesId ? 'recurring' : '',
   ].filter(Boolean).join(' ');
 
   return (
@@ -112,8 +201,20 @@ export const AppointmentBlock = memo(function AppointmentBlock({
       onClick={handleClick}
       {...attributes}
       {...listeners}
+      id={cellId}
       role="button"
-      aria-label={`${appointment.client.name}, ${getServiceDisplayName(appointment.serviceType)} at ${formatTime(appointment.startTime)}`}
+      tabIndex={tabIndex}
+      data-grid-cell={isGridCell ? getAppointmentCellKey(appointment.id) : undefined}
+      data-grid-time={isGridCell ? getMinuteOfDay(appointment.startTime) : undefined}
+      aria-busy={isPending || undefined}
+      aria-label={`${formatMessage(
+        hasConflict ? messages.appointmentLabelDoubleBooked : messages.appointmentLabel,
+        {
+          client: appointment.client.name,
+          service: getServiceDisplayName(appointment.serviceType),
+          time: formatTime(appointment.startTime, i18n),
+        }
+      )}${isOutsideHours ? `, ${messages.outsideOpeningHours}` : ''}`}
     >
       <div className="appointment-content">
         {/* Service type badge */}
@@ -122,6 +223,16 @@ export const AppointmentBlock = memo(function AppointmentBlock({
           <span className="appointment-badge-text">
             {appointment.serviceType}
           </span>
+          {hasConflict && (
+            <svg className="appointment-conflict-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-label={messages.doubleBooked} role="img">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+          )}
+          {appointment.seriesId && (
+            <svg className="appointment-recurring-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-label={messages.repeats} role="img">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          )}
 
         </div>
 
@@ -133,7 +244,7 @@ export const AppointmentBlock = memo(function AppointmentBlock({
         {/* Time range and artist - only show if enough space */}
         <div className="appointment-details">
           <p className="appointment-time">
-            {formatTime(appointment.startTime)} – {formatTime(endTime)}
+            {formatTime(appointment.startTime, i18n)} – {formatTime(endTime, i18n)}
           </p>
           <p className={`appointment-status ${statusClassName}`}>
             {statusLabel}
@@ -141,6 +252,28 @@ export const AppointmentBlock = memo(function AppointmentBlock({
         </div>
 
       </div>
+
+      {/* Resize handle with live end-time preview */}
+      {resizable && (
+        <div
+          ref={safeSetResizeNodeRef}
+          className="appointment-resize-handle"
+          onClick={(e) => e.stopPropagation()}
+          {...resizeAttributes}
+          {...resizeListeners}
+          role="button"
+          tabIndex={isGridCell ? tabIndex : resizeAttributes.tabIndex}
+          aria-label={formatMessage(messages.resizeLabel, {
+            client: appointment.client.name,
+            time: formatTime(endTime, i18n),
+          })}
+        />
+      )}
+      {isResizing && (
+        <span className="appointment-resize-preview" aria-hidden="true">
+          {formatMessage(messages.resizePreview, { time: formatTime(endTime, i18n), duration })}
+        </span>
+      )}
     </div>
   );
 });
@@ -0,0 +1,159 @@
+import { memo, useEffect, useId, useMemo, useRef, useState } from 'react';
+import type { Appointment, Service, Technician } from '../../types/scheduler';
+import { formatShortDate, formatTime, getNow } from '../../utils/timeUtils';
+import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { searchAppointments } from '../../utils/searchUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * AppointmentSearch Component
+ *
+ * Header search box (ARIA combobox) over all appointments:
+ * - Matches client name, phone, email, notes and service names as you type
+ * - Results list the soonest upcoming appointments first, then past ones, with date and time
+ * - ↑ / ↓ move through the results, Enter picks one, Escape closes the list (and then clears the box)
+ */
+
+interface AppointmentSearchProps {
+  /** All appointments (recurring series are searched occurrence by occurrence) */
+  appointments: Appointment[];
+  /** List of services (used to match and show service names) */
+  services?: Service[];
+  /** List of technicians (used for result colors) */
+  technicians?: Technician[];
+  /** Callback when a result is picked */
+  onSelect: (appointment: Appointment) => void;
+  /** Studio time zone; decides what "upcoming" means (default: the viewer's) */
+  timeZone?: string;
+}
+
+export const AppointmentSearch = memo(function AppointmentSearch({
+  appointments,
+  services = [],
+  technicians = [],
+  onSelect,
+  timeZone,
+}: AppointmentSearchProps) {
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listboxId = useId();
+
+  const results = useMemo(
+    () => searchAppointments(appointments, query, services, getNow(timeZone)),
+    [appointments, query, services, timeZone]
+  );
+  const isListShown = isOpen && query.trim() !== '';
+
+  // Close on a click outside
+  useEffect(() => {
+    if (!isListShown) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isListShown]);
+
+  const handleSelect = (appointment: Appointment) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSelect(appointment);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        if (isListShown && results[activeIndex]) {
+          e.preventDefault();
+          handleSelect(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (isListShown) {
+          setIsOpen(false);
+        } else {
+          setQuery('');
+        }
+        break;
+    }
+  };
+
+  const activeResult = isListShown ? results[activeIndex] : undefined;
+
+  return (
+    <div ref={containerRef} className="appointment-search">
+      <svg className="appointment-search-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+      </svg>
+      <input
+        type="search"
+        className="appointment-search-input"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={messages.searchPlaceholder}
+        role="combobox"
+        aria-label={messages.searchAriaLabel}
+        aria-autocomplete="list"
+        aria-expanded={isListShown}
+        aria-controls={listboxId}
+        aria-activedescendant={activeResult ? `${listboxId}-${activeResult.id}` : undefined}
+      />
+
+      {isListShown && (
+        <ul id={listboxId} className="appointment-search-results" role="listbox" aria-label={messages.searchAriaLabel}>
+          {results.length === 0 ? (
+            <li className="appointment-search-empty" role="presentation">
+              {messages.searchNoResults}
+            </li>
+          ) : (
+            results.map((appointment, index) => {
+              const serviceType = appointment.jobs?.[0]?.serviceType ?? appointment.serviceType;
+              const serviceName = services.find((s) => s.id === serviceType)?.name ?? serviceType;
+              return (
+                <li
+                  key={appointment.id}
+                  id={`${listboxId}-${appointment.id}`}
+                  className={`appointment-search-result ${index === activeIndex ? 'active' : ''}`}
+                  style={{ ['--block-color' as string]: getTechnicianColorForAppointment(appointment, technicians) }}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the box so the pick isn't lost to a blur
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleSelect(appointment)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                >
+                  <span className="appointment-search-client">{appointment.client.name}</span>
+                  <span className="appointment-search-service">{serviceName}</span>
+                  <span className="appointment-search-when">
+                    {formatShortDate(appointment.startTime, i18n)} · {formatTime(appointment.startTime, i18n)}
+                  </span>
+                </li>
+              );
+            })
+          )}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+export default AppointmentSearch;
@@ -0,0 +1,170 @@
+import { memo, useState } from 'react';
+import { useDraggable } from '@dnd-kit/core';
+import type { BlockedTime, BlockedTimeLayout, Technician } from '../../types/scheduler';
+import { formatTime, addMinutes } from '../../utils/timeUtils';
+import { getMinuteOfDay } from '../../utils/businessHoursUtils';
+import { getBlockedTimeCellKey } from '../../utils/gridNavigationUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * BlockedTimeBlock Component
+ *
+ * Renders blocked time (staff meeting, cleaning, training) within the time grid.
+ *
+ * Features:
+ * - Positioned like appointment blocks, sharing lanes with overlapping appointments
+ * - Hatched neutral styling so it can't be mistaken for a client booking
+ * - Draggable to another time (drag data `{ blockedTime }`)
+ * - Optional delete button with an inline confirmation
+ * - Grid cell with roving focus in the day and week views (see useGridNavigation)
+ */
+
+interface BlockedTimeBlockProps {
+  /** Layout information including position and overlap data */
+  layout: BlockedTimeLayout;
+  /** List of technicians (used to show whose time is blocked) */
+  technicians?: Technician[];
+  /** Whether this block is being dragged */
+  isDragging?: boolean;
+  /** Whether the block can be dragged */
+  draggable?: boolean;
+  /** Callback when the block is deleted (shows the delete button) */
+  onDelete?: (blockedTime: BlockedTime) => void;
+  /** Set in the day and week grids, where the block is a grid cell: key of the column holding it */
+  gridColumn?: string;
+  /** Whether the block's grid cell holds the grid's tab stop */
+  isTabStop?: boolean;
+  /** DOM ID in the day and week grids, where the slot the block starts in owns it (aria-owns) */
+  cellId?: string;
+}
+
+/**
+ * Memoized BlockedTimeBlock for performance
+ */
+export const BlockedTimeBlock = memo(function BlockedTimeBlock({
+  layout,
+  technicians = [],
+  isDragging = false,
+  draggable = false,
+  onDelete,
+  gridColumn,
+  isTabStop,
+  cellId,
+}: BlockedTimeBlockProps) {
+  const { blockedTime, lane, totalLanes, top, height } = layout;
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
+  const isGridCell = gridColumn !== undefined;
+
+  // Set up draggable behavior with @dnd-kit (prefixed ID: blocked time and appointment IDs may clash).
+  // Studio-wide blocks are drawn in every column, so in a grid the ID includes the column:
+  // each copy is its own draggable and the drop is measured from the one picked up.
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    isDragging: isDraggingLocal,
+  } = useDraggable({
+    id: isGridCell ? getBlockedTimeCellKey(blockedTime.id, gridColumn) : `blocked-${blockedTime.id}`,
+    data: { blockedTime },
+    disabled: !draggable,
+    attributes: { roleDescription: messages.draggableRoleDescription },
+  });
+
+  // Provide a safe ref callback in case DndContext is not available
+  const safeSetNodeRef = setNodeRef || (() => { });
+
+  const endTime = addMinutes(blockedTime.startTime, blockedTime.duration);
+  const technicianName = blockedTime.technicianId
+    ? technicians.find((t) => t.id === blockedTime.technicianId)?.name ?? blockedTime.technicianId
+    : messages.wholeStudio;
+
+  // Same lane geometry as AppointmentBlock
+  const gapSize = 2;
+  const laneWidth = (100 - (totalLanes - 1) * 0.5) / totalLanes;
+  const leftPosition = lane * (laneWidth + 0.5);
+  const isCurrentlyDragging = isDragging || isDraggingLocal;
+
+  // In a grid, only the tab stop (and its buttons) is in the tab order
+  const tabIndex = isGridCell ? (isTabStop ? 0 : -1) : attributes.tabIndex;
+  const buttonTabIndex = isGridCell && !isTabStop ? -1 : undefined;
+
+  const style: React.CSSProperties = {
+    position: 'absolute',
+    top: `${top}px`,
+    left: `${leftPosition}%`,
+    width: `${laneWidth}%`,
+    height: `${Math.max(height - gapSize, 20)}px`,
+    zIndex: isCurrentlyDragging ? 100 : 5,
+    transform: transform
+      ? `translate(${transform.x}px, ${transform.y}px)`
+      : undefined,
+    pointerEvents: 'auto',
+    touchAction: 'none',
+  };
+
+  return (
+    <div
+      ref={safeSetNodeRef}
+      style={style}
+      className={`blocked-time-block ${isCurrentlyDragging ? 'dragging' : ''} ${draggable ? 'draggable' : ''}`}
+      onClick={(e) => e.stopPropagation()}
+      {...attributes}
+      {...listeners}
+      id={cellId}
+      role="group"
+      tabIndex={tabIndex}
+      data-grid-cell={isGridCell ? getBlockedTimeCellKey(blockedTime.id, gridColumn) : undefined}
+      data-grid-time={isGridCell ? getMinuteOfDay(blockedTime.startTime) : undefined}
+      aria-label={`${blockedTime.title}, ${technicianName}, ${formatTime(blockedTime.startTime, i18n)} – ${formatTime(endTime, i18n)}`}
+    >
+      <div className="blocked-time-content">
+        <p className="blocked-time-title">{blockedTime.title}</p>
+        <p className="blocked-time-meta">
+          {formatTime(blockedTime.startTime, i18n)} – {formatTime(endTime, i18n)} · {technicianName}
+        </p>
+      </div>
+
+      {onDelete && (
+        isConfirmingDelete ? (
+          <div className="blocked-time-confirm" onPointerDown={(e) => e.stopPropagation()}>
+            <button
+              type="button"
+              className="blocked-time-confirm-btn danger"
+              tabIndex={buttonTabIndex}
+              onClick={() => onDelete(blockedTime)}
+            >
+              {messages.delete}
+            </button>
+            <button
+              type="button"
+              className="blocked-time-confirm-btn"
+              tabIndex={buttonTabIndex}
+              onClick={() => setIsConfirmingDelete(false)}
+            >
+              {messages.keep}
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="blocked-time-delete-btn"
+            tabIndex={buttonTabIndex}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => setIsConfirmingDelete(true)}
+            aria-label={formatMessage(messages.blockedTimeDeleteLabel, { title: blockedTime.title })}
+          >
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )
+      )}
+    </div>
+  );
+});
+
+export default BlockedTimeBlock;
@@ -0,0 +1,253 @@
+import { memo, useState, useCallback } from 'react';
+import type { NewBlockedTimeData, SchedulerMessages, Technician } from '../../types/scheduler';
+import { getNow } from '../../utils/timeUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * BlockedTimeForm Component
+ *
+ * Body of the Create modal in "Blocked time" mode. Fields:
+ * - Title (with Staff meeting / Cleaning / Training suggestions)
+ * - Date, time and duration
+ * - Technician (optional; leave empty to block the whole studio)
+ * - Notes (optional)
+ */
+
+/** Suggested titles offered in the title field */
+const TITLE_SUGGESTIONS: Array<keyof SchedulerMessages> = [
+  'suggestionStaffMeeting',
+  'suggestionCleaning',
+  'suggestionTraining',
+];
+
+/** Default length when the modal wasn't opened from a slot */
+const DEFAULT_DURATION = 30;
+
+/**
+ * Formats a date as the value of a date input ('YYYY-MM-DD')
+ */
+function toDateInputValue(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Formats a date as the value of a time input ('HH:mm')
+ */
+function toTimeInputValue(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+interface BlockedTimeFormProps {
+  /** Callback when blocked time is created */
+  onCreate: (data: NewBlockedTimeData) => void;
+  /** Callback to close the modal */
+  onCancel: () => void;
+  /** Pre-selected start time (from slot click) */
+  initialStartTime?: Date | null;
+  /** Pre-selected end time (from slot click; sets the initial duration) */
+  initialEndTime?: Date | null;
+  /** Pre-selected technician ID (from slot click in day view) */
+  initialTechnicianId?: string | null;
+  /** List of technicians with id and name */
+  technicians?: Technician[];
+  /** Studio time zone; used for the default date and time (default: the viewer's) */
+  timeZone?: string;
+}
+
+export const BlockedTimeForm = memo(function BlockedTimeForm({
+  onCreate,
+  onCancel,
+  initialStartTime,
+  initialEndTime,
+  initialTechnicianId,
+  technicians = [],
+  timeZone,
+}: BlockedTimeFormProps) {
+  const { messages } = useSchedulerLocale();
+  const titleSuggestions = TITLE_SUGGESTIONS.map((key) => messages[key]);
+
+  // Form state (the form mounts fresh each time the mode is switched to blocked time)
+  const [title, setTitle] = useState('');
+  const [date, setDate] = useState(() => toDateInputValue(initialStartTime ?? getNow(timeZone)));
+  const [time, setTime] = useState(() => {
+    if (initialStartTime) return toTimeInputValue(initialStartTime);
+    const nextHour = (getNow(timeZone).getHours() + 1) % 24;
+    return `${String(nextHour).padStart(2, '0')}:00`;
+  });
+  const [duration, setDuration] = useState(() =>
+    String(
+      initialStartTime && initialEndTime && initialEndTime > initialStartTime
+        ? Math.round((initialEndTime.getTime() - initialStartTime.getTime()) / 60000)
+        : DEFAULT_DURATION
+    )
+  );
+  const [technicianId, setTechnicianId] = useState(initialTechnicianId ?? '');
+  const [notes, setNotes] = useState('');
+  const [submitError, setSubmitError] = useState('');
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError('');
+
+    if (!title.trim() || !date || !time) {
+      setSubmitError(messages.errorBlockedTimeRequiredFields);
+      return;
+    }
+
+    const minutes = parseInt(duration, 10);
+    if (!minutes || minutes < 1) {
+      setSubmitError(messages.errorBlockedTimeDuration);
+      return;
+    }
+
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, mins] = time.split(':').map(Number);
+
+    onCreate({
+      title: title.trim(),
+      startTime: new Date(year, month - 1, day, hours, mins),
+      duration: minutes,
+      ...(technicianId && { technicianId }),
+      ...(notes.trim() && { notes: notes.trim() }),
+    });
+    onCancel();
+  }, [title, date, time, duration, technicianId, notes, onCreate, onCancel, messages]);
+
+  return (
+    <form onSubmit={handleSubmit} className="modal-body">
+      {/* Title */}
+      <div className="form-group">
+        <label htmlFor="blockedTitle" className="form-label">
+          {messages.blockedTimeTitleLabel} <span className="required">*</span>
+        </label>
+        <input
+          type="text"
+          id="blockedTitle"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={messages.blockedTimeTitlePlaceholder}
+          list="blocked-time-titles"
+          required
+          autoFocus
+          className="form-input"
+        />
+        <datalist id="blocked-time-titles">
+          {titleSuggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+        <div className="blocked-time-suggestions">
+          {titleSuggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              className={`blocked-time-suggestion ${title === suggestion ? 'active' : ''}`}
+              onClick={() => setTitle(suggestion)}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Date, time and duration */}
+      <div className="form-group">
+        <div className="form-grid" style={{ gap: '1rem' }}>
+          <div>
+            <label htmlFor="blockedDate" className="form-label">
+              {messages.date} <span className="required">*</span>
+            </label>
+            <input
+              type="date"
+              id="blockedDate"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label htmlFor="blockedTime" className="form-label">
+              {messages.time} <span className="required">*</span>
+            </label>
+            <input
+              type="time"
+              id="blockedTime"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              required
+              className="form-input"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="blockedDuration" className="form-label">
+          {messages.durationMinutes} <span className="required">*</span>
+        </label>
+        <input
+          type="number"
+          id="blockedDuration"
+          min={1}
+          step={5}
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          required
+          className="form-input"
+        />
+      </div>
+
+      {/* Technician */}
+      <div className="form-group">
+        <label htmlFor="blockedTechnician" className="form-label">{messages.technician}</label>
+        <select
+          id="blockedTechnician"
+          value={technicianId}
+          onChange={(e) => setTechnicianId(e.target.value)}
+          className="form-select"
+        >
+          <option value="">{messages.wholeStudio}</option>
+          {technicians.map((tech) => (
+            <option key={tech.id} value={tech.id}>{tech.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Notes */}
+      <div className="form-group">
+        <label htmlFor="blockedNotes" className="form-label">{messages.notes}</label>
+        <textarea
+          id="blockedNotes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={messages.blockedTimeNotesPlaceholder}
+          rows={3}
+          className="form-textarea"
+        />
+      </div>
+
+      {/* Actions */}
+      {submitError && (
+        <p className="form-error" role="alert" style={{ marginBottom: '0.75rem', color: 'var(--color-rose-600, #e11d48)' }}>
+          {submitError}
+        </p>
+      )}
+      <div className="btn-group">
+        <button type="button" onClick={onCancel} className="btn btn-outline">
+          {messages.cancel}
+        </button>
+        <button type="submit" className="btn btn-primary">
+          {messages.blockTimeSubmit}
+        </button>
+      </div>
+    </form>
+  );
+});
+
+export default BlockedTimeForm;
@@ -0,0 +1,76 @@
+import { memo, useMemo } from 'react';
+import type { AppointmentStatus, ColorByMode, SchedulerMessages, Service, Technician } from '../../types/scheduler';
+import { DEFAULT_TECHNICIAN_COLOR, STATUS_COLORS, getCategoryColor } from '../../utils/colorUtils';
+import { getServiceCategories } from '../../utils/serviceUtils';
+import { getStatusLabel } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * ColorLegend Component
+ *
+ * Strip under the header naming what each block color stands for in the active color-by mode:
+ * the technicians, the service categories or the appointment statuses.
+ */
+
+interface ColorLegendProps {
+  /** What blocks are colored by */
+  colorBy: ColorByMode;
+  /** Technicians shown (colorBy 'technician') */
+  technicians: Technician[];
+  /** List of services, whose categories are listed (colorBy 'category') */
+  services: Service[];
+}
+
+const LEGEND_STATUSES: AppointmentStatus[] = ['pending', 'confirmed', 'cancelled', 'completed'];
+
+const LEGEND_LABELS: Record<ColorByMode, keyof SchedulerMessages> = {
+  technician: 'legendByTechnician',
+  category: 'legendByCategory',
+  status: 'legendByStatus',
+};
+
+export const ColorLegend = memo(function ColorLegend({ colorBy, technicians, services }: ColorLegendProps) {
+  const { messages } = useSchedulerLocale();
+
+  const items = useMemo(() => {
+    switch (colorBy) {
+      case 'category':
+        return getServiceCategories(services).map((category) => ({
+          key: category,
+          label: category,
+          color: getCategoryColor(category, services),
+        }));
+      case 'status':
+        return LEGEND_STATUSES.map((status) => ({
+          key: status,
+          label: getStatusLabel(status, messages),
+          color: STATUS_COLORS[status],
+        }));
+      default:
+        return technicians.map((technician) => ({
+          key: technician.id,
+          label: technician.name,
+          color: technician.color ?? DEFAULT_TECHNICIAN_COLOR,
+        }));
+    }
+  }, [colorBy, technicians, services, messages]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="color-legend" aria-label={messages[LEGEND_LABELS[colorBy]]}>
+      {items.map((item) => (
+        <li key={item.key} className="color-legend-item">
+          <span
+            className="color-legend-swatch"
+            style={{ ['--block-color' as string]: item.color }}
+            aria-hidden="true"
+          />
+          {item.label}
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+export default ColorLegend;
@@ -0,0 +1,57 @@
+import { memo } from 'react';
+import type { AppointmentConflict, ConflictPolicy, Technician } from '../../types/scheduler';
+import { describeConflicts } from '../../utils/conflictUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * ConflictWarning Component
+ *
+ * Inline notice in the create/edit forms when the booking overlaps another
+ * booking of the same technician. With the 'block' policy it explains why
+ * saving is disabled; with 'warn' the user may still go ahead.
+ */
+
+interface ConflictWarningProps {
+  /** Overlapping appointments (renders nothing when empty) */
+  conflicts: AppointmentConflict[];
+  /** Conflict policy (drives wording and color) */
+  policy: ConflictPolicy;
+  /** List of technicians (used to resolve names) */
+  technicians?: Technician[];
+  /** Compact styling for the side panel */
+  compact?: boolean;
+}
+
+export const ConflictWarning = memo(function ConflictWarning({
+  conflicts,
+  policy,
+  technicians,
+  compact = false,
+}: ConflictWarningProps) {
+  const i18n = useSchedulerLocale();
+
+  if (conflicts.length === 0 || policy === 'allow') {
+    return null;
+  }
+
+  const isBlocking = policy === 'block';
+
+  return (
+    <div
+      className={`conflict-warning ${isBlocking ? 'blocking' : ''} ${compact ? 'sm' : ''}`}
+      role="alert"
+    >
+      <svg className="conflict-warning-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+      </svg>
+      <div>
+        <p className="conflict-warning-title">
+          {isBlocking ? i18n.messages.doubleBookingBlocked : i18n.messages.doubleBooking}
+        </p>
+        <p className="conflict-warning-text">{describeConflicts(conflicts, technicians, i18n)}</p>
+      </div>
+    </div>
+  );
+});
+
+export default ConflictWarning;
@@ -1,5 +1,13 @@
 import { memo, useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import type { ServiceType, NewAppointmentData, TechnicianServices, Service, Technician, Job } from '../../types/scheduler';
+import type { ChangeResult, ServiceType, NewAppointmentData, TechnicianServices, Service, Technician, Job, RecurrenceFrequency, RecurrenceRule, AppointmentConflict, ConflictCandidate, ConflictPolicy, BlockedTime, NewBlockedTimeData, SchedulerMessages } from '../../types/scheduler';
+import { ConflictWarning } from './ConflictWarning';
+import { BlockedTimeForm } from './BlockedTimeForm';
+import { getAvailabilityIssues } from '../../utils/availabilityUtils';
+import { findBlockedTimeConflicts, describeBlockedTimeConflicts } from '../../utils/conflictUtils';
+import { getNow } from '../../utils/timeUtils';
+import { formatMessage, formatCountMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { useAsyncAction } from '../../hooks/useAsyncAction';
 
 /**
  * CreateAppointmentModal Component
@@ -11,6 +19,11 @@ import type { ServiceType, NewAppointmentData, TechnicianServices, Service, Tech
  * - Email (optional)
  * - Phone (required)
  * - Notes (optional)
+ * - Repeat rule (optional) for recurring bookings
+ * - Double-booking warning (blocks creating when the conflict policy is 'block')
+ * - Warning when a chosen technician is off, outside their shift or in blocked time
+ *
+ * With onCreateBlockedTime, a toggle switches the modal to a blocked time form (BlockedTimeForm).
  */
 
 /** Internal type for a job entry in the builder */
@@ -20,13 +33,23 @@ interface JobEntry {
   key: string;
 }
 
+/** Unit label shown next to the repeat interval */
+const REPEAT_UNITS: Record<RecurrenceFrequency, keyof SchedulerMessages> = {
+  daily: 'repeatUnitDaily',
+  weekly: 'repeatUnitWeekly',
+  monthly: 'repeatUnitMonthly',
+};
+
 interface CreateAppointmentModalProps {
   /** Whether the modal is open */
   isOpen: boolean;
   /** Callback to close the modal */
   onClose: () => void;
-  /** Callback when appointment is created */
-  onCreate: (appointment: NewAppointmentData) => void;
+  /**
+   * Callback when appointment is created.
+   * A returned Promise keeps the modal open with disabled buttons until it settles; a rejection is shown inline.
+   */
+  onCreate: (appointment: NewAppointmentData) => ChangeResult;
   /** Pre-selected start time (from slot click) */
   initialStartTime?: Date | null;
   /** Pre-selected end time (from slot click) */
@@ -43,6 +66,16 @@ interface CreateAppointmentModalProps {
    * filtered based on the selected service.
    */
   technicianServices?: TechnicianServices;
+  /** Finds existing bookings that overlap the new one for the same technician */
+  getConflicts?: (candidate: ConflictCandidate) => AppointmentConflict[];
+  /** How conflicts are handled (default: 'warn') */
+  conflictPolicy?: ConflictPolicy;
+  /** Blocked time; chosen technicians in it are warned about */
+  blockedTimes?: BlockedTime[];
+  /** Callback when blocked time is created (shows the Appointment / Blocked time toggle) */
+  onCreateBlockedTime?: (data: NewBlockedTimeData) => void;
+  /** Studio time zone; used for the default date and time (default: the viewer's) */
+  timeZone?: string;
 }
 
 export const CreateAppointmentModal = memo(function CreateAppointmentModal({
@@ -50,15 +83,26 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
   onClose,
   onCreate,
   initialStartTime,
-  initialEndTime: _initialEndTime,
+  initialEndTime,
   initialTechnicianId,
   technicians = [],
   services,
   technicianServices,
+  getConflicts,
+  conflictPolicy = 'warn',
+  blockedTimes,
+  onCreateBlockedTime,
+  timeZone,
 }: CreateAppointmentModalProps) {
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
   const modalRef = useRef<HTMLDivElement>(null);
   const firstInputRef = useRef<HTMLInputElement>(null);
 
+  // What is being created (the blocked time option only exists with onCreateBlockedTime)
+  const [mode, setMode] = useState<'appointment' | 'blockedTime'>('appointment');
+  const isBlockedTimeMode = mode === 'blockedTime' && Boolean(onCreateBlockedTime);
+
   // Form state
   const [clientName, setClientName] = useState('');
   const [date, setDate] = useState('');
@@ -67,6 +111,13 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
   const [phone, setPhone] = useState('');
   const [notes, setNotes] = useState('');
   const [submitError, setSubmitError] = useState('');
+  const { isSaving, error: saveError, run, clearError } = useAsyncAction();
+
+  // Repeat state ('' = does not repeat)
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | ''>('');
+  const [repeatInterval, setRepeatInterval] = useState('1');
+  const [repeatCount, setRepeatCount] = useState('');
+  const [repeatUntil, setRepeatUntil] = useState('');
 
   // Jobs list - each job is a (service, technician) pair
   const [jobs, setJobs] = useState<JobEntry[]>([]);
@@ -91,14 +142,14 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
       const categoryKey =
         typeof service.category === 'string'
           ? service.category
-          : (service.category?.name ?? 'Uncategorized');
+          : (service.category?.name ?? messages.uncategorized);
       if (!grouped[categoryKey]) {
         grouped[categoryKey] = [];
       }
       grouped[categoryKey].push(service);
     });
     return grouped;
-  }, [builderAvailableServices]);
+  }, [builderAvailableServices, messages]);
 
   const categories = useMemo(() => Object.keys(servicesByCategory), [servicesByCategory]);
 
@@ -135,14 +186,60 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
     return jobs.reduce((sum, job) => sum + getServiceDuration(job.serviceId), 0);
   }, [jobs, getServiceDuration]);
 
+  // Start of the booking being created (null until date and time are filled in)
+  const startDateTime = useMemo(() => {
+    if (!date || !time) return null;
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(year, month - 1, day, hours, minutes);
+  }, [date, time]);
+
+  // Existing bookings that overlap the one being created
+  const conflicts = useMemo(() => {
+    if (!getConflicts || !startDateTime || jobs.length === 0 || totalDuration <= 0) return [];
+    return getConflicts({
+      startTime: startDateTime,
+      duration: totalDuration,
+      jobs: jobs.map((j) => ({ serviceType: j.serviceId, technicianId: j.technicianId || undefined })),
+    });
+  }, [getConflicts, startDateTime, jobs, totalDuration]);
+  const isBlockedByConflict = conflictPolicy === 'block' && conflicts.length > 0;
+
+  // Chosen technicians who are off, outside their shift or in blocked time at that time (warning only)
+  const availabilityIssues = useMemo(() => {
+    if (!startDateTime || totalDuration <= 0) return [];
+    const technicianIds = Array.from(new Set(jobs.map((j) => j.technicianId).filter(Boolean)));
+    const issues = getAvailabilityIssues(technicians, technicianIds, startDateTime, totalDuration, i18n);
+    const blocked = findBlockedTimeConflicts(
+      {
+        startTime: startDateTime,
+        duration: totalDuration,
+        jobs: jobs.map((j) => ({ serviceType: j.serviceId, technicianId: j.technicianId || undefined })),
+      },
+      blockedTimes ?? []
+    );
+    if (blocked.length > 0) {
+      issues.push(formatMessage(messages.blockedIssue, {
+        details: describeBlockedTimeConflicts(blocked, technicians, i18n),
+      }));
+    }
+    return issues;
+  }, [technicians, jobs, startDateTime, totalDuration, blockedTimes, i18n, messages]);
+
   // Reset form when modal opens
   useEffect(() => {
     if (isOpen) {
+      setMode('appointment');
       setClientName('');
       setEmail('');
       setPhone('');
       setNotes('');
       setSubmitError('');
+      clearError();
+      setRepeatFrequency('');
+      setRepeatInterval('1');
+      setRepeatCount('');
+      setRepeatUntil('');
       setJobs([]);
       setBuilderServiceId('');
       setBuilderTechnicianId(initialTechnicianId || '');
@@ -157,7 +254,7 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
         const minutes = String(initialStartTime.getMinutes()).padStart(2, '0');
         setTime(`${hours}:${minutes}`);
       } else {
-        const now = new Date();
+        const now = getNow(timeZone);
         const year = now.getFullYear();
         const month = String(now.getMonth() + 1).padStart(2, '0');
         const day = String(now.getDate()).padStart(2, '0');
@@ -167,19 +264,19 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
         setTime(`${String(nextHour).padStart(2, '0')}:00`);
       }
     }
-  }, [isOpen, initialStartTime, initialTechnicianId]);
+  }, [isOpen, initialStartTime, initialTechnicianId, timeZone, clearError]);
 
   // Handle escape key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !isSaving) {
         onClose();
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, onClose]);
+  }, [isOpen, isSaving, onClose]);
 
   // Focus first input when modal opens
   useEffect(() => {
@@ -245,12 +342,16 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
     setSubmitError('');
 
     if (!clientName.trim() || !date || !time || !phone.trim()) {
-      setSubmitError('Please fill in all required fields (client name, date, time, and phone number).');
+      setSubmitError(messages.errorRequiredFields);
       return;
     }
 
     if (jobs.length === 0) {
-      setSubmitError('Please add at least one job (service).');
+      setSubmitError(messages.errorNoJobs);
+      return;
+    }
+
+    if (isBlockedByConflict) {
       return;
     }
 
@@ -265,6 +366,30 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
       ...(j.technicianId && { technicianId: j.technicianId }),
     }));
 
+    // Build recurrence rule when the booking repeats
+    let recurrence: RecurrenceRule | undefined;
+    if (repeatFrequency) {
+      const interval = parseInt(repeatInterval, 10);
+      if (!interval || interval < 1) {
+        setSubmitError(messages.errorRepeatInterval);
+        return;
+      }
+      const count = parseInt(repeatCount, 10);
+      recurrence = {
+        frequency: repeatFrequency,
+        interval,
+        ...(count > 0 && { count }),
+      };
+      if (repeatUntil) {
+        const [untilYear, untilMonth, untilDay] = repeatUntil.split('-').map(Number);
+        recurrence.until = new Date(untilYear, untilMonth - 1, untilDay);
+        if (recurrence.until < new Date(year, month - 1, day)) {
+          setSubmitError(messages.errorRepeatUntil);
+          return;
+        }
+      }
+    }
+
     const appointmentData: NewAppointmentData = {
       client: { name: clientName.trim(), path: '' },
       jobs: jobsData,
@@ -273,11 +398,11 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
       phone: phone.trim(),
       ...(email.trim() && { email: email.trim() }),
       ...(notes.trim() && { notes: notes.trim() }),
+      ...(recurrence && { recurrence }),
     };
 
-    onCreate(appointmentData);
-    onClose();
-  }, [clientName, jobs, date, time, email, phone, notes, totalDuration, onCreate, onClose]);
+    run(() => onCreate(appointmentData), onClose);
+  }, [clientName, jobs, date, time, email, phone, notes, totalDuration, repeatFrequency, repeatInterval, repeatCount, repeatUntil, isBlockedByConflict, onCreate, onClose, messages, run]);
 
   if (!isOpen) {
     return null;
@@ -286,14 +411,38 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
   return (
     <div className="modal-backdrop" role="dialog" aria-modal="true" aria-labelledby="create-modal-title">
       {/* Backdrop */}
-      <div className="modal-overlay" onClick={onClose} aria-hidden="true" />
+      <div className="modal-overlay" onClick={isSaving ? undefined : onClose} aria-hidden="true" />
 
       {/* Modal content */}
       <div ref={modalRef} className="modal-content large">
         {/* Colored header */}
         <div className={`modal-colored-header`}>
-          <h2 id="create-modal-title">New Appointment</h2>
-          <p>Fill in the details below to create a new booking</p>
+          <h2 id="create-modal-title">{isBlockedTimeMode ? messages.blockTimeTitle : messages.newAppointmentTitle}</h2>
+          <p>
+            {isBlockedTimeMode
+              ? messages.blockTimeSubtitle
+              : messages.newAppointmentSubtitle}
+          </p>
+          {onCreateBlockedTime && (
+            <div className="view-toggle create-mode-toggle">
+              <button
+                type="button"
+                onClick={() => setMode('appointment')}
+                className={`view-toggle-btn ${!isBlockedTimeMode ? 'active' : ''}`}
+                aria-pressed={!isBlockedTimeMode}
+              >
+                {messages.modeAppointment}
+              </button>
+              <button
+                type="button"
+                onClick={() => setMode('blockedTime')}
+                className={`view-toggle-btn ${isBlockedTimeMode ? 'active' : ''}`}
+                aria-pressed={isBlockedTimeMode}
+              >
+                {messages.modeBlockedTime}
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Close button */}
@@ -301,7 +450,8 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
           type="button"
           onClick={onClose}
           className="modal-close-btn"
-          aria-label="Close"
+          disabled={isSaving}
+          aria-label={messages.close}
         >
           <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -309,208 +459,288 @@ export const CreateAppointmentModal = memo(function CreateAppointmentModal({
         </button>
 
         {/* Form */}
-        <form onSubmit={handleSubmit} className="modal-body">
-          {/* Client Name */}
-          <div className="form-group">
-            <label htmlFor="clientName" className="form-label">
-              Client Name <span className="required">*</span>
-            </label>
-            <input
-              ref={firstInputRef}
-              type="text"
-              id="clientName"
-              value={clientName}
-              onChange={(e) => setClientName(e.target.value)}
-              placeholder="Enter client's full name"
-              required
-              className="form-input"
-            />
-          </div>
-
-          {/* Jobs - each job is a service + technician pair */}
-          <div className="form-group">
-            <label className="form-label">
-              Jobs <span className="required">*</span>
-            </label>
-
-            {/* Added jobs list */}
-            {jobs.length > 0 && (
-              <div className="jobs-list">
-                {jobs.map((job, index) => {
-                  const service = services.find(s => s.id === job.serviceId);
-                  const tech = technicians.find(t => t.id === job.technicianId);
-                  const duration = service?.duration;
-                  return (
-                    <div key={job.key} className="job-entry">
-                      <span className="job-entry-number">{index + 1}</span>
-                      <div className="job-entry-info">
-                        <span className="job-entry-service">
-                          {service?.name ?? job.serviceId}
-                        </span>
-                        {tech && (
-                          <span className="job-entry-tech">by {tech.name}</span>
+        {isBlockedTimeMode && onCreateBlockedTime ? (
+          <BlockedTimeForm
+            onCreate={onCreateBlockedTime}
+            onCancel={onClose}
+            initialStartTime={initialStartTime}
+            initialEndTime={initialEndTime}
+            initialTechnicianId={initialTechnicianId}
+            technicians={technicians}
+            timeZone={timeZone}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="modal-body">
+            {/* Client Name */}
+            <div className="form-group">
+              <label htmlFor="clientName" className="form-label">
+                {messages.clientName} <span className="required">*</span>
+              </label>
+              <input
+                ref={firstInputRef}
+                type="text"
+                id="clientName"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+                placeholder={messages.clientNamePlaceholder}
+                required
+                className="form-input"
+              />
+            </div>
+
+            {/* Jobs - each job is a service + technician pair */}
+            <div className="form-group">
+              <label className="form-label">
+                {messages.jobs} <span className="required">*</span>
+              </label>
+
+              {/* Added jobs list */}
+              {jobs.length > 0 && (
+                <div className="jobs-list">
+                  {jobs.map((job, index) => {
+                    const service = services.find(s => s.id === job.serviceId);
+                    const tech = technicians.find(t => t.id === job.technicianId);
+                    const duration = service?.duration;
+                    return (
+                      <div key={job.key} className="job-entry">
+                        <span className="job-entry-number">{index + 1}</span>
+                        <div className="job-entry-info">
+                          <span className="job-entry-service">
+                            {service?.name ?? job.serviceId}
+                          </span>
+                          {tech && (
+                            <span className="job-entry-tech">{formatMessage(messages.jobBy, { name: tech.name })}</span>
+                          )}
+                        </div>
+                        {duration != null && duration > 0 && (
+                          <span className="job-entry-duration">{formatMessage(messages.minutesShort, { count: duration })}</span>
                         )}
+                        <button
+                          type="button"
+                          className="job-entry-remove"
+                          onClick={() => handleRemoveJob(job.key)}
+                          aria-label={formatMessage(messages.removeJob, { number: index + 1 })}
+                        >
+                          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                          </svg>
+                        </button>
                       </div>
-                      {duration != null && duration > 0 && (
-                        <span className="job-entry-duration">{duration} min</span>
-                      )}
-                      <button
-                        type="button"
-                        className="job-entry-remove"
-                        onClick={() => handleRemoveJob(job.key)}
-                        aria-label={`Remove job ${index + 1}`}
-                      >
-                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <path d="M18 6L6 18M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
-                  );
-                })}
-                <div className="jobs-summary">
-                  <span>{jobs.length} job{jobs.length !== 1 ? 's' : ''}</span>
-                  {totalDuration > 0 && (
-                    <span className="jobs-summary-duration">{totalDuration} min total</span>
-                  )}
+                    );
+                  })}
+                  <div className="jobs-summary">
+                    <span>{formatCountMessage(i18n, messages.jobCountOne, messages.jobCountOther, jobs.length)}</span>
+                    {totalDuration > 0 && (
+                      <span className="jobs-summary-duration">{formatMessage(messages.totalMinutes, { count: totalDuration })}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Job builder row */}
+              <div className="job-builder">
+                <div className="job-builder-fields">
+                  <select
+                    value={builderServiceId}
+                    onChange={(e) => handleBuilderServiceChange(e.target.value)}
+                    className="form-select"
+                    aria-label={messages.selectService}
+                  >
+                    <option value="">{messages.selectServicePlaceholder}</option>
+                    {categories.map((category) => (
+                      <optgroup key={category} label={category.charAt(0).toUpperCase() + category.slice(1)}>
+                        {servicesByCategory[category].map((service) => (
+                          <option key={service.id} value={service.id}>
+                            {service.name}{service.duration != null ? ` (${formatMessage(messages.minutesShort, { count: service.duration })})` : ''}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                  <select
+                    value={builderTechnicianId}
+                    onChange={(e) => handleBuilderTechnicianChange(e.target.value)}
+                    className="form-select"
+                    aria-label={messages.selectTechnician}
+                  >
+                    <option value="">{messages.technicianOptional}</option>
+                    {builderAvailableTechnicians.map((tech) => (
+                      <option key={tech.id} value={tech.id}>{tech.name}</option>
+                    ))}
+                  </select>
                 </div>
+                <button
+                  type="button"
+                  onClick={handleAddJob}
+                  className="btn btn-outline job-builder-add-btn"
+                  disabled={!builderServiceId}
+                >
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M12 5v14M5 12h14" />
+                  </svg>
+                  {messages.add}
+                </button>
               </div>
-            )}
+            </div>
 
-            {/* Job builder row */}
-            <div className="job-builder">
-              <div className="job-builder-fields">
-                <select
-                  value={builderServiceId}
-                  onChange={(e) => handleBuilderServiceChange(e.target.value)}
-                  className="form-select"
-                  aria-label="Select a service"
-                >
-                  <option value="">Select a service...</option>
-                  {categories.map((category) => (
-                    <optgroup key={category} label={category.charAt(0).toUpperCase() + category.slice(1)}>
-                      {servicesByCategory[category].map((service) => (
-                        <option key={service.id} value={service.id}>
-                          {service.name}{service.duration != null ? ` (${service.duration} min)` : ''}
-                        </option>
-                      ))}
-                    </optgroup>
-                  ))}
-                </select>
-                <select
-                  value={builderTechnicianId}
-                  onChange={(e) => handleBuilderTechnicianChange(e.target.value)}
-                  className="form-select"
-                  aria-label="Select a technician"
-                >
-                  <option value="">Technician (optional)</option>
-                  {builderAvailableTechnicians.map((tech) => (
-                    <option key={tech.id} value={tech.id}>{tech.name}</option>
-                  ))}
-                </select>
+            {/* Date and Time */}
+            <div className="form-group">
+              <div className="form-grid" style={{ gap: '1rem' }}>
+                <div>
+                  <label htmlFor="date" className="form-label">
+                    {messages.date} <span className="required">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    id="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    required
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="time" className="form-label">
+                    {messages.time} <span className="required">*</span>
+                  </label>
+                  <input
+                    type="time"
+                    id="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    required
+                    className="form-input"
+                  />
+                </div>
               </div>
-              <button
-                type="button"
-                onClick={handleAddJob}
-                className="btn btn-outline job-builder-add-btn"
-                disabled={!builderServiceId}
+            </div>
+
+            {/* Repeat */}
+            <div className="form-group">
+              <label htmlFor="repeat" className="form-label">{messages.repeat}</label>
+              <select
+                id="repeat"
+                value={repeatFrequency}
+                onChange={(e) => setRepeatFrequency(e.target.value as RecurrenceFrequency | '')}
+                className="form-select"
               >
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M12 5v14M5 12h14" />
-                </svg>
-                Add
-              </button>
+                <option value="">{messages.doesNotRepeat}</option>
+                <option value="daily">{messages.frequencyDaily}</option>
+                <option value="weekly">{messages.frequencyWeekly}</option>
+                <option value="monthly">{messages.frequencyMonthly}</option>
+              </select>
+              {repeatFrequency && (
+                <div className="recurrence-fields">
+                  <div>
+                    <label htmlFor="repeatInterval" className="form-label">{messages.repeatEvery}</label>
+                    <div className="recurrence-interval">
+                      <input
+                        type="number"
+                        id="repeatInterval"
+                        min={1}
+                        value={repeatInterval}
+                        onChange={(e) => setRepeatInterval(e.target.value)}
+                        className="form-input"
+                      />
+                      <span>{messages[REPEAT_UNITS[repeatFrequency]]}</span>
+                    </div>
+                  </div>
+                  <div>
+                    <label htmlFor="repeatCount" className="form-label">{messages.occurrences}</label>
+                    <input
+                      type="number"
+                      id="repeatCount"
+                      min={1}
+                      value={repeatCount}
+                      onChange={(e) => setRepeatCount(e.target.value)}
+                      placeholder={messages.noLimit}
+                      className="form-input"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="repeatUntil" className="form-label">{messages.until}</label>
+                    <input
+                      type="date"
+                      id="repeatUntil"
+                      value={repeatUntil}
+                      onChange={(e) => setRepeatUntil(e.target.value)}
+                      className="form-input"
+                    />
+                  </div>
+                </div>
+              )}
             </div>
-          </div>
-
-          {/* Date and Time */}
-          <div className="form-group">
-            <div className="form-grid" style={{ gap: '1rem' }}>
-              <div>
-                <label htmlFor="date" className="form-label">
-                  Date <span className="required">*</span>
-                </label>
-                <input
-                  type="date"
-                  id="date"
-                  value={date}
-                  onChange={(e) => setDate(e.target.value)}
-                  required
-                  className="form-input"
-                />
-              </div>
-              <div>
-                <label htmlFor="time" className="form-label">
-                  Time <span className="required">*</span>
-                </label>
-                <input
-                  type="time"
-                  id="time"
-                  value={time}
-                  onChange={(e) => setTime(e.target.value)}
-                  required
-                  className="form-input"
-                />
+
+            {/* Email */}
+            <div className="form-group">
+              <label htmlFor="email" className="form-label">{messages.emailOptional}</label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={messages.emailPlaceholder}
+                className="form-input"
+              />
+            </div>
+
+            {/* Phone */}
+            <div className="form-group">
+              <label htmlFor="phone" className="form-label">
+                {messages.phoneNumber} <span className="required">*</span>
+              </label>
+              <input
+                type="tel"
+                id="phone"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder={messages.phonePlaceholder}
+                required
+                className="form-input"
+              />
+            </div>
+
+            {/* Notes */}
+            <div className="form-group">
+              <label htmlFor="notes" className="form-label">{messages.notes}</label>
+              <textarea
+                id="notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={messages.notesPlaceholder}
+                rows={3}
+                className="form-textarea"
+              />
+            </div>
+
+            {/* Actions */}
+            {availabilityIssues.length > 0 && (
+              <div className="conflict-warning availability-warning" role="alert">
+                <svg className="conflict-warning-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <div>
+                  <p className="conflict-warning-title">{messages.technicianUnavailable}</p>
+                  <p className="conflict-warning-text">{availabilityIssues.join('; ')}</p>
+                </div>
               </div>
+            )}
+            <ConflictWarning conflicts={conflicts} policy={conflictPolicy} technicians={technicians} />
+            {(submitError || saveError) && (
+              <p className="form-error" role="alert">
+                {submitError || saveError}
+              </p>
+            )}
+            <div className="btn-group">
+              <button type="button" onClick={onClose} className="btn btn-outline" disabled={isSaving}>
+                {messages.cancel}
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={isBlockedByConflict || isSaving}>
+                {isSaving ? messages.saving : messages.createAppointment}
+              </button>
             </div>
-          </div>
-
-          {/* Email */}
-          <div className="form-group">
-            <label htmlFor="email" className="form-label">Email (optional)</label>
-            <input
-              type="email"
-              id="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="client@example.com"
-              className="form-input"
-            />
-          </div>
-
-          {/* Phone */}
-          <div className="form-group">
-            <label htmlFor="phone" className="form-label">
-              Phone Number <span className="required">*</span>
-            </label>
-            <input
-              type="tel"
-              id="phone"
-              value={phone}
-              onChange={(e) => setPhone(e.target.value)}
-              placeholder="(555) 123-4567"
-              required
-              className="form-input"
-            />
-          </div>
-
-          {/* Notes */}
-          <div className="form-group">
-            <label htmlFor="notes" className="form-label">Notes</label>
-            <textarea
-              id="notes"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Any special requests or notes..."
-              rows={3}
-              className="form-textarea"
-            />
-          </div>
-
-          {/* Actions */}
-          {submitError && (
-            <p className="form-error" role="alert" style={{ marginBottom: '0.75rem', color: 'var(--color-rose-600, #e11d48)' }}>
-              {submitError}
-            </p>
-          )}
-          <div className="btn-group">
-            <button type="button" onClick={onClose} className="btn btn-outline">
-              Cancel
-            </button>
-            <button type="submit" className="btn btn-primary">
-              Create Appointment
-            </button>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+import { memo } from 'react';
+import { calculateTopPosition, SLOT_DURATION, SLOT_HEIGHT } from '../../utils/timeUtils';
+
+/**
+ * CurrentTimeIndicator Component
+ *
+ * Draws the "now" line across a day column of the time grid.
+ * Positioned like appointment blocks (calculateTopPosition); nothing is drawn
+ * outside the grid's hours.
+ */
+
+interface CurrentTimeIndicatorProps {
+  /** Current time (wall-clock time of the grid) */
+  now: Date;
+  /** Hour the grid starts at */
+  startHour: number;
+  /** Hour the grid ends at */
+  endHour: number;
+  /** Length of each slot in minutes (default: 30) */
+  slotDuration?: number;
+  /** Height of each slot in pixels (default: 60) */
+  slotHeight?: number;
+}
+
+export const CurrentTimeIndicator = memo(function CurrentTimeIndicator({
+  now,
+  startHour,
+  endHour,
+  slotDuration = SLOT_DURATION,
+  slotHeight = SLOT_HEIGHT,
+}: CurrentTimeIndicatorProps) {
+  if (now.getHours() < startHour || now.getHours() >= endHour) {
+    return null;
+  }
+
+  return (
+    <div
+      className="current-time-indicator"
+      style={{ top: `${calculateTopPosition(now, startHour, slotDuration, slotHeight)}px` }}
+      aria-hidden="true"
+    >
+      <span className="current-time-dot" />
+    </div>
+  );
+});
+
+export default CurrentTimeIndicator;
@@ -1,4 +1,7 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
+import { getNow, formatMonthYear } from '../../utils/timeUtils';
+import { formatMessage, formatCountMessage, getWeekdayNames } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
 
 interface DatePickerModalProps {
     isOpen: boolean;
@@ -9,6 +12,10 @@ interface DatePickerModalProps {
     maxRangeDays?: number;
     onSelectDate?: (date: Date) => void;
     onSelectRange?: (startDate: Date, endDate: Date) => void;
+    /** Studio time zone; decides which day is "today" (default: the viewer's) */
+    timeZone?: string;
+    /** Returns false for days that can't be picked (hidden weekdays, closed days) */
+    isDayVisible?: (date: Date) => boolean;
 }
 
 /**
@@ -17,6 +24,8 @@ interface DatePickerModalProps {
  * A modal dialog for selecting dates.
  * - In 'single' mode: select a single date
  * - In 'range' mode: select a date range (max 7 days by default)
+ * - Weeks start on the locale's first day of the week
+ * - Hidden days (isDayVisible) are shown disabled and can't start or end a range
  */
 export function DatePickerModal({
     isOpen,
@@ -27,9 +36,14 @@ export function DatePickerModal({
     maxRangeDays = 7,
     onSelectDate,
     onSelectRange,
+    timeZone,
+    isDayVisible,
 }: DatePickerModalProps) {
+    const i18n = useSchedulerLocale();
+    const { locale, weekStartsOn, messages } = i18n;
+
     const [currentMonth, setCurrentMonth] = useState(() => {
-        const date = initialDate ?? new Date();
+        const date = initialDate ?? getNow(timeZone);
         return new Date(date.getFullYear(), date.getMonth(), 1);
     });
 
@@ -41,14 +55,14 @@ export function DatePickerModal({
     // Reset state when modal opens
     useEffect(() => {
         if (isOpen) {
-            const date = initialDate ?? new Date();
+            const date = initialDate ?? getNow(timeZone);
             setCurrentMonth(new Date(date.getFullYear(), date.getMonth(), 1));
             setSelectedDate(initialDate ?? null);
             setRangeStart(initialDate ?? null);
             setRangeEnd(initialEndDate ?? null);
             setHoverDate(null);
         }
-    }, [isOpen, initialDate, initialEndDate]);
+    }, [isOpen, initialDate, initialEndDate, timeZone]);
 
     // Get days in month
     const daysInMonth = useMemo(() => {
@@ -59,7 +73,8 @@ export function DatePickerModal({
         const days: (Date | null)[] = [];
 
         // Add empty slots for days before the first day of month
-        for (let i = 0; i < firstDay.getDay(); i++) {
+        const leadingDays = (firstDay.getDay() - weekStartsOn + 7) % 7;
+        for (let i = 0; i < leadingDays; i++) {
             days.push(null);
         }
 
@@ -69,7 +84,13 @@ export function DatePickerModal({
         }
 
         return days;
-    }, [currentMonth]);
+    }, [currentMonth, weekStartsOn]);
+
+    // Two-letter weekday headers in week order
+    const weekdayLabels = useMemo(
+        () => getWeekdayNames(locale, weekStartsOn).map((name) => name.slice(0, 2)),
+        [locale, weekStartsOn]
+    );
 
     // Navigation handlers
     const goToPreviousMonth = useCallback(() => {
@@ -81,9 +102,7 @@ export function DatePickerModal({
     }, []);
 
     // Format month/year label
-    const monthLabel = useMemo(() => {
-        return currentMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-    }, [currentMonth]);
+    const monthLabel = useMemo(() => formatMonthYear(currentMonth, i18n), [currentMonth, i18n]);
 
     // Check if two dates are the same day
     const isSameDay = (a: Date | null, b: Date | null): boolean => {
@@ -107,7 +126,7 @@ export function DatePickerModal({
 
     // Check if date is today
     const isToday = (date: Date): boolean => {
-        const today = new Date();
+        const today = getNow(timeZone);
         return isSameDay(date, today);
     };
 
@@ -119,8 +138,14 @@ export function DatePickerModal({
         return days > maxRangeDays;
     }, [rangeStart, rangeEnd, maxRangeDays]);
 
+    // Check if date is hidden (can't be picked)
+    const isHidden = useCallback((date: Date): boolean => {
+        return isDayVisible ? !isDayVisible(date) : false;
+    }, [isDayVisible]);
+
     // Handle day click
     const handleDayClick = useCallback((date: Date) => {
+        if (isHidden(date)) return;
         if (mode === 'single') {
             setSelectedDate(date);
         } else {
@@ -143,7 +168,7 @@ export function DatePickerModal({
                 }
             }
         }
-    }, [mode, rangeStart, rangeEnd, maxRangeDays]);
+    }, [mode, rangeStart, rangeEnd, maxRangeDays, isHidden]);
 
     // Handle confirm
     const handleConfirm = useCallback(() => {
@@ -162,15 +187,16 @@ export function DatePickerModal({
 
     // Handle go to today
     const handleGoToToday = useCallback(() => {
-        const today = new Date();
+        const today = getNow(timeZone);
         setCurrentMonth(new Date(today.getFullYear(), today.getMonth(), 1));
+        if (isHidden(today)) return;
         if (mode === 'single') {
             setSelectedDate(today);
         } else {
             setRangeStart(today);
             setRangeEnd(null);
         }
-    }, [mode]);
+    }, [mode, timeZone, isHidden]);
 
     // Get day cell classes
     const getDayClasses = (date: Date): string => {
@@ -181,7 +207,7 @@ export function DatePickerModal({
             : isSameDay(date, rangeStart) || isSameDay(date, rangeEnd);
 
         const inRange = mode === 'range' && isInRange(date);
-        const isDisabled = mode === 'range' && !rangeEnd && wouldExceedMaxDays(date);
+        const isDisabled = isHidden(date) || (mode === 'range' && !rangeEnd && wouldExceedMaxDays(date));
 
         if (isDisabled) {
             classes.push('disabled');
@@ -202,12 +228,12 @@ export function DatePickerModal({
 
         if (rangeStart && rangeEnd) {
             const diff = Math.ceil((rangeEnd.getTime() - rangeStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-            return `${diff} day${diff > 1 ? 's' : ''} selected`;
+            return formatCountMessage(i18n, messages.daysSelectedOne, messages.daysSelectedOther, diff);
         } else if (rangeStart) {
-            return `Select end date (max ${maxRangeDays} days)`;
+            return formatMessage(messages.selectEndDate, { count: maxRangeDays });
         }
-        return 'Select start date';
-    }, [mode, rangeStart, rangeEnd, maxRangeDays]);
+        return messages.selectStartDate;
+    }, [mode, rangeStart, rangeEnd, maxRangeDays, i18n, messages]);
 
     if (!isOpen) return null;
 
@@ -225,12 +251,12 @@ export function DatePickerModal({
                 {/* Header */}
                 <div className="datepicker-header">
                     <h2 className="datepicker-title">
-                        {mode === 'single' ? 'Select Date' : 'Select Date Range'}
+                        {mode === 'single' ? messages.selectDateTitle : messages.selectDateRangeTitle}
                     </h2>
                     <p className="datepicker-subtitle">
                         {mode === 'single'
-                            ? 'Choose a date to view'
-                            : `Select up to ${maxRangeDays} days`}
+                            ? messages.selectDateSubtitle
+                            : formatMessage(messages.selectDateRangeSubtitle, { count: maxRangeDays })}
                     </p>
                 </div>
 
@@ -238,13 +264,13 @@ export function DatePickerModal({
                 <div className="datepicker-calendar">
                     {/* Month navigation */}
                     <div className="datepicker-nav">
-                        <button type="button" onClick={goToPreviousMonth} className="datepicker-nav-btn">
+                        <button type="button" onClick={goToPreviousMonth} className="datepicker-nav-btn" aria-label={messages.previousMonth}>
                             <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                             </svg>
                         </button>
                         <span className="datepicker-month-label">{monthLabel}</span>
-                        <button type="button" onClick={goToNextMonth} className="datepicker-nav-btn">
+                        <button type="button" onClick={goToNextMonth} className="datepicker-nav-btn" aria-label={messages.nextMonth}>
                             <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                             </svg>
@@ -253,8 +279,8 @@ export function DatePickerModal({
 
                     {/* Weekday headers */}
                     <div className="datepicker-weekdays">
-                        {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map((day) => (
-                            <div key={day} className="datepicker-weekday">{day}</div>
+                        {weekdayLabels.map((day, index) => (
+                            <div key={index} className="datepicker-weekday">{day}</div>
                         ))}
                     </div>
 
@@ -268,7 +294,7 @@ export function DatePickerModal({
                                     onClick={() => handleDayClick(date)}
                                     onMouseEnter={() => setHoverDate(date)}
                                     onMouseLeave={() => setHoverDate(null)}
-                                    disabled={mode === 'range' && !rangeEnd && wouldExceedMaxDays(date)}
+                                    disabled={isHidden(date) || (mode === 'range' && !rangeEnd && wouldExceedMaxDays(date))}
                                     className={getDayClasses(date)}
                                 >
                                     {date.getDate()}
@@ -288,11 +314,11 @@ export function DatePickerModal({
                 {/* Footer */}
                 <div className="datepicker-footer">
                     <button type="button" onClick={handleGoToToday} className="btn btn-ghost">
-                        Today
+                        {messages.today}
                     </button>
                     <div className="datepicker-footer-actions">
                         <button type="button" onClick={onClose} className="btn btn-outline" style={{ padding: '0.5rem 1rem' }}>
-                            Cancel
+                            {messages.cancel}
                         </button>
                         <button
                             type="button"
@@ -301,7 +327,7 @@ export function DatePickerModal({
                             className="btn btn-primary"
                             style={{ padding: '0.5rem 1rem' }}
                         >
-                            Confirm
+                            {messages.confirm}
                         </button>
                     </div>
                 </div>
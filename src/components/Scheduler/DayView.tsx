@@ -1,32 +1,36 @@
-import { memo, useMemo, useCallback } from 'react';
-import { useDroppable } from '@dnd-kit/core';
-import type { Appointment, TimeSlot, Technician } from '../../types/scheduler';
-import { getArtistId } from '../../utils/artistUtils';
+import { memo, useId, useMemo } from 'react';
+import type { Appointment, BlockedTime, Technician, OpenInterval } from '../../types/scheduler';
 import {
   formatFullDate,
   isToday,
+  isSameDay,
   generateTimeSlots,
   SLOT_HEIGHT,
-  addMinutes,
   SLOT_DURATION,
 } from '../../utils/timeUtils';
-import {
-  calculateAppointmentLayouts,
-  filterAppointmentsByDay,
-  filterByWorkingHours,
-} from '../../utils/layoutUtils';
-import { DEFAULT_TECHNICIAN_COLOR } from '../../utils/colorUtils';
+import { getTechnicianColumnKey, getSlotCellKey } from '../../utils/gridNavigationUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { useGridNavigation } from '../../hooks/useGridNavigation';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
 import { TimeColumn } from './TimeColumn';
-import { AppointmentBlock } from './AppointmentBlock';
+import { TechnicianColumn } from './TechnicianColumn';
+import { GridTimeRows } from './GridTimeRows';
 
 /**
  * DayView Component
  * 
  * Displays a single day's schedule with:
- * - Technician/artist columns on the x-axis
+ * - Technician/artist columns on the x-axis (see TechnicianColumn)
  * - Time of day on the y-axis
  * - Each column shows appointments for that technician
- * - Droppable zones for cross-technician drag-and-drop
+ * - Droppable zones for cross-technician drag-and-drop (reassigns the appointment)
+ * - Closed times (before opening, lunch closures) shaded and not clickable when openIntervals is set
+ * - Time a technician isn't working (shifts, breaks, time off) hatched and not clickable
+ * - Blocked time in its technician's column; studio-wide blocks in every column
+ * - A line at the current time across the columns when the day is today
+ * - ARIA grid with roving focus: time rows across the technician columns, whose slot cells hold
+ *   the blocks starting in them (arrow keys between them, Enter to create or open)
  */
 
 interface DayViewProps {
@@ -40,6 +44,12 @@ interface DayViewProps {
   startHour: number;
   /** Ending hour of the work day */
   endHour: number;
+  /** Length of each slot in minutes (default: 30) */
+  slotDuration?: number;
+  /** Height of each slot in pixels (default: 60) */
+  slotHeight?: number;
+  /** Exact open intervals of the day (from businessHours); slots outside them are disabled */
+  openIntervals?: OpenInterval[];
   /** Callback when an appointment is clicked */
   onAppointmentClick?: (appointment: Appointment) => void;
   /** Callback when an empty slot is clicked (technicianId is passed) */
@@ -48,133 +58,76 @@ interface DayViewProps {
   selectedAppointmentId?: string | null;
   /** ID of appointment being dragged */
   draggingAppointmentId?: string | null;
+  /** Show a bottom-edge resize handle on appointment blocks */
+  resizable?: boolean;
+  /** IDs of appointments that double-book a technician (flagged on their blocks) */
+  conflictingAppointmentIds?: Set<string>;
+  /** IDs of appointments whose change is still being saved (shown as pending, not draggable) */
+  pendingAppointmentIds?: Set<string>;
+  /** Return false when an appointment can't be moved to a technician (column shows a rejected state) */
+  canReassign?: (appointment: Appointment, technicianId: string) => boolean;
+  /** Blocked time (meetings, cleaning, training) to show alongside appointments */
+  blockedTimes?: BlockedTime[];
+  /** Allow dragging blocked time */
+  blockedTimesDraggable?: boolean;
+  /** Callback when blocked time is deleted (shows the delete button) */
+  onDeleteBlockedTime?: (blockedTime: BlockedTime) => void;
+  /** Studio time zone; decides which day is "today" (default: the viewer's) */
+  timeZone?: string;
+  /** Show a line at the current time when the day is today, updated every minute (default: true) */
+  showCurrentTime?: boolean;
+  /** Color of an appointment's block (default: its technician's color) */
+  getAppointmentColor?: (appointment: Appointment) => string;
 }
 
-/**
- * Single technician column within the day view
- */
-interface TechnicianColumnProps {
-  date: Date;
-  technician: Technician;
-  appointments: Appointment[];
-  slots: TimeSlot[];
-  startHour: number;
-  endHour: number;
-  onAppointmentClick?: (appointment: Appointment) => void;
-  onSlotClick?: (startTime: Date, endTime: Date, technicianId?: string) => void;
-  selectedAppointmentId?: string | null;
-  draggingAppointmentId?: string | null;
-}
-
-const TechnicianColumn = memo(function TechnicianColumn({
-  date,
-  technician,
-  appointments,
-  slots,
-  startHour,
-  endHour,
-  onAppointmentClick,
-  onSlotClick,
-  selectedAppointmentId,
-  draggingAppointmentId,
-}: TechnicianColumnProps) {
-  // Set up droppable zone for this technician column
-  const { setNodeRef, isOver } = useDroppable({
-    id: `tech-${technician.id}-${date.toISOString()}`,
-    data: { date, technicianId: technician.id },
-  });
-
-  // Provide a safe ref callback in case DndContext is not available
-  const safeSetNodeRef = setNodeRef || (() => { });
-
-  // Filter appointments for this technician only (using technician ID)
-  const technicianAppointments = useMemo(() => {
-    return appointments.filter((apt) => getArtistId(apt.artist) === technician.id);
-  }, [appointments, technician.id]);
-
-  // Calculate layouts for this technician's appointments; add technician color to each
-  const techColor = technician.color ?? DEFAULT_TECHNICIAN_COLOR;
-  const layouts = useMemo(() => {
-    const dayAppointments = filterAppointmentsByDay(technicianAppointments, date);
-    const validAppointments = filterByWorkingHours(dayAppointments, startHour, endHour);
-    const raw = calculateAppointmentLayouts(validAppointments, startHour);
-    return raw.map((layout) => ({ ...layout, color: techColor }));
-  }, [technicianAppointments, date, startHour, endHour, techColor]);
-
-  const handleSlotClick = useCallback(
-    (slot: TimeSlot) => {
-      if (onSlotClick) {
-        const slotTime = new Date(date);
-        slotTime.setHours(slot.hour, slot.minute, 0, 0);
-        const endTime = addMinutes(slotTime, SLOT_DURATION);
-        onSlotClick(slotTime, endTime, technician.id);
-      }
-    },
-    [date, onSlotClick, technician.id]
-  );
-
-  const gridHeight = slots.length * SLOT_HEIGHT;
-
-  return (
-    <div
-      ref={safeSetNodeRef}
-      className={`tech-column ${isOver ? 'drag-over' : ''}`}
-    >
-      {/* Technician header - display name */}
-      <div className={`column-header ${isOver ? 'drag-over' : ''}`}>
-        <span className="tech-header-text">{technician.name}</span>
-      </div>
-
-      {/* Time grid for this technician */}
-      <div className="grid-slots" style={{ height: `${gridHeight}px` }}>
-        {/* Slot backgrounds */}
-        {slots.map((slot) => (
-          <div
-            key={`${technician.id}-${slot.hour}-${slot.minute}`}
-            className={`grid-slot ${slot.isHourStart ? 'hour-start' : ''}`}
-            style={{ height: `${SLOT_HEIGHT}px` }}
-            onClick={() => handleSlotClick(slot)}
-            role="button"
-            aria-label={`Create appointment for ${technician.name} at ${slot.label}`}
-          />
-        ))}
-
-        {/* Appointments */}
-        <div className="appointments-layer">
-          {layouts.map((layout) => (
-            <AppointmentBlock
-              key={layout.appointment.id}
-              layout={layout}
-              onClick={onAppointmentClick}
-              isSelected={selectedAppointmentId === layout.appointment.id}
-              isDragging={draggingAppointmentId === layout.appointment.id}
-            />
-          ))}
-        </div>
-      </div>
-    </div>
-  );
-});
-
 export const DayView = memo(function DayView({
   date,
   appointments,
   technicians,
   startHour,
   endHour,
+  slotDuration = SLOT_DURATION,
+  slotHeight = SLOT_HEIGHT,
+  openIntervals,
   onAppointmentClick,
   onSlotClick,
   selectedAppointmentId,
   draggingAppointmentId,
+  resizable,
+  conflictingAppointmentIds,
+  pendingAppointmentIds,
+  canReassign,
+  blockedTimes,
+  blockedTimesDraggable,
+  onDeleteBlockedTime,
+  timeZone,
+  showCurrentTime = true,
+  getAppointmentColor,
 }: DayViewProps) {
+  const i18n = useSchedulerLocale();
+  const now = useCurrentTime(timeZone, showCurrentTime);
+  const currentTime = showCurrentTime && isSameDay(date, now) ? now : undefined;
+
   // Check if this is today for special styling
-  const isTodayDate = useMemo(() => isToday(date), [date]);
-  const formattedDate = useMemo(() => formatFullDate(date), [date]);
+  const isTodayDate = useMemo(() => isToday(date, timeZone), [date, timeZone]);
+  const formattedDate = useMemo(() => formatFullDate(date, i18n), [date, i18n]);
 
   // Generate time slots once for all columns
   const slots = useMemo(
-    () => generateTimeSlots(date, startHour, endHour),
-    [date, startHour, endHour]
+    () => generateTimeSlots(date, startHour, endHour, slotDuration, i18n),
+    [date, startHour, endHour, slotDuration, i18n]
+  );
+
+  const gridId = useId();
+  const gridColumns = useMemo(
+    () => technicians.map((technician) => getTechnicianColumnKey(technician.id, date)),
+    [technicians, date]
+  );
+
+  // Roving focus starts on the first slot of the first column
+  const { gridRef, tabStop, handleKeyDown, handleFocus } = useGridNavigation(
+    technicians[0] && slots[0] ? getSlotCellKey(getTechnicianColumnKey(technicians[0].id, date), slots[0]) : null,
+    Boolean(draggingAppointmentId)
   );
 
   return (
@@ -184,7 +137,7 @@ export const DayView = memo(function DayView({
         <div className="view-header-content">
           <h2 className="view-header-title">{formattedDate}</h2>
           {isTodayDate && (
-            <span className="today-badge">Today</span>
+            <span className="today-badge">{i18n.messages.today}</span>
           )}
         </div>
       </div>
@@ -193,14 +146,22 @@ export const DayView = memo(function DayView({
       <div className="view-scroll-area scheduler-scroll">
         <div className="view-grid-container">
           {/* Sticky time column */}
-          <div className="time-column" style={{ position: 'sticky', left: 0, zIndex: 20 }}>
+          <div className="time-column" style={{ position: 'sticky', left: 0, zIndex: 20 }} aria-hidden="true">
             {/* Spacer for technician header row */}
             <div className="time-column-spacer" />
-            <TimeColumn slots={slots} slotHeight={SLOT_HEIGHT} />
+            <TimeColumn slots={slots} slotHeight={slotHeight} />
           </div>
 
           {/* Technician columns */}
-          <div className="columns-container">
+          <div
+            ref={gridRef}
+            className="columns-container"
+            role="grid"
+            aria-label={formatMessage(i18n.messages.scheduleGridLabel, { date: formattedDate })}
+            onKeyDown={handleKeyDown}
+            onFocus={handleFocus}
+          >
+            <GridTimeRows gridId={gridId} columns={gridColumns} slots={slots} />
             {technicians.map((technician) => (
               <TechnicianColumn
                 key={technician.id}
@@ -210,10 +171,24 @@ export const DayView = memo(function DayView({
                 slots={slots}
                 startHour={startHour}
                 endHour={endHour}
+                slotDuration={slotDuration}
+                slotHeight={slotHeight}
+                openIntervals={openIntervals}
                 onAppointmentClick={onAppointmentClick}
                 onSlotClick={onSlotClick}
                 selectedAppointmentId={selectedAppointmentId}
                 draggingAppointmentId={draggingAppointmentId}
+                resizable={resizable}
+                conflictingAppointmentIds={conflictingAppointmentIds}
+                pendingAppointmentIds={pendingAppointmentIds}
+                canReassign={canReassign}
+                blockedTimes={blockedTimes}
+                blockedTimesDraggable={blockedTimesDraggable}
+                onDeleteBlockedTime={onDeleteBlockedTime}
+                gridId={gridId}
+                tabStop={tabStop}
+                currentTime={currentTime}
+                getAppointmentColor={getAppointmentColor}
               />
             ))}
           </div>
@@ -1,8 +1,14 @@
 import { memo, useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import type { Appointment, Job, Service, ServiceType, Technician, TechnicianServices } from '../../types/scheduler';
+import type { Appointment, AppointmentConflict, ChangeResult, ConflictCandidate, ConflictPolicy, Job, RecurrenceEditScope, Service, ServiceType, Technician, TechnicianServices } from '../../types/scheduler';
 import { getArtistId, getArtistDisplayName } from '../../utils/artistUtils';
 import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { describeRecurrence } from '../../utils/recurrenceUtils';
 import { formatFullDate, formatTime } from '../../utils/timeUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { useAsyncAction } from '../../hooks/useAsyncAction';
+import { RecurrenceScopePrompt } from './RecurrenceScopePrompt';
+import { ConflictWarning } from './ConflictWarning';
 
 /**
  * DetailModal Component
@@ -16,6 +22,7 @@ import { formatFullDate, formatTime } from '../../utils/timeUtils';
  * - Escape key to close
  * - Focus trap for accessibility
  * - Smooth enter/exit animations
+ * - Double-booking warning while editing (saving is blocked with the 'block' policy)
  */
 
 interface DetailModalProps {
@@ -25,16 +32,23 @@ interface DetailModalProps {
   isOpen: boolean;
   /** Callback to close the modal */
   onClose: () => void;
-  /** Callback when appointment is updated */
-  onUpdate?: (appointment: Appointment) => void;
-  /** Callback when appointment is deleted */
-  onDelete?: (id: string) => void;
+  /**
+   * Callback when appointment is updated (scope is set for occurrences of a recurring series).
+   * A returned Promise keeps the form open with disabled buttons until it settles; a rejection is shown inline.
+   */
+  onUpdate?: (appointment: Appointment, scope?: RecurrenceEditScope) => ChangeResult;
+  /** Callback when appointment is deleted (scope is set for occurrences of a recurring series; may return a Promise) */
+  onDelete?: (id: string, scope?: RecurrenceEditScope) => ChangeResult;
   /** List of available services with id, name, and category */
   services: Service[];
   /** List of available technicians with id and name */
   technicians?: Technician[];
   /** Map of technician IDs to service IDs they can perform */
   technicianServices?: TechnicianServices;
+  /** Finds existing bookings that overlap the edited one for the same technician */
+  getConflicts?: (candidate: ConflictCandidate) => AppointmentConflict[];
+  /** How conflicts are handled (default: 'warn') */
+  conflictPolicy?: ConflictPolicy;
 }
 
 export const DetailModal = memo(function DetailModal({
@@ -46,10 +60,19 @@ export const DetailModal = memo(function DetailModal({
   services,
   technicians = [],
   technicianServices,
+  getConflicts,
+  conflictPolicy = 'warn',
 }: DetailModalProps) {
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
   const modalRef = useRef<HTMLDivElement>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Occurrences of a recurring series ask which occurrences a save applies to
+  const [showSaveScope, setShowSaveScope] = useState(false);
+  // Async saves and deletes: buttons are disabled until the Promise settles
+  const { isSaving, error: saveError, run, clearError } = useAsyncAction();
+  const isRecurring = Boolean(appointment?.seriesId);
 
   // Group services by category for the edit UI
   const servicesByCategory = useMemo(() => {
@@ -58,14 +81,14 @@ export const DetailModal = memo(function DetailModal({
       const categoryKey =
         typeof service.category === 'string'
           ? service.category
-          : (service.category?.name ?? 'Uncategorized');
+          : (service.category?.name ?? messages.uncategorized);
       if (!grouped[categoryKey]) {
         grouped[categoryKey] = [];
       }
       grouped[categoryKey].push(service);
     });
     return grouped;
-  }, [services]);
+  }, [services, messages]);
 
   // Form state for editing
   const [clientName, setClientName] = useState('');
@@ -86,6 +109,22 @@ export const DetailModal = memo(function DetailModal({
 
   const selectedJob = jobs[selectedJobIndex];
 
+  // Existing bookings that overlap the edited appointment
+  const conflicts = useMemo(() => {
+    if (!appointment || !isEditing || !getConflicts || !date || !time || jobs.length === 0) return [];
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    return getConflicts({
+      id: appointment.id,
+      status: appointment.status,
+      startTime: new Date(year, month - 1, day, hours, minutes),
+      duration: totalDuration > 0 ? totalDuration : appointment.duration,
+      jobs,
+      artist: jobs[0]?.technicianId ?? appointment.artist,
+    });
+  }, [appointment, isEditing, getConflicts, date, time, jobs, totalDuration]);
+  const isBlockedByConflict = conflictPolicy === 'block' && conflicts.length > 0;
+
   const techniciansByService = useMemo(() => {
     if (!technicianServices) return {};
     const map: Record<string, string[]> = {};
@@ -143,13 +182,15 @@ export const DetailModal = memo(function DetailModal({
     if (!isOpen) {
       setIsEditing(false);
       setShowDeleteConfirm(false);
+      setShowSaveScope(false);
+      clearError();
     }
-  }, [isOpen]);
+  }, [isOpen, clearError]);
 
   // Handle escape key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !isSaving) {
         if (isEditing) {
           setIsEditing(false);
         } else {
@@ -160,7 +201,7 @@ export const DetailModal = memo(function DetailModal({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, isEditing, onClose]);
+  }, [isOpen, isEditing, isSaving, onClose]);
 
   // Focus trap - focus the modal when it opens
   useEffect(() => {
@@ -182,8 +223,8 @@ export const DetailModal = memo(function DetailModal({
   }, [isOpen]);
 
   // Handle save
-  const handleSave = useCallback(() => {
-    if (!appointment || !date || !time || jobs.length === 0) {
+  const handleSave = useCallback((scope?: RecurrenceEditScope) => {
+    if (!appointment || !date || !time || jobs.length === 0 || isBlockedByConflict) {
       return;
     }
 
@@ -205,13 +246,30 @@ export const DetailModal = memo(function DetailModal({
       ...(primaryJob?.technicianId ? { artist: primaryJob.technicianId } : {}),
       ...(appointment.phone && { phone: appointment.phone }), // Keep original phone
       ...(notes.trim() && { notes: notes.trim() }),
+      // Keep series info so the parent can resolve the occurrence
+      ...(appointment.seriesId && {
+        seriesId: appointment.seriesId,
+        occurrenceStart: appointment.occurrenceStart,
+        recurrence: appointment.recurrence,
+      }),
     };
 
-    if (onUpdate) {
-      onUpdate(updatedAppointment);
+    run(() => onUpdate?.(updatedAppointment, scope), () => {
+      setIsEditing(false);
+      setShowSaveScope(false);
+    });
+  }, [appointment, jobs, date, time, notes, onUpdate, totalDuration, isBlockedByConflict, run]);
+
+  // Handle form submit - recurring occurrences first ask for the edit scope
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (isRecurring) {
+      setShowDeleteConfirm(false);
+      setShowSaveScope(true);
+    } else {
+      handleSave();
     }
-    setIsEditing(false);
-  }, [appointment, jobs, date, time, notes, onUpdate, totalDuration]);
+  }, [isRecurring, handleSave]);
 
   const handleSelectedJobServiceChange = useCallback((newServiceId: ServiceType) => {
     setJobs((prev) => prev.map((job, index) => {
@@ -236,17 +294,17 @@ export const DetailModal = memo(function DetailModal({
   }, [selectedJobIndex]);
 
   // Handle delete
-  const handleDelete = useCallback(() => {
+  const handleDelete = useCallback((scope?: RecurrenceEditScope) => {
     if (appointment && onDelete) {
-      onDelete(appointment.id);
-      onClose();
+      run(() => onDelete(appointment.id, scope), onClose);
     }
-  }, [appointment, onDelete, onClose]);
+  }, [appointment, onDelete, onClose, run]);
 
   // Handle cancel edit
   const handleCancelEdit = useCallback(() => {
     setIsEditing(false);
     setShowDeleteConfirm(false);
+    setShowSaveScope(false);
   }, []);
 
   if (!isOpen || !appointment) {
@@ -259,7 +317,7 @@ export const DetailModal = memo(function DetailModal({
       {/* Backdrop */}
       <div
         className="modal-overlay"
-        onClick={isEditing ? undefined : onClose}
+        onClick={isEditing || isSaving ? undefined : onClose}
         aria-hidden="true"
       />
 
@@ -276,7 +334,8 @@ export const DetailModal = memo(function DetailModal({
           type="button"
           onClick={isEditing ? handleCancelEdit : onClose}
           className="modal-close-btn"
-          aria-label={isEditing ? 'Cancel editing' : 'Close'}
+          disabled={isSaving}
+          aria-label={isEditing ? messages.cancelEditing : messages.close}
         >
           <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -286,13 +345,13 @@ export const DetailModal = memo(function DetailModal({
         {isEditing ? (
           /* Edit Mode */
           <div className="modal-body">
-            <h2 className="modal-title">Edit Appointment</h2>
+            <h2 className="modal-title">{messages.editAppointment}</h2>
 
-            <form onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+            <form onSubmit={handleSubmit}>
               {/* Client Name (read-only in edit mode) */}
               <div className="form-group">
                 <label htmlFor="edit-clientName" className="form-label">
-                  Client Name
+                  {messages.clientName}
                 </label>
                 <input
                   type="text"
@@ -306,7 +365,7 @@ export const DetailModal = memo(function DetailModal({
               {/* Existing jobs selector */}
               <div className="form-group">
                 <label className="form-label">
-                  Job To Edit
+                  {messages.jobToEdit}
                 </label>
                 <div className="jobs-list">
                   {jobs.map((job, index) => {
@@ -320,12 +379,12 @@ export const DetailModal = memo(function DetailModal({
                         className={`job-entry ${isSelected ? 'selected' : ''}`}
                         onClick={() => setSelectedJobIndex(index)}
                         style={{ width: '100%', textAlign: 'left', border: '1px solid var(--color-slate-200, #e2e8f0)' }}
-                        aria-label={`Edit job ${index + 1}`}
+                        aria-label={formatMessage(messages.editJob, { number: index + 1 })}
                       >
                         <span className="job-entry-number">{index + 1}</span>
                         <div className="job-entry-info">
                           <span className="job-entry-service">{service?.name ?? job.serviceType}</span>
-                          {tech && <span className="job-entry-tech">by {tech.name}</span>}
+                          {tech && <span className="job-entry-tech">{formatMessage(messages.jobBy, { name: tech.name })}</span>}
                         </div>
                       </button>
                     );
@@ -336,7 +395,7 @@ export const DetailModal = memo(function DetailModal({
               {/* Service Type (selected job only) */}
               <div className="form-group">
                 <label className="form-label">
-                  Service For Selected Job <span className="required">*</span>
+                  {messages.serviceForSelectedJob} <span className="required">*</span>
                 </label>
                 {/* Services grouped by category */}
                 {Object.keys(servicesByCategory).map((category) => (
@@ -370,7 +429,7 @@ export const DetailModal = memo(function DetailModal({
                 <div className="form-grid">
                   <div>
                     <label htmlFor="edit-date" className="form-label">
-                      Date <span className="required">*</span>
+                      {messages.date} <span className="required">*</span>
                     </label>
                     <input
                       type="date"
@@ -383,7 +442,7 @@ export const DetailModal = memo(function DetailModal({
                   </div>
                   <div>
                     <label htmlFor="edit-time" className="form-label">
-                      Time <span className="required">*</span>
+                      {messages.time} <span className="required">*</span>
                     </label>
                     <input
                       type="time"
@@ -399,14 +458,14 @@ export const DetailModal = memo(function DetailModal({
 
               {/* Technician */}
               <div className="form-group">
-                <label htmlFor="edit-technician" className="form-label">Technician</label>
+                <label htmlFor="edit-technician" className="form-label">{messages.technician}</label>
                 <select
                   id="edit-technician"
                   value={selectedJob?.technicianId ?? ''}
                   onChange={(e) => handleSelectedJobTechnicianChange(e.target.value)}
                   className="form-select"
                 >
-                  <option value="">Select a technician (optional)</option>
+                  <option value="">{messages.selectTechnicianOptional}</option>
                   {selectedJobAvailableTechnicians.map((tech) => (
                     <option key={tech.id} value={tech.id}>{tech.name}</option>
                   ))}
@@ -416,7 +475,7 @@ export const DetailModal = memo(function DetailModal({
 
               {/* Notes */}
               <div className="form-group">
-                <label htmlFor="edit-notes" className="form-label">Notes</label>
+                <label htmlFor="edit-notes" className="form-label">{messages.notes}</label>
                 <textarea
                   id="edit-notes"
                   value={notes}
@@ -426,32 +485,58 @@ export const DetailModal = memo(function DetailModal({
                 />
               </div>
 
+              <ConflictWarning
+                conflicts={conflicts}
+                policy={conflictPolicy}
+                technicians={technicians}
+              />
+
+              {saveError && (
+                <p className="form-error" role="alert">
+                  {saveError}
+                </p>
+              )}
+
               {/* Delete confirmation */}
-              {showDeleteConfirm ? (
+              {showDeleteConfirm && isRecurring ? (
+                <RecurrenceScopePrompt
+                  action="delete"
+                  onSelect={handleDelete}
+                  onCancel={() => setShowDeleteConfirm(false)}
+                  disabled={isSaving}
+                />
+              ) : showSaveScope ? (
+                <RecurrenceScopePrompt
+                  action="edit"
+                  onSelect={handleSave}
+                  onCancel={() => setShowSaveScope(false)}
+                  disabled={isSaving}
+                />
+              ) : showDeleteConfirm ? (
                 <div className="delete-confirm">
                   <p className="delete-confirm-text">
-                    Are you sure you want to delete this appointment? This action cannot be undone.
+                    {messages.deleteConfirm}
                   </p>
                   <div className="delete-confirm-actions">
-                    <button type="button" onClick={() => setShowDeleteConfirm(false)} className="btn btn-outline">
-                      Cancel
+                    <button type="button" onClick={() => setShowDeleteConfirm(false)} className="btn btn-outline" disabled={isSaving}>
+                      {messages.cancel}
                     </button>
-                    <button type="button" onClick={handleDelete} className="btn btn-danger">
-                      Delete
+                    <button type="button" onClick={() => handleDelete()} className="btn btn-danger" disabled={isSaving}>
+                      {isSaving ? messages.saving : messages.delete}
                     </button>
                   </div>
                 </div>
               ) : (
                 /* Actions */
                 <div className="btn-group">
-                  <button type="button" onClick={() => setShowDeleteConfirm(true)} className="btn btn-danger-outline" style={{ flex: 'none' }}>
-                    Delete
+                  <button type="button" onClick={() => setShowDeleteConfirm(true)} className="btn btn-danger-outline" style={{ flex: 'none' }} disabled={isSaving}>
+                    {messages.delete}
                   </button>
-                  <button type="button" onClick={handleCancelEdit} className="btn btn-outline">
-                    Cancel
+                  <button type="button" onClick={handleCancelEdit} className="btn btn-outline" disabled={isSaving}>
+                    {messages.cancel}
                   </button>
-                  <button type="submit" className="btn btn-primary">
-                    Save Changes
+                  <button type="submit" disabled={isBlockedByConflict || isSaving} className="btn btn-primary">
+                    {isSaving ? messages.saving : messages.saveChanges}
                   </button>
                 </div>
               )}
@@ -463,7 +548,7 @@ export const DetailModal = memo(function DetailModal({
             {/* Service badge */}
             <div className={`service-badge`}>
               <span className="service-badge-dot" />
-              <span className="service-badge-text">Appointment Jobs</span>
+              <span className="service-badge-text">{messages.appointmentJobs}</span>
             </div>
 
             {/* Client name */}
@@ -480,9 +565,9 @@ export const DetailModal = memo(function DetailModal({
                     <span className="job-entry-number">{index + 1}</span>
                     <div className="job-entry-info">
                       <span className="job-entry-service">{service?.name ?? job.serviceType}</span>
-                      {tech && <span className="job-entry-tech">by {tech.name}</span>}
+                      {tech && <span className="job-entry-tech">{formatMessage(messages.jobBy, { name: tech.name })}</span>}
                     </div>
-                    {duration > 0 && <span className="job-entry-duration">{duration} min</span>}
+                    {duration > 0 && <span className="job-entry-duration">{formatMessage(messages.minutesShort, { count: duration })}</span>}
                   </div>
                 );
               })}
@@ -498,8 +583,8 @@ export const DetailModal = memo(function DetailModal({
                   </svg>
                 </div>
                 <div>
-                  <p className="detail-item-label">Date</p>
-                  <p className="detail-item-value">{formatFullDate(appointment.startTime)}</p>
+                  <p className="detail-item-label">{messages.date}</p>
+                  <p className="detail-item-value">{formatFullDate(appointment.startTime, i18n)}</p>
                 </div>
               </div>
 
@@ -511,12 +596,27 @@ export const DetailModal = memo(function DetailModal({
                   </svg>
                 </div>
                 <div>
-                  <p className="detail-item-label">Time</p>
-                  <p className="detail-item-value">{formatTime(appointment.startTime)}</p>
-                  <p className="detail-item-text">{appointment.duration} minutes</p>
+                  <p className="detail-item-label">{messages.time}</p>
+                  <p className="detail-item-value">{formatTime(appointment.startTime, i18n)}</p>
+                  <p className="detail-item-text">{formatMessage(messages.minutesLong, { count: appointment.duration })}</p>
                 </div>
               </div>
 
+              {/* Recurrence (occurrences of a series) */}
+              {appointment.recurrence && (
+                <div className="detail-item">
+                  <div className="detail-icon">
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="detail-item-label">{messages.repeats}</p>
+                    <p className="detail-item-value">{describeRecurrence(appointment.recurrence, i18n)}</p>
+                  </div>
+                </div>
+              )}
+
               {/* Technician (if assigned) */}
               {getArtistId(appointment.artist) && (
                 <div className="detail-item">
@@ -526,7 +626,7 @@ export const DetailModal = memo(function DetailModal({
                     </svg>
                   </div>
                   <div>
-                    <p className="detail-item-label">Technician</p>
+                    <p className="detail-item-label">{messages.technician}</p>
                     <p className="detail-item-value">{getArtistDisplayName(appointment.artist, technicians)}</p>
                   </div>
                 </div>
@@ -539,7 +639,7 @@ export const DetailModal = memo(function DetailModal({
                   </svg>
                 </div>
                 <div>
-                  <p className="detail-item-label">Customer</p>
+                  <p className="detail-item-label">{messages.customer}</p>
                   <a href={appointment.client.path} target="_blank" className="detail-item-value">{appointment.client.name}</a>
                 </div>
               </div>
@@ -553,7 +653,7 @@ export const DetailModal = memo(function DetailModal({
                     </svg>
                   </div>
                   <div>
-                    <p className="detail-item-label">Customer Email</p>
+                    <p className="detail-item-label">{messages.customerEmail}</p>
                     <a href={`mailto:${appointment.email}`} className="detail-item-value">{appointment.email}</a>
                   </div>
                 </div>
@@ -568,7 +668,7 @@ export const DetailModal = memo(function DetailModal({
                     </svg>
                   </div>
                   <div>
-                    <p className="detail-item-label">Customer Phone</p>
+                    <p className="detail-item-label">{messages.customerPhone}</p>
                     <a href={`tel:${appointment.phone}`} className="detail-item-value">{appointment.phone}</a>
                   </div>
                 </div>
@@ -583,7 +683,7 @@ export const DetailModal = memo(function DetailModal({
                     </svg>
                   </div>
                   <div>
-                    <p className="detail-item-label">Notes</p>
+                    <p className="detail-item-label">{messages.notes}</p>
                     <p className="detail-item-text">{appointment.notes}</p>
                   </div>
                 </div>
@@ -601,7 +701,7 @@ export const DetailModal = memo(function DetailModal({
                 <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                 </svg>
-                Edit Appointment
+                {messages.editAppointment}
               </button>
             )}
           </div>
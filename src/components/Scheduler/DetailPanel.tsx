@@ -1,8 +1,14 @@
 import { memo, useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import type { Appointment, Job, Service, ServiceType, Technician, TechnicianServices } from '../../types/scheduler';
+import type { Appointment, AppointmentConflict, ChangeResult, ConflictCandidate, ConflictPolicy, Job, RecurrenceEditScope, Service, ServiceType, Technician, TechnicianServices } from '../../types/scheduler';
 import { getArtistId, getArtistDisplayName } from '../../utils/artistUtils';
 import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { describeRecurrence } from '../../utils/recurrenceUtils';
 import { formatTime, formatFullDate, addMinutes } from '../../utils/timeUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { useAsyncAction } from '../../hooks/useAsyncAction';
+import { RecurrenceScopePrompt } from './RecurrenceScopePrompt';
+import { ConflictWarning } from './ConflictWarning';
 
 /**
  * DetailPanel Component
@@ -16,6 +22,7 @@ import { formatTime, formatFullDate, addMinutes } from '../../utils/timeUtils';
  * - Escape key to close
  * - Focus trap for accessibility
  * - Smooth animations
+ * - Double-booking warning while editing (saving is blocked with the 'block' policy)
  */
 
 interface DetailPanelProps {
@@ -25,16 +32,23 @@ interface DetailPanelProps {
   isOpen: boolean;
   /** Callback to close the panel */
   onClose: () => void;
-  /** Callback when appointment is updated */
-  onUpdate?: (appointment: Appointment) => void;
-  /** Callback when appointment is deleted */
-  onDelete?: (id: string) => void;
+  /**
+   * Callback when appointment is updated (scope is set for occurrences of a recurring series).
+   * A returned Promise keeps the form open with disabled buttons until it settles; a rejection is shown inline.
+   */
+  onUpdate?: (appointment: Appointment, scope?: RecurrenceEditScope) => ChangeResult;
+  /** Callback when appointment is deleted (scope is set for occurrences of a recurring series; may return a Promise) */
+  onDelete?: (id: string, scope?: RecurrenceEditScope) => ChangeResult;
   /** List of available services with id, name, and category */
   services: Service[];
   /** List of available technicians with id and name */
   technicians?: Technician[];
   /** Map of technician IDs to service IDs they can perform */
   technicianServices?: TechnicianServices;
+  /** Finds existing bookings that overlap the edited one for the same technician */
+  getConflicts?: (candidate: ConflictCandidate) => AppointmentConflict[];
+  /** How conflicts are handled (default: 'warn') */
+  conflictPolicy?: ConflictPolicy;
 }
 
 export const DetailPanel = memo(function DetailPanel({
@@ -46,10 +60,19 @@ export const DetailPanel = memo(function DetailPanel({
   services,
   technicians = [],
   technicianServices,
+  getConflicts,
+  conflictPolicy = 'warn',
 }: DetailPanelProps) {
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
   const panelRef = useRef<HTMLDivElement>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Occurrences of a recurring series ask which occurrences a save applies to
+  const [showSaveScope, setShowSaveScope] = useState(false);
+  // Async saves and deletes: buttons are disabled until the Promise settles
+  const { isSaving, error: saveError, run, clearError } = useAsyncAction();
+  const isRecurring = Boolean(appointment?.seriesId);
 
   // Group services by category for the edit UI
   const servicesByCategory = useMemo(() => {
@@ -58,14 +81,14 @@ export const DetailPanel = memo(function DetailPanel({
       const categoryKey =
         typeof service.category === 'string'
           ? service.category
-          : (service.category?.name ?? 'Uncategorized');
+          : (service.category?.name ?? messages.uncategorized);
       if (!grouped[categoryKey]) {
         grouped[categoryKey] = [];
       }
       grouped[categoryKey].push(service);
     });
     return grouped;
-  }, [services]);
+  }, [services, messages]);
 
   // Form state for editing
   const [clientName, setClientName] = useState('');
@@ -86,6 +109,22 @@ export const DetailPanel = memo(function DetailPanel({
 
   const selectedJob = jobs[selectedJobIndex];
 
+  // Existing bookings that overlap the edited appointment
+  const conflicts = useMemo(() => {
+    if (!appointment || !isEditing || !getConflicts || !date || !time || jobs.length === 0) return [];
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    return getConflicts({
+      id: appointment.id,
+      status: appointment.status,
+      startTime: new Date(year, month - 1, day, hours, minutes),
+      duration: totalDuration > 0 ? totalDuration : appointment.duration,
+      jobs,
+      artist: jobs[0]?.technicianId ?? appointment.artist,
+    });
+  }, [appointment, isEditing, getConflicts, date, time, jobs, totalDuration]);
+  const isBlockedByConflict = conflictPolicy === 'block' && conflicts.length > 0;
+
   const techniciansByService = useMemo(() => {
     if (!technicianServices) return {};
     const map: Record<string, string[]> = {};
@@ -143,13 +182,15 @@ export const DetailPanel = memo(function DetailPanel({
     if (!isOpen) {
       setIsEditing(false);
       setShowDeleteConfirm(false);
+      setShowSaveScope(false);
+      clearError();
     }
-  }, [isOpen]);
+  }, [isOpen, clearError]);
 
   // Handle escape key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isOpen) {
+      if (e.key === 'Escape' && isOpen && !isSaving) {
         if (isEditing) {
           setIsEditing(false);
         } else {
@@ -160,7 +201,7 @@ export const DetailPanel = memo(function DetailPanel({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, isEditing, onClose]);
+  }, [isOpen, isEditing, isSaving, onClose]);
 
   // Focus the panel when it opens
   useEffect(() => {
@@ -170,8 +211,8 @@ export const DetailPanel = memo(function DetailPanel({
   }, [isOpen]);
 
   // Handle save
-  const handleSave = useCallback(() => {
-    if (!appointment || !date || !time || jobs.length === 0) {
+  const handleSave = useCallback((scope?: RecurrenceEditScope) => {
+    if (!appointment || !date || !time || jobs.length === 0 || isBlockedByConflict) {
       return;
     }
 
@@ -193,13 +234,30 @@ export const DetailPanel = memo(function DetailPanel({
       ...(primaryJob?.technicianId ? { artist: primaryJob.technicianId } : {}),
       ...(appointment.phone && { phone: appointment.phone }),
       ...(notes.trim() && { notes: notes.trim() }),
+      // Keep series info so the parent can resolve the occurrence
+      ...(appointment.seriesId && {
+        seriesId: appointment.seriesId,
+        occurrenceStart: appointment.occurrenceStart,
+        recurrence: appointment.recurrence,
+      }),
     };
 
-    if (onUpdate) {
-      onUpdate(updatedAppointment);
+    run(() => onUpdate?.(updatedAppointment, scope), () => {
+      setIsEditing(false);
+      setShowSaveScope(false);
+    });
+  }, [appointment, jobs, date, time, notes, onUpdate, totalDuration, isBlockedByConflict, run]);
+
+  // Handle form submit - recurring occurrences first ask for the edit scope
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (isRecurring) {
+      setShowDeleteConfirm(false);
+      setShowSaveScope(true);
+    } else {
+      handleSave();
     }
-    setIsEditing(false);
-  }, [appointment, jobs, date, time, notes, onUpdate, totalDuration]);
+  }, [isRecurring, handleSave]);
 
   const handleSelectedJobServiceChange = useCallback((newServiceId: ServiceType) => {
     setJobs((prev) => prev.map((job, index) => {
@@ -224,17 +282,17 @@ export const DetailPanel = memo(function DetailPanel({
   }, [selectedJobIndex]);
 
   // Handle delete
-  const handleDelete = useCallback(() => {
+  const handleDelete = useCallback((scope?: RecurrenceEditScope) => {
     if (appointment && onDelete) {
-      onDelete(appointment.id);
-      onClose();
+      run(() => onDelete(appointment.id, scope), onClose);
     }
-  }, [appointment, onDelete, onClose]);
+  }, [appointment, onDelete, onClose, run]);
 
   // Handle cancel edit
   const handleCancelEdit = useCallback(() => {
     setIsEditing(false);
     setShowDeleteConfirm(false);
+    setShowSaveScope(false);
   }, []);
 
   if (!appointment) {
@@ -254,14 +312,15 @@ export const DetailPanel = memo(function DetailPanel({
         {/* Header */}
         <div className="panel-header">
           <h2 id="panel-title" className="panel-title">
-            {isEditing ? 'Edit Appointment' : 'Appointment Details'}
+            {isEditing ? messages.editAppointment : messages.appointmentDetails}
           </h2>
           <button
             type="button"
             onClick={isEditing ? handleCancelEdit : onClose}
             className="modal-close-btn"
+            disabled={isSaving}
             style={{ position: 'static' }}
-            aria-label={isEditing ? 'Cancel editing' : 'Close panel'}
+            aria-label={isEditing ? messages.cancelEditing : messages.closePanel}
           >
             <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -273,11 +332,11 @@ export const DetailPanel = memo(function DetailPanel({
         <div className="panel-body">
           {isEditing ? (
             /* Edit Mode */
-            <form onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+            <form onSubmit={handleSubmit}>
               {/* Client Name */}
               <div className="form-group">
                 <label htmlFor="panel-clientName" className="form-label">
-                  Client Name
+                  {messages.clientName}
                 </label>
                 <input
                   type="text"
@@ -291,7 +350,7 @@ export const DetailPanel = memo(function DetailPanel({
               {/* Existing jobs selector */}
               <div className="form-group">
                 <label className="form-label">
-                  Job To Edit
+                  {messages.jobToEdit}
                 </label>
                 <div className="jobs-list">
                   {jobs.map((job, index) => {
@@ -305,12 +364,12 @@ export const DetailPanel = memo(function DetailPanel({
                         className={`job-entry ${isSelected ? 'selected' : ''}`}
                         onClick={() => setSelectedJobIndex(index)}
                         style={{ width: '100%', textAlign: 'left', border: '1px solid var(--color-slate-200, #e2e8f0)' }}
-                        aria-label={`Edit job ${index + 1}`}
+                        aria-label={formatMessage(messages.editJob, { number: index + 1 })}
                       >
                         <span className="job-entry-number">{index + 1}</span>
                         <div className="job-entry-info">
                           <span className="job-entry-service">{service?.name ?? job.serviceType}</span>
-                          {tech && <span className="job-entry-tech">by {tech.name}</span>}
+                          {tech && <span className="job-entry-tech">{formatMessage(messages.jobBy, { name: tech.name })}</span>}
                         </div>
                       </button>
                     );
@@ -321,7 +380,7 @@ export const DetailPanel = memo(function DetailPanel({
               {/* Service Type */}
               <div className="form-group">
                 <label className="form-label">
-                  Service For Selected Job <span className="required">*</span>
+                  {messages.serviceForSelectedJob} <span className="required">*</span>
                 </label>
                 {/* Services grouped by category */}
                 {Object.keys(servicesByCategory).map((category) => (
@@ -342,7 +401,7 @@ export const DetailPanel = memo(function DetailPanel({
                           >
                             <span className="service-option-label" style={{ fontSize: '0.75rem' }}>{service.name}</span>
                             {service.duration && (
-                              <span className="service-option-duration">{service.duration} min</span>
+                              <span className="service-option-duration">{formatMessage(messages.minutesShort, { count: service.duration })}</span>
                             )}
                           </button>
                         );
@@ -357,7 +416,7 @@ export const DetailPanel = memo(function DetailPanel({
                 <div className="form-grid" style={{ gap: '0.5rem' }}>
                   <div>
                     <label htmlFor="panel-date" className="form-label">
-                      Date <span className="required">*</span>
+                      {messages.date} <span className="required">*</span>
                     </label>
                     <input
                       type="date"
@@ -370,7 +429,7 @@ export const DetailPanel = memo(function DetailPanel({
                   </div>
                   <div>
                     <label htmlFor="panel-time" className="form-label">
-                      Time <span className="required">*</span>
+                      {messages.time} <span className="required">*</span>
                     </label>
                     <input
                       type="time"
@@ -386,14 +445,14 @@ export const DetailPanel = memo(function DetailPanel({
 
               {/* Technician */}
               <div className="form-group">
-                <label htmlFor="panel-technician" className="form-label">Technician</label>
+                <label htmlFor="panel-technician" className="form-label">{messages.technician}</label>
                 <select
                   id="panel-technician"
                   value={selectedJob?.technicianId ?? ''}
                   onChange={(e) => handleSelectedJobTechnicianChange(e.target.value)}
                   className="form-select sm"
                 >
-                  <option value="">Select a technician (optional)</option>
+                  <option value="">{messages.selectTechnicianOptional}</option>
                   {selectedJobAvailableTechnicians.map((tech) => (
                     <option key={tech.id} value={tech.id}>{tech.name}</option>
                   ))}
@@ -402,7 +461,7 @@ export const DetailPanel = memo(function DetailPanel({
 
               {/* Notes */}
               <div className="form-group">
-                <label htmlFor="panel-notes" className="form-label">Notes</label>
+                <label htmlFor="panel-notes" className="form-label">{messages.notes}</label>
                 <textarea
                   id="panel-notes"
                   value={notes}
@@ -412,30 +471,59 @@ export const DetailPanel = memo(function DetailPanel({
                 />
               </div>
 
+              <ConflictWarning
+                conflicts={conflicts}
+                policy={conflictPolicy}
+                technicians={technicians}
+                compact
+              />
+
+              {saveError && (
+                <p className="form-error" role="alert">
+                  {saveError}
+                </p>
+              )}
+
               {/* Delete confirmation */}
-              {showDeleteConfirm ? (
+              {showDeleteConfirm && isRecurring ? (
+                <RecurrenceScopePrompt
+                  action="delete"
+                  onSelect={handleDelete}
+                  onCancel={() => setShowDeleteConfirm(false)}
+                  disabled={isSaving}
+                  compact
+                />
+              ) : showSaveScope ? (
+                <RecurrenceScopePrompt
+                  action="edit"
+                  onSelect={handleSave}
+                  onCancel={() => setShowSaveScope(false)}
+                  disabled={isSaving}
+                  compact
+                />
+              ) : showDeleteConfirm ? (
                 <div className="delete-confirm sm">
-                  <p className="delete-confirm-text">Delete this appointment?</p>
+                  <p className="delete-confirm-text">{messages.deleteConfirmShort}</p>
                   <div className="delete-confirm-actions">
-                    <button type="button" onClick={() => setShowDeleteConfirm(false)} className="btn btn-outline">
-                      Cancel
+                    <button type="button" onClick={() => setShowDeleteConfirm(false)} className="btn btn-outline" disabled={isSaving}>
+                      {messages.cancel}
                     </button>
-                    <button type="button" onClick={handleDelete} className="btn btn-danger">
-                      Delete
+                    <button type="button" onClick={() => handleDelete()} className="btn btn-danger" disabled={isSaving}>
+                      {isSaving ? messages.saving : messages.delete}
                     </button>
                   </div>
                 </div>
               ) : (
                 /* Actions */
                 <div className="btn-group" style={{ gap: '0.5rem' }}>
-                  <button type="button" onClick={() => setShowDeleteConfirm(true)} className="btn btn-danger-outline" style={{ flex: 'none', padding: '0.5rem 0.75rem' }}>
-                    Delete
+                  <button type="button" onClick={() => setShowDeleteConfirm(true)} className="btn btn-danger-outline" style={{ flex: 'none', padding: '0.5rem 0.75rem' }} disabled={isSaving}>
+                    {messages.delete}
                   </button>
-                  <button type="button" onClick={handleCancelEdit} className="btn btn-outline" style={{ padding: '0.5rem 0.75rem' }}>
-                    Cancel
+                  <button type="button" onClick={handleCancelEdit} className="btn btn-outline" style={{ padding: '0.5rem 0.75rem' }} disabled={isSaving}>
+                    {messages.cancel}
                   </button>
-                  <button type="submit" className="btn btn-primary" style={{ padding: '0.5rem 0.75rem' }}>
-                    Save
+                  <button type="submit" disabled={isBlockedByConflict || isSaving} className="btn btn-primary" style={{ padding: '0.5rem 0.75rem' }}>
+                    {isSaving ? messages.saving : messages.save}
                   </button>
                 </div>
               )}
@@ -446,7 +534,7 @@ export const DetailPanel = memo(function DetailPanel({
               {/* Service badge */}
               <div className="service-badge">
                 <span className="service-badge-dot" />
-                <span className="service-badge-text">Appointment Jobs</span>
+                <span className="service-badge-text">{messages.appointmentJobs}</span>
               </div>
 
               {/* Client name */}
@@ -467,9 +555,9 @@ export const DetailPanel = memo(function DetailPanel({
                       <span className="job-entry-number">{index + 1}</span>
                       <div className="job-entry-info">
                         <span className="job-entry-service">{service?.name ?? job.serviceType}</span>
-                        {tech && <span className="job-entry-tech">by {tech.name}</span>}
+                        {tech && <span className="job-entry-tech">{formatMessage(messages.jobBy, { name: tech.name })}</span>}
                       </div>
-                      {duration > 0 && <span className="job-entry-duration">{duration} min</span>}
+                      {duration > 0 && <span className="job-entry-duration">{formatMessage(messages.minutesShort, { count: duration })}</span>}
                     </div>
                   );
                 })}
@@ -485,8 +573,8 @@ export const DetailPanel = memo(function DetailPanel({
                     </svg>
                   </div>
                   <div className="detail-item-content">
-                    <p className="detail-item-label xs">Date</p>
-                    <p className="detail-item-value">{formatFullDate(appointment.startTime)}</p>
+                    <p className="detail-item-label xs">{messages.date}</p>
+                    <p className="detail-item-value">{formatFullDate(appointment.startTime, i18n)}</p>
                   </div>
                 </div>
 
@@ -498,12 +586,27 @@ export const DetailPanel = memo(function DetailPanel({
                     </svg>
                   </div>
                   <div className="detail-item-content">
-                    <p className="detail-item-label xs">Time</p>
-                    <p className="detail-item-value">{formatTime(appointment.startTime)} – {formatTime(endTime)}</p>
-                    <p className="detail-item-secondary">Duration: {appointment.duration} minutes</p>
+                    <p className="detail-item-label xs">{messages.time}</p>
+                    <p className="detail-item-value">{formatTime(appointment.startTime, i18n)} – {formatTime(endTime, i18n)}</p>
+                    <p className="detail-item-secondary">{formatMessage(messages.durationLabel, { count: appointment.duration })}</p>
                   </div>
                 </div>
 
+                {/* Recurrence */}
+                {appointment.recurrence && (
+                  <div className="detail-item">
+                    <div className="detail-icon lg">
+                      <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                      </svg>
+                    </div>
+                    <div className="detail-item-content">
+                      <p className="detail-item-label xs">{messages.repeats}</p>
+                      <p className="detail-item-value">{describeRecurrence(appointment.recurrence, i18n)}</p>
+                    </div>
+                  </div>
+                )}
+
                 {/* Technician */}
                 {getArtistId(appointment.artist) && (
                   <div className="detail-item">
@@ -513,7 +616,7 @@ export const DetailPanel = memo(function DetailPanel({
                       </svg>
                     </div>
                     <div className="detail-item-content">
-                      <p className="detail-item-label xs">Technician</p>
+                      <p className="detail-item-label xs">{messages.technician}</p>
                       <p className="detail-item-value">{getArtistDisplayName(appointment.artist, technicians)}</p>
                     </div>
                   </div>
@@ -528,7 +631,7 @@ export const DetailPanel = memo(function DetailPanel({
                       </svg>
                     </div>
                     <div className="detail-item-content">
-                      <p className="detail-item-label xs">Email</p>
+                      <p className="detail-item-label xs">{messages.email}</p>
                       <p className="detail-item-value">{appointment.email}</p>
                     </div>
                   </div>
@@ -543,7 +646,7 @@ export const DetailPanel = memo(function DetailPanel({
                       </svg>
                     </div>
                     <div className="detail-item-content">
-                      <p className="detail-item-label xs">Phone</p>
+                      <p className="detail-item-label xs">{messages.phone}</p>
                       <p className="detail-item-value">{appointment.phone}</p>
                     </div>
                   </div>
@@ -558,7 +661,7 @@ export const DetailPanel = memo(function DetailPanel({
                       </svg>
                     </div>
                     <div className="detail-item-content">
-                      <p className="detail-item-label xs">Notes</p>
+                      <p className="detail-item-label xs">{messages.notes}</p>
                       <p className="detail-item-text">{appointment.notes}</p>
                     </div>
                   </div>
@@ -576,7 +679,7 @@ export const DetailPanel = memo(function DetailPanel({
                   <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                   </svg>
-                  Edit Appointment
+                  {messages.editAppointment}
                 </button>
               )}
             </>
@@ -0,0 +1,45 @@
+import { memo } from 'react';
+import type { TimeSlot } from '../../types/scheduler';
+import { getColumnHeaderId, getGridCellId, getSlotCellKey } from '../../utils/gridNavigationUtils';
+
+/**
+ * GridTimeRows Component
+ *
+ * Rows of the day and week ARIA grids. The grids are laid out in columns (technicians or days),
+ * so the rows are empty elements that take their cells by ID (aria-owns): a header row with the
+ * column headers, then one row per slot with that slot of every column. Screen readers then
+ * announce times as rows and technicians or days as columns, as the arrow keys move.
+ */
+
+interface GridTimeRowsProps {
+  /** Unique ID of the grid (useId) */
+  gridId: string;
+  /** Keys of the columns, in order */
+  columns: string[];
+  /** Time slots of the grid */
+  slots: TimeSlot[];
+}
+
+export const GridTimeRows = memo(function GridTimeRows({ gridId, columns, slots }: GridTimeRowsProps) {
+  return (
+    <>
+      <div
+        className="grid-aria-row"
+        role="row"
+        aria-owns={columns.map((column) => getColumnHeaderId(gridId, column)).join(' ')}
+      />
+      {slots.map((slot) => (
+        <div
+          key={`${slot.hour}-${slot.minute}`}
+          className="grid-aria-row"
+          role="row"
+          aria-owns={columns
+            .map((column) => getGridCellId(gridId, column, getSlotCellKey(column, slot)))
+            .join(' ')}
+        />
+      ))}
+    </>
+  );
+});
+
+export default GridTimeRows;
@@ -0,0 +1,297 @@
+import { memo, useMemo } from 'react';
+import { useDraggable, useDroppable } from '@dnd-kit/core';
+import type { Appointment, Technician } from '../../types/scheduler';
+import {
+  getMonthGridDates,
+  formatFullDate,
+  formatTime,
+  isToday,
+} from '../../utils/timeUtils';
+import { filterAppointmentsByDay } from '../../utils/layoutUtils';
+import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { formatMessage, formatCountMessage, getWeekdayNames } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * MonthView Component
+ *
+ * Displays a calendar month as a grid of day cells with:
+ * - Full weeks (starting on the locale's first day of the week), including leading/trailing days of adjacent months
+ * - Compact appointment chips per day, with a "+N more" overflow link
+ * - Click a day to drill into the Day view
+ * - Droppable day cells: dragging a chip to another day keeps its time of day
+ */
+
+interface MonthViewProps {
+  /** The date used to determine which month to display */
+  selectedDate: Date;
+  /** All appointments (will be filtered per day) */
+  appointments: Appointment[];
+  /** Callback when an appointment chip is clicked */
+  onAppointmentClick?: (appointment: Appointment) => void;
+  /** Callback when a day cell (or its "+N more" link) is clicked */
+  onDayClick?: (date: Date) => void;
+  /** Currently selected appointment ID */
+  selectedAppointmentId?: string | null;
+  /** ID of appointment being dragged */
+  draggingAppointmentId?: string | null;
+  /** List of technicians (used to resolve chip color per technician) */
+  technicians?: Technician[];
+  /** Maximum chips shown per day before collapsing into "+N more" (default: 3) */
+  maxChipsPerDay?: number;
+  /** Studio time zone; decides which day is "today" (default: the viewer's) */
+  timeZone?: string;
+  /** Color of an appointment's chip (default: its technician's color) */
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+/**
+ * Compact draggable appointment chip inside a day cell
+ */
+interface MonthAppointmentChipProps {
+  appointment: Appointment;
+  color: string;
+  onClick?: (appointment: Appointment) => void;
+  isSelected?: boolean;
+  isDragging?: boolean;
+}
+
+const MonthAppointmentChip = memo(function MonthAppointmentChip({
+  appointment,
+  color,
+  onClick,
+  isSelected = false,
+  isDragging = false,
+}: MonthAppointmentChipProps) {
+  const i18n = useSchedulerLocale();
+
+  // dateOnly: dropping the chip changes the day but keeps the time of day
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    isDragging: isDraggingLocal,
+  } = useDraggable({
+    id: appointment.id,
+    data: { appointment, dateOnly: true },
+    attributes: { roleDescription: i18n.messages.draggableRoleDescription },
+  });
+
+  // Provide a safe ref callback in case DndContext is not available
+  const safeSetNodeRef = setNodeRef || (() => { });
+
+  const isCurrentlyDragging = isDragging || isDraggingLocal;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onClick && !isCurrentlyDragging) {
+      onClick(appointment);
+    }
+  };
+
+  // Enter opens the appointment; Space picks it up for a keyboard drag (dnd-kit's listener)
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    listeners?.onKeyDown?.(e);
+    if (e.key === 'Enter' && onClick && !isCurrentlyDragging) {
+      e.preventDefault();
+      onClick(appointment);
+    }
+  };
+
+  const classNames = [
+    'month-chip',
+    'technician-color',
+    isCurrentlyDragging ? 'dragging' : '',
+    isSelected ? 'selected' : '',
+    appointment.seriesId ? 'recurring' : '',
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div
+      ref={safeSetNodeRef}
+      className={classNames}
+      style={{ ['--block-color' as string]: color, touchAction: 'none' }}
+      onClick={handleClick}
+      {...attributes}
+      {...listeners}
+      onKeyDown={handleKeyDown}
+      role="button"
+      aria-label={formatMessage(i18n.messages.appointmentLabel, {
+        client: appointment.client.name,
+        service: appointment.serviceType,
+        time: formatTime(appointment.startTime, i18n),
+      })}
+    >
+      <span className="month-chip-dot" aria-hidden="true" />
+      <span className="month-chip-time">{formatTime(appointment.startTime, i18n)}</span>
+      <span className="month-chip-client">{appointment.client.name}</span>
+    </div>
+  );
+});
+
+/**
+ * Single day cell within the month grid
+ */
+interface MonthDayCellProps {
+  date: Date;
+  appointments: Appointment[];
+  isOutsideMonth: boolean;
+  maxChips: number;
+  onAppointmentClick?: (appointment: Appointment) => void;
+  onDayClick?: (date: Date) => void;
+  selectedAppointmentId?: string | null;
+  draggingAppointmentId?: string | null;
+  technicians: Technician[];
+  timeZone?: string;
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+const MonthDayCell = memo(function MonthDayCell({
+  date,
+  appointments,
+  isOutsideMonth,
+  maxChips,
+  onAppointmentClick,
+  onDayClick,
+  selectedAppointmentId,
+  draggingAppointmentId,
+  technicians,
+  timeZone,
+  getAppointmentColor,
+}: MonthDayCellProps) {
+  const i18n = useSchedulerLocale();
+  const isTodayDate = isToday(date, timeZone);
+
+  // Set up droppable zone for this day; dateOnly keeps the appointment's time of day
+  const { setNodeRef, isOver } = useDroppable({
+    id: `month-${date.toISOString()}`,
+    data: { date, dateOnly: true },
+  });
+
+  // Provide a safe ref callback in case DndContext is not available
+  const safeSetNodeRef = setNodeRef || (() => { });
+
+  const visibleAppointments = appointments.slice(0, maxChips);
+  const hiddenCount = appointments.length - visibleAppointments.length;
+
+  // Open this day in the Day view (day number and "+N more")
+  const handleOpenDayClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onDayClick?.(date);
+  };
+
+  return (
+    <div
+      ref={safeSetNodeRef}
+      className={`month-day-cell ${isOutsideMonth ? 'outside-month' : ''} ${isTodayDate ? 'today' : ''} ${isOver ? 'drag-over' : ''}`}
+      onClick={() => onDayClick?.(date)}
+    >
+      <button
+        type="button"
+        className={`month-day-number ${isTodayDate ? 'today' : ''}`}
+        onClick={handleOpenDayClick}
+        aria-label={`${formatFullDate(date, i18n)}, ${formatCountMessage(
+          i18n,
+          i18n.messages.appointmentCountOne,
+          i18n.messages.appointmentCountOther,
+          appointments.length
+        )}`}
+      >
+        {date.getDate()}
+      </button>
+
+      <div className="month-day-chips">
+        {visibleAppointments.map((appointment) => (
+          <MonthAppointmentChip
+            key={appointment.id}
+            appointment={appointment}
+            color={getAppointmentColor?.(appointment) ?? getTechnicianColorForAppointment(appointment, technicians)}
+            onClick={onAppointmentClick}
+            isSelected={selectedAppointmentId === appointment.id}
+            isDragging={draggingAppointmentId === appointment.id}
+          />
+        ))}
+        {hiddenCount > 0 && (
+          <button type="button" className="month-more-btn" onClick={handleOpenDayClick}>
+            {formatMessage(i18n.messages.moreAppointments, { count: hiddenCount })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export const MonthView = memo(function MonthView({
+  selectedDate,
+  appointments,
+  onAppointmentClick,
+  onDayClick,
+  selectedAppointmentId,
+  draggingAppointmentId,
+  technicians = [],
+  maxChipsPerDay = 3,
+  timeZone,
+  getAppointmentColor,
+}: MonthViewProps) {
+  const { locale, weekStartsOn } = useSchedulerLocale();
+
+  // All dates in the grid (full weeks covering the month)
+  const gridDates = useMemo(
+    () => getMonthGridDates(selectedDate, weekStartsOn),
+    [selectedDate, weekStartsOn]
+  );
+
+  // Weekday names for the header row, in week order
+  const weekdayLabels = useMemo(
+    () => getWeekdayNames(locale, weekStartsOn),
+    [locale, weekStartsOn]
+  );
+
+  // Appointments per grid day, sorted by start time
+  const appointmentsByDay = useMemo(
+    () =>
+      gridDates.map((date) =>
+        filterAppointmentsByDay(appointments, date).sort(
+          (a, b) => a.startTime.getTime() - b.startTime.getTime()
+        )
+      ),
+    [appointments, gridDates]
+  );
+
+  return (
+    <div className="view-container month-view">
+      {/* Weekday header row */}
+      <div className="month-weekdays" aria-hidden="true">
+        {weekdayLabels.map((label) => (
+          <div key={label} className="month-weekday">
+            {label}
+          </div>
+        ))}
+      </div>
+
+      {/* Day cells */}
+      <div className="view-scroll-area scheduler-scroll">
+        <div className="month-grid">
+          {gridDates.map((date, index) => (
+            <MonthDayCell
+              key={date.toISOString()}
+              date={date}
+              appointments={appointmentsByDay[index]}
+              isOutsideMonth={date.getMonth() !== selectedDate.getMonth()}
+              maxChips={maxChipsPerDay}
+              onAppointmentClick={onAppointmentClick}
+              onDayClick={onDayClick}
+              selectedAppointmentId={selectedAppointmentId}
+              draggingAppointmentId={draggingAppointmentId}
+              technicians={technicians}
+              timeZone={timeZone}
+              getAppointmentColor={getAppointmentColor}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default MonthView;
@@ -0,0 +1,72 @@
+import { memo } from 'react';
+import type { RecurrenceEditScope, SchedulerMessages } from '../../types/scheduler';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * RecurrenceScopePrompt Component
+ *
+ * Asks which occurrences of a recurring series a change applies to:
+ * only this one, this and following, or the whole series.
+ * Used inline by the detail modal/panel and in a small dialog after drag-and-drop or resize.
+ */
+
+interface RecurrenceScopePromptProps {
+  /** The action being confirmed (drives the wording and button style) */
+  action: 'edit' | 'delete' | 'reschedule' | 'resize';
+  /** Callback with the chosen scope */
+  onSelect: (scope: RecurrenceEditScope) => void;
+  /** Callback when the user backs out */
+  onCancel: () => void;
+  /** Compact styling for the side panel */
+  compact?: boolean;
+  /** Disables the buttons (e.g. while the change is being saved) */
+  disabled?: boolean;
+}
+
+const SCOPE_OPTIONS: Array<{ scope: RecurrenceEditScope; label: keyof SchedulerMessages }> = [
+  { scope: 'this', label: 'scopeThis' },
+  { scope: 'following', label: 'scopeFollowing' },
+  { scope: 'all', label: 'scopeAll' },
+];
+
+const PROMPT_TEXT: Record<RecurrenceScopePromptProps['action'], keyof SchedulerMessages> = {
+  edit: 'scopePromptEdit',
+  delete: 'scopePromptDelete',
+  reschedule: 'scopePromptReschedule',
+  resize: 'scopePromptResize',
+};
+
+export const RecurrenceScopePrompt = memo(function RecurrenceScopePrompt({
+  action,
+  onSelect,
+  onCancel,
+  compact = false,
+  disabled = false,
+}: RecurrenceScopePromptProps) {
+  const { messages } = useSchedulerLocale();
+  const optionClassName = action === 'delete' ? 'btn btn-danger-outline' : 'btn btn-outline';
+
+  return (
+    <div className={`recurrence-scope ${compact ? 'sm' : ''}`} role="group" aria-label={messages.scopeGroupLabel}>
+      <p className="recurrence-scope-text">{messages[PROMPT_TEXT[action]]}</p>
+      <div className="recurrence-scope-options">
+        {SCOPE_OPTIONS.map(({ scope, label }) => (
+          <button
+            key={scope}
+            type="button"
+            onClick={() => onSelect(scope)}
+            className={optionClassName}
+            disabled={disabled}
+          >
+            {messages[label]}
+          </button>
+        ))}
+      </div>
+      <button type="button" onClick={onCancel} className="btn btn-ghost recurrence-scope-cancel" disabled={disabled}>
+        {messages.cancel}
+      </button>
+    </div>
+  );
+});
+
+export default RecurrenceScopePrompt;
@@ -1,27 +1,106 @@
-import { useCallback, useMemo, useState } from 'react';
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import { DndContext, DragOverlay, PointerSensor, TouchSensor, KeyboardSensor, useSensor, useSensors } from '@dnd-kit/core';
+import type { Active, Announcements, Over } from '@dnd-kit/core';
 import type {
     SchedulerProps,
+    SchedulerHandle,
     Appointment,
     ViewMode,
     NewAppointmentData,
     Technician,
     Service,
+    ServiceType,
     AppointmentStatus,
+    RecurrenceEditScope,
+    BlockedTime,
+    ConflictCandidate,
+    DayHours,
+    SchedulerMessages,
+    ChangeResult,
 } from '../../types/scheduler';
-import { formatShortDate, getWeekDates } from '../../utils/timeUtils';
-import { getArtistId } from '../../utils/artistUtils';
+import {
+    formatShortDate,
+    formatMonthYear,
+    formatTime,
+    getWeekDates,
+    getRangeDates,
+    getMonthGridDates,
+    filterVisibleDates,
+    startOfDay,
+    endOfDay,
+    isSameDay,
+    addMinutes,
+    isValidTimeZone,
+    getNow,
+    toZonedTime,
+    SLOT_DURATION,
+    SLOT_HEIGHT,
+} from '../../utils/timeUtils';
+import {
+    appointmentToTimeZone,
+    appointmentIdToTimeZone,
+    blockedTimeToTimeZone,
+    technicianToTimeZone,
+} from '../../utils/timeZoneUtils';
+import {
+    expandRecurringAppointments,
+    findAppointmentById,
+    applyRecurrenceReschedule,
+    applyRecurrenceResize,
+    applyRecurrenceUpdate,
+    applyRecurrenceDelete,
+} from '../../utils/recurrenceUtils';
+import {
+    findConflicts,
+    getConflictingAppointmentIds,
+    getAppointmentTechnicianIds,
+    describeConflicts,
+    findBlockedTimeConflicts,
+    describeBlockedTimeConflicts,
+} from '../../utils/conflictUtils';
+import { getAvailabilityIssues } from '../../utils/availabilityUtils';
+import { resolveSchedulerLocale, formatMessage, formatSaveError, getStatusLabel } from '../../utils/i18nUtils';
+import { isPromiseLike } from '../../utils/asyncUtils';
+import {
+    parseBusinessHours,
+    parseScheduleOverrides,
+    resolveDayHours,
+    parseTimeOfDay,
+    getMinuteOfDay,
+} from '../../utils/businessHoursUtils';
+import { getArtistId, getArtistJobs, canTechnicianPerformServices } from '../../utils/artistUtils';
 import { useScheduler } from '../../hooks/useScheduler';
 import { useDragDrop } from '../../hooks/useDragDrop';
-import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { useOptimisticAppointments } from '../../hooks/useOptimisticAppointments';
+import { useUndoableChanges } from '../../hooks/useUndoableChanges';
+import { useZonedCallbacks } from '../../hooks/useZonedCallbacks';
+import { SchedulerLocaleContext } from '../../hooks/useSchedulerLocale';
+import { getAppointmentColor, getServiceDisplayName } from '../../utils/colorUtils';
+import { getServiceCategories, getAppointmentServiceTypes, getAppointmentCategories } from '../../utils/serviceUtils';
+import {
+    filterTechnicians,
+    isAppointmentShown,
+    isBlockedTimeShown,
+    loadTechnicianFilter,
+    saveTechnicianFilter,
+    TECHNICIAN_FILTER_STORAGE_KEY,
+} from '../../utils/technicianFilterUtils';
+import { createTimelineScale, getTimelineOffset, getTimelineTick, DEFAULT_TIMELINE_TICK } from '../../utils/timelineUtils';
 import { DayView } from './DayView';
 import { WeekView } from './WeekView';
+import { TimelineView } from './TimelineView';
+import { MonthView } from './MonthView';
+import { AgendaView } from './AgendaView';
 import { ViewToggle } from './ViewToggle';
+import { AppointmentSearch } from './AppointmentSearch';
+import { TechnicianFilter } from './TechnicianFilter';
+import { ColorLegend } from './ColorLegend';
 import { ThemeToggle } from './ThemeToggle';
 import { DetailModal } from './DetailModal';
 import { DetailPanel } from './DetailPanel';
 import { CreateAppointmentModal } from './CreateAppointmentModal';
 import { DatePickerModal } from './DatePickerModal';
+import { RecurrenceScopePrompt } from './RecurrenceScopePrompt';
 
 /**
  * Scheduler Component
@@ -29,12 +108,19 @@ import { DatePickerModal } from './DatePickerModal';
  * The main scheduler component for a lash studio appointment management system.
  * 
  * Features:
- * - Day and Week view modes
- * - Time grid with 30-minute slots
+ * - Day, Week, Month and Agenda (list) view modes
+ * - Time grid with configurable slots (30 minutes by default)
  * - Color-coded appointments by service type
  * - Drag-and-drop rescheduling
+ * - Recurring appointment series with per-occurrence exceptions
  * - Configurable detail display (modal or side panel)
  * - Overlapping appointment handling
+ * - Blocked time (meetings, cleaning, training) that can't be booked over
+ * - Optional studio time zone: everything is shown and edited in the studio's time
+ * - Locale-aware texts, dates, clock and first day of the week (English and French built in)
+ * - Configurable first day of the week and hidden days (e.g. a 5-day work week or closed days)
+ * - Optimistic updates with rollback when change callbacks return a Promise
+ * - Undo/redo of moves, resizes, edits, deletes and creates (Ctrl+Z / Ctrl+Shift+Z, notice bar button)
  * - Responsive design
  * 
  * @example
@@ -51,60 +137,226 @@ import { DatePickerModal } from './DatePickerModal';
  * />
  * ```
  */
-const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
-const STATUS_FILTER_OPTIONS: Array<'all' | AppointmentStatus> = ['all', 'pending', 'confirmed', 'canceled', 'completed'];
+// Labels of the Previous/Next buttons per view
+const NAVIGATION_LABELS: Record<ViewMode, { previous: keyof SchedulerMessages; next: keyof SchedulerMessages }> = {
+    day: { previous: 'previousDay', next: 'nextDay' },
+    days: { previous: 'previousRange', next: 'nextRange' },
+    week: { previous: 'previousWeek', next: 'nextWeek' },
+    month: { previous: 'previousMonth', next: 'nextMonth' },
+    agenda: { previous: 'previousRange', next: 'nextRange' },
+    timeline: { previous: 'previousWeek', next: 'nextWeek' },
+};
 
-export function Scheduler({
+// How long the notice bar (refused or double-booked drag, failed save, undo) stays visible
+const NOTICE_DURATION_MS = 5000;
+
+// Longest range selectable for the agenda view
+const MAX_AGENDA_DAYS = 31;
+
+// Longest range shown side by side in the N-day view
+const MAX_DAY_COUNT = 14;
+
+// Placeholder rows of the loading overlay
+const LOADING_SKELETON_ROWS = 6;
+
+const STATUS_FILTER_OPTIONS: Array<'all' | AppointmentStatus> = ['all', 'pending', 'confirmed', 'cancelled', 'completed'];
+
+// Message in the notice bar; info notices are neutral, others are warnings (blocked: errors).
+// action adds an Undo or Redo button.
+interface SchedulerNotice {
+    message: string;
+    blocked: boolean;
+    info?: boolean;
+    action?: 'undo' | 'redo';
+}
+
+// Whether a key press goes to a text field (its own undo applies there)
+function isEditableTarget(target: EventTarget | null): boolean {
+    return (
+        target instanceof HTMLElement &&
+        (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')
+    );
+}
+
+// Temporary appointment shown while onNewAppointment's Promise is pending
+function toPendingAppointment(appointmentData: NewAppointmentData, id: string): Appointment {
+    const firstJob = appointmentData.jobs[0];
+    return {
+        id,
+        client: appointmentData.client,
+        serviceType: firstJob?.serviceType ?? '',
+        startTime: appointmentData.startTime,
+        duration: appointmentData.duration,
+        email: appointmentData.email ?? '',
+        status: appointmentData.status ?? 'pending',
+        ...(firstJob?.technicianId && { artist: firstJob.technicianId }),
+        jobs: appointmentData.jobs,
+        phone: appointmentData.phone,
+        ...(appointmentData.notes && { notes: appointmentData.notes }),
+        ...(appointmentData.recurrence && { recurrence: appointmentData.recurrence }),
+    };
+}
+
+export const Scheduler = forwardRef<SchedulerHandle, SchedulerProps>(function Scheduler({
     appointments,
     technicians: providedTechnicians,
     services,
     technicianServices,
     startHour = 8,
     endHour = 21,
+    slotDuration: slotDurationProp = SLOT_DURATION,
+    slotHeight: slotHeightProp = SLOT_HEIGHT,
+    scrollToTime,
+    showCurrentTime = true,
     businessHours,
-    view: initialView = 'week',
-    selectedDate: initialDate,
+    businessHoursOverrides,
+    timeZone: timeZoneProp,
+    locale,
+    messages: messageOverrides,
+    timeFormat,
+    weekStartsOn: weekStartsOnProp,
+    hiddenDays,
+    hideClosedDays = false,
+    view: viewProp,
+    onViewChange: onViewChangeProp,
+    selectedDate: selectedDateProp,
+    onDateChange: onDateChangeProp,
+    selectedAppointmentId,
+    onSelectedAppointmentChange: onSelectedAppointmentChangeProp,
+    technicianFilter: technicianFilterProp,
+    onTechnicianFilterChange: onTechnicianFilterChangeProp,
+    technicianFilterStorageKey = TECHNICIAN_FILTER_STORAGE_KEY,
+    agendaDays: initialAgendaDays,
+    dayCount: initialDayCount = 3,
+    groupByTechnician = false,
+    timelineTick: initialTimelineTick = DEFAULT_TIMELINE_TICK,
+    colorBy = 'technician',
+    showLegend = false,
     detailDisplay = 'modal',
-    onSelectAppointment,
-    onCreateAppointment,
-    onNewAppointment,
-    onUpdateAppointment,
-    onDeleteAppointment,
-    onRescheduleAppointment,
-}: SchedulerProps) {
-    // Per-day schedule: map day name -> { startHour, endHour } (parsed from businessHours)
-    const scheduleByDay = useMemo(() => {
-        if (!businessHours?.length) return null;
-        const map = new Map<string, { startHour: number; endHour: number }>();
-        for (const row of businessHours) {
-            const day = row.day.toLowerCase();
-            const start = parseInt(row.open, 10);
-            const end = parseInt(row.close, 10);
-            if (!Number.isNaN(start) && !Number.isNaN(end)) {
-                map.set(day, { startHour: start, endHour: end });
-            }
-        }
-        return map;
-    }, [businessHours]);
+    conflictPolicy = 'warn',
+    blockedTimes: providedBlockedTimes,
+    onSelectAppointment: onSelectAppointmentProp,
+    onCreateAppointment: onCreateAppointmentProp,
+    onNewAppointment: onNewAppointmentProp,
+    onUpdateAppointment: onUpdateAppointmentProp,
+    onDeleteAppointment: onDeleteAppointmentProp,
+    onRescheduleAppointment: onRescheduleAppointmentProp,
+    onResizeAppointment: onResizeAppointmentProp,
+    onCreateBlockedTime: onCreateBlockedTimeProp,
+    onRescheduleBlockedTime: onRescheduleBlockedTimeProp,
+    onDeleteBlockedTime,
+    onRangeChange: onRangeChangeProp,
+    loading = false,
+}, ref) {
+    // Slot size; non-positive values fall back to the defaults so the grid can always be built
+    const slotDuration = slotDurationProp > 0 ? slotDurationProp : SLOT_DURATION;
+    const slotHeight = slotHeightProp > 0 ? slotHeightProp : SLOT_HEIGHT;
 
-    const getHoursForDate = useCallback(
-        (date: Date): { startHour: number; endHour: number } => {
-            if (!scheduleByDay) return { startHour, endHour };
-            const dayName = DAY_NAMES[date.getDay()];
-            const hours = scheduleByDay.get(dayName);
-            return hours ?? { startHour, endHour };
+    // Studio time zone. Internally every date is wall-clock time in this zone (see toZonedTime);
+    // incoming data is converted below and dates passed to callbacks are converted back (useZonedCallbacks).
+    const timeZone = timeZoneProp && isValidTimeZone(timeZoneProp) ? timeZoneProp : undefined;
+
+    // Locale settings (texts, clock, first day of the week) shared with every component via context
+    const i18n = useMemo(
+        () => resolveSchedulerLocale(locale, messageOverrides, timeFormat, weekStartsOnProp),
+        [locale, messageOverrides, timeFormat, weekStartsOnProp]
+    );
+    const { messages, weekStartsOn } = i18n;
+
+    const {
+        onDateChange,
+        onSelectedAppointmentChange,
+        onRangeChange,
+        onSelectAppointment,
+        onCreateAppointment,
+        onNewAppointment,
+        onUpdateAppointment,
+        onDeleteAppointment,
+        onRescheduleAppointment,
+        onResizeAppointment,
+        onCreateBlockedTime,
+        onRescheduleBlockedTime,
+    } = useZonedCallbacks(
+        {
+            onDateChange: onDateChangeProp,
+            onSelectedAppointmentChange: onSelectedAppointmentChangeProp,
+            onRangeChange: onRangeChangeProp,
+            onSelectAppointment: onSelectAppointmentProp,
+            onCreateAppointment: onCreateAppointmentProp,
+            onNewAppointment: onNewAppointmentProp,
+            onUpdateAppointment: onUpdateAppointmentProp,
+            onDeleteAppointment: onDeleteAppointmentProp,
+            onRescheduleAppointment: onRescheduleAppointmentProp,
+            onResizeAppointment: onResizeAppointmentProp,
+            onCreateBlockedTime: onCreateBlockedTimeProp,
+            onRescheduleBlockedTime: onRescheduleBlockedTimeProp,
         },
-        [scheduleByDay, startHour, endHour]
+        timeZone
+    );
+
+    // Per-day schedule: day name -> open intervals (parsed from businessHours, minute precision)
+    const scheduleByDay = useMemo(
+        () => (businessHours?.length ? parseBusinessHours(businessHours) : null),
+        [businessHours]
+    );
+
+    // Date overrides: 'YYYY-MM-DD' -> open intervals (empty = closed)
+    const scheduleByDate = useMemo(
+        () => (businessHoursOverrides?.length ? parseScheduleOverrides(businessHoursOverrides) : null),
+        [businessHoursOverrides]
     );
 
-    // Normalize appointments: ensure startTime is Date (API often sends ISO strings).
+    const hasBusinessHours = Boolean(scheduleByDay || scheduleByDate);
+
+    const getHoursForDate = useCallback(
+        (date: Date): DayHours =>
+            resolveDayHours(date, scheduleByDay, scheduleByDate, startHour, endHour),
+        [scheduleByDay, scheduleByDate, startHour, endHour]
+    );
+
+    // Days left out of the week view and skipped by day navigation (hidden weekdays, closed days).
+    // Keyed by value so an inline hiddenDays array doesn't create a new check on every render.
+    const hiddenDaysKey = (hiddenDays ?? []).join(',');
+    const isDayVisible = useMemo(() => {
+        const hiddenWeekdays = new Set(hiddenDaysKey ? hiddenDaysKey.split(',').map(Number) : []);
+        const hidesClosedDays = hideClosedDays && hasBusinessHours;
+        if (hiddenWeekdays.size === 0 && !hidesClosedDays) return undefined;
+        return (date: Date) =>
+            !hiddenWeekdays.has(date.getDay()) &&
+            !(hidesClosedDays && getHoursForDate(date).intervals.length === 0);
+    }, [hiddenDaysKey, hideClosedDays, hasBusinessHours, getHoursForDate]);
+
+    // Normalize appointments: ensure startTime (and recurrence dates) are Dates (API often sends ISO strings),
+    // then move them to the studio's wall-clock time.
     const appointmentsNormalized: Appointment[] = useMemo(() => {
-        return appointments.map((apt) => ({
+        const toDate = (value: Date | string) => (value instanceof Date ? value : new Date(value));
+        const normalized = appointments.map((apt): Appointment => ({
             ...apt,
-            startTime: apt.startTime instanceof Date ? apt.startTime : new Date(apt.startTime as string),
+            startTime: toDate(apt.startTime),
             status: apt.status ?? 'pending',
+            ...(apt.recurrence?.until && {
+                recurrence: { ...apt.recurrence, until: toDate(apt.recurrence.until) },
+            }),
+            ...(apt.recurrenceExceptions && {
+                recurrenceExceptions: apt.recurrenceExceptions.map((exception) => ({
+                    ...exception,
+                    originalStartTime: toDate(exception.originalStartTime),
+                    ...(exception.overrides?.startTime && {
+                        overrides: { ...exception.overrides, startTime: toDate(exception.overrides.startTime) },
+                    }),
+                })),
+            }),
         }));
-    }, [appointments]);
+        return timeZone ? normalized.map((apt) => appointmentToTimeZone(apt, timeZone)) : normalized;
+    }, [appointments, timeZone]);
+
+    // Changes whose callback returned a pending Promise are shown on top of the appointments
+    // until it settles; a rejection rolls them back
+    const {
+        appointments: displayedAppointments,
+        pendingIds: pendingChangeIds,
+        trackChange,
+    } = useOptimisticAppointments(appointmentsNormalized);
 
     // Extract unique technicians from appointments if not provided.
     // Normalize: support both Technician[] and string[] (strings become { id, name }).
@@ -114,11 +366,13 @@ export function Scheduler({
             return providedTechnicians.map((t): Technician => {
                 if (typeof t === 'string') return { id: t, name: t };
                 const raw = t as Technician & { colorCode?: string };
-                return {
+                const technician: Technician = {
                     id: raw.id,
                     name: raw.name,
                     color: raw.color ?? raw.colorCode ?? undefined,
+                    availability: raw.availability,
                 };
+                return timeZone ? technicianToTimeZone(technician, timeZone) : technician;
             });
         }
         const byId = new Map<string, string>();
@@ -135,7 +389,7 @@ export function Scheduler({
         return Array.from(byId.entries())
             .sort((a, b) => a[0].localeCompare(b[0]))
             .map(([id, name]) => ({ id, name }));
-    }, [providedTechnicians, appointments]);
+    }, [providedTechnicians, appointments, timeZone]);
 
     // Normalize services: support both Service[] and string[] (strings become { id, name, category }).
     // CreateAppointmentModal expects Service[] with id, name, category for the service selector.
@@ -152,12 +406,44 @@ export function Scheduler({
         return services as Service[];
     }, [services]);
 
+    // View, date and open appointment are controlled when passed with their change callback;
+    // on their own they are initial values. Keyed by time so an inline Date doesn't change on every render.
+    const selectedDateTime = selectedDateProp?.getTime();
+    const zonedSelectedDate = useMemo(() => {
+        if (selectedDateTime === undefined) return undefined;
+        const date = new Date(selectedDateTime);
+        return timeZone ? toZonedTime(date, timeZone) : date;
+    }, [selectedDateTime, timeZone]);
+    const appointmentFromProp = useMemo(() => {
+        if (selectedAppointmentId == null) return selectedAppointmentId;
+        const id = timeZone ? appointmentIdToTimeZone(selectedAppointmentId, timeZone) : selectedAppointmentId;
+        return findAppointmentById(displayedAppointments, id);
+    }, [selectedAppointmentId, displayedAppointments, timeZone]);
+
+    // Technician filter: a controlled one is the app's to keep; otherwise it's saved in localStorage
+    // and the saved filter wins over the initial one on the next visit
+    const isTechnicianFilterControlled = technicianFilterProp !== undefined && onTechnicianFilterChangeProp !== undefined;
+    const [savedTechnicianFilter] = useState(() => loadTechnicianFilter(technicianFilterStorageKey));
+    const onTechnicianFilterChange = useCallback(
+        (technicianIds: string[] | null) => {
+            if (!isTechnicianFilterControlled) saveTechnicianFilter(technicianIds, technicianFilterStorageKey);
+            onTechnicianFilterChangeProp?.(technicianIds);
+        },
+        [isTechnicianFilterControlled, technicianFilterStorageKey, onTechnicianFilterChangeProp]
+    );
+
     // Main scheduler state
     const {
         view,
         setView,
         selectedDate,
         setSelectedDate,
+        dayCount,
+        setDayCount,
+        agendaDays,
+        setAgendaDays,
+        technicianFilter,
+        setTechnicianFilter,
         goToPrevious,
         goToNext,
         goToToday,
@@ -166,24 +452,63 @@ export function Scheduler({
         isDetailOpen,
         closeDetail,
     } = useScheduler({
-        initialView,
-        initialDate,
+        initialView: viewProp,
+        view: onViewChangeProp ? viewProp : undefined,
+        onViewChange: onViewChangeProp,
+        initialDate: zonedSelectedDate,
+        selectedDate: onDateChange ? zonedSelectedDate : undefined,
+        onDateChange,
+        initialTechnicianFilter: savedTechnicianFilter !== undefined ? savedTechnicianFilter : technicianFilterProp ?? null,
+        technicianFilter: isTechnicianFilterControlled ? technicianFilterProp : undefined,
+        onTechnicianFilterChange,
+        initialSelectedAppointment: appointmentFromProp,
+        selectedAppointment: onSelectedAppointmentChange ? appointmentFromProp : undefined,
+        onSelectedAppointmentChange,
         detailDisplay,
+        initialDayCount: Math.min(Math.max(Math.round(initialDayCount), 1), MAX_DAY_COUNT),
+        initialAgendaDays,
+        timeZone,
+        isDayVisible,
     });
 
-    // Effective hours for week view: union of all days' hours so the time column spans all openings
+    // Day columns of the week view (the selected date's week) or N-day view (N days from the selected date), without hidden days
+    const visibleColumnDates = useMemo(
+        () =>
+            filterVisibleDates(
+                view === 'days' ? getRangeDates(selectedDate, dayCount) : getWeekDates(selectedDate, weekStartsOn),
+                isDayVisible
+            ),
+        [view, selectedDate, dayCount, weekStartsOn, isDayVisible]
+    );
+
+    // Effective hours for week and N-day views: union of all open days' hours so the time column spans all openings
     const weekViewHours = useMemo(() => {
-        if (!scheduleByDay) return { startHour, endHour };
-        const days = getWeekDates(selectedDate);
+        if (!hasBusinessHours) return { startHour, endHour };
         let minStart = 24;
         let maxEnd = 0;
-        for (const d of days) {
-            const { startHour: s, endHour: e } = getHoursForDate(d);
+        for (const d of visibleColumnDates) {
+            const { startHour: s, endHour: e, intervals } = getHoursForDate(d);
+            if (intervals.length === 0) continue;
             minStart = Math.min(minStart, s);
             maxEnd = Math.max(maxEnd, e);
         }
+        // Whole week closed: fall back to the default range
+        if (minStart >= maxEnd) return { startHour, endHour };
         return { startHour: minStart, endHour: maxEnd };
-    }, [scheduleByDay, selectedDate, getHoursForDate, startHour, endHour]);
+    }, [hasBusinessHours, visibleColumnDates, getHoursForDate, startHour, endHour]);
+
+    // Timeline view: the week's days side by side at the chosen zoom
+    const [timelineTick, setTimelineTick] = useState(() => getTimelineTick(initialTimelineTick));
+    const timelineScale = useMemo(
+        () => createTimelineScale(
+            visibleColumnDates,
+            weekViewHours.startHour,
+            weekViewHours.endHour,
+            timelineTick,
+            slotDuration
+        ),
+        [visibleColumnDates, weekViewHours, timelineTick, slotDuration]
+    );
 
     // Hours for the currently selected day (day view)
     const dayViewHours = useMemo(
@@ -194,18 +519,383 @@ export function Scheduler({
     // Date picker modal state
     const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
-    // Selected date range (for week view highlighting)
-    const [selectedDateRange, setSelectedDateRange] = useState<{ start: Date; end: Date } | null>(null);
     const [statusFilter, setStatusFilter] = useState<'all' | AppointmentStatus>('all');
+    const [serviceFilter, setServiceFilter] = useState<'all' | ServiceType>('all');
+    const [categoryFilter, setCategoryFilter] = useState<string>('all');
+    const serviceCategories = useMemo(() => getServiceCategories(normalizedServices), [normalizedServices]);
+
+    // Block colors for the color-by mode; undefined keeps each view's technician colors
+    const resolveAppointmentColor = useMemo(
+        () =>
+            colorBy === 'technician'
+                ? undefined
+                : (appointment: Appointment) => getAppointmentColor(appointment, colorBy, technicians, normalizedServices),
+        [colorBy, technicians, normalizedServices]
+    );
+
+    // Visible date range for the current view; recurring series are expanded within it
+    const visibleRange = useMemo(() => {
+        if (view === 'day') {
+            return { start: startOfDay(selectedDate), end: endOfDay(selectedDate) };
+        }
+        if (view === 'agenda') {
+            const last = new Date(selectedDate);
+            last.setDate(last.getDate() + agendaDays - 1);
+            return { start: startOfDay(selectedDate), end: endOfDay(last) };
+        }
+        const days = view === 'month' ? getMonthGridDates(selectedDate, weekStartsOn) : visibleColumnDates;
+        return { start: days[0], end: endOfDay(days[days.length - 1]) };
+    }, [view, selectedDate, agendaDays, weekStartsOn, visibleColumnDates]);
+
+    const expandedAppointments = useMemo(
+        () => expandRecurringAppointments(displayedAppointments, visibleRange.start, visibleRange.end),
+        [displayedAppointments, visibleRange]
+    );
+
+    // Blocks whose change is still being saved (occurrences follow their series)
+    const pendingAppointmentIds = useMemo(
+        () =>
+            new Set(
+                expandedAppointments
+                    .filter((apt) => pendingChangeIds.has(apt.id) || (apt.seriesId && pendingChangeIds.has(apt.seriesId)))
+                    .map((apt) => apt.id)
+            ),
+        [expandedAppointments, pendingChangeIds]
+    );
+
+    // Report the visible window on mount and whenever it (or the view) changes, as real instants.
+    // The latest callback is kept in a ref so an inline onRangeChange doesn't fire on every render.
+    const onRangeChangeRef = useRef(onRangeChange);
+    useEffect(() => {
+        onRangeChangeRef.current = onRangeChange;
+    });
+    const rangeStartTime = visibleRange.start.getTime();
+    const rangeEndTime = visibleRange.end.getTime();
+    useEffect(() => {
+        const start = new Date(rangeStartTime);
+        const end = new Date(rangeEndTime);
+        onRangeChangeRef.current?.({ start, end, view });
+    }, [rangeStartTime, rangeEndTime, view, timeZone]);
+
+    // Double-booking checks: bookings of the same technician that overlap a new or changed one.
+    // Series are expanded around the candidate so checks also work outside the visible range.
+    const getConflicts = useCallback(
+        (candidate: ConflictCandidate) => {
+            const candidateEnd = addMinutes(candidate.startTime, candidate.duration);
+            const nearby = expandRecurringAppointments(
+                displayedAppointments,
+                startOfDay(candidate.startTime),
+                endOfDay(candidateEnd)
+            );
+            return findConflicts(candidate, nearby);
+        },
+        [displayedAppointments]
+    );
+
+    // Stable list of blocked time (meetings, cleaning, training) in the studio's wall-clock time
+    const blockedTimes = useMemo<BlockedTime[]>(() => {
+        const list = providedBlockedTimes ?? [];
+        return timeZone ? list.map((block) => blockedTimeToTimeZone(block, timeZone)) : list;
+    }, [providedBlockedTimes, timeZone]);
+
+    // Technicians the filter shows (their columns and rows), and their IDs while some are hidden
+    const visibleTechnicians = useMemo(
+        () => filterTechnicians(technicians, technicianFilter),
+        [technicians, technicianFilter]
+    );
+    const visibleTechnicianIds = useMemo(
+        () => visibleTechnicians.length < technicians.length
+            ? new Set(visibleTechnicians.map((technician) => technician.id))
+            : null,
+        [visibleTechnicians, technicians]
+    );
+
+    // Appointments flagged as double-booked (or overlapping blocked time) in the grid
+    const conflictingAppointmentIds = useMemo(
+        () =>
+            conflictPolicy === 'allow'
+                ? new Set<string>()
+                : getConflictingAppointmentIds(expandedAppointments, blockedTimes),
+        [conflictPolicy, expandedAppointments, blockedTimes]
+    );
+
+    // Notice bar: a drag or resize ran into a double booking or an unavailable technician,
+    // a save failed, or the last change can be undone (or redone)
+    const [notice, setNotice] = useState<SchedulerNotice | null>(null);
+
+    useEffect(() => {
+        if (!notice) return;
+        const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [notice]);
+
+    // A change whose save failed has already been rolled back; say why
+    const reportChangeResult = useCallback(
+        (result: ChangeResult): ChangeResult => {
+            if (isPromiseLike(result)) {
+                result.then(undefined, (reason: unknown) =>
+                    setNotice({ message: formatSaveError(reason, messages), blocked: true })
+                );
+            }
+            return result;
+        },
+        [messages]
+    );
+
+    // Change callbacks, shown optimistically when they return a Promise
+    const pendingAppointmentKeyRef = useRef(0);
+    const rescheduleAppointment = useCallback(
+        (id: string, newStartTime: Date, scope?: RecurrenceEditScope, newTechnicianId?: string): ChangeResult => {
+            if (!onRescheduleAppointment) return;
+            return trackChange(onRescheduleAppointment(id, newStartTime, scope, newTechnicianId), (list) =>
+                applyRecurrenceReschedule(list, id, newStartTime, scope, newTechnicianId)
+            );
+        },
+        [onRescheduleAppointment, trackChange]
+    );
+    const resizeAppointment = useCallback(
+        (id: string, newDuration: number, scope?: RecurrenceEditScope): ChangeResult => {
+            if (!onResizeAppointment) return;
+            return trackChange(onResizeAppointment(id, newDuration, scope), (list) =>
+                applyRecurrenceResize(list, id, newDuration, scope)
+            );
+        },
+        [onResizeAppointment, trackChange]
+    );
+    const updateAppointment = useCallback(
+        (appointment: Appointment, scope?: RecurrenceEditScope): ChangeResult => {
+            if (!onUpdateAppointment) return;
+            return trackChange(onUpdateAppointment(appointment, scope), (list) =>
+                applyRecurrenceUpdate(list, appointment, scope)
+            );
+        },
+        [onUpdateAppointment, trackChange]
+    );
+    const deleteAppointment = useCallback(
+        (id: string, scope?: RecurrenceEditScope): ChangeResult => {
+            if (!onDeleteAppointment) return;
+            return trackChange(onDeleteAppointment(id, scope), (list) => applyRecurrenceDelete(list, id, scope));
+        },
+        [onDeleteAppointment, trackChange]
+    );
+    const createAppointment = useCallback(
+        (appointmentData: NewAppointmentData): ChangeResult => {
+            if (!onNewAppointment) return;
+            // While the Promise is pending, a temporary appointment stands in for the new one
+            const temporary = toPendingAppointment(appointmentData, `pending-${pendingAppointmentKeyRef.current++}`);
+            return trackChange(onNewAppointment(appointmentData), (list) => [...list, temporary]);
+        },
+        [onNewAppointment, trackChange]
+    );
+
+    // Undo/redo history of the changes made in the scheduler (Ctrl+Z / Ctrl+Shift+Z); destructive changes
+    // offer Undo in the notice bar (a double-booking warning from the same drag keeps its text and gets the button)
+    const handleUndoOffered = useCallback((label: string) => {
+        setNotice((current) =>
+            current && !current.blocked && !current.action
+                ? { ...current, action: 'undo' }
+                : { message: label, blocked: false, info: true, action: 'undo' }
+        );
+    }, []);
+    const {
+        rescheduleAppointment: commitReschedule,
+        resizeAppointment: commitResize,
+        updateAppointment: updateUndoableAppointment,
+        deleteAppointment: deleteUndoableAppointment,
+        createAppointment: createUndoableAppointment,
+        undo,
+        redo,
+    } = useUndoableChanges({
+        appointments: displayedAppointments,
+        savedAppointments: appointmentsNormalized,
+        messages,
+        rescheduleAppointment: onRescheduleAppointment ? rescheduleAppointment : undefined,
+        resizeAppointment: onResizeAppointment ? resizeAppointment : undefined,
+        updateAppointment: onUpdateAppointment ? updateAppointment : undefined,
+        deleteAppointment: onDeleteAppointment ? deleteAppointment : undefined,
+        createAppointment: onNewAppointment ? createAppointment : undefined,
+        reportResult: reportChangeResult,
+        onUndoOffered: handleUndoOffered,
+    });
+
+    // Drag/resize validation: technicians must be working and not in blocked time;
+    // 'block' refuses double bookings, 'warn' lets them through with a notice
+    const validateDragChange = useCallback(
+        (updated: Appointment) => {
+            const availabilityIssues = getAvailabilityIssues(
+                technicians,
+                getAppointmentTechnicianIds(updated),
+                updated.startTime,
+                updated.duration,
+                i18n
+            );
+            if (availabilityIssues.length > 0) {
+                setNotice({
+                    message: formatMessage(messages.dragRefused, { reason: availabilityIssues.join('; ') }),
+                    blocked: true,
+                });
+                return false;
+            }
+            const blockedTimeConflicts = findBlockedTimeConflicts(updated, blockedTimes);
+            if (blockedTimeConflicts.length > 0) {
+                setNotice({
+                    message: formatMessage(messages.dragRefused, {
+                        reason: describeBlockedTimeConflicts(blockedTimeConflicts, technicians, i18n),
+                    }),
+                    blocked: true,
+                });
+                return false;
+            }
+            if (conflictPolicy === 'allow') return true;
+            const conflicts = getConflicts(updated);
+            if (conflicts.length === 0) return true;
+            const blocked = conflictPolicy === 'block';
+            setNotice({
+                message: formatMessage(blocked ? messages.dragRefused : messages.dragDoubleBooked, {
+                    reason: describeConflicts(conflicts, technicians, i18n),
+                }),
+                blocked,
+            });
+            return !blocked;
+        },
+        [getConflicts, conflictPolicy, technicians, blockedTimes, i18n, messages]
+    );
+
+    // Drag or resize of a recurring occurrence waiting for the user to choose a scope
+    const [pendingDragChange, setPendingDragChange] = useState<
+        | { kind: 'reschedule'; id: string; newStartTime: Date; newTechnicianId?: string }
+        | { kind: 'resize'; id: string; newDuration: number }
+        | null
+    >(null);
+
+    // Reschedule from drag-and-drop: occurrences of a series ask for the scope first
+    const handleReschedule = useCallback(
+        (id: string, newStartTime: Date, newTechnicianId?: string) => {
+            if (!onRescheduleAppointment) return;
+            const appointment = expandedAppointments.find((apt) => apt.id === id);
+            if (appointment?.seriesId) {
+                setPendingDragChange({ kind: 'reschedule', id, newStartTime, newTechnicianId });
+                return;
+            }
+            commitReschedule(id, newStartTime, undefined, newTechnicianId);
+        },
+        [onRescheduleAppointment, commitReschedule, expandedAppointments]
+    );
+
+    // Resize from the bottom-edge handle: occurrences of a series ask for the scope first
+    const handleResize = useCallback(
+        (id: string, newDuration: number) => {
+            if (!onResizeAppointment) return;
+            const appointment = expandedAppointments.find((apt) => apt.id === id);
+            if (appointment?.seriesId) {
+                setPendingDragChange({ kind: 'resize', id, newDuration });
+                return;
+            }
+            commitResize(id, newDuration);
+        },
+        [onResizeAppointment, commitResize, expandedAppointments]
+    );
+
+    const handleDragScopeSelect = useCallback(
+        (scope: RecurrenceEditScope) => {
+            if (pendingDragChange?.kind === 'reschedule') {
+                commitReschedule(
+                    pendingDragChange.id,
+                    pendingDragChange.newStartTime,
+                    scope,
+                    pendingDragChange.newTechnicianId
+                );
+            } else if (pendingDragChange?.kind === 'resize') {
+                commitResize(pendingDragChange.id, pendingDragChange.newDuration, scope);
+            }
+            setPendingDragChange(null);
+        },
+        [pendingDragChange, commitReschedule, commitResize]
+    );
+
+    // Drops on another technician's column: they must be able to perform the artist's services
+    const canReassign = useCallback(
+        (appointment: Appointment, technicianId: string) =>
+            canTechnicianPerformServices(
+                technicianServices,
+                technicianId,
+                getArtistJobs(appointment).map((job) => job.serviceType)
+            ),
+        [technicianServices]
+    );
 
     // Drag and drop handling (use per-day hours when businessHours provided)
-    const { draggingId, handleDragStart, handleDragEnd, snapModifier } = useDragDrop({
+    const {
+        draggingId,
+        handleDragStart,
+        handleDragMove,
+        handleDragEnd,
+        handleDragCancel,
+        snapModifier,
+        keyboardSensorOptions,
+        getDragPreview,
+    } = useDragDrop({
         startHour,
         endHour,
-        getHoursForDate: scheduleByDay ? getHoursForDate : undefined,
-        onReschedule: onRescheduleAppointment,
+        slotDuration,
+        slotHeight,
+        getHoursForDate: hasBusinessHours ? getHoursForDate : undefined,
+        onReschedule: onRescheduleAppointment ? handleReschedule : undefined,
+        onResize: onResizeAppointment ? handleResize : undefined,
+        canReassign,
+        validateChange: validateDragChange,
+        onRescheduleBlockedTime,
     });
 
+    // Screen reader texts while dragging (keyboard or pointer): what was picked up and where it would land
+    const dragAccessibility = useMemo(() => {
+        const { messages } = i18n;
+        const describeItem = (active: Active) => {
+            const data = active.data.current as { appointment?: Appointment; blockedTime?: BlockedTime } | undefined;
+            if (data?.blockedTime) return data.blockedTime.title;
+            if (!data?.appointment) return String(active.id);
+            return formatMessage(messages.appointmentLabel, {
+                client: data.appointment.client.name,
+                service: getServiceDisplayName(data.appointment.serviceType),
+                time: formatTime(data.appointment.startTime, i18n),
+            });
+        };
+        const describePosition = (active: Active, over: Over | null) => {
+            const preview = getDragPreview(active, over);
+            if (!preview) return undefined;
+            if (preview.resize) {
+                return formatMessage(messages.resizePreview, {
+                    time: formatTime(addMinutes(preview.startTime, preview.duration), i18n),
+                    duration: preview.duration,
+                });
+            }
+            const date = formatShortDate(preview.startTime, i18n);
+            if (preview.dateOnly) return formatMessage(messages.dragMoveToDate, { date });
+            const technician = preview.technicianId
+                ? technicians.find((t) => t.id === preview.technicianId)
+                : undefined;
+            return formatMessage(messages.dragMoveTo, {
+                // Several days show each technician in the grouped week view
+                place: technician ? (view === 'day' ? technician.name : `${technician.name}, ${date}`) : date,
+                time: formatTime(preview.startTime, i18n),
+            });
+        };
+        const announcements: Announcements = {
+            onDragStart: ({ active }) => formatMessage(messages.dragPickedUp, { item: describeItem(active) }),
+            onDragMove: ({ active, over }) => describePosition(active, over),
+            onDragOver: ({ active, over }) => describePosition(active, over),
+            onDragEnd: ({ active }) => formatMessage(messages.dragDropped, { item: describeItem(active) }),
+            onDragCancel: ({ active }) => formatMessage(messages.dragCancelled, { item: describeItem(active) }),
+        };
+        return { announcements, screenReaderInstructions: { draggable: messages.dragInstructions } };
+    }, [i18n, technicians, view, getDragPreview]);
+
+    // Blocked time delete button (on the block in day and week views)
+    const handleDeleteBlockedTime = useCallback(
+        (blockedTime: BlockedTime) => onDeleteBlockedTime?.(blockedTime.id),
+        [onDeleteBlockedTime]
+    );
+
     // Create appointment modal state
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [createModalStartTime, setCreateModalStartTime] = useState<Date | null>(null);
@@ -224,7 +914,7 @@ export function Scheduler({
                 tolerance: 8,
             },
         }),
-        useSensor(KeyboardSensor)
+        useSensor(KeyboardSensor, keyboardSensorOptions)
     );
 
     // Handle appointment click - combines internal state and external callback
@@ -257,24 +947,66 @@ export function Scheduler({
         setIsCreateModalOpen(true);
     }, []);
 
-    // Handle appointment creation from modal
+    // Handle appointment creation from modal; undone by deleting the appointment the app added
     const handleCreateAppointment = useCallback(
-        (appointmentData: NewAppointmentData) => {
+        (appointmentData: NewAppointmentData): ChangeResult => {
             // Call the new callback with full data if provided
             // Includes: clientName, jobs[], startTime, duration, email, artist, phone, notes
-            if (onNewAppointment) {
-                console.log(appointmentData)
-                onNewAppointment(appointmentData);
-            }
+            const result = createUndoableAppointment(appointmentData);
             // Also call legacy callback for backward compatibility
             if (onCreateAppointment) {
                 const endTime = new Date(appointmentData.startTime);
                 onCreateAppointment(appointmentData.startTime, endTime);
             }
+            return result;
         },
-        [onNewAppointment, onCreateAppointment]
+        [onCreateAppointment, createUndoableAppointment]
     );
 
+    // Undo and redo (notice bar button, Ctrl+Z / Ctrl+Shift+Z, ref); the notice offers the opposite step
+    const handleUndo = useCallback(() => {
+        const entry = undo();
+        if (!entry) return false;
+        setNotice({
+            message: formatMessage(messages.actionUndone, { action: entry.label }),
+            blocked: false,
+            info: true,
+            action: 'redo',
+        });
+        return true;
+    }, [undo, messages]);
+    const handleRedo = useCallback(() => {
+        const entry = redo();
+        if (!entry) return false;
+        setNotice({
+            message: formatMessage(messages.actionRedone, { action: entry.label }),
+            blocked: false,
+            info: true,
+            action: 'undo',
+        });
+        return true;
+    }, [redo, messages]);
+
+    // Shortcuts work while no dialog is open and focus isn't in a text field (which has its own undo)
+    const isDialogOpen = isCreateModalOpen || pendingDragChange !== null || (isDetailOpen && detailDisplay === 'modal');
+    useEffect(() => {
+        if (isDialogOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isDialogOpen, handleUndo, handleRedo]);
+
     // Close create modal
     const handleCloseCreateModal = useCallback(() => {
         setIsCreateModalOpen(false);
@@ -291,12 +1023,21 @@ export function Scheduler({
         [setView]
     );
 
+    // Handle day click in month view - drills into the Day view
+    const handleMonthDayClick = useCallback(
+        (date: Date) => {
+            setSelectedDate(date);
+            setView('day');
+        },
+        [setSelectedDate, setView]
+    );
+
     // Handle navigation label click - opens date picker
     const handleNavigationLabelClick = useCallback(() => {
         setIsDatePickerOpen(true);
     }, []);
 
-    // Handle single date selection (day view)
+    // Handle single date selection (day and month view)
     const handleDateSelect = useCallback(
         (date: Date) => {
             setSelectedDate(date);
@@ -304,261 +1045,638 @@ export function Scheduler({
         [setSelectedDate]
     );
 
-    // Handle date range selection (week view)
+    // Handle date range selection (week, N-day and agenda view)
     const handleDateRangeSelect = useCallback(
         (startDate: Date, endDate: Date) => {
             // Set the selected date to the start of the range
-            // The week view will display from this date
             setSelectedDate(startDate);
-            // Store the selected range for highlighting
-            setSelectedDateRange({ start: startDate, end: endDate });
+            const days = Math.round((startOfDay(endDate).getTime() - startOfDay(startDate).getTime()) / 86400000) + 1;
+            if (view === 'agenda') {
+                // The agenda lists exactly the selected days
+                setAgendaDays(days);
+                return;
+            }
+            // Week and N-day views show exactly the selected days side by side
+            setDayCount(days);
+            setView('days');
         },
-        [setSelectedDate]
+        [view, setSelectedDate, setAgendaDays, setDayCount, setView]
+    );
+
+    // Scrolls the day, N-day or week grid so a time of day (minutes from midnight) is at the top
+    // (the timeline: at the left edge, on the given date or today when it's shown, or else the first day)
+    const contentRef = useRef<HTMLDivElement>(null);
+    const scrollGridToMinute = useCallback(
+        (minuteOfDay: number, behavior: ScrollBehavior, date?: Date) => {
+            const scrollArea = contentRef.current?.querySelector<HTMLElement>('.view-scroll-area');
+            if (!scrollArea || view === 'month' || view === 'agenda') return;
+            if (view === 'timeline') {
+                const target = date ?? getNow(timeZone);
+                const day = new Date(timelineScale.dates.find((d) => isSameDay(d, target)) ?? timelineScale.dates[0]);
+                day.setHours(0, minuteOfDay, 0, 0);
+                scrollArea.scrollTo({ left: getTimelineOffset(timelineScale, day) ?? 0, behavior });
+                return;
+            }
+            const gridStartHour = view === 'day' ? dayViewHours.startHour : weekViewHours.startHour;
+            const top = ((minuteOfDay - gridStartHour * 60) / slotDuration) * slotHeight;
+            scrollArea.scrollTo({ top: Math.max(0, top), behavior });
+        },
+        [view, dayViewHours, weekViewHours, slotDuration, slotHeight, timeZone, timelineScale]
+    );
+
+    // Where the grids open: scrollToTime, or the current time with one slot above it
+    const scrollToStartTime = useCallback(
+        (behavior: ScrollBehavior) => {
+            const configuredMinute = scrollToTime ? parseTimeOfDay(scrollToTime) : null;
+            scrollGridToMinute(
+                configuredMinute ?? getMinuteOfDay(getNow(timeZone)) - slotDuration,
+                behavior
+            );
+        },
+        [scrollToTime, scrollGridToMinute, timeZone, slotDuration]
+    );
+
+    // Scroll on mount and whenever another view opens (its grid starts at the top).
+    // The latest scroll function is kept in a ref so navigating dates doesn't scroll again.
+    const scrollToStartTimeRef = useRef(scrollToStartTime);
+    const scrollGridToMinuteRef = useRef(scrollGridToMinute);
+    useEffect(() => {
+        scrollToStartTimeRef.current = scrollToStartTime;
+        scrollGridToMinuteRef.current = scrollGridToMinute;
+    });
+    useEffect(() => {
+        scrollToStartTimeRef.current('auto');
+    }, [view]);
+
+    // Today button: show today, then scroll once today's grid is rendered
+    const [todayScrollRequest, setTodayScrollRequest] = useState(0);
+    useEffect(() => {
+        if (todayScrollRequest > 0) scrollToStartTimeRef.current('smooth');
+    }, [todayScrollRequest]);
+    const handleTodayClick = useCallback(() => {
+        goToToday();
+        setTodayScrollRequest((count) => count + 1);
+    }, [goToToday]);
+
+    // Search result picked: show its day, scroll to the block (one slot above it) and open it
+    const [searchScrollRequest, setSearchScrollRequest] = useState<{ time: Date } | null>(null);
+    useEffect(() => {
+        if (!searchScrollRequest) return;
+        const { time } = searchScrollRequest;
+        scrollGridToMinuteRef.current(getMinuteOfDay(time) - slotDuration, 'smooth', time);
+    }, [searchScrollRequest, slotDuration]);
+    const handleSearchSelect = useCallback(
+        (appointment: Appointment) => {
+            const date = startOfDay(appointment.startTime);
+            // The month and agenda views have no block to scroll to, nor does a week that hides the day
+            if (view === 'month' || view === 'agenda' || (view !== 'day' && isDayVisible && !isDayVisible(date))) {
+                setView('day');
+            }
+            setSelectedDate(date);
+            // Filters that hide the appointment are cleared
+            if (statusFilter !== 'all' && appointment.status !== statusFilter) setStatusFilter('all');
+            if (serviceFilter !== 'all' && !getAppointmentServiceTypes(appointment).includes(serviceFilter)) {
+                setServiceFilter('all');
+            }
+            if (
+                categoryFilter !== 'all' &&
+                !getAppointmentCategories(appointment, normalizedServices).includes(categoryFilter)
+            ) {
+                setCategoryFilter('all');
+            }
+            if (visibleTechnicianIds && !isAppointmentShown(appointment, visibleTechnicianIds)) {
+                setTechnicianFilter(null);
+            }
+            handleAppointmentClick(appointment);
+            setSearchScrollRequest({ time: appointment.startTime });
+        },
+        [
+            view,
+            isDayVisible,
+            setView,
+            setSelectedDate,
+            statusFilter,
+            serviceFilter,
+            categoryFilter,
+            normalizedServices,
+            visibleTechnicianIds,
+            setTechnicianFilter,
+            handleAppointmentClick,
+        ]
+    );
+
+    // Imperative API (ref); dates and IDs are real instants like the props
+    useImperativeHandle(
+        ref,
+        () => ({
+            goToDate: (date: Date, newView?: ViewMode) => {
+                setSelectedDate(timeZone ? toZonedTime(date, timeZone) : date);
+                if (newView) setView(newView);
+            },
+            scrollToTime: (time: string | Date) => {
+                const minuteOfDay =
+                    typeof time === 'string'
+                        ? parseTimeOfDay(time)
+                        : getMinuteOfDay(timeZone ? toZonedTime(time, timeZone) : time);
+                if (minuteOfDay !== null) scrollGridToMinute(minuteOfDay, 'smooth');
+            },
+            openAppointment: (id: string) => {
+                const appointment = findAppointmentById(
+                    displayedAppointments,
+                    timeZone ? appointmentIdToTimeZone(id, timeZone) : id
+                );
+                if (!appointment) return false;
+                setSelectedDate(startOfDay(appointment.startTime));
+                selectAppointment(appointment);
+                return true;
+            },
+            undo: handleUndo,
+            redo: handleRedo,
+        }),
+        [
+            timeZone,
+            setView,
+            setSelectedDate,
+            selectAppointment,
+            scrollGridToMinute,
+            displayedAppointments,
+            handleUndo,
+            handleRedo,
+        ]
     );
 
     // Find the appointment being dragged for the overlay
     const draggingAppointment = useMemo(
-        () => appointmentsNormalized.find((apt) => apt.id === draggingId),
-        [appointmentsNormalized, draggingId]
+        () => expandedAppointments.find((apt) => apt.id === draggingId),
+        [expandedAppointments, draggingId]
     );
     const filteredAppointments = useMemo(
         () =>
-            statusFilter === 'all'
-                ? appointmentsNormalized
-                : appointmentsNormalized.filter((apt) => apt.status === statusFilter),
-        [appointmentsNormalized, statusFilter]
+            expandedAppointments.filter((apt) =>
+                (statusFilter === 'all' || apt.status === statusFilter) &&
+                (serviceFilter === 'all' || getAppointmentServiceTypes(apt).includes(serviceFilter)) &&
+                (categoryFilter === 'all' || getAppointmentCategories(apt, normalizedServices).includes(categoryFilter)) &&
+                (!visibleTechnicianIds || isAppointmentShown(apt, visibleTechnicianIds))
+            ),
+        [expandedAppointments, statusFilter, serviceFilter, categoryFilter, normalizedServices, visibleTechnicianIds]
+    );
+    // Blocked time of hidden technicians is left out too (it still can't be booked over)
+    const visibleBlockedTimes = useMemo(
+        () =>
+            visibleTechnicianIds
+                ? blockedTimes.filter((block) => isBlockedTimeShown(block, visibleTechnicianIds))
+                : blockedTimes,
+        [blockedTimes, visibleTechnicianIds]
     );
 
     // Get navigation label based on view
     const navigationLabel = useMemo(() => {
         if (view === 'day') {
-            return formatShortDate(selectedDate);
+            return formatShortDate(selectedDate, i18n);
+        } else if (view === 'month') {
+            return formatMonthYear(selectedDate, i18n);
+        } else if (view === 'agenda') {
+            if (agendaDays <= 1) return formatShortDate(selectedDate, i18n);
+            const rangeEnd = new Date(selectedDate);
+            rangeEnd.setDate(rangeEnd.getDate() + agendaDays - 1);
+            return `${formatShortDate(selectedDate, i18n)} - ${formatShortDate(rangeEnd, i18n)}`;
         } else {
-            // Show week range
-            const weekStart = new Date(selectedDate);
-            weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-            const weekEnd = new Date(weekStart);
-            weekEnd.setDate(weekEnd.getDate() + 6);
-            return `${formatShortDate(weekStart)} - ${formatShortDate(weekEnd)}`;
+            // Show the range of visible days in the week or N-day range
+            const firstDay = visibleColumnDates[0];
+            const lastDay = visibleColumnDates[visibleColumnDates.length - 1];
+            if (isSameDay(firstDay, lastDay)) return formatShortDate(firstDay, i18n);
+            return `${formatShortDate(firstDay, i18n)} - ${formatShortDate(lastDay, i18n)}`;
         }
-    }, [view, selectedDate]);
-
-    // Suppress unused variable warning
-    void goToToday;
+    }, [view, selectedDate, agendaDays, visibleColumnDates, i18n]);
 
     return (
-        <DndContext
-            sensors={sensors}
-            onDragStart={handleDragStart}
-            onDragEnd={handleDragEnd}
-            modifiers={[snapModifier]}
-        >
-            <div className={`scheduler-container${draggingId ? ' is-dragging' : ''}`}>
-                {/* Header with navigation and controls */}
-                <header className="scheduler-header">
-                    {/* Navigation */}
-                    <div className="scheduler-nav">
-                        <button
-                            type="button"
-                            onClick={goToPrevious}
-                            className="scheduler-nav-btn"
-                            aria-label={view === 'day' ? 'Previous day' : 'Previous week'}
-                        >
-                            <svg
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
+        <SchedulerLocaleContext.Provider value={i18n}>
+            <DndContext
+                sensors={sensors}
+                onDragStart={handleDragStart}
+                onDragMove={handleDragMove}
+                onDragEnd={handleDragEnd}
+                onDragCancel={handleDragCancel}
+                modifiers={[snapModifier]}
+                accessibility={dragAccessibility}
+            >
+                <div className={`scheduler-container${draggingId ? ' is-dragging' : ''}`}>
+                    {/* Header with navigation and controls */}
+                    <header className="scheduler-header">
+                        {/* Navigation */}
+                        <div className="scheduler-nav">
+                            <button
+                                type="button"
+                                onClick={handleTodayClick}
+                                className="scheduler-today-btn"
                             >
-                                <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M15 19l-7-7 7-7"
-                                />
-                            </svg>
-                        </button>
-                        <button
-                            type="button"
-                            onClick={handleNavigationLabelClick}
-                            className="scheduler-nav-label"
-                            aria-label="Select date"
-                        >
-                            {navigationLabel}
-                        </button>
-                        <button
-                            type="button"
-                            onClick={goToNext}
-                            className="scheduler-nav-btn"
-                            aria-label={view === 'day' ? 'Next day' : 'Next week'}
-                        >
-                            <svg
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
+                                {messages.today}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={goToPrevious}
+                                className="scheduler-nav-btn"
+                                aria-label={messages[NAVIGATION_LABELS[view].previous]}
+                            >
+                                <svg
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M15 19l-7-7 7-7"
+                                    />
+                                </svg>
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleNavigationLabelClick}
+                                className="scheduler-nav-label"
+                                aria-label={messages.selectDate}
                             >
-                                <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M9 5l7 7-7 7"
+                                {navigationLabel}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={goToNext}
+                                className="scheduler-nav-btn"
+                                aria-label={messages[NAVIGATION_LABELS[view].next]}
+                            >
+                                <svg
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M9 5l7 7-7 7"
+                                    />
+                                </svg>
+                            </button>
+                        </div>
+
+                        {/* Search, Theme toggle, View toggle, filters and Create button */}
+                        <div className="scheduler-controls">
+                            <AppointmentSearch
+                                appointments={displayedAppointments}
+                                services={normalizedServices}
+                                technicians={technicians}
+                                onSelect={handleSearchSelect}
+                                timeZone={timeZone}
+                            />
+                            <ThemeToggle />
+                            <ViewToggle view={view} dayCount={dayCount} onViewChange={handleViewChange} />
+                            <div className="status-filter">
+                                <label htmlFor="scheduler-status-filter" className="status-filter-label">
+                                    {messages.statusFilterLabel}
+                                </label>
+                                <select
+                                    id="scheduler-status-filter"
+                                    className="status-filter-select"
+                                    value={statusFilter}
+                                    onChange={(e) => setStatusFilter(e.target.value as 'all' | AppointmentStatus)}
+                                    aria-label={messages.statusFilterAriaLabel}
+                                >
+                                    {STATUS_FILTER_OPTIONS.map((option) => (
+                                        <option key={option} value={option}>
+                                            {option === 'all' ? messages.statusAll : getStatusLabel(option, messages)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            {normalizedServices.length > 1 && (
+                                <div className="status-filter">
+                                    <label htmlFor="scheduler-service-filter" className="status-filter-label">
+                                        {messages.serviceFilterLabel}
+                                    </label>
+                                    <select
+                                        id="scheduler-service-filter"
+                                        className="status-filter-select"
+                                        value={serviceFilter}
+                                        onChange={(e) => setServiceFilter(e.target.value)}
+                                        aria-label={messages.serviceFilterAriaLabel}
+                                    >
+                                        <option value="all">{messages.serviceAll}</option>
+                                        {normalizedServices.map((service) => (
+                                            <option key={service.id} value={service.id}>
+                                                {service.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            {serviceCategories.length > 1 && (
+                                <div className="status-filter">
+                                    <label htmlFor="scheduler-category-filter" className="status-filter-label">
+                                        {messages.categoryFilterLabel}
+                                    </label>
+                                    <select
+                                        id="scheduler-category-filter"
+                                        className="status-filter-select"
+                                        value={categoryFilter}
+                                        onChange={(e) => setCategoryFilter(e.target.value)}
+                                        aria-label={messages.categoryFilterAriaLabel}
+                                    >
+                                        <option value="all">{messages.categoryAll}</option>
+                                        {serviceCategories.map((category) => (
+                                            <option key={category} value={category}>
+                                                {category}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            {technicians.length > 1 && (
+                                <TechnicianFilter
+                                    technicians={technicians}
+                                    value={technicianFilter}
+                                    onChange={setTechnicianFilter}
                                 />
-                            </svg>
-                        </button>
+                            )}
+                            <button
+                                type="button"
+                                onClick={handleCreateNewClick}
+                                className="scheduler-create-btn"
+                            >
+                                <svg
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M12 4v16m8-8H4"
+                                    />
+                                </svg>
+                                {messages.createNew}
+                            </button>
+                        </div>
+                    </header>
+
+                    {showLegend && (
+                        <ColorLegend colorBy={colorBy} technicians={visibleTechnicians} services={normalizedServices} />
+                    )}
+
+                    {/* Main content area */}
+                    <div ref={contentRef} className="scheduler-content" aria-busy={loading}>
+                        {view === 'day' ? (
+                            <DayView
+                                date={selectedDate}
+                                appointments={filteredAppointments}
+                                technicians={visibleTechnicians}
+                                startHour={dayViewHours.startHour}
+                                endHour={dayViewHours.endHour}
+                                openIntervals={hasBusinessHours ? dayViewHours.intervals : undefined}
+                                slotDuration={slotDuration}
+                                slotHeight={slotHeight}
+                                onAppointmentClick={handleAppointmentClick}
+                                onSlotClick={handleSlotClick}
+                                selectedAppointmentId={selectedAppointment?.id}
+                                draggingAppointmentId={draggingId}
+                                resizable={Boolean(onResizeAppointment)}
+                                canReassign={canReassign}
+                                conflictingAppointmentIds={conflictingAppointmentIds}
+                                pendingAppointmentIds={pendingAppointmentIds}
+                                blockedTimes={visibleBlockedTimes}
+                                blockedTimesDraggable={Boolean(onRescheduleBlockedTime)}
+                                onDeleteBlockedTime={onDeleteBlockedTime ? handleDeleteBlockedTime : undefined}
+                                timeZone={timeZone}
+                                showCurrentTime={showCurrentTime}
+                                getAppointmentColor={resolveAppointmentColor}
+                            />
+                        ) : view === 'agenda' ? (
+                            <AgendaView
+                                startDate={selectedDate}
+                                days={agendaDays}
+                                appointments={filteredAppointments}
+                                services={normalizedServices}
+                                technicians={technicians}
+                                onAppointmentClick={handleAppointmentClick}
+                                selectedAppointmentId={selectedAppointment?.id}
+                                timeZone={timeZone}
+                                getAppointmentColor={resolveAppointmentColor}
+                            />
+                        ) : view === 'timeline' ? (
+                            <TimelineView
+                                scale={timelineScale}
+                                appointments={filteredAppointments}
+                                technicians={visibleTechnicians}
+                                getHoursForDate={hasBusinessHours ? getHoursForDate : undefined}
+                                onAppointmentClick={handleAppointmentClick}
+                                onSlotClick={handleSlotClick}
+                                selectedAppointmentId={selectedAppointment?.id}
+                                draggingAppointmentId={draggingId}
+                                resizable={Boolean(onResizeAppointment)}
+                                canReassign={canReassign}
+                                conflictingAppointmentIds={conflictingAppointmentIds}
+                                pendingAppointmentIds={pendingAppointmentIds}
+                                blockedTimes={visibleBlockedTimes}
+                                onTickChange={setTimelineTick}
+                                timeZone={timeZone}
+                                showCurrentTime={showCurrentTime}
+                                getAppointmentColor={resolveAppointmentColor}
+                            />
+                        ) : view === 'month' ? (
+                            <MonthView
+                                selectedDate={selectedDate}
+                                appointments={filteredAppointments}
+                                onAppointmentClick={handleAppointmentClick}
+                                onDayClick={handleMonthDayClick}
+                                selectedAppointmentId={selectedAppointment?.id}
+                                draggingAppointmentId={draggingId}
+                                technicians={technicians}
+                                timeZone={timeZone}
+                                getAppointmentColor={resolveAppointmentColor}
+                            />
+                        ) : (
+                            <WeekView
+                                selectedDate={selectedDate}
+                                dayCount={view === 'days' ? dayCount : undefined}
+                                appointments={filteredAppointments}
+                                startHour={weekViewHours.startHour}
+                                endHour={weekViewHours.endHour}
+                                slotDuration={slotDuration}
+                                slotHeight={slotHeight}
+                                getHoursForDate={hasBusinessHours ? getHoursForDate : undefined}
+                                isDayVisible={isDayVisible}
+                                onAppointmentClick={handleAppointmentClick}
+                                onSlotClick={handleSlotClick}
+                                selectedAppointmentId={selectedAppointment?.id}
+                                draggingAppointmentId={draggingId}
+                                resizable={Boolean(onResizeAppointment)}
+                                technicians={visibleTechnicians}
+                                groupByTechnician={groupByTechnician}
+                                canReassign={canReassign}
+                                conflictingAppointmentIds={conflictingAppointmentIds}
+                                pendingAppointmentIds={pendingAppointmentIds}
+                                blockedTimes={visibleBlockedTimes}
+                                blockedTimesDraggable={Boolean(onRescheduleBlockedTime)}
+                                onDeleteBlockedTime={onDeleteBlockedTime ? handleDeleteBlockedTime : undefined}
+                                timeZone={timeZone}
+                                showCurrentTime={showCurrentTime}
+                                getAppointmentColor={resolveAppointmentColor}
+                            />
+                        )}
+
+                        {/* Skeleton while the app loads the visible range */}
+                        {loading && (
+                            <div className="scheduler-loading" role="status">
+                                <span className="scheduler-loading-label">{messages.loadingAppointments}</span>
+                                <div className="scheduler-loading-skeleton" aria-hidden="true">
+                                    {Array.from({ length: LOADING_SKELETON_ROWS }, (_, i) => (
+                                        <span key={i} className="scheduler-loading-bar" />
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                     </div>
 
-                    {/* Theme toggle, View toggle and Create button */}
-                    <div className="scheduler-controls">
-                        <ThemeToggle />
-                        <ViewToggle view={view} onViewChange={handleViewChange} />
-                        <div className="status-filter">
-                            <label htmlFor="scheduler-status-filter" className="status-filter-label">
-                                Status
-                            </label>
-                            <select
-                                id="scheduler-status-filter"
-                                className="status-filter-select"
-                                value={statusFilter}
-                                onChange={(e) => setStatusFilter(e.target.value as 'all' | AppointmentStatus)}
-                                aria-label="Filter appointments by status"
+                    {/* Notice after a drag or resize was refused or double-booked */}
+                    {notice && (
+                        <div
+                            className={`scheduler-notice ${notice.blocked ? 'blocking' : ''} ${notice.info ? 'info' : ''}`}
+                            role="status"
+                        >
+                            <span>{notice.message}</span>
+                            {notice.action && (
+                                <button
+                                    type="button"
+                                    className="scheduler-notice-action"
+                                    onClick={notice.action === 'undo' ? handleUndo : handleRedo}
+                                >
+                                    {notice.action === 'undo' ? messages.undo : messages.redo}
+                                </button>
+                            )}
+                            <button
+                                type="button"
+                                className="scheduler-notice-close"
+                                onClick={() => setNotice(null)}
+                                aria-label={messages.dismiss}
                             >
-                                {STATUS_FILTER_OPTIONS.map((option) => (
-                                    <option key={option} value={option}>
-                                        {option === 'all'
-                                            ? 'All Status'
-                                            : option.charAt(0).toUpperCase() + option.slice(1)}
-                                    </option>
-                                ))}
-                            </select>
+                                ×
+                            </button>
                         </div>
-                        <button
-                            type="button"
-                            onClick={handleCreateNewClick}
-                            className="scheduler-create-btn"
-                        >
-                            <svg
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
+                    )}
+
+                    {/* Drag overlay - shows the dragged appointment */}
+                    <DragOverlay>
+                        {draggingAppointment && (
+                            <div
+                                className="drag-overlay technician-color"
+                                style={{
+                                    width: '150px',
+                                    ['--block-color' as string]: getAppointmentColor(
+                                        draggingAppointment,
+                                        colorBy,
+                                        technicians,
+                                        normalizedServices
+                                    ),
+                                }}
                             >
-                                <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M12 4v16m8-8H4"
-                                />
-                            </svg>
-                            Create New
-                        </button>
-                    </div>
-                </header>
-
-                {/* Main content area */}
-                <div className="scheduler-content">
-                    {view === 'day' ? (
-                        <DayView
-                            date={selectedDate}
-                            appointments={filteredAppointments}
+                                <p className="drag-overlay-client">
+                                    {draggingAppointment.client.name}
+                                </p>
+                                <p className="drag-overlay-service">
+                                    {draggingAppointment.serviceType}
+                                </p>
+                            </div>
+                        )}
+                    </DragOverlay>
+
+                    {/* Detail display - Modal or Panel based on prop */}
+                    {detailDisplay === 'modal' ? (
+                        <DetailModal
+                            appointment={selectedAppointment}
+                            isOpen={isDetailOpen}
+                            onClose={closeDetail}
+                            onUpdate={onUpdateAppointment ? updateUndoableAppointment : undefined}
+                            onDelete={onDeleteAppointment ? deleteUndoableAppointment : undefined}
+                            services={normalizedServices}
                             technicians={technicians}
-                            startHour={dayViewHours.startHour}
-                            endHour={dayViewHours.endHour}
-                            onAppointmentClick={handleAppointmentClick}
-                            onSlotClick={handleSlotClick}
-                            selectedAppointmentId={selectedAppointment?.id}
-                            draggingAppointmentId={draggingId}
+                            technicianServices={technicianServices}
+                            getConflicts={conflictPolicy === 'allow' ? undefined : getConflicts}
+                            conflictPolicy={conflictPolicy}
                         />
                     ) : (
-                        <WeekView
-                            selectedDate={selectedDate}
-                            appointments={filteredAppointments}
-                            startHour={weekViewHours.startHour}
-                            endHour={weekViewHours.endHour}
-                            getHoursForDate={scheduleByDay ? getHoursForDate : undefined}
-                            onAppointmentClick={handleAppointmentClick}
-                            onSlotClick={handleSlotClick}
-                            selectedAppointmentId={selectedAppointment?.id}
-                            draggingAppointmentId={draggingId}
-                            selectedDateRange={selectedDateRange}
+                        <DetailPanel
+                            appointment={selectedAppointment}
+                            isOpen={isDetailOpen}
+                            onClose={closeDetail}
+                            onUpdate={onUpdateAppointment ? updateUndoableAppointment : undefined}
+                            onDelete={onDeleteAppointment ? deleteUndoableAppointment : undefined}
+                            services={normalizedServices}
                             technicians={technicians}
+                            technicianServices={technicianServices}
+                            getConflicts={conflictPolicy === 'allow' ? undefined : getConflicts}
+                            conflictPolicy={conflictPolicy}
                         />
                     )}
-                </div>
 
-                {/* Drag overlay - shows the dragged appointment */}
-                <DragOverlay>
-                    {draggingAppointment && (
-                        <div
-                            className="drag-overlay technician-color"
-                            style={{
-                                width: '150px',
-                                ['--block-color' as string]: getTechnicianColorForAppointment(draggingAppointment, technicians),
-                            }}
-                        >
-                            <p className="drag-overlay-client">
-                                {draggingAppointment.client.name}
-                            </p>
-                            <p className="drag-overlay-service">
-                                {draggingAppointment.serviceType}
-                            </p>
+                    {/* Scope prompt after dragging or resizing an occurrence of a recurring series */}
+                    {pendingDragChange && (
+                        <div className="modal-backdrop" role="dialog" aria-modal="true" aria-labelledby="reschedule-scope-title">
+                            <div className="modal-overlay" onClick={() => setPendingDragChange(null)} aria-hidden="true" />
+                            <div className="modal-content recurrence-scope-modal">
+                                <div className="modal-body">
+                                    <h2 id="reschedule-scope-title" className="modal-title">
+                                        {pendingDragChange.kind === 'resize' ? messages.resizeRepeatingTitle : messages.moveRepeatingTitle}
+                                    </h2>
+                                    <RecurrenceScopePrompt
+                                        action={pendingDragChange.kind}
+                                        onSelect={handleDragScopeSelect}
+                                        onCancel={() => setPendingDragChange(null)}
+                                    />
+                                </div>
+                            </div>
                         </div>
                     )}
-                </DragOverlay>
-
-                {/* Detail display - Modal or Panel based on prop */}
-                {detailDisplay === 'modal' ? (
-                    <DetailModal
-                        appointment={selectedAppointment}
-                        isOpen={isDetailOpen}
-                        onClose={closeDetail}
-                        onUpdate={onUpdateAppointment}
-                        onDelete={onDeleteAppointment}
-                        services={normalizedServices}
+
+                    {/* Create appointment modal */}
+                    <CreateAppointmentModal
+                        isOpen={isCreateModalOpen}
+                        onClose={handleCloseCreateModal}
+                        onCreate={handleCreateAppointment}
+                        initialStartTime={createModalStartTime}
+                        initialEndTime={createModalEndTime}
+                        initialTechnicianId={createModalTechnicianId}
                         technicians={technicians}
-                        technicianServices={technicianServices}
-                    />
-                ) : (
-                    <DetailPanel
-                        appointment={selectedAppointment}
-                        isOpen={isDetailOpen}
-                        onClose={closeDetail}
-                        onUpdate={onUpdateAppointment}
-                        onDelete={onDeleteAppointment}
                         services={normalizedServices}
-                        technicians={technicians}
                         technicianServices={technicianServices}
+                        getConflicts={conflictPolicy === 'allow' ? undefined : getConflicts}
+                        conflictPolicy={conflictPolicy}
+                        blockedTimes={blockedTimes}
+                        onCreateBlockedTime={onCreateBlockedTime}
+                        timeZone={timeZone}
+                    />
+
+                    {/* Date picker modal */}
+                    <DatePickerModal
+                        isOpen={isDatePickerOpen}
+                        onClose={() => setIsDatePickerOpen(false)}
+                        mode={view === 'week' || view === 'days' || view === 'agenda' ? 'range' : 'single'}
+                        initialDate={view === 'week' || view === 'days' ? visibleColumnDates[0] : selectedDate}
+                        initialEndDate={view === 'week' || view === 'days' ? visibleColumnDates[visibleColumnDates.length - 1] : view === 'agenda' ? (() => {
+                            const rangeEnd = new Date(selectedDate);
+                            rangeEnd.setDate(rangeEnd.getDate() + agendaDays - 1);
+                            return rangeEnd;
+                        })() : undefined}
+                        maxRangeDays={view === 'agenda' ? MAX_AGENDA_DAYS : MAX_DAY_COUNT}
+                        isDayVisible={view === 'agenda' || view === 'month' ? undefined : isDayVisible}
+                        onSelectDate={handleDateSelect}
+                        onSelectRange={handleDateRangeSelect}
+                        timeZone={timeZone}
                     />
-                )}
-
-                {/* Create appointment modal */}
-                <CreateAppointmentModal
-                    isOpen={isCreateModalOpen}
-                    onClose={handleCloseCreateModal}
-                    onCreate={handleCreateAppointment}
-                    initialStartTime={createModalStartTime}
-                    initialEndTime={createModalEndTime}
-                    initialTechnicianId={createModalTechnicianId}
-                    technicians={technicians}
-                    services={normalizedServices}
-                    technicianServices={technicianServices}
-                />
-
-                {/* Date picker modal */}
-                <DatePickerModal
-                    isOpen={isDatePickerOpen}
-                    onClose={() => setIsDatePickerOpen(false)}
-                    mode={view === 'day' ? 'single' : 'range'}
-                    initialDate={selectedDate}
-                    initialEndDate={view === 'week' ? (() => {
-                        const weekEnd = new Date(selectedDate);
-                        weekEnd.setDate(weekEnd.getDate() + 6);
-                        return weekEnd;
-                    })() : undefined}
-                    maxRangeDays={7}
-                    onSelectDate={handleDateSelect}
-                    onSelectRange={handleDateRangeSelect}
-                />
-            </div>
-        </DndContext>
+                </div>
+            </DndContext>
+        </SchedulerLocaleContext.Provider>
     );
-}
+});
 
 export default Scheduler;
@@ -0,0 +1,311 @@
+import { memo, useMemo, useCallback } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import type { Appointment, BlockedTime, TimeSlot, Technician, OpenInterval } from '../../types/scheduler';
+import { getArtistId } from '../../utils/artistUtils';
+import { findOpenInterval, getClosingHour, getMinuteOfDay, isOutsideOpenIntervals } from '../../utils/businessHoursUtils';
+import { getTechnicianWorkingIntervals } from '../../utils/availabilityUtils';
+import { addMinutes } from '../../utils/timeUtils';
+import {
+  calculateScheduleLayouts,
+  filterAppointmentsByDay,
+  filterByWorkingHours,
+} from '../../utils/layoutUtils';
+import { DEFAULT_TECHNICIAN_COLOR } from '../../utils/colorUtils';
+import {
+  getTechnicianColumnKey,
+  getSlotCellKey,
+  getAppointmentCellKey,
+  getBlockedTimeCellKey,
+  getGridCellId,
+  getColumnHeaderId,
+  groupBlockIdsBySlot,
+} from '../../utils/gridNavigationUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { CurrentTimeIndicator } from './CurrentTimeIndicator';
+import { AppointmentBlock } from './AppointmentBlock';
+import { BlockedTimeBlock } from './BlockedTimeBlock';
+
+/**
+ * TechnicianColumn Component
+ *
+ * One technician's column on one date, used by the day view and by the week view
+ * when it is grouped by technician:
+ * - Header with the technician's name
+ * - The technician's appointments and blocked time (plus studio-wide blocks)
+ * - Closed slots shaded and slots outside the technician's working hours hatched, neither clickable
+ * - Droppable zone carrying both the date and the technician (drops there move and reassign)
+ * - A column of the ARIA grid: its header and slots are owned by the grid's time rows (see GridTimeRows)
+ */
+
+interface TechnicianColumnProps {
+  /** The column's date */
+  date: Date;
+  /** Technician whose appointments the column shows (drops reassign to them) */
+  technician: Technician;
+  /** All appointments (filtered to this technician and date) */
+  appointments: Appointment[];
+  slots: TimeSlot[];
+  startHour: number;
+  endHour: number;
+  slotDuration: number;
+  slotHeight: number;
+  openIntervals?: OpenInterval[];
+  onAppointmentClick?: (appointment: Appointment) => void;
+  onSlotClick?: (startTime: Date, endTime: Date, technicianId?: string) => void;
+  selectedAppointmentId?: string | null;
+  draggingAppointmentId?: string | null;
+  resizable?: boolean;
+  conflictingAppointmentIds?: Set<string>;
+  pendingAppointmentIds?: Set<string>;
+  canReassign?: (appointment: Appointment, technicianId: string) => boolean;
+  blockedTimes?: BlockedTime[];
+  blockedTimesDraggable?: boolean;
+  onDeleteBlockedTime?: (blockedTime: BlockedTime) => void;
+  /** Unique ID of the grid holding the column */
+  gridId: string;
+  /** Key of the grid cell in the tab order */
+  tabStop: string | null;
+  /** Current time, set when the column is today's (draws the now line) */
+  currentTime?: Date;
+  /** Set in the grouped week view, where several days show the technician: the date named in labels */
+  dateLabel?: string;
+  /** Color of an appointment's block (default: its technician's color) */
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+export const TechnicianColumn = memo(function TechnicianColumn({
+  date,
+  technician,
+  appointments,
+  slots,
+  startHour,
+  endHour,
+  slotDuration,
+  slotHeight,
+  openIntervals,
+  onAppointmentClick,
+  onSlotClick,
+  selectedAppointmentId,
+  draggingAppointmentId,
+  resizable,
+  conflictingAppointmentIds,
+  pendingAppointmentIds,
+  canReassign,
+  blockedTimes,
+  blockedTimesDraggable,
+  onDeleteBlockedTime,
+  gridId,
+  tabStop,
+  currentTime,
+  dateLabel,
+  getAppointmentColor,
+}: TechnicianColumnProps) {
+  const { messages } = useSchedulerLocale();
+
+  // Set up droppable zone for this technician column
+  const { setNodeRef, isOver, active } = useDroppable({
+    id: `tech-${technician.id}-${date.toISOString()}`,
+    data: { date, technicianId: technician.id },
+  });
+
+  // Dropping another technician's appointment here reassigns it; flag drops that would be rejected
+  const activeData = active?.data.current as { appointment?: Appointment; resize?: boolean } | undefined;
+  const isDropRejected = Boolean(
+    isOver &&
+    canReassign &&
+    activeData?.appointment &&
+    !activeData.resize &&
+    getArtistId(activeData.appointment.artist) !== technician.id &&
+    !canReassign(activeData.appointment, technician.id)
+  );
+  const dragStateClass = isOver ? (isDropRejected ? 'drag-rejected' : 'drag-over') : '';
+
+  // Provide a safe ref callback in case DndContext is not available
+  const safeSetNodeRef = setNodeRef || (() => { });
+
+  // Filter appointments for this technician only (using technician ID)
+  const technicianAppointments = useMemo(() => {
+    return appointments.filter((apt) => getArtistId(apt.artist) === technician.id);
+  }, [appointments, technician.id]);
+
+  // The technician's own blocked time plus studio-wide blocks
+  const technicianBlockedTimes = useMemo(() => {
+    return (blockedTimes ?? []).filter(
+      (block) => !block.technicianId || block.technicianId === technician.id
+    );
+  }, [blockedTimes, technician.id]);
+  const columnTechnicians = useMemo(() => [technician], [technician]);
+
+  // Calculate layouts for this technician's appointments and blocked time; add its block color (technician color by default) to each appointment.
+  // Items are kept within the grid range even outside open intervals (flagged below), so they can still be moved or cancelled
+  const techColor = technician.color ?? DEFAULT_TECHNICIAN_COLOR;
+  const { layouts, blockedTimeLayouts } = useMemo(() => {
+    const dayAppointments = filterAppointmentsByDay(technicianAppointments, date);
+    const validAppointments = filterByWorkingHours(dayAppointments, startHour, endHour);
+    const dayBlockedTimes = filterByWorkingHours(filterAppointmentsByDay(technicianBlockedTimes, date), startHour, endHour);
+    const raw = calculateScheduleLayouts(validAppointments, dayBlockedTimes, startHour, slotDuration, slotHeight);
+    return {
+      layouts: raw.appointmentLayouts.map((layout) => ({
+        ...layout,
+        color: getAppointmentColor?.(layout.appointment) ?? techColor,
+      })),
+      blockedTimeLayouts: raw.blockedTimeLayouts,
+    };
+  }, [technicianAppointments, technicianBlockedTimes, date, startHour, endHour, slotDuration, slotHeight, techColor, getAppointmentColor]);
+
+  // Slots outside the open intervals (e.g. a lunch closure) are disabled
+  const isSlotClosed = useCallback(
+    (slot: TimeSlot) =>
+      Boolean(openIntervals && !findOpenInterval(openIntervals, slot.hour * 60 + slot.minute)),
+    [openIntervals]
+  );
+
+  // Slots outside the technician's shifts or during their time off are disabled too
+  const workingIntervals = useMemo(
+    () => getTechnicianWorkingIntervals(technician, date),
+    [technician, date]
+  );
+  const isSlotUnavailable = useCallback(
+    (slot: TimeSlot) =>
+      Boolean(workingIntervals && !findOpenInterval(workingIntervals, slot.hour * 60 + slot.minute)),
+    [workingIntervals]
+  );
+
+  const handleSlotClick = useCallback(
+    (slot: TimeSlot) => {
+      if (onSlotClick && !isSlotClosed(slot) && !isSlotUnavailable(slot)) {
+        const slotTime = new Date(date);
+        slotTime.setHours(slot.hour, slot.minute, 0, 0);
+        const endTime = addMinutes(slotTime, slotDuration);
+        onSlotClick(slotTime, endTime, technician.id);
+      }
+    },
+    [date, onSlotClick, technician.id, slotDuration, isSlotClosed, isSlotUnavailable]
+  );
+
+  const gridHeight = slots.length * slotHeight;
+  const columnKey = getTechnicianColumnKey(technician.id, date);
+
+  // Each slot owns the blocks that start in it
+  const blockIdsBySlot = useMemo(
+    () =>
+      groupBlockIdsBySlot(slots, [
+        ...layouts.map((layout) => ({
+          id: getGridCellId(gridId, columnKey, getAppointmentCellKey(layout.appointment.id)),
+          minute: getMinuteOfDay(layout.appointment.startTime),
+        })),
+        ...blockedTimeLayouts.map((layout) => ({
+          id: getGridCellId(gridId, columnKey, getBlockedTimeCellKey(layout.blockedTime.id, columnKey)),
+          minute: getMinuteOfDay(layout.blockedTime.startTime),
+        })),
+      ]),
+    [slots, layouts, blockedTimeLayouts, gridId, columnKey]
+  );
+
+  const getSlotLabel = (slot: TimeSlot, closed: boolean, unavailable: boolean) => {
+    if (closed) return formatMessage(messages.slotClosedAt, { time: slot.label });
+    const values = { technician: technician.name, date: dateLabel ?? '', time: slot.label };
+    if (unavailable) {
+      return formatMessage(dateLabel ? messages.technicianUnavailableOnAt : messages.technicianUnavailableAt, values);
+    }
+    return formatMessage(dateLabel ? messages.createAppointmentForOnAt : messages.createAppointmentForAt, values);
+  };
+
+  return (
+    <div
+      ref={safeSetNodeRef}
+      className={`tech-column ${dragStateClass}`}
+      role="presentation"
+      data-grid-column
+    >
+      {/* Technician header - display name */}
+      <div
+        id={getColumnHeaderId(gridId, columnKey)}
+        className={`column-header ${dragStateClass}`}
+        role="columnheader"
+        aria-label={dateLabel ? `${technician.name}, ${dateLabel}` : undefined}
+      >
+        <span className="tech-header-text">{technician.name}</span>
+      </div>
+
+      {/* Time grid for this technician */}
+      <div className="grid-slots" style={{ height: `${gridHeight}px` }} role="presentation">
+        {/* Slot backgrounds */}
+        {slots.map((slot) => {
+          const closed = isSlotClosed(slot);
+          const unavailable = !closed && isSlotUnavailable(slot);
+          const cellKey = getSlotCellKey(columnKey, slot);
+          const blockIds = blockIdsBySlot.get(slot);
+          return (
+            <div
+              key={`${technician.id}-${slot.hour}-${slot.minute}`}
+              id={getGridCellId(gridId, columnKey, cellKey)}
+              className={`grid-slot ${slot.isHourStart ? 'hour-start' : ''} ${closed ? 'slot-outside-hours' : ''} ${unavailable ? 'slot-unavailable' : ''}`}
+              style={{ height: `${slotHeight}px` }}
+              onClick={() => handleSlotClick(slot)}
+              role="gridcell"
+              tabIndex={tabStop === cellKey ? 0 : -1}
+              data-grid-cell={cellKey}
+              data-grid-time={slot.hour * 60 + slot.minute}
+              data-grid-slot
+              aria-label={getSlotLabel(slot, closed, unavailable)}
+              aria-disabled={closed || unavailable ? true : undefined}
+              aria-owns={blockIds?.join(' ')}
+            />
+          );
+        })}
+
+        {/* Appointments */}
+        <div className="appointments-layer" role="presentation">
+          {layouts.map((layout) => (
+            <AppointmentBlock
+              key={layout.appointment.id}
+              layout={layout}
+              onClick={onAppointmentClick}
+              isSelected={selectedAppointmentId === layout.appointment.id}
+              isDragging={draggingAppointmentId === layout.appointment.id}
+              resizable={resizable}
+              hasConflict={conflictingAppointmentIds?.has(layout.appointment.id)}
+              isOutsideHours={openIntervals && isOutsideOpenIntervals(openIntervals, layout.appointment)}
+              isPending={pendingAppointmentIds?.has(layout.appointment.id)}
+              endHour={
+                openIntervals
+                  ? getClosingHour(openIntervals, layout.appointment.startTime, endHour)
+                  : endHour
+              }
+              slotDuration={slotDuration}
+              slotHeight={slotHeight}
+              isTabStop={tabStop === getAppointmentCellKey(layout.appointment.id)}
+              cellId={getGridCellId(gridId, columnKey, getAppointmentCellKey(layout.appointment.id))}
+            />
+          ))}
+          {blockedTimeLayouts.map((layout) => (
+            <BlockedTimeBlock
+              key={layout.blockedTime.id}
+              layout={layout}
+              technicians={columnTechnicians}
+              draggable={blockedTimesDraggable}
+              onDelete={onDeleteBlockedTime}
+              gridColumn={columnKey}
+              isTabStop={tabStop === getBlockedTimeCellKey(layout.blockedTime.id, columnKey)}
+              cellId={getGridCellId(gridId, columnKey, getBlockedTimeCellKey(layout.blockedTime.id, columnKey))}
+            />
+          ))}
+        </div>
+
+        {currentTime && (
+          <CurrentTimeIndicator
+            now={currentTime}
+            startHour={startHour}
+            endHour={endHour}
+            slotDuration={slotDuration}
+            slotHeight={slotHeight}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default TechnicianColumn;
@@ -0,0 +1,128 @@
+import { memo, useEffect, useId, useRef, useState } from 'react';
+import type { Technician } from '../../types/scheduler';
+import { DEFAULT_TECHNICIAN_COLOR } from '../../utils/colorUtils';
+import { filterTechnicians } from '../../utils/technicianFilterUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * TechnicianFilter Component
+ *
+ * Header button with a checkbox list for choosing which technicians are shown.
+ * - "All technicians" shows everyone again (null filter)
+ * - The last shown technician can't be unchecked, so a view is never empty
+ * - Closes on Escape (back to the button) or a click outside
+ */
+
+interface TechnicianFilterProps {
+  /** All technicians */
+  technicians: Technician[];
+  /** IDs of the technicians shown (null = everyone) */
+  value: string[] | null;
+  /** Callback when the technicians shown change (null = everyone) */
+  onChange: (technicianIds: string[] | null) => void;
+}
+
+export const TechnicianFilter = memo(function TechnicianFilter({
+  technicians,
+  value,
+  onChange,
+}: TechnicianFilterProps) {
+  const { messages } = useSchedulerLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuId = useId();
+
+  const shown = filterTechnicians(technicians, value);
+  const isEveryoneShown = shown.length === technicians.length;
+  const summary = isEveryoneShown
+    ? messages.technicianFilterAll
+    : shown.length === 1
+      ? shown[0].name
+      : formatMessage(messages.technicianFilterSome, { count: shown.length, total: technicians.length });
+
+  // Close on a click outside or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+        buttonRef.current?.focus();
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleToggle = (technicianId: string) => {
+    const ids = shown.some((t) => t.id === technicianId)
+      ? shown.filter((t) => t.id !== technicianId).map((t) => t.id)
+      : technicians.filter((t) => t.id === technicianId || shown.includes(t)).map((t) => t.id);
+    onChange(ids.length === technicians.length ? null : ids);
+  };
+
+  return (
+    <div ref={containerRef} className="technician-filter">
+      <span className="status-filter-label" aria-hidden="true">
+        {messages.technicianFilterLabel}
+      </span>
+      <button
+        ref={buttonRef}
+        type="button"
+        className={`technician-filter-btn ${isEveryoneShown ? '' : 'active'}`}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        aria-label={`${messages.technicianFilterAriaLabel}: ${summary}`}
+      >
+        <span className="technician-filter-summary">{summary}</span>
+        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div id={menuId} className="technician-filter-menu" role="group" aria-label={messages.technicianFilterAriaLabel}>
+          <button
+            type="button"
+            className="technician-filter-all"
+            onClick={() => onChange(null)}
+            disabled={isEveryoneShown}
+          >
+            {messages.technicianFilterAll}
+          </button>
+          {technicians.map((technician) => {
+            const isShown = shown.includes(technician);
+            return (
+              <label key={technician.id} className="technician-filter-option">
+                <input
+                  type="checkbox"
+                  checked={isShown}
+                  onChange={() => handleToggle(technician.id)}
+                  disabled={isShown && shown.length === 1}
+                />
+                <span
+                  className="technician-filter-color"
+                  style={{ ['--block-color' as string]: technician.color ?? DEFAULT_TECHNICIAN_COLOR }}
+                  aria-hidden="true"
+                />
+                <span className="technician-filter-name">{technician.name}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default TechnicianFilter;
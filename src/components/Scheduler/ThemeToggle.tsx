@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
 
 /**
  * ThemeToggle Component
@@ -15,6 +16,7 @@ export interface ThemeToggleProps {
 export function ThemeToggle({ className = '' }: ThemeToggleProps) {
     const [theme, setTheme] = useState<'light' | 'dark'>('light');
     const [mounted, setMounted] = useState(false);
+    const { messages } = useSchedulerLocale();
 
     // Initialize theme on mount (client-side only)
     useEffect(() => {
@@ -53,13 +55,15 @@ export function ThemeToggle({ className = '' }: ThemeToggleProps) {
         setTheme(prev => prev === 'light' ? 'dark' : 'light');
     };
 
+    const label = theme === 'light' ? messages.switchToDarkMode : messages.switchToLightMode;
+
     return (
         <button
             type="button"
             onClick={toggleTheme}
             className={`theme-toggle ${className}`}
-            aria-label={`Switch to ${theme === 'light' ? 'dark' : 'light'} mode`}
-            title={`Switch to ${theme === 'light' ? 'dark' : 'light'} mode`}
+            aria-label={label}
+            title={label}
         >
             {theme === 'light' ? (
                 // Moon icon for dark mode
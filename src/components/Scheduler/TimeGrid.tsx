@@ -2,6 +2,8 @@ import { memo, useMemo, useCallback } from 'react';
 import type { TimeSlot, Appointment, AppointmentLayout } from '../../types/scheduler';
 import { generateTimeSlots, SLOT_HEIGHT, addMinutes, SLOT_DURATION } from '../../utils/timeUtils';
 import { calculateAppointmentLayouts, filterAppointmentsByDay, filterByWorkingHours } from '../../utils/layoutUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
 import { TimeColumn } from './TimeColumn';
 import { AppointmentBlock } from './AppointmentBlock';
 
@@ -10,7 +12,7 @@ import { AppointmentBlock } from './AppointmentBlock';
  * 
  * Renders the main time grid with:
  * - Sticky time column on the left
- * - Time slots as rows (30-minute intervals)
+ * - Time slots as rows (30-minute intervals by default)
  * - Appointment blocks positioned absolutely within the grid
  * - Click handlers for empty slots to create new appointments
  * 
@@ -26,6 +28,10 @@ interface TimeGridProps {
   startHour: number;
   /** Ending hour of the work day */
   endHour: number;
+  /** Length of each slot in minutes (default: 30) */
+  slotDuration?: number;
+  /** Height of each slot in pixels (default: 60) */
+  slotHeight?: number;
   /** Callback when an appointment is clicked */
   onAppointmentClick?: (appointment: Appointment) => void;
   /** Callback when an empty slot is clicked */
@@ -44,15 +50,19 @@ export const TimeGrid = memo(function TimeGrid({
   appointments,
   startHour,
   endHour,
+  slotDuration = SLOT_DURATION,
+  slotHeight = SLOT_HEIGHT,
   onAppointmentClick,
   onSlotClick,
   selectedAppointmentId,
   draggingAppointmentId,
 }: TimeGridProps) {
+  const i18n = useSchedulerLocale();
+
   // Generate time slots - memoized to avoid recalculation
   const slots: TimeSlot[] = useMemo(
-    () => generateTimeSlots(date, startHour, endHour),
-    [date, startHour, endHour]
+    () => generateTimeSlots(date, startHour, endHour, slotDuration, i18n),
+    [date, startHour, endHour, slotDuration, i18n]
   );
 
   // Filter and calculate layouts for appointments on this day
@@ -68,18 +78,18 @@ export const TimeGrid = memo(function TimeGrid({
     );
     
     // Calculate positions and overlap lanes
-    return calculateAppointmentLayouts(validAppointments, startHour);
-  }, [appointments, date, startHour, endHour]);
+    return calculateAppointmentLayouts(validAppointments, startHour, slotDuration, slotHeight);
+  }, [appointments, date, startHour, endHour, slotDuration, slotHeight]);
 
   // Handle slot click - memoized callback
   const handleSlotClick = useCallback(
     (slot: TimeSlot) => {
       if (onSlotClick) {
-        const endTime = addMinutes(slot.time, SLOT_DURATION);
+        const endTime = addMinutes(slot.time, slotDuration);
         onSlotClick(slot.time, endTime);
       }
     },
-    [onSlotClick]
+    [onSlotClick, slotDuration]
   );
 
   // Handle appointment click - memoized callback
@@ -93,12 +103,12 @@ export const TimeGrid = memo(function TimeGrid({
   );
 
   // Calculate total grid height
-  const gridHeight = slots.length * SLOT_HEIGHT;
+  const gridHeight = slots.length * slotHeight;
 
   return (
     <div style={{ display: 'flex', flex: 1, overflow: 'hidden' }}>
       {/* Time column (sticky) */}
-      <TimeColumn slots={slots} slotHeight={SLOT_HEIGHT} />
+      <TimeColumn slots={slots} slotHeight={slotHeight} />
 
       {/* Main grid area */}
       <div style={{ flex: 1, position: 'relative' }}>
@@ -108,10 +118,10 @@ export const TimeGrid = memo(function TimeGrid({
             <div
               key={`slot-${slot.hour}-${slot.minute}`}
               className={`grid-slot ${slot.isHourStart ? 'hour-start' : ''}`}
-              style={{ height: `${SLOT_HEIGHT}px` }}
+              style={{ height: `${slotHeight}px` }}
               onClick={() => handleSlotClick(slot)}
               role="button"
-              aria-label={`Create appointment at ${slot.label}`}
+              aria-label={formatMessage(i18n.messages.createAppointmentAt, { time: slot.label })}
             />
           ))}
         </div>
@@ -128,6 +138,8 @@ export const TimeGrid = memo(function TimeGrid({
               onClick={handleAppointmentClick}
               isSelected={selectedAppointmentId === layout.appointment.id}
               isDragging={draggingAppointmentId === layout.appointment.id}
+              slotDuration={slotDuration}
+              slotHeight={slotHeight}
             />
           ))}
         </div>
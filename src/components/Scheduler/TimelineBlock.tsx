@@ -0,0 +1,196 @@
+import { memo } from 'react';
+import { useDraggable } from '@dnd-kit/core';
+import type { Appointment, TimelineAppointmentLayout, TimelineScale } from '../../types/scheduler';
+import { getServiceDisplayName, DEFAULT_TECHNICIAN_COLOR } from '../../utils/colorUtils';
+import { formatTime, formatShortDate, addMinutes, calculateResizedDuration } from '../../utils/timeUtils';
+import { getTimelineSlotWidth, TIMELINE_LANE_HEIGHT } from '../../utils/timelineUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+
+/**
+ * TimelineBlock Component
+ *
+ * Renders a single appointment as a bar in a timeline row: the day view's AppointmentBlock
+ * turned on its side.
+ *
+ * Features:
+ * - Positioned absolutely: left edge at the start time, width from the duration, one lane high
+ * - Color-coded by technician, with the appointment block's states (selected, double-booked, pending)
+ * - Draggable along the time axis and to another technician's row (drag data `{ appointment, timeline }`)
+ * - Optional right-edge handle to change the duration, with a live end-time preview
+ */
+
+interface TimelineBlockProps {
+  /** Layout information including position and lane */
+  layout: TimelineAppointmentLayout;
+  /** Scale of the timeline (drag and resize snapping) */
+  scale: TimelineScale;
+  /** Callback when the appointment is clicked */
+  onClick?: (appointment: Appointment) => void;
+  /** Whether this appointment is currently selected */
+  isSelected?: boolean;
+  /** Whether this appointment is being dragged */
+  isDragging?: boolean;
+  /** Show the right-edge resize handle */
+  resizable?: boolean;
+  /** Closing hour of the appointment's day; resizing does not stretch past it */
+  endHour?: number;
+  /** Whether the appointment overlaps another booking of the same technician */
+  hasConflict?: boolean;
+  /** Whether a change to the appointment is still being saved */
+  isPending?: boolean;
+}
+
+/**
+ * Memoized TimelineBlock for performance
+ */
+export const TimelineBlock = memo(function TimelineBlock({
+  layout,
+  scale,
+  onClick,
+  isSelected = false,
+  isDragging = false,
+  resizable = false,
+  endHour,
+  hasConflict = false,
+  isPending = false,
+}: TimelineBlockProps) {
+  const { appointment, lane, left, width } = layout;
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
+  const blockColor = layout.color ?? DEFAULT_TECHNICIAN_COLOR;
+
+  // Set up draggable behavior with @dnd-kit
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    isDragging: isDraggingLocal,
+  } = useDraggable({
+    id: appointment.id,
+    data: { appointment, timeline: scale },
+    disabled: isPending,
+    attributes: { roleDescription: messages.draggableRoleDescription },
+  });
+
+  // Right-edge resize handle: a separate draggable so moving and resizing don't clash
+  const {
+    attributes: resizeAttributes,
+    listeners: resizeListeners,
+    setNodeRef: setResizeNodeRef,
+    transform: resizeTransform,
+    isDragging: isResizing,
+  } = useDraggable({
+    id: `resize-${appointment.id}`,
+    data: { appointment, resize: true, timeline: scale },
+    disabled: !resizable || isPending,
+    attributes: { roleDescription: messages.draggableRoleDescription },
+  });
+
+  // Provide a safe ref callback in case DndContext is not available
+  const safeSetNodeRef = setNodeRef || (() => { });
+  const safeSetResizeNodeRef = setResizeNodeRef || (() => { });
+
+  // While resizing, preview the duration the drop would produce
+  const duration = isResizing && resizeTransform
+    ? calculateResizedDuration(
+        appointment.startTime,
+        appointment.duration,
+        resizeTransform.x,
+        endHour,
+        scale.slotDuration,
+        getTimelineSlotWidth(scale)
+      )
+    : appointment.duration;
+  const displayWidth = isResizing ? duration * scale.minuteWidth : width;
+  const endTime = addMinutes(appointment.startTime, duration);
+
+  const isCurrentlyDragging = isDragging || isDraggingLocal;
+  const gapSize = 2; // pixels between blocks
+
+  const style: React.CSSProperties = {
+    position: 'absolute',
+    left: `${left}px`,
+    top: `${lane * TIMELINE_LANE_HEIGHT + gapSize}px`,
+    // Keep short blocks grabbable at coarse zoom levels
+    width: `${Math.max(displayWidth - gapSize, 12)}px`,
+    height: `${TIMELINE_LANE_HEIGHT - gapSize * 2}px`,
+    zIndex: isCurrentlyDragging || isResizing ? 100 : isSelected ? 50 : 10,
+    transform: transform
+      ? `translate(${transform.x}px, ${transform.y}px)`
+      : undefined,
+    pointerEvents: 'auto',
+    touchAction: 'none',
+    ['--block-color' as string]: blockColor,
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onClick && !isCurrentlyDragging) {
+      onClick(appointment);
+    }
+  };
+
+  const classNames = [
+    'appointment-block',
+    'timeline-block',
+    'technician-color',
+    isCurrentlyDragging ? 'dragging' : '',
+    isSelected ? 'selected' : '',
+    isResizing ? 'resizing' : '',
+    hasConflict ? 'conflict' : '',
+    isPending ? 'pending' : '',
+    appointment.seriesId ? 'recurring' : '',
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div
+      ref={safeSetNodeRef}
+      style={style}
+      className={classNames}
+      onClick={handleClick}
+      {...attributes}
+      {...listeners}
+      aria-busy={isPending || undefined}
+      aria-label={formatMessage(
+        hasConflict ? messages.appointmentLabelDoubleBooked : messages.appointmentLabel,
+        {
+          client: appointment.client.name,
+          service: getServiceDisplayName(appointment.serviceType),
+          time: `${formatShortDate(appointment.startTime, i18n)} ${formatTime(appointment.startTime, i18n)}`,
+        }
+      )}
+    >
+      <div className="timeline-block-content">
+        <p className="appointment-client">{appointment.client.name}</p>
+        <p className="appointment-time">
+          {formatTime(appointment.startTime, i18n)} – {formatTime(endTime, i18n)}
+        </p>
+      </div>
+
+      {/* Resize handle with live end-time preview */}
+      {resizable && (
+        <div
+          ref={safeSetResizeNodeRef}
+          className="appointment-resize-handle"
+          onClick={(e) => e.stopPropagation()}
+          {...resizeAttributes}
+          {...resizeListeners}
+          role="button"
+          aria-label={formatMessage(messages.resizeLabel, {
+            client: appointment.client.name,
+            time: formatTime(endTime, i18n),
+          })}
+        />
+      )}
+      {isResizing && (
+        <span className="appointment-resize-preview" aria-hidden="true">
+          {formatMessage(messages.resizePreview, { time: formatTime(endTime, i18n), duration })}
+        </span>
+      )}
+    </div>
+  );
+});
+
+export default TimelineBlock;
@@ -0,0 +1,438 @@
+import { memo, useMemo, useCallback } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import type {
+  Appointment,
+  BlockedTime,
+  DayHours,
+  Technician,
+  TimelineScale,
+} from '../../types/scheduler';
+import { getArtistId } from '../../utils/artistUtils';
+import { findOpenInterval, getClosingHour, getMinuteOfDay } from '../../utils/businessHoursUtils';
+import { getTechnicianWorkingIntervals } from '../../utils/availabilityUtils';
+import { DEFAULT_TECHNICIAN_COLOR } from '../../utils/colorUtils';
+import {
+  formatShortDate,
+  formatTime,
+  generateTimeSlots,
+  addMinutes,
+  isToday,
+} from '../../utils/timeUtils';
+import {
+  calculateTimelineLayouts,
+  getIntervalGaps,
+  getTimelineDayWidth,
+  getTimelineOffset,
+  getTimelineTimeAt,
+  TIMELINE_LANE_HEIGHT,
+  TIMELINE_TICKS,
+} from '../../utils/timelineUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
+import { TimelineBlock } from './TimelineBlock';
+
+/**
+ * TimelineView Component
+ *
+ * Gantt-style view for capacity planning, the transpose of the day view:
+ * - One row per technician, time running left to right
+ * - The visible days of the week side by side, each covering the grid hours
+ * - Appointments as bars sized by duration, stacked into lanes where they overlap
+ * - Blocked time (the technician's and studio-wide) in the same lanes
+ * - Closed hours shaded and time a technician isn't working hatched (neither clickable)
+ * - Zoom from 15-minute to full-day ticks
+ * - Drag along a row to another time, or to another row to reassign; drag the right edge to resize
+ * - A line at the current time
+ */
+
+interface TimelineViewProps {
+  /** Days shown and width of a minute (see createTimelineScale) */
+  scale: TimelineScale;
+  /** All appointments (filtered per technician and to the shown days) */
+  appointments: Appointment[];
+  /** Technicians, one row each */
+  technicians: Technician[];
+  /** When set, each day uses this day's open intervals; time outside them is shaded */
+  getHoursForDate?: (date: Date) => DayHours;
+  /** Callback when an appointment is clicked */
+  onAppointmentClick?: (appointment: Appointment) => void;
+  /** Callback when an empty part of a row is clicked (technicianId is passed) */
+  onSlotClick?: (startTime: Date, endTime: Date, technicianId?: string) => void;
+  /** Currently selected appointment ID */
+  selectedAppointmentId?: string | null;
+  /** ID of appointment being dragged */
+  draggingAppointmentId?: string | null;
+  /** Show a right-edge resize handle on appointment bars */
+  resizable?: boolean;
+  /** IDs of appointments that double-book a technician (flagged on their bars) */
+  conflictingAppointmentIds?: Set<string>;
+  /** IDs of appointments whose change is still being saved (shown as pending, not draggable) */
+  pendingAppointmentIds?: Set<string>;
+  /** Return false when an appointment can't be moved to a technician (row shows a rejected state) */
+  canReassign?: (appointment: Appointment, technicianId: string) => boolean;
+  /** Blocked time (meetings, cleaning, training) to show alongside appointments */
+  blockedTimes?: BlockedTime[];
+  /** Callback when the zoom changes (minutes between ticks); hides the zoom buttons when not set */
+  onTickChange?: (tick: number) => void;
+  /** Studio time zone; decides which day is "today" (default: the viewer's) */
+  timeZone?: string;
+  /** Show a line at the current time, updated every minute (default: true) */
+  showCurrentTime?: boolean;
+  /** Color of an appointment's block (default: its technician's color) */
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+/**
+ * Single technician row within the timeline
+ */
+interface TimelineRowProps {
+  technician: Technician;
+  appointments: Appointment[];
+  scale: TimelineScale;
+  getHoursForDate?: (date: Date) => DayHours;
+  onAppointmentClick?: (appointment: Appointment) => void;
+  onSlotClick?: (startTime: Date, endTime: Date, technicianId?: string) => void;
+  selectedAppointmentId?: string | null;
+  draggingAppointmentId?: string | null;
+  resizable?: boolean;
+  conflictingAppointmentIds?: Set<string>;
+  pendingAppointmentIds?: Set<string>;
+  canReassign?: (appointment: Appointment, technicianId: string) => boolean;
+  blockedTimes?: BlockedTime[];
+  /** X position of the current time (draws the now line) */
+  currentTimeOffset?: number;
+  getAppointmentColor?: (appointment: Appointment) => string;
+}
+
+const TimelineRow = memo(function TimelineRow({
+  technician,
+  appointments,
+  scale,
+  getHoursForDate,
+  onAppointmentClick,
+  onSlotClick,
+  selectedAppointmentId,
+  draggingAppointmentId,
+  resizable,
+  conflictingAppointmentIds,
+  pendingAppointmentIds,
+  canReassign,
+  blockedTimes,
+  currentTimeOffset,
+  getAppointmentColor,
+}: TimelineRowProps) {
+  const i18n = useSchedulerLocale();
+
+  // Set up droppable zone for this technician row (drops reassign; the time comes from the drag offset)
+  const { setNodeRef, isOver, active } = useDroppable({
+    id: `timeline-${technician.id}`,
+    data: { technicianId: technician.id },
+  });
+
+  // Flag drops of another technician's appointment that would be rejected
+  const activeData = active?.data.current as { appointment?: Appointment; resize?: boolean } | undefined;
+  const isDropRejected = Boolean(
+    isOver &&
+    canReassign &&
+    activeData?.appointment &&
+    !activeData.resize &&
+    getArtistId(activeData.appointment.artist) !== technician.id &&
+    !canReassign(activeData.appointment, technician.id)
+  );
+  const dragStateClass = isOver ? (isDropRejected ? 'drag-rejected' : 'drag-over') : '';
+
+  // Provide a safe ref callback in case DndContext is not available
+  const safeSetNodeRef = setNodeRef || (() => { });
+
+  // The technician's appointments and blocked time (plus studio-wide blocks), packed into lanes
+  const techColor = technician.color ?? DEFAULT_TECHNICIAN_COLOR;
+  const { appointmentLayouts, blockedTimeLayouts, laneCount } = useMemo(() => {
+    const raw = calculateTimelineLayouts(
+      appointments.filter((apt) => getArtistId(apt.artist) === technician.id),
+      (blockedTimes ?? []).filter((block) => !block.technicianId || block.technicianId === technician.id),
+      scale
+    );
+    return {
+      ...raw,
+      appointmentLayouts: raw.appointmentLayouts.map((layout) => ({
+        ...layout,
+        color: getAppointmentColor?.(layout.appointment) ?? techColor,
+      })),
+    };
+  }, [appointments, blockedTimes, technician.id, scale, techColor, getAppointmentColor]);
+
+  // Per day: open intervals (closed hours) and the technician's working intervals (shifts, time off)
+  const dayWidth = getTimelineDayWidth(scale);
+  const days = useMemo(
+    () =>
+      scale.dates.map((date) => ({
+        date,
+        openIntervals: getHoursForDate?.(date).intervals,
+        workingIntervals: getTechnicianWorkingIntervals(technician, date),
+      })),
+    [scale.dates, getHoursForDate, technician]
+  );
+
+  const handleTrackClick = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!onSlotClick) return;
+      const startTime = getTimelineTimeAt(scale, e.clientX - e.currentTarget.getBoundingClientRect().left);
+      if (!startTime) return;
+      const day = days.find((d) => d.date.toDateString() === startTime.toDateString());
+      const minute = getMinuteOfDay(startTime);
+      if (day?.openIntervals && !findOpenInterval(day.openIntervals, minute)) return;
+      if (day?.workingIntervals && !findOpenInterval(day.workingIntervals, minute)) return;
+      onSlotClick(startTime, addMinutes(startTime, scale.slotDuration), technician.id);
+    },
+    [onSlotClick, scale, days, technician.id]
+  );
+
+  const gridStart = scale.startHour * 60;
+  const gridEnd = scale.endHour * 60;
+  const toSpanStyle = (dayIndex: number, start: number, end: number): React.CSSProperties => ({
+    left: `${dayIndex * dayWidth + (start - gridStart) * scale.minuteWidth}px`,
+    width: `${(end - start) * scale.minuteWidth}px`,
+  });
+
+  return (
+    <div
+      ref={safeSetNodeRef}
+      className={`timeline-row ${dragStateClass}`}
+      role="group"
+      aria-label={technician.name}
+    >
+      {/* Technician name, sticky on the left */}
+      <div className={`timeline-row-header ${dragStateClass}`} aria-hidden="true">
+        <span
+          className="timeline-row-color"
+          style={{ ['--block-color' as string]: techColor }}
+        />
+        <span className="tech-header-text">{technician.name}</span>
+      </div>
+
+      {/* Time track */}
+      <div
+        className="timeline-track"
+        style={{ width: `${dayWidth * scale.dates.length}px`, height: `${laneCount * TIMELINE_LANE_HEIGHT}px` }}
+        onClick={handleTrackClick}
+      >
+        {days.map(({ date, openIntervals, workingIntervals }, dayIndex) => (
+          <div
+            key={date.toISOString()}
+            className="timeline-day"
+            style={{
+              left: `${dayIndex * dayWidth}px`,
+              width: `${dayWidth}px`,
+              ['--timeline-tick-width' as string]: `${Math.min(scale.tick, gridEnd - gridStart) * scale.minuteWidth}px`,
+            }}
+          >
+            {workingIntervals && getIntervalGaps(workingIntervals, gridStart, gridEnd).map((gap) => (
+              <div
+                key={`off-${gap.start}`}
+                className="timeline-unavailable"
+                style={toSpanStyle(0, gap.start, gap.end)}
+              />
+            ))}
+            {openIntervals && getIntervalGaps(openIntervals, gridStart, gridEnd).map((gap) => (
+              <div
+                key={`closed-${gap.start}`}
+                className="timeline-closed"
+                style={toSpanStyle(0, gap.start, gap.end)}
+              />
+            ))}
+          </div>
+        ))}
+
+        {blockedTimeLayouts.map(({ blockedTime, lane, left, width }) => (
+          <div
+            key={blockedTime.id}
+            className="blocked-time-block timeline-blocked-time"
+            style={{
+              left: `${left}px`,
+              top: `${lane * TIMELINE_LANE_HEIGHT + 2}px`,
+              width: `${Math.max(width - 2, 12)}px`,
+              height: `${TIMELINE_LANE_HEIGHT - 4}px`,
+            }}
+            onClick={(e) => e.stopPropagation()}
+            role="group"
+            aria-label={`${blockedTime.title}, ${formatShortDate(blockedTime.startTime, i18n)} ${formatTime(blockedTime.startTime, i18n)} – ${formatTime(addMinutes(blockedTime.startTime, blockedTime.duration), i18n)}`}
+          >
+            <div className="blocked-time-content">
+              <p className="blocked-time-title">{blockedTime.title}</p>
+            </div>
+          </div>
+        ))}
+
+        {appointmentLayouts.map((layout) => {
+          const openIntervals = days.find((d) => d.date.toDateString() === layout.appointment.startTime.toDateString())?.openIntervals;
+          return (
+            <TimelineBlock
+              key={layout.appointment.id}
+              layout={layout}
+              scale={scale}
+              onClick={onAppointmentClick}
+              isSelected={selectedAppointmentId === layout.appointment.id}
+              isDragging={draggingAppointmentId === layout.appointment.id}
+              resizable={resizable}
+              hasConflict={conflictingAppointmentIds?.has(layout.appointment.id)}
+              isPending={pendingAppointmentIds?.has(layout.appointment.id)}
+              endHour={
+                openIntervals
+                  ? getClosingHour(openIntervals, layout.appointment.startTime, scale.endHour)
+                  : scale.endHour
+              }
+            />
+          );
+        })}
+
+        {currentTimeOffset !== undefined && (
+          <div className="timeline-now" style={{ left: `${currentTimeOffset}px` }} aria-hidden="true" />
+        )}
+      </div>
+    </div>
+  );
+});
+
+export const TimelineView = memo(function TimelineView({
+  scale,
+  appointments,
+  technicians,
+  getHoursForDate,
+  onAppointmentClick,
+  onSlotClick,
+  selectedAppointmentId,
+  draggingAppointmentId,
+  resizable,
+  conflictingAppointmentIds,
+  pendingAppointmentIds,
+  canReassign,
+  blockedTimes,
+  onTickChange,
+  timeZone,
+  showCurrentTime = true,
+  getAppointmentColor,
+}: TimelineViewProps) {
+  const i18n = useSchedulerLocale();
+  const { messages } = i18n;
+  const now = useCurrentTime(timeZone, showCurrentTime);
+  const dayWidth = getTimelineDayWidth(scale);
+  const tickWidth = scale.tick * scale.minuteWidth;
+
+  // The now line, when the current time is on a shown day within the grid hours
+  const nowMinute = getMinuteOfDay(now);
+  const currentTimeOffset = showCurrentTime && nowMinute >= scale.startHour * 60 && nowMinute < scale.endHour * 60
+    ? getTimelineOffset(scale, now) ?? undefined
+    : undefined;
+
+  // Tick labels of each day (none with one tick per day: the date is the label)
+  const tickSlots = useMemo(
+    () =>
+      scale.tick < 1440
+        ? generateTimeSlots(scale.dates[0] ?? new Date(), scale.startHour, scale.endHour, scale.tick, i18n)
+        : [],
+    [scale.dates, scale.startHour, scale.endHour, scale.tick, i18n]
+  );
+
+  // Zoom: finer ticks to the left of TIMELINE_TICKS, coarser to the right
+  const tickIndex = TIMELINE_TICKS.indexOf(scale.tick);
+  const tickLabel = scale.tick >= 1440
+    ? messages.timelineTickDay
+    : scale.tick >= 60
+      ? formatMessage(messages.timelineTickHours, { count: scale.tick / 60 })
+      : formatMessage(messages.timelineTickMinutes, { count: scale.tick });
+
+  const timelineLabel = scale.dates.length > 0
+    ? formatMessage(messages.timelineLabel, {
+      date: `${formatShortDate(scale.dates[0], i18n)} - ${formatShortDate(scale.dates[scale.dates.length - 1], i18n)}`,
+    })
+    : undefined;
+
+  return (
+    <div className="view-container timeline-view">
+      {/* Zoom controls */}
+      {onTickChange && (
+        <div className="timeline-toolbar" role="group" aria-label={messages.timelineZoom}>
+          <button
+            type="button"
+            className="timeline-zoom-btn"
+            onClick={() => onTickChange(TIMELINE_TICKS[tickIndex + 1])}
+            disabled={tickIndex === -1 || tickIndex >= TIMELINE_TICKS.length - 1}
+            aria-label={messages.timelineZoomOut}
+          >
+            −
+          </button>
+          <span className="timeline-zoom-label" aria-live="polite">{tickLabel}</span>
+          <button
+            type="button"
+            className="timeline-zoom-btn"
+            onClick={() => onTickChange(TIMELINE_TICKS[tickIndex - 1])}
+            disabled={tickIndex <= 0}
+            aria-label={messages.timelineZoomIn}
+          >
+            +
+          </button>
+        </div>
+      )}
+
+      {/* Scrollable area: day headers on top, technician names on the left */}
+      <div className="view-scroll-area scheduler-scroll">
+        <div className="timeline-grid" role="group" aria-label={timelineLabel}>
+          <div className="timeline-header" aria-hidden="true">
+            <div className="timeline-header-corner">{messages.technician}</div>
+            {scale.dates.map((date) => {
+              const isTodayDate = isToday(date, timeZone);
+              return (
+                <div
+                  key={date.toISOString()}
+                  className={`timeline-day-header ${isTodayDate ? 'today' : ''}`}
+                  style={{ width: `${dayWidth}px` }}
+                >
+                  <span className={`column-header-text ${isTodayDate ? 'today' : ''}`}>
+                    {formatShortDate(date, i18n)}
+                  </span>
+                  {tickSlots.length > 0 && (
+                    <div className="timeline-ticks">
+                      {tickSlots.map((slot) => (
+                        <span
+                          key={slot.label}
+                          className="timeline-tick-label"
+                          style={{ width: `${tickWidth}px` }}
+                        >
+                          {slot.label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {technicians.map((technician) => (
+            <TimelineRow
+              key={technician.id}
+              technician={technician}
+              appointments={appointments}
+              scale={scale}
+              getHoursForDate={getHoursForDate}
+              onAppointmentClick={onAppointmentClick}
+              onSlotClick={onSlotClick}
+              selectedAppointmentId={selectedAppointmentId}
+              draggingAppointmentId={draggingAppointmentId}
+              resizable={resizable}
+              conflictingAppointmentIds={conflictingAppointmentIds}
+              pendingAppointmentIds={pendingAppointmentIds}
+              canReassign={canReassign}
+              blockedTimes={blockedTimes}
+              currentTimeOffset={currentTimeOffset}
+              getAppointmentColor={getAppointmentColor}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default TimelineView;
@@ -1,24 +1,31 @@
 import { memo } from 'react';
 import type { ViewMode } from '../../types/scheduler';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
 
 /**
  * ViewToggle Component
  * 
- * A toggle button group for switching between Day and Week views.
+ * A toggle button group for switching between Day, N-day, Week, Timeline, Month and Agenda views.
  * Styled to match the minimal, elegant aesthetic of a beauty business.
  */
 
 interface ViewToggleProps {
   /** Current active view */
   view: ViewMode;
+  /** Number of days in the N-day view (shown on its button; default: 3) */
+  dayCount?: number;
   /** Callback when view is changed */
   onViewChange: (view: ViewMode) => void;
 }
 
 export const ViewToggle = memo(function ViewToggle({
   view,
+  dayCount = 3,
   onViewChange,
 }: ViewToggleProps) {
+  const { messages } = useSchedulerLocale();
+
   return (
     <div className="view-toggle">
       <button
@@ -27,7 +34,15 @@ export const ViewToggle = memo(function ViewToggle({
         className={`view-toggle-btn ${view === 'day' ? 'active' : ''}`}
         aria-pressed={view === 'day'}
       >
-        Day
+        {messages.viewDay}
+      </button>
+      <button
+        type="button"
+        onClick={() => onViewChange('days')}
+        className={`view-toggle-btn ${view === 'days' ? 'active' : ''}`}
+        aria-pressed={view === 'days'}
+      >
+        {formatMessage(messages.viewDays, { count: dayCount })}
       </button>
       <button
         type="button"
@@ -35,7 +50,31 @@ export const ViewToggle = memo(function ViewToggle({
         className={`view-toggle-btn ${view === 'week' ? 'active' : ''}`}
         aria-pressed={view === 'week'}
       >
-        Week
+        {messages.viewWeek}
+      </button>
+      <button
+        type="button"
+        onClick={() => onViewChange('timeline')}
+        className={`view-toggle-btn ${view === 'timeline' ? 'active' : ''}`}
+        aria-pressed={view === 'timeline'}
+      >
+        {messages.viewTimeline}
+      </button>
+      <button
+        type="button"
+        onClick={() => onViewChange('month')}
+        className={`view-toggle-btn ${view === 'month' ? 'active' : ''}`}
+        aria-pressed={view === 'month'}
+      >
+        {messages.viewMonth}
+      </button>
+      <button
+        type="button"
+        onClick={() => onViewChange('agenda')}
+        className={`view-toggle-btn ${view === 'agenda' ? 'active' : ''}`}
+        aria-pressed={view === 'agenda'}
+      >
+        {messages.viewAgenda}
       </button>
     </div>
   );
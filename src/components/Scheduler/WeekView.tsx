@@ -1,60 +1,119 @@
-import { memo, useMemo, useCallback } from 'react';
+import { memo, useId, useMemo, useCallback } from 'react';
 import { useDroppable } from '@dnd-kit/core';
-import type { Appointment, TimeSlot, Technician } from '../../types/scheduler';
+import type { Appointment, BlockedTime, TimeSlot, Technician, DayHours, OpenInterval } from '../../types/scheduler';
 import {
   getWeekDates,
+  getRangeDates,
+  filterVisibleDates,
   formatShortDate,
   isToday,
+  isSameDay,
   generateTimeSlots,
   SLOT_HEIGHT,
   addMinutes,
   SLOT_DURATION,
 } from '../../utils/timeUtils';
 import {
-  calculateAppointmentLayouts,
+  calculateScheduleLayouts,
   filterAppointmentsByDay,
   filterByWorkingHours,
 } from '../../utils/layoutUtils';
 import { getTechnicianColorForAppointment } from '../../utils/colorUtils';
+import { findOpenInterval, getClosingHour, getMinuteOfDay, isOutsideOpenIntervals } from '../../utils/businessHoursUtils';
+import {
+  getTechnicianColumnKey,
+  getSlotCellKey,
+  getAppointmentCellKey,
+  getBlockedTimeCellKey,
+  getGridCellId,
+  getColumnHeaderId,
+  groupBlockIdsBySlot,
+} from '../../utils/gridNavigationUtils';
+import { formatMessage } from '../../utils/i18nUtils';
+import { useSchedulerLocale } from '../../hooks/useSchedulerLocale';
+import { useGridNavigation } from '../../hooks/useGridNavigation';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
 import { TimeColumn } from './TimeColumn';
+import { TechnicianColumn } from './TechnicianColumn';
+import { GridTimeRows } from './GridTimeRows';
+import { CurrentTimeIndicator } from './CurrentTimeIndicator';
 import { AppointmentBlock } from './AppointmentBlock';
+import { BlockedTimeBlock } from './BlockedTimeBlock';
 
 /**
  * WeekView Component
  * 
  * Displays a full week's schedule with:
- * - 7 day columns (Sunday to Saturday)
+ * - One column per visible day of the week, starting on the locale's (or configured) first day
+ *   (hidden days, e.g. a closed Sunday and Monday, are left out)
+ * - Or, with dayCount, one column per visible day of the N days starting at the selected date
+ * - Or, with groupByTechnician, each day split into one column per technician (see TechnicianColumn);
+ *   drops there carry both the date and the technician
  * - Shared time column on the left
  * - Each day column shows appointments for that day
  * - Day headers with date and "Today" indicator
+ * - A line at the current time across today's column
  * - Droppable zones for cross-day drag-and-drop
+ * - Blocked time (all technicians and studio-wide) alongside appointments
+ * - ARIA grid with roving focus: time rows across the day (or technician) columns, whose slot cells
+ *   hold the blocks starting in them (arrow keys between them and across days, Enter to create or open)
  * 
  * Layout: Time column is sticky, day columns scroll horizontally if needed
  */
 
 interface WeekViewProps {
-  /** The date used to determine which week to display */
+  /** The date used to determine which week to display (the first day when dayCount is set) */
   selectedDate: Date;
+  /** When set, shows this many consecutive days starting at selectedDate instead of the whole week */
+  dayCount?: number;
   /** All appointments (will be filtered per day) */
   appointments: Appointment[];
   /** Starting hour of the work day (union range for time column) */
   startHour: number;
   /** Ending hour of the work day (union range for time column) */
   endHour: number;
-  /** When set, each day column uses this day's open/close; slots outside are disabled */
-  getHoursForDate?: (date: Date) => { startHour: number; endHour: number };
+  /** Length of each slot in minutes (default: 30) */
+  slotDuration?: number;
+  /** Height of each slot in pixels (default: 60) */
+  slotHeight?: number;
+  /** When set, each day column uses this day's open intervals; slots outside (incl. closures) are disabled */
+  getHoursForDate?: (date: Date) => DayHours;
+  /** Returns false for days to leave out (hidden weekdays, closed days); all days are shown when none is visible */
+  isDayVisible?: (date: Date) => boolean;
   /** Callback when an appointment is clicked */
   onAppointmentClick?: (appointment: Appointment) => void;
-  /** Callback when an empty slot is clicked */
-  onSlotClick?: (startTime: Date, endTime: Date) => void;
+  /** Callback when an empty slot is clicked (technicianId is passed when grouped by technician) */
+  onSlotClick?: (startTime: Date, endTime: Date, technicianId?: string) => void;
   /** Currently selected appointment ID */
   selectedAppointmentId?: string | null;
   /** ID of appointment being dragged */
   draggingAppointmentId?: string | null;
+  /** Show a bottom-edge resize handle on appointment blocks */
+  resizable?: boolean;
+  /** IDs of appointments that double-book a technician (flagged on their blocks) */
+  conflictingAppointmentIds?: Set<string>;
+  /** IDs of appointments whose change is still being saved (shown as pending, not draggable) */
+  pendingAppointmentIds?: Set<string>;
   /** Selected date range for highlighting (week view) */
   selectedDateRange?: { start: Date; end: Date } | null;
-  /** List of technicians (used to resolve block color per technician) */
+  /** List of technicians (used to resolve block color per technician, and for the grouped columns) */
   technicians?: Technician[];
+  /** Split each day into one column per technician (default: false; needs technicians) */
+  groupByTechnician?: boolean;
+  /** Return false when an appointment can't be moved to a technician (grouped columns show a rejected state) */
+  canReassign?: (appointment: Appointment, technicianId: string) => boolean;
+  /** Blocked time (meetings, cleaning, training) to show alongside appointments */
+  blockedTimes?: BlockedTime[];
+  /** Allow dragging blocked time */
+  blockedTimesDraggable?: boolean;
+  /** Callback when blocked time is deleted (shows the delete button) */
+  onDeleteBlockedTime?: (blockedTime: BlockedTime) => void;
+  /** Studio time zone; decides which day is "today" (default: the viewer's) */
+  timeZone?: string;
+  /** Show a line at the current time in today's column, updated every minute (default: true) */
+  showCurrentTime?: boolean;
+  /** Color of an appointment's block (default: its technician's color) */
+  getAppointmentColor?: (appointment: Appointment) => string;
 }
 
 /**
@@ -70,13 +129,31 @@ interface DayColumnProps {
   /** This day's open/close; when set, slots outside [dayStartHour, dayEndHour) are disabled */
   dayStartHour?: number;
   dayEndHour?: number;
+  /** This day's exact open intervals; slots outside them are disabled (split shifts, closed days) */
+  openIntervals?: OpenInterval[];
+  slotDuration: number;
+  slotHeight: number;
   onAppointmentClick?: (appointment: Appointment) => void;
   onSlotClick?: (startTime: Date, endTime: Date) => void;
   selectedAppointmentId?: string | null;
   draggingAppointmentId?: string | null;
+  resizable?: boolean;
+  conflictingAppointmentIds?: Set<string>;
+  pendingAppointmentIds?: Set<string>;
   /** Whether this day is within the selected date range */
   isInSelectedRange?: boolean;
   technicians?: Technician[];
+  blockedTimes?: BlockedTime[];
+  blockedTimesDraggable?: boolean;
+  onDeleteBlockedTime?: (blockedTime: BlockedTime) => void;
+  timeZone?: string;
+  /** Unique ID of the grid holding the column */
+  gridId: string;
+  /** Key of the grid cell in the tab order */
+  tabStop: string | null;
+  /** Current time, set when the column is today's (draws the now line) */
+  currentTime?: Date;
+  getAppointmentColor?: (appointment: Appointment) => string;
 }
 
 const DayColumn = memo(function DayColumn({
@@ -87,14 +164,29 @@ const DayColumn = memo(function DayColumn({
   endHour,
   dayStartHour,
   dayEndHour,
+  openIntervals,
+  slotDuration,
+  slotHeight,
   onAppointmentClick,
   onSlotClick,
   selectedAppointmentId,
   draggingAppointmentId,
+  resizable,
+  conflictingAppointmentIds,
+  pendingAppointmentIds,
   isInSelectedRange,
   technicians = [],
+  blockedTimes,
+  blockedTimesDraggable,
+  onDeleteBlockedTime,
+  timeZone,
+  gridId,
+  tabStop,
+  currentTime,
+  getAppointmentColor,
 }: DayColumnProps) {
-  const isTodayDate = isToday(date);
+  const i18n = useSchedulerLocale();
+  const isTodayDate = isToday(date, timeZone);
   const effectiveStart = dayStartHour ?? startHour;
   const effectiveEnd = dayEndHour ?? endHour;
 
@@ -108,66 +200,117 @@ const DayColumn = memo(function DayColumn({
   // Provide a safe ref callback in case DndContext is not available
   const safeSetNodeRef = setNodeRef || (() => { });
 
-  // Calculate layouts for this day's appointments (position by union grid startHour; filter by this day's hours)
-  const layouts = useMemo(() => {
+  // Calculate layouts for this day's appointments and blocked time (position and filter by the union grid's hours;
+  // bookings outside this day's open hours stay visible and are flagged)
+  const { layouts, blockedTimeLayouts } = useMemo(() => {
     const dayAppointments = filterAppointmentsByDay(appointments, date);
-    const validAppointments = filterByWorkingHours(dayAppointments, effectiveStart, effectiveEnd);
-    const raw = calculateAppointmentLayouts(validAppointments, startHour);
-    return raw.map((layout) => ({
-      ...layout,
-      color: getTechnicianColorForAppointment(layout.appointment, technicians),
-    }));
-  }, [appointments, date, startHour, effectiveStart, effectiveEnd, technicians]);
+    const validAppointments = filterByWorkingHours(dayAppointments, startHour, endHour);
+    const dayBlockedTimes = filterByWorkingHours(filterAppointmentsByDay(blockedTimes ?? [], date), startHour, endHour);
+    const raw = calculateScheduleLayouts(validAppointments, dayBlockedTimes, startHour, slotDuration, slotHeight);
+    return {
+      layouts: raw.appointmentLayouts.map((layout) => ({
+        ...layout,
+        color: getAppointmentColor?.(layout.appointment) ?? getTechnicianColorForAppointment(layout.appointment, technicians),
+      })),
+      blockedTimeLayouts: raw.blockedTimeLayouts,
+    };
+  }, [appointments, blockedTimes, date, startHour, endHour, slotDuration, slotHeight, technicians, getAppointmentColor]);
+
+  // Slots outside this day's hours (or its open intervals, when known) are disabled
+  const isSlotOutsideHours = useCallback(
+    (slot: TimeSlot) =>
+      openIntervals
+        ? !findOpenInterval(openIntervals, slot.hour * 60 + slot.minute)
+        : slot.hour < effectiveStart || slot.hour >= effectiveEnd,
+    [openIntervals, effectiveStart, effectiveEnd]
+  );
 
   const handleSlotClick = useCallback(
     (slot: TimeSlot) => {
       if (!onSlotClick) return;
-      const inRange = slot.hour >= effectiveStart && slot.hour < effectiveEnd;
-      if (!inRange) return;
+      if (isSlotOutsideHours(slot)) return;
       const slotTime = new Date(date);
       slotTime.setHours(slot.hour, slot.minute, 0, 0);
-      const endTime = addMinutes(slotTime, SLOT_DURATION);
+      const endTime = addMinutes(slotTime, slotDuration);
       onSlotClick(slotTime, endTime);
     },
-    [date, onSlotClick, effectiveStart, effectiveEnd]
+    [date, onSlotClick, isSlotOutsideHours, slotDuration]
   );
 
-  const gridHeight = slots.length * SLOT_HEIGHT;
+  const gridHeight = slots.length * slotHeight;
+  const columnKey = date.toISOString();
+
+  // Each slot owns the blocks that start in it
+  const blockIdsBySlot = useMemo(
+    () =>
+      groupBlockIdsBySlot(slots, [
+        ...layouts.map((layout) => ({
+          id: getGridCellId(gridId, columnKey, getAppointmentCellKey(layout.appointment.id)),
+          minute: getMinuteOfDay(layout.appointment.startTime),
+        })),
+        ...blockedTimeLayouts.map((layout) => ({
+          id: getGridCellId(gridId, columnKey, getBlockedTimeCellKey(layout.blockedTime.id, columnKey)),
+          minute: getMinuteOfDay(layout.blockedTime.startTime),
+        })),
+      ]),
+    [slots, layouts, blockedTimeLayouts, gridId, columnKey]
+  );
 
   return (
     <div
       ref={safeSetNodeRef}
       className={`day-column ${isOver ? 'drag-over' : ''} ${isInSelectedRange ? 'in-selected-range' : ''}`}
+      role="presentation"
+      data-grid-column
     >
       {/* Day header */}
-      <div className={`column-header ${isTodayDate ? 'today' : ''} ${isOver ? 'drag-over' : ''} ${isInSelectedRange ? 'in-selected-range' : ''}`}>
+      <div
+        id={getColumnHeaderId(gridId, columnKey)}
+        className={`column-header ${isTodayDate ? 'today' : ''} ${isOver ? 'drag-over' : ''} ${isInSelectedRange ? 'in-selected-range' : ''}`}
+        role="columnheader"
+      >
         <span className={`column-header-text ${isTodayDate ? 'today' : ''} ${isInSelectedRange ? 'in-selected-range' : ''}`}>
-          {formatShortDate(date)}
+          {formatShortDate(date, i18n)}
         </span>
         {isTodayDate && <div className="today-dot" />}
         {isInSelectedRange && !isTodayDate && <div className="selected-range-dot" />}
       </div>
 
       {/* Day grid */}
-      <div className="grid-slots" style={{ height: `${gridHeight}px` }}>
+      <div className="grid-slots" style={{ height: `${gridHeight}px` }} role="presentation">
         {/* Slot backgrounds */}
         {slots.map((slot) => {
-          const outsideHours = slot.hour < effectiveStart || slot.hour >= effectiveEnd;
+          const outsideHours = isSlotOutsideHours(slot);
+          const cellKey = getSlotCellKey(columnKey, slot);
+          const blockIds = blockIdsBySlot.get(slot);
           return (
             <div
-              key={`${date.toISOString()}-${slot.hour}-${slot.minute}`}
+              key={`${columnKey}-${slot.hour}-${slot.minute}`}
+              id={getGridCellId(gridId, columnKey, cellKey)}
               className={`grid-slot ${slot.isHourStart ? 'hour-start' : ''} ${outsideHours ? 'slot-outside-hours' : ''}`}
-              style={{ height: `${SLOT_HEIGHT}px` }}
+              style={{ height: `${slotHeight}px` }}
               onClick={() => handleSlotClick(slot)}
-              role="button"
-              aria-label={outsideHours ? undefined : `Create appointment on ${formatShortDate(date)} at ${slot.label}`}
+              role="gridcell"
+              tabIndex={tabStop === cellKey ? 0 : -1}
+              data-grid-cell={cellKey}
+              data-grid-time={slot.hour * 60 + slot.minute}
+              data-grid-slot
+              aria-label={
+                outsideHours
+                  ? formatMessage(i18n.messages.slotClosedAt, { time: slot.label })
+                  : formatMessage(i18n.messages.createAppointmentOnAt, {
+                    date: formatShortDate(date, i18n),
+                    time: slot.label,
+                  })
+              }
               aria-disabled={outsideHours ? true : undefined}
+              aria-owns={blockIds?.join(' ')}
             />
           );
         })}
 
         {/* Appointments */}
-        <div className="appointments-layer">
+        <div className="appointments-layer" role="presentation">
           {layouts.map((layout) => (
             <AppointmentBlock
               key={layout.appointment.id}
@@ -175,9 +318,44 @@ const DayColumn = memo(function DayColumn({
               onClick={onAppointmentClick}
               isSelected={selectedAppointmentId === layout.appointment.id}
               isDragging={draggingAppointmentId === layout.appointment.id}
+              resizable={resizable}
+              hasConflict={conflictingAppointmentIds?.has(layout.appointment.id)}
+              isOutsideHours={openIntervals && isOutsideOpenIntervals(openIntervals, layout.appointment)}
+              isPending={pendingAppointmentIds?.has(layout.appointment.id)}
+              endHour={
+                openIntervals
+                  ? getClosingHour(openIntervals, layout.appointment.startTime, endHour)
+                  : effectiveEnd
+              }
+              slotDuration={slotDuration}
+              slotHeight={slotHeight}
+              isTabStop={tabStop === getAppointmentCellKey(layout.appointment.id)}
+              cellId={getGridCellId(gridId, columnKey, getAppointmentCellKey(layout.appointment.id))}
+            />
+          ))}
+          {blockedTimeLayouts.map((layout) => (
+            <BlockedTimeBlock
+              key={layout.blockedTime.id}
+              layout={layout}
+              technicians={technicians}
+              draggable={blockedTimesDraggable}
+              onDelete={onDeleteBlockedTime}
+              gridColumn={columnKey}
+              isTabStop={tabStop === getBlockedTimeCellKey(layout.blockedTime.id, columnKey)}
+              cellId={getGridCellId(gridId, columnKey, getBlockedTimeCellKey(layout.blockedTime.id, columnKey))}
             />
           ))}
         </div>
+
+        {currentTime && (
+          <CurrentTimeIndicator
+            now={currentTime}
+            startHour={startHour}
+            endHour={endHour}
+            slotDuration={slotDuration}
+            slotHeight={slotHeight}
+          />
+        )}
       </div>
     </div>
   );
@@ -185,26 +363,77 @@ const DayColumn = memo(function DayColumn({
 
 export const WeekView = memo(function WeekView({
   selectedDate,
+  dayCount,
   appointments,
   startHour,
   endHour,
+  slotDuration = SLOT_DURATION,
+  slotHeight = SLOT_HEIGHT,
   getHoursForDate,
+  isDayVisible,
   onAppointmentClick,
   onSlotClick,
   selectedAppointmentId,
   draggingAppointmentId,
+  resizable,
+  conflictingAppointmentIds,
+  pendingAppointmentIds,
   selectedDateRange,
   technicians = [],
+  groupByTechnician = false,
+  canReassign,
+  blockedTimes,
+  blockedTimesDraggable,
+  onDeleteBlockedTime,
+  timeZone,
+  showCurrentTime = true,
+  getAppointmentColor,
 }: WeekViewProps) {
-  // Get all dates for the week
-  const weekDates = useMemo(() => getWeekDates(selectedDate), [selectedDate]);
+  const i18n = useSchedulerLocale();
+  const now = useCurrentTime(timeZone, showCurrentTime);
+  // Without technicians there is nothing to group by
+  const isGrouped = groupByTechnician && technicians.length > 0;
+
+  // Get the visible dates of the week (or of the N-day range)
+  const weekDates = useMemo(
+    () =>
+      filterVisibleDates(
+        dayCount ? getRangeDates(selectedDate, dayCount) : getWeekDates(selectedDate, i18n.weekStartsOn),
+        isDayVisible
+      ),
+    [selectedDate, dayCount, i18n.weekStartsOn, isDayVisible]
+  );
 
   // Generate time slots once for all columns (union range)
   const slots = useMemo(
-    () => generateTimeSlots(selectedDate, startHour, endHour),
-    [selectedDate, startHour, endHour]
+    () => generateTimeSlots(selectedDate, startHour, endHour, slotDuration, i18n),
+    [selectedDate, startHour, endHour, slotDuration, i18n]
   );
 
+  // Roving focus starts on the first slot of the first day (its first technician when grouped)
+  const firstColumn = weekDates[0] && (
+    isGrouped ? getTechnicianColumnKey(technicians[0].id, weekDates[0]) : weekDates[0].toISOString()
+  );
+  const gridId = useId();
+  const gridColumns = useMemo(
+    () =>
+      weekDates.flatMap((date) =>
+        isGrouped
+          ? technicians.map((technician) => getTechnicianColumnKey(technician.id, date))
+          : [date.toISOString()]
+      ),
+    [weekDates, isGrouped, technicians]
+  );
+  const { gridRef, tabStop, handleKeyDown, handleFocus } = useGridNavigation(
+    firstColumn && slots[0] ? getSlotCellKey(firstColumn, slots[0]) : null,
+    Boolean(draggingAppointmentId)
+  );
+  const gridLabel = weekDates.length > 0
+    ? formatMessage(i18n.messages.scheduleGridLabel, {
+      date: `${formatShortDate(weekDates[0], i18n)} - ${formatShortDate(weekDates[weekDates.length - 1], i18n)}`,
+    })
+    : undefined;
+
   // Helper to check if a date is within the selected range
   const isDateInSelectedRange = useCallback((date: Date): boolean => {
     if (!selectedDateRange) return false;
@@ -220,7 +449,7 @@ export const WeekView = memo(function WeekView({
   }, [selectedDateRange]);
 
   return (
-    <div className="view-container">
+    <div className={`view-container ${isGrouped ? 'week-grouped' : ''}`}>
       {/* Header spacer + day headers row */}
       <div className="week-header-bar">
         {/* Time column header spacer */}
@@ -234,16 +463,81 @@ export const WeekView = memo(function WeekView({
       <div className="view-scroll-area scheduler-scroll">
         <div className="view-grid-container">
           {/* Sticky time column */}
-          <div className="time-column" style={{ position: 'sticky', left: 0, zIndex: 20 }}>
+          <div className="time-column" style={{ position: 'sticky', left: 0, zIndex: 20 }} aria-hidden="true">
             {/* Spacer for day header row */}
             <div className="time-column-spacer" />
-            <TimeColumn slots={slots} slotHeight={SLOT_HEIGHT} />
+            <TimeColumn slots={slots} slotHeight={slotHeight} />
           </div>
 
           {/* Day columns */}
-          <div className="columns-container">
+          <div
+            ref={gridRef}
+            className="columns-container"
+            role="grid"
+            aria-label={gridLabel}
+            onKeyDown={handleKeyDown}
+            onFocus={handleFocus}
+          >
+            <GridTimeRows gridId={gridId} columns={gridColumns} slots={slots} />
             {weekDates.map((date) => {
               const dayHours = getHoursForDate?.(date);
+              const currentTime = showCurrentTime && isSameDay(date, now) ? now : undefined;
+
+              if (isGrouped) {
+                const isTodayDate = isToday(date, timeZone);
+                const dateLabel = formatShortDate(date, i18n);
+                const inSelectedRange = isDateInSelectedRange(date);
+                return (
+                  <div
+                    key={date.toISOString()}
+                    className={`day-group ${inSelectedRange ? 'in-selected-range' : ''}`}
+                    style={{ flex: technicians.length }}
+                    role="presentation"
+                  >
+                    {/* Day header above the day's technician columns */}
+                    <div
+                      className={`day-group-header ${isTodayDate ? 'today' : ''} ${inSelectedRange ? 'in-selected-range' : ''}`}
+                      aria-hidden="true"
+                    >
+                      <span className={`column-header-text ${isTodayDate ? 'today' : ''}`}>{dateLabel}</span>
+                      {isTodayDate && <div className="today-dot" />}
+                    </div>
+                    <div className="day-group-columns">
+                      {technicians.map((technician) => (
+                        <TechnicianColumn
+                          key={technician.id}
+                          date={date}
+                          technician={technician}
+                          appointments={appointments}
+                          slots={slots}
+                          startHour={startHour}
+                          endHour={endHour}
+                          slotDuration={slotDuration}
+                          slotHeight={slotHeight}
+                          openIntervals={dayHours?.intervals}
+                          onAppointmentClick={onAppointmentClick}
+                          onSlotClick={onSlotClick}
+                          selectedAppointmentId={selectedAppointmentId}
+                          draggingAppointmentId={draggingAppointmentId}
+                          resizable={resizable}
+                          conflictingAppointmentIds={conflictingAppointmentIds}
+                          pendingAppointmentIds={pendingAppointmentIds}
+                          canReassign={canReassign}
+                          blockedTimes={blockedTimes}
+                          blockedTimesDraggable={blockedTimesDraggable}
+                          onDeleteBlockedTime={onDeleteBlockedTime}
+                          tabStop={tabStop}
+                          currentTime={currentTime}
+                          dateLabel={dateLabel}
+                          gridId={gridId}
+                          getAppointmentColor={getAppointmentColor}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                );
+              }
+
               return (
                 <DayColumn
                   key={date.toISOString()}
@@ -254,12 +548,26 @@ export const WeekView = memo(function WeekView({
                   endHour={endHour}
                   dayStartHour={dayHours?.startHour}
                   dayEndHour={dayHours?.endHour}
+                  openIntervals={dayHours?.intervals}
+                  slotDuration={slotDuration}
+                  slotHeight={slotHeight}
                   onAppointmentClick={onAppointmentClick}
                   onSlotClick={onSlotClick}
                   selectedAppointmentId={selectedAppointmentId}
                   draggingAppointmentId={draggingAppointmentId}
+                  resizable={resizable}
+                  conflictingAppointmentIds={conflictingAppointmentIds}
+                  pendingAppointmentIds={pendingAppointmentIds}
                   isInSelectedRange={isDateInSelectedRange(date)}
                   technicians={technicians}
+                  blockedTimes={blockedTimes}
+                  blockedTimesDraggable={blockedTimesDraggable}
+                  onDeleteBlockedTime={onDeleteBlockedTime}
+                  timeZone={timeZone}
+                  gridId={gridId}
+                  tabStop={tabStop}
+                  currentTime={currentTime}
+                  getAppointmentColor={getAppointmentColor}
                 />
               );
             })}
@@ -13,31 +13,76 @@ export { Scheduler } from './Scheduler';
 // Sub-components (for advanced customization)
 export { DayView } from './DayView';
 export { WeekView } from './WeekView';
+export { TechnicianColumn } from './TechnicianColumn';
+export { GridTimeRows } from './GridTimeRows';
+export { MonthView } from './MonthView';
+export { AgendaView } from './AgendaView';
+export { TimelineView } from './TimelineView';
 export { TimeGrid } from './TimeGrid';
 export { TimeColumn } from './TimeColumn';
 export { AppointmentBlock } from './AppointmentBlock';
+export { TimelineBlock } from './TimelineBlock';
 export { ViewToggle } from './ViewToggle';
+export { TechnicianFilter } from './TechnicianFilter';
+export { AppointmentSearch } from './AppointmentSearch';
+export { ColorLegend } from './ColorLegend';
 export { DetailModal } from './DetailModal';
 export { DetailPanel } from './DetailPanel';
 export { CreateAppointmentModal } from './CreateAppointmentModal';
 export { DatePickerModal } from './DatePickerModal';
 export { ThemeToggle } from './ThemeToggle';
+export { RecurrenceScopePrompt } from './RecurrenceScopePrompt';
+export { ConflictWarning } from './ConflictWarning';
+export { BlockedTimeBlock } from './BlockedTimeBlock';
+export { BlockedTimeForm } from './BlockedTimeForm';
+export { CurrentTimeIndicator } from './CurrentTimeIndicator';
 
 // Re-export types
 export type {
   Appointment,
   AppointmentStatus,
   SchedulerProps,
+  SchedulerHandle,
+  VisibleRange,
+  ChangeResult,
+  ChangeHistoryEntry,
+  AppointmentRestore,
   Service,
   ServiceType,
   Technician,
+  TechnicianAvailability,
+  TimeOff,
   ViewMode,
   DetailDisplayMode,
+  ColorByMode,
   AppointmentLayout,
+  BlockedTimeLayout,
+  TimelineScale,
+  TimelineAppointmentLayout,
+  TimelineBlockedTimeLayout,
   TimeSlot,
   Job,
   NewAppointmentData,
   TechnicianServices,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceException,
+  RecurrenceOverrides,
+  RecurrenceEditScope,
+  ConflictPolicy,
+  DaySchedule,
+  OpeningInterval,
+  DateScheduleOverride,
+  OpenInterval,
+  DayHours,
+  ConflictCandidate,
+  AppointmentConflict,
+  BlockedTime,
+  NewBlockedTimeData,
+  TimeFormat,
+  DateFormatOptions,
+  SchedulerMessages,
+  SchedulerLocale,
 } from '../../types/scheduler';
 
 export type { ThemeToggleProps } from './ThemeToggle';
@@ -45,9 +90,35 @@ export type { ThemeToggleProps } from './ThemeToggle';
 // Re-export hooks for advanced usage
 export { useScheduler } from '../../hooks/useScheduler';
 export { useDragDrop } from '../../hooks/useDragDrop';
+export { useAsyncAction } from '../../hooks/useAsyncAction';
+export { useOptimisticAppointments } from '../../hooks/useOptimisticAppointments';
+export { useChangeHistory } from '../../hooks/useChangeHistory';
+export { useUndoableChanges } from '../../hooks/useUndoableChanges';
+export { useGridNavigation } from '../../hooks/useGridNavigation';
+export { useCurrentTime } from '../../hooks/useCurrentTime';
+export { useZonedCallbacks } from '../../hooks/useZonedCallbacks';
+export { useSchedulerLocale, SchedulerLocaleContext } from '../../hooks/useSchedulerLocale';
+
+// Built-in text catalogs
+export { en } from '../../locales/en';
+export { fr } from '../../locales/fr';
 
 // Re-export utilities for custom implementations
 export * from '../../utils/timeUtils';
 export * from '../../utils/layoutUtils';
+export * from '../../utils/timelineUtils';
 export * from '../../utils/colorUtils';
+export * from '../../utils/serviceUtils';
+export * from '../../utils/artistUtils';
+export * from '../../utils/recurrenceUtils';
+export * from '../../utils/conflictUtils';
+export * from '../../utils/businessHoursUtils';
+export * from '../../utils/availabilityUtils';
+export * from '../../utils/technicianFilterUtils';
+export * from '../../utils/searchUtils';
+export * from '../../utils/timeZoneUtils';
+export * from '../../utils/i18nUtils';
+export * from '../../utils/asyncUtils';
+export * from '../../utils/historyUtils';
+export * from '../../utils/gridNavigationUtils';
 export * from '../../utils/themeUtils';
\ No newline at end of file
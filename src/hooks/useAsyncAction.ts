@@ -0,0 +1,64 @@
+import { useState, useCallback } from 'react';
+import type { ChangeResult } from '../types/scheduler';
+import { isPromiseLike } from '../utils/asyncUtils';
+import { formatSaveError } from '../utils/i18nUtils';
+import { useSchedulerLocale } from './useSchedulerLocale';
+
+/**
+ * Save state for forms whose callback may return a Promise (create, edit, delete)
+ *
+ * Manages:
+ * - Whether a save is running (to disable the form's buttons)
+ * - The error of the last failed save
+ */
+
+interface UseAsyncActionReturn {
+  /** Whether a Promise returned by the action is still pending */
+  isSaving: boolean;
+  /** Message of the last failed save (null when none) */
+  error: string | null;
+  /**
+   * Runs an action. A returned Promise sets isSaving until it settles, then calls onSuccess
+   * or sets error; other results call onSuccess right away.
+   */
+  run: (action: () => ChangeResult, onSuccess?: () => void) => void;
+  /** Clear the error */
+  clearError: () => void;
+}
+
+export function useAsyncAction(): UseAsyncActionReturn {
+  const { messages } = useSchedulerLocale();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(
+    (action: () => ChangeResult, onSuccess?: () => void) => {
+      setError(null);
+      const result = action();
+      if (!isPromiseLike(result)) {
+        onSuccess?.();
+        return;
+      }
+      setIsSaving(true);
+      result.then(
+        () => {
+          setIsSaving(false);
+          onSuccess?.();
+        },
+        (reason: unknown) => {
+          setIsSaving(false);
+          setError(formatSaveError(reason, messages));
+        }
+      );
+    },
+    [messages]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return { isSaving, error, run, clearError };
+}
+
+export default useAsyncAction;
@@ -0,0 +1,95 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ChangeHistoryEntry } from '../types/scheduler';
+import { isPromiseLike } from '../utils/asyncUtils';
+
+/**
+ * Custom hook for the undo/redo history of scheduling changes
+ *
+ * Manages:
+ * - The changes that can be undone (most recent last) and redone
+ * - Running an entry's undo or redo step and moving it to the other stack
+ * - Putting the entry back when a step's Promise rejects (the change didn't happen)
+ */
+
+/** Changes kept for undo (oldest are dropped) */
+const DEFAULT_HISTORY_LIMIT = 50;
+
+interface ChangeHistory {
+  past: ChangeHistoryEntry[];
+  future: ChangeHistoryEntry[];
+}
+
+interface UseChangeHistoryReturn {
+  /** Whether there is a change to undo */
+  canUndo: boolean;
+  /** Whether there is an undone change to redo */
+  canRedo: boolean;
+  /** Adds a change made by the user (clears the redo stack) */
+  record: (entry: ChangeHistoryEntry) => void;
+  /** Undoes the latest change; returns it, or null when there is none */
+  undo: () => ChangeHistoryEntry | null;
+  /** Redoes the latest undone change; returns it, or null when there is none */
+  redo: () => ChangeHistoryEntry | null;
+}
+
+export function useChangeHistory(limit: number = DEFAULT_HISTORY_LIMIT): UseChangeHistoryReturn {
+  const [history, setHistory] = useState<ChangeHistory>({ past: [], future: [] });
+  // Kept in a ref as well so several steps in a row (held-down shortcut) see each other
+  const historyRef = useRef(history);
+
+  const update = useCallback((next: ChangeHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const record = useCallback(
+    (entry: ChangeHistoryEntry) => {
+      update({ past: [...historyRef.current.past, entry].slice(-limit), future: [] });
+    },
+    [limit, update]
+  );
+
+  const step = useCallback(
+    (direction: 'undo' | 'redo') => {
+      const { past, future } = historyRef.current;
+      const from = direction === 'undo' ? past : future;
+      const entry = direction === 'undo' ? past[past.length - 1] : future[0];
+      if (!entry) return null;
+
+      const remaining = direction === 'undo' ? from.slice(0, -1) : from.slice(1);
+      update(
+        direction === 'undo'
+          ? { past: remaining, future: [entry, ...future] }
+          : { past: [...past, entry], future: remaining }
+      );
+
+      const result = entry[direction]();
+      if (isPromiseLike(result)) {
+        result.then(undefined, () => {
+          // The step failed, so the entry goes back where it was
+          const current = historyRef.current;
+          update(
+            direction === 'undo'
+              ? { past: [...current.past, entry], future: current.future.filter((e) => e !== entry) }
+              : { past: current.past.filter((e) => e !== entry), future: [entry, ...current.future] }
+          );
+        });
+      }
+      return entry;
+    },
+    [update]
+  );
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    record,
+    undo,
+    redo,
+  };
+}
+
+export default useChangeHistory;
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { getNow } from '../utils/timeUtils';
+
+/**
+ * Custom hook for the current time, refreshed at the start of every minute
+ *
+ * Provides:
+ * - The current date and time, in the studio's time zone when set (wall-clock, like the grid)
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * @param timeZone - Studio time zone (default: the viewer's)
+ * @param enabled - Whether to keep the time up to date (false stops the timer)
+ */
+export function useCurrentTime(timeZone?: string, enabled: boolean = true): Date {
+  const [now, setNow] = useState(() => getNow(timeZone));
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Catch up right away (the zone changed or updates were off), then on each minute
+    setNow(getNow(timeZone));
+    let timer: ReturnType<typeof setTimeout>;
+    const scheduleNextTick = () => {
+      timer = setTimeout(() => {
+        setNow(getNow(timeZone));
+        scheduleNextTick();
+      }, MINUTE_MS - (Date.now() % MINUTE_MS));
+    };
+    scheduleNextTick();
+    return () => clearTimeout(timer);
+  }, [timeZone, enabled]);
+
+  return now;
+}
+
+export default useCurrentTime;
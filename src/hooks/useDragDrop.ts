@@ -1,7 +1,27 @@
-import { useState, useCallback, useMemo } from 'react';
-import type { DragEndEvent, DragStartEvent, Modifier } from '@dnd-kit/core';
-import type { Appointment } from '../types/scheduler';
-import { SLOT_HEIGHT, SLOT_DURATION, roundToSlot } from '../utils/timeUtils';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { KeyboardCode } from '@dnd-kit/core';
+import type {
+  Active,
+  ClientRect,
+  DragEndEvent,
+  DragMoveEvent,
+  DragStartEvent,
+  KeyboardCodes,
+  KeyboardSensorOptions,
+  Modifier,
+  Over,
+  Translate,
+} from '@dnd-kit/core';
+import type { Appointment, BlockedTime, OpenInterval, TimelineScale } from '../types/scheduler';
+import { getArtistId, reassignTechnician } from '../utils/artistUtils';
+import { getClosingHour, getMinuteOfDay, isWithinOpenIntervals } from '../utils/businessHoursUtils';
+import {
+  SLOT_HEIGHT,
+  SLOT_DURATION,
+  roundToSlot,
+  calculateResizedDuration,
+} from '../utils/timeUtils';
+import { getTimelineSlotWidth, moveOnTimeline } from '../utils/timelineUtils';
 
 /**
  * Custom hook for managing drag-and-drop state and logic
@@ -10,18 +30,79 @@ import { SLOT_HEIGHT, SLOT_DURATION, roundToSlot } from '../utils/timeUtils';
  * - Tracking of currently dragged appointment
  * - Calculation of new appointment time based on drop position
  * - Support for cross-day rescheduling in week view
+ * - Reassignment when dropped on another technician's column (day view) or row (timeline)
+ * - Timeline blocks (drag data `{ appointment, timeline }`), whose time runs along the x-axis
+ * - Optional validation of the changed appointment (e.g. double-booking checks)
+ * - Date-only moves (month view) that keep the original time of day
+ * - Resizing by the bottom edge (drag data `{ appointment, resize: true }`)
+ * - Moving blocked time (drag data `{ blockedTime }`) within the grid range
  * - Snap-to-slot modifier for smooth dragging
+ * - Keyboard dragging (KeyboardSensor options): arrow keys step one slot, or to the next
+ *   column (technician or day) or month cell, and where the item would land for announcements
  */
 
+/** Keyboard drags start with Space only, so Enter still opens the focused appointment */
+const KEYBOARD_CODES: KeyboardCodes = {
+  start: [KeyboardCode.Space],
+  cancel: [KeyboardCode.Esc],
+  end: [KeyboardCode.Space, KeyboardCode.Enter, KeyboardCode.Tab],
+};
+
 interface UseDragDropOptions {
   /** Starting hour of the work day (for bounds checking) */
   startHour: number;
   /** Ending hour of the work day (for bounds checking) */
   endHour: number;
-  /** When set, bounds are taken from this per-day lookup (e.g. from businessHours) */
-  getHoursForDate?: (date: Date) => { startHour: number; endHour: number };
-  /** Callback when an appointment is successfully rescheduled */
-  onReschedule?: (appointmentId: string, newStartTime: Date) => void;
+  /** Length of each slot in minutes (default: 30) */
+  slotDuration?: number;
+  /** Height of each slot in pixels (default: 60) */
+  slotHeight?: number;
+  /**
+   * When set, bounds are taken from this per-day lookup (e.g. from businessHours).
+   * With intervals, a moved appointment must fit inside one open interval (no running through a closure).
+   */
+  getHoursForDate?: (date: Date) => { startHour: number; endHour: number; intervals?: OpenInterval[] };
+  /** Callback when an appointment is successfully rescheduled (newTechnicianId set when moved to another technician) */
+  onReschedule?: (appointmentId: string, newStartTime: Date, newTechnicianId?: string) => void;
+  /** Return false to reject dropping an appointment on a technician (e.g. a service they can't perform) */
+  canReassign?: (appointment: Appointment, technicianId: string) => boolean;
+  /** Callback when an appointment is successfully resized */
+  onResize?: (appointmentId: string, newDuration: number) => void;
+  /** Return false to reject a move or resize; receives the appointment as it would be after the change */
+  validateChange?: (updated: Appointment) => boolean;
+  /** Callback when blocked time is moved (newTechnicianId only set for blocks that belong to a technician) */
+  onRescheduleBlockedTime?: (blockedTimeId: string, newStartTime: Date, newTechnicianId?: string) => void;
+}
+
+/** Drop target data set by the view droppables */
+interface DropData {
+  date?: Date;
+  dateOnly?: boolean;
+  technicianId?: string;
+}
+
+/** Drag data set by the draggables (appointment blocks and chips, resize handles, blocked time) */
+interface DragData {
+  appointment?: Appointment;
+  blockedTime?: BlockedTime;
+  dateOnly?: boolean;
+  resize?: boolean;
+  /** Scale of the timeline the item is on (time runs along the x-axis) */
+  timeline?: TimelineScale;
+}
+
+/** Where a dragged item would land if dropped now (not yet checked against hours or conflicts) */
+interface DragPreview {
+  /** Start time after the drop (unchanged for resizes) */
+  startTime: Date;
+  /** Duration after the drop (unchanged for moves) */
+  duration: number;
+  /** Whether the end time is being dragged */
+  resize: boolean;
+  /** Whether only the date changes (month view) */
+  dateOnly: boolean;
+  /** Technician of the column (day view) or row (timeline) under the item */
+  technicianId?: string;
 }
 
 interface UseDragDropReturn {
@@ -29,138 +110,440 @@ interface UseDragDropReturn {
   draggingId: string | null;
   /** Handler for drag start events */
   handleDragStart: (event: DragStartEvent) => void;
+  /** Handler for drag move events */
+  handleDragMove: (event: DragMoveEvent) => void;
   /** Handler for drag end events */
   handleDragEnd: (event: DragEndEvent) => void;
-  /** Modifier to snap dragging to 30-minute slots */
+  /** Handler for cancelled drags (Escape) */
+  handleDragCancel: () => void;
+  /** Modifier to snap dragging to slot boundaries */
   snapModifier: Modifier;
+  /** Options for the KeyboardSensor (start keys and one-slot or one-column steps) */
+  keyboardSensorOptions: KeyboardSensorOptions;
+  /** Where the dragged item would land if dropped now (null when it isn't a scheduler item) */
+  getDragPreview: (active: Active, over: Over | null) => DragPreview | null;
+}
+
+/**
+ * Finds the drop target next to the one under a point (the nearest one past its edge
+ * in the arrow key's direction that lines up with the point)
+ */
+function getAdjacentDropTarget(
+  rects: ClientRect[],
+  point: Translate,
+  code: string
+): { from: ClientRect; to: ClientRect } | null {
+  const from = rects.find(
+    (rect) => point.x >= rect.left && point.x < rect.right && point.y >= rect.top && point.y < rect.bottom
+  );
+  if (!from) return null;
+
+  const horizontal = code === KeyboardCode.Left || code === KeyboardCode.Right;
+  // Borders may make neighbours overlap by a pixel
+  const candidates = rects.filter((rect) => {
+    const linesUp = horizontal
+      ? point.y >= rect.top && point.y < rect.bottom
+      : point.x >= rect.left && point.x < rect.right;
+    if (rect === from || !linesUp) return false;
+    switch (code) {
+      case KeyboardCode.Left:
+        return rect.right <= from.left + 1;
+      case KeyboardCode.Right:
+        return rect.left >= from.right - 1;
+      case KeyboardCode.Up:
+        return rect.bottom <= from.top + 1;
+      default:
+        return rect.top >= from.bottom - 1;
+    }
+  });
+  const distance = (rect: ClientRect) => Math.abs(horizontal ? rect.left - from.left : rect.top - from.top);
+  const to = candidates.sort((a, b) => distance(a) - distance(b))[0];
+  return to ? { from, to } : null;
 }
 
 export function useDragDrop({
   startHour,
   endHour,
+  slotDuration = SLOT_DURATION,
+  slotHeight = SLOT_HEIGHT,
   getHoursForDate,
   onReschedule,
+  onResize,
+  canReassign,
+  validateChange,
+  onRescheduleBlockedTime,
 }: UseDragDropOptions): UseDragDropReturn {
   const [draggingId, setDraggingId] = useState<string | null>(null);
+  // Latest drag offset, for the announcements (which only get the item and drop target)
+  const deltaRef = useRef<Translate>({ x: 0, y: 0 });
+
+  /**
+   * Calculates where a dragged item starts after the drop
+   * Applies the vertical offset (in slots) on the target date and rounds to the slot.
+   *
+   * @returns The new start time, or null when nothing moved
+   */
+  const getDroppedStartTime = useCallback(
+    (originalStart: Date, deltaY: number, targetDate: Date | null, dateOnly: boolean): Date | null => {
+      // Calculate time change based on vertical movement
+      // Each slotHeight pixels = slotDuration minutes
+      // Date-only moves (month view) have no time axis, so the time is kept
+      const slotsMovedY = dateOnly ? 0 : Math.round(deltaY / slotHeight);
+      const minutesChange = slotsMovedY * slotDuration;
+
+      // If no movement and no day change, skip
+      if (minutesChange === 0 && !targetDate) {
+        return null;
+      }
+
+      // Calculate new start time
+      let newStartTime: Date;
+
+      if (targetDate) {
+        // Cross-day movement: use the target date but keep the time + offset
+        newStartTime = new Date(targetDate);
+        const originalHours = originalStart.getHours();
+        const originalMinutes = originalStart.getMinutes();
+        newStartTime.setHours(originalHours, originalMinutes, 0, 0);
+        // Apply the vertical time offset
+        newStartTime = new Date(newStartTime.getTime() + minutesChange * 60 * 1000);
+      } else {
+        // Same-day movement: just apply the time offset
+        newStartTime = new Date(originalStart.getTime() + minutesChange * 60 * 1000);
+      }
+
+      // Round to nearest slot
+      return roundToSlot(newStartTime, slotDuration);
+    },
+    [slotDuration, slotHeight]
+  );
+
+  /**
+   * Calculates where a dragged appointment or blocked time starts after the drop: along the
+   * timeline for its blocks, otherwise as getDroppedStartTime (null when nothing moved)
+   */
+  const getMovedStartTime = useCallback(
+    (item: { startTime: Date }, data: DragData | undefined, delta: Translate, dropData: DropData | undefined): Date | null =>
+      data?.timeline
+        ? moveOnTimeline(data.timeline, item.startTime, delta.x)
+        : getDroppedStartTime(
+          item.startTime,
+          delta.y,
+          dropData?.date ?? null,
+          Boolean(data?.dateOnly || dropData?.dateOnly)
+        ),
+    [getDroppedStartTime]
+  );
+
+  /**
+   * Gets the axis time runs along for a dragged item, and the size of a slot in pixels along it
+   * (x and the timeline's slot width for timeline blocks, otherwise y and slotHeight)
+   */
+  const getTimeAxis = useCallback(
+    (data: DragData | undefined): { axis: 'x' | 'y'; slotSize: number } =>
+      data?.timeline
+        ? { axis: 'x', slotSize: getTimelineSlotWidth(data.timeline) }
+        : { axis: 'y', slotSize: slotHeight },
+    [slotHeight]
+  );
+
+  /**
+   * Gets the latest end time a resize may reach: the closing time of the interval the appointment starts in
+   */
+  const getResizeBoundsEnd = useCallback(
+    (appointment: Appointment): number => {
+      const dayHours = getHoursForDate?.(appointment.startTime);
+      return dayHours?.intervals
+        ? getClosingHour(dayHours.intervals, appointment.startTime, dayHours.endHour)
+        : dayHours?.endHour ?? endHour;
+    },
+    [getHoursForDate, endHour]
+  );
 
   /**
    * Handle the start of a drag operation
    */
   const handleDragStart = useCallback((event: DragStartEvent) => {
     const { active } = event;
+    deltaRef.current = { x: 0, y: 0 };
     setDraggingId(active.id as string);
   }, []);
 
+  /**
+   * Handle drag movement (keeps the offset for getDragPreview)
+   */
+  const handleDragMove = useCallback((event: DragMoveEvent) => {
+    deltaRef.current = event.delta;
+  }, []);
+
+  /**
+   * Handle a cancelled drag (nothing moves)
+   */
+  const handleDragCancel = useCallback(() => {
+    setDraggingId(null);
+  }, []);
+
+  /**
+   * Gets where the dragged item would land if dropped now, from the latest drag offset
+   */
+  const getDragPreview = useCallback(
+    (active: Active, over: Over | null): DragPreview | null => {
+      const data = active.data.current as DragData | undefined;
+      const item = data?.appointment ?? data?.blockedTime;
+      if (!item) {
+        return null;
+      }
+      const delta = deltaRef.current;
+
+      if (data?.appointment && data.resize) {
+        const { axis, slotSize } = getTimeAxis(data);
+        return {
+          startTime: item.startTime,
+          duration: calculateResizedDuration(
+            item.startTime,
+            item.duration,
+            delta[axis],
+            getResizeBoundsEnd(data.appointment),
+            slotDuration,
+            slotSize
+          ),
+          resize: true,
+          dateOnly: false,
+        };
+      }
+
+      const dropData = over?.data?.current as DropData | undefined;
+      return {
+        startTime: getMovedStartTime(item, data, delta, dropData) ?? item.startTime,
+        duration: item.duration,
+        resize: false,
+        dateOnly: Boolean(data?.dateOnly || dropData?.dateOnly),
+        technicianId: dropData?.technicianId,
+      };
+    },
+    [getMovedStartTime, getTimeAxis, getResizeBoundsEnd, slotDuration]
+  );
+
   /**
    * Handle the end of a drag operation
-   * Calculates the new time based on the drag distance and drop target
+   * Calculates the new time (or duration, for resize handles) based on the drag distance and drop target
    */
   const handleDragEnd = useCallback(
     (event: DragEndEvent) => {
       const { active, delta, over } = event;
       setDraggingId(null);
 
-      // No reschedule callback
-      if (!onReschedule) {
+      const dropData = over?.data?.current as DropData | undefined;
+      const data = active.data.current as DragData | undefined;
+
+      // Blocked time: may cover closed time (e.g. cleaning over lunch) but must stay on the grid
+      const blockedTime = data?.blockedTime;
+      if (blockedTime) {
+        if (!onRescheduleBlockedTime) {
+          return;
+        }
+        // Studio-wide blocks stay studio-wide wherever they're dropped
+        const newTechnicianId =
+          blockedTime.technicianId && dropData?.technicianId && dropData.technicianId !== blockedTime.technicianId
+            ? dropData.technicianId
+            : undefined;
+        const newStartTime = getMovedStartTime(blockedTime, data, delta, dropData) ?? blockedTime.startTime;
+
+        const bounds = getHoursForDate?.(newStartTime) ?? { startHour, endHour };
+        const newStartMinute = getMinuteOfDay(newStartTime);
+        if (newStartMinute < bounds.startHour * 60 || newStartMinute + blockedTime.duration > bounds.endHour * 60) {
+          return;
+        }
+        if (newStartTime.getTime() === blockedTime.startTime.getTime() && !newTechnicianId) {
+          return;
+        }
+        onRescheduleBlockedTime(blockedTime.id, newStartTime, newTechnicianId);
         return;
       }
 
-      const appointmentData = active.data.current as { appointment: Appointment } | undefined;
-      if (!appointmentData?.appointment) {
+      const appointment = data?.appointment;
+      if (!appointment) {
         return;
       }
 
-      const appointment = appointmentData.appointment;
-
-      // Calculate time change based on vertical movement
-      // Each SLOT_HEIGHT pixels = SLOT_DURATION minutes
-      const slotsMovedY = Math.round(delta.y / SLOT_HEIGHT);
-      const minutesChange = slotsMovedY * SLOT_DURATION;
-
-      // Check if dropped on a day column (for cross-day movement)
-      let targetDate: Date | null = null;
-      if (over?.data?.current) {
-        const dropData = over.data.current as { date?: Date };
-        if (dropData.date) {
-          targetDate = dropData.date;
+      // Resize: only the end time moves, up to the closing time of the interval it starts in
+      if (data.resize) {
+        if (!onResize) {
+          return;
+        }
+        const { axis, slotSize } = getTimeAxis(data);
+        const newDuration = calculateResizedDuration(
+          appointment.startTime,
+          appointment.duration,
+          delta[axis],
+          getResizeBoundsEnd(appointment),
+          slotDuration,
+          slotSize
+        );
+        if (newDuration === appointment.duration) {
+          return;
+        }
+        if (validateChange && !validateChange({ ...appointment, duration: newDuration })) {
+          return;
         }
+        onResize(appointment.id, newDuration);
+        return;
       }
 
-      // If no movement and no day change, skip
-      if (minutesChange === 0 && !targetDate) {
+      // No reschedule callback
+      if (!onReschedule) {
         return;
       }
 
-      // Calculate new start time
-      let newStartTime: Date;
-      
-      if (targetDate) {
-        // Cross-day movement: use the target date but keep the time + offset
-        newStartTime = new Date(targetDate);
-        const originalHours = appointment.startTime.getHours();
-        const originalMinutes = appointment.startTime.getMinutes();
-        newStartTime.setHours(originalHours, originalMinutes, 0, 0);
-        // Apply the vertical time offset
-        newStartTime = new Date(newStartTime.getTime() + minutesChange * 60 * 1000);
-      } else {
-        // Same-day movement: just apply the time offset
-        newStartTime = new Date(
-          appointment.startTime.getTime() + minutesChange * 60 * 1000
-        );
+      // Check if dropped on another technician's column or timeline row (for reassignment);
+      // day columns and month cells move the appointment to their date
+      let newTechnicianId: string | undefined;
+      if (dropData?.technicianId && dropData.technicianId !== getArtistId(appointment.artist)) {
+        newTechnicianId = dropData.technicianId;
       }
 
-      // Round to nearest slot
-      const roundedStartTime = roundToSlot(newStartTime);
+      // Don't allow giving the appointment to a technician who can't take it
+      if (newTechnicianId && canReassign && !canReassign(appointment, newTechnicianId)) {
+        return;
+      }
+
+      const roundedStartTime = getMovedStartTime(appointment, data, delta, dropData);
+      if (!roundedStartTime) {
+        return;
+      }
 
       // Validate the new time is within working hours (use per-day hours when available)
-      const dateForHours = targetDate ?? appointment.startTime;
-      const { startHour: boundsStart, endHour: boundsEnd } = getHoursForDate
+      const dateForHours = dropData?.date ?? roundedStartTime;
+      const { startHour: boundsStart, endHour: boundsEnd, intervals } = getHoursForDate
         ? getHoursForDate(dateForHours)
-        : { startHour, endHour };
-      const newHour = roundedStartTime.getHours();
-      const newMinute = roundedStartTime.getMinutes();
-      const appointmentEndHour =
-        newHour + Math.floor((newMinute + appointment.duration) / 60);
-
-      if (newHour < boundsStart || appointmentEndHour > boundsEnd) {
-        // Don't allow dragging outside working hours
-        return;
+        : { startHour, endHour, intervals: undefined };
+      if (intervals) {
+        // Minute precision: the whole appointment must fit in one open interval
+        const newStartMinute = getMinuteOfDay(roundedStartTime);
+        if (!isWithinOpenIntervals(intervals, newStartMinute, newStartMinute + appointment.duration)) {
+          return;
+        }
+      } else {
+        const newHour = roundedStartTime.getHours();
+        const newMinute = roundedStartTime.getMinutes();
+        const appointmentEndHour =
+          newHour + Math.floor((newMinute + appointment.duration) / 60);
+
+        if (newHour < boundsStart || appointmentEndHour > boundsEnd) {
+          // Don't allow dragging outside working hours
+          return;
+        }
       }
 
       // Check if anything actually changed
-      if (roundedStartTime.getTime() === appointment.startTime.getTime()) {
+      if (roundedStartTime.getTime() === appointment.startTime.getTime() && !newTechnicianId) {
         return;
       }
 
+      // Let the caller veto the change (e.g. it would double-book a technician)
+      if (validateChange) {
+        const moved = newTechnicianId ? reassignTechnician(appointment, newTechnicianId) : appointment;
+        if (!validateChange({ ...moved, startTime: roundedStartTime })) {
+          return;
+        }
+      }
+
       // Call the reschedule callback
-      onReschedule(appointment.id, roundedStartTime);
+      onReschedule(appointment.id, roundedStartTime, newTechnicianId);
     },
-    [onReschedule, startHour, endHour, getHoursForDate]
+    [
+      onReschedule,
+      onResize,
+      canReassign,
+      validateChange,
+      onRescheduleBlockedTime,
+      getMovedStartTime,
+      getTimeAxis,
+      getResizeBoundsEnd,
+      startHour,
+      endHour,
+      slotDuration,
+      getHoursForDate,
+    ]
   );
 
   /**
-   * Modifier that snaps dragging to 30-minute slot increments
+   * Modifier that snaps dragging to slot increments
    * This provides visual feedback that appointments snap to slots
+   * Date-only drags (month view chips) move freely; timeline blocks snap horizontally
    */
   const snapModifier: Modifier = useMemo(
     () =>
-      ({ transform }) => {
+      ({ transform, active }) => {
+        const data = active?.data.current as DragData | undefined;
+        if (data?.dateOnly) {
+          return transform;
+        }
+        if (data?.timeline) {
+          const slotWidth = getTimelineSlotWidth(data.timeline);
+          return { ...transform, x: Math.round(transform.x / slotWidth) * slotWidth };
+        }
         return {
           ...transform,
           // Snap Y movement to slot boundaries
-          y: Math.round(transform.y / SLOT_HEIGHT) * SLOT_HEIGHT,
+          y: Math.round(transform.y / slotHeight) * slotHeight,
           // Keep X unchanged for free horizontal movement
           x: transform.x,
         };
       },
-    []
+    [slotHeight]
+  );
+
+  /**
+   * Keyboard drag steps: up/down by one slot (to the week above/below in the month view),
+   * left/right to the next column or month cell; resize handles only move up and down.
+   * On the timeline it's turned around: left/right by one slot, up/down to the next technician's row.
+   */
+  const keyboardSensorOptions: KeyboardSensorOptions = useMemo(
+    () => ({
+      keyboardCodes: KEYBOARD_CODES,
+      coordinateGetter: (event, { currentCoordinates, context }) => {
+        const data = context.active?.data.current as DragData | undefined;
+        const vertical = event.code === KeyboardCode.Up || event.code === KeyboardCode.Down;
+        const horizontal = event.code === KeyboardCode.Left || event.code === KeyboardCode.Right;
+        if (!vertical && !horizontal) {
+          return undefined;
+        }
+        if (data?.timeline ? horizontal : vertical && !data?.dateOnly) {
+          const { axis, slotSize } = getTimeAxis(data);
+          const step = event.code === KeyboardCode.Up || event.code === KeyboardCode.Left ? -slotSize : slotSize;
+          return { ...currentCoordinates, [axis]: currentCoordinates[axis] + step };
+        }
+        const rect = context.collisionRect;
+        if (data?.resize || !rect) {
+          return undefined;
+        }
+        const target = getAdjacentDropTarget(
+          Array.from(context.droppableRects.values()),
+          { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 },
+          event.code
+        );
+        if (!target) {
+          return undefined;
+        }
+        return {
+          x: currentCoordinates.x + target.to.left - target.from.left,
+          y: currentCoordinates.y + (vertical ? target.to.top - target.from.top : 0),
+        };
+      },
+    }),
+    [getTimeAxis]
   );
 
   return {
     draggingId,
     handleDragStart,
+    handleDragMove,
     handleDragEnd,
+    handleDragCancel,
     snapModifier,
+    keyboardSensorOptions,
+    getDragPreview,
   };
 }
 
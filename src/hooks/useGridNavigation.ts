@@ -0,0 +1,106 @@
+import { useState, useCallback, useLayoutEffect, useRef } from 'react';
+import { getColumnCells, findSlotCell } from '../utils/gridNavigationUtils';
+
+/**
+ * Custom hook for keyboard navigation in the day and week grids
+ *
+ * Manages:
+ * - The cell holding the grid's only tab stop (roving tabindex); a clicked or
+ *   tabbed-to cell takes it over
+ * - Arrow keys: up/down through a column's slots and blocks, left/right to the
+ *   same time in the next column (technician or day); Home/End to a column's first/last cell
+ * - Enter (and Space on slots) to activate the focused cell: create on a slot, open an appointment
+ *
+ * Cells are marked up as described in gridNavigationUtils. While an item is picked up with
+ * the keyboard, the keys belong to the drag (dnd-kit's KeyboardSensor).
+ */
+
+interface UseGridNavigationReturn {
+  /** Ref for the grid element */
+  gridRef: React.RefObject<HTMLDivElement | null>;
+  /** Key of the cell that is in the tab order */
+  tabStop: string | null;
+  /** Keydown handler for the grid */
+  handleKeyDown: (event: React.KeyboardEvent) => void;
+  /** Focus handler for the grid */
+  handleFocus: (event: React.FocusEvent) => void;
+}
+
+/**
+ * @param defaultCell - Key of the cell in the tab order until another one is focused (usually the first slot)
+ * @param isDragging - Whether an item is being dragged
+ */
+export function useGridNavigation(defaultCell: string | null, isDragging: boolean): UseGridNavigationReturn {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [activeCell, setActiveCell] = useState<string | null>(null);
+
+  // The active cell may leave the grid (another date, a deleted appointment): fall back to the default
+  useLayoutEffect(() => {
+    if (!activeCell || !gridRef.current) return;
+    const cells = gridRef.current.querySelectorAll<HTMLElement>('[data-grid-cell]');
+    if (!Array.from(cells).some((cell) => cell.dataset.gridCell === activeCell)) {
+      setActiveCell(null);
+    }
+  });
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      // Keys on controls inside a cell (resize handle, delete button) are theirs
+      const cell = event.target as HTMLElement;
+      if (!cell.dataset.gridCell || isDragging || event.altKey || event.ctrlKey || event.metaKey) return;
+      const column = cell.closest<HTMLElement>('[data-grid-column]');
+      const grid = gridRef.current;
+      if (!column || !grid) return;
+
+      const cells = getColumnCells(column);
+      const index = cells.indexOf(cell);
+      let next: HTMLElement | undefined;
+      switch (event.key) {
+        case 'ArrowUp':
+          next = cells[index - 1];
+          break;
+        case 'ArrowDown':
+          next = cells[index + 1];
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+          const columns = Array.from(grid.querySelectorAll<HTMLElement>('[data-grid-column]'));
+          const nextColumn = columns[columns.indexOf(column) + (event.key === 'ArrowLeft' ? -1 : 1)];
+          next = nextColumn && findSlotCell(nextColumn, Number(cell.dataset.gridTime));
+          break;
+        }
+        case 'Home':
+          next = cells[0];
+          break;
+        case 'End':
+          next = cells[cells.length - 1];
+          break;
+        case 'Enter':
+        case ' ':
+          // Space on a block picks it up for a keyboard drag
+          if (event.key === ' ' && cell.dataset.gridSlot === undefined) return;
+          event.preventDefault();
+          cell.click();
+          return;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+      if (next) {
+        setActiveCell(next.dataset.gridCell ?? null);
+        next.focus();
+      }
+    },
+    [isDragging]
+  );
+
+  const handleFocus = useCallback((event: React.FocusEvent) => {
+    const key = (event.target as HTMLElement).dataset.gridCell;
+    if (key) setActiveCell(key);
+  }, []);
+
+  return { gridRef, tabStop: activeCell ?? defaultCell, handleKeyDown, handleFocus };
+}
+
+export default useGridNavigation;
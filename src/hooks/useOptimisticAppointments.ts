@@ -0,0 +1,66 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type { Appointment, ChangeResult } from '../types/scheduler';
+import { isPromiseLike } from '../utils/asyncUtils';
+
+/**
+ * Custom hook for showing appointment changes before the app has saved them
+ *
+ * Provides:
+ * - The appointments list with every pending change applied on top
+ * - IDs of the appointments (or series) those changes touch, to show them as pending
+ * - A tracker that keeps a change while the callback's Promise is pending and
+ *   drops it once it settles (the app's own `appointments` take over, or the change is rolled back)
+ */
+
+/** Applies one change to an appointments list */
+type ApplyChange = (appointments: Appointment[]) => Appointment[];
+
+interface OptimisticChange {
+  key: number;
+  apply: ApplyChange;
+}
+
+interface UseOptimisticAppointmentsReturn {
+  /** Appointments with the pending changes applied */
+  appointments: Appointment[];
+  /** IDs of appointments and series added or changed by a pending change */
+  pendingIds: Set<string>;
+  /**
+   * Tracks the result of a change callback. A Promise shows `apply` until it settles and is
+   * returned (still rejecting on failure); other results are returned as they are.
+   */
+  trackChange: (result: ChangeResult, apply: ApplyChange) => ChangeResult;
+}
+
+export function useOptimisticAppointments(appointments: Appointment[]): UseOptimisticAppointmentsReturn {
+  const [changes, setChanges] = useState<OptimisticChange[]>([]);
+  const nextKeyRef = useRef(0);
+
+  const { displayed, pendingIds } = useMemo(() => {
+    const ids = new Set<string>();
+    const list = changes.reduce((current, change) => {
+      const before = new Set(current);
+      const next = change.apply(current);
+      next.forEach((apt) => {
+        if (!before.has(apt)) ids.add(apt.id);
+      });
+      return next;
+    }, appointments);
+    return { displayed: list, pendingIds: ids };
+  }, [appointments, changes]);
+
+  const trackChange = useCallback((result: ChangeResult, apply: ApplyChange): ChangeResult => {
+    if (!isPromiseLike(result)) return result;
+    const key = nextKeyRef.current++;
+    setChanges((prev) => [...prev, { key, apply }]);
+    const settle = () => setChanges((prev) => prev.filter((change) => change.key !== key));
+    return Promise.resolve(result).then(settle, (reason: unknown) => {
+      settle();
+      throw reason;
+    });
+  }, []);
+
+  return { appointments: displayed, pendingIds, trackChange };
+}
+
+export default useOptimisticAppointments;
@@ -1,24 +1,58 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import type { Appointment, ViewMode, DetailDisplayMode } from '../types/scheduler';
-import { getToday } from '../utils/timeUtils';
+import { getToday, addMonths } from '../utils/timeUtils';
 
 /**
  * Main state management hook for the Scheduler component
  * 
  * Manages:
- * - Current view mode (day/week)
+ * - Current view mode (day/days/week/month/agenda)
  * - Selected date
+ * - Number of days shown in the N-day view
+ * - Number of days listed in the agenda view
+ * - Technicians shown (filter)
  * - Selected appointment
  * - Detail panel/modal visibility
+ *
+ * View, selected date, technician filter and selected appointment can be controlled by the caller
+ * (pass the value and its change callback); otherwise they are kept here.
  */
 
 interface UseSchedulerOptions {
   /** Initial view mode */
   initialView?: ViewMode;
+  /** Controlled view mode (overrides the internal state when defined) */
+  view?: ViewMode;
+  /** Called whenever the view mode changes (controlled or not) */
+  onViewChange?: (view: ViewMode) => void;
   /** Initial selected date */
   initialDate?: Date;
+  /** Controlled selected date (overrides the internal state when defined) */
+  selectedDate?: Date;
+  /** Called whenever the selected date changes (controlled or not) */
+  onDateChange?: (date: Date) => void;
+  /** Technician IDs shown at first (null = everyone) */
+  initialTechnicianFilter?: string[] | null;
+  /** Controlled technician filter (overrides the internal state when defined; null = everyone) */
+  technicianFilter?: string[] | null;
+  /** Called whenever the technician filter changes (controlled or not) */
+  onTechnicianFilterChange?: (technicianIds: string[] | null) => void;
+  /** Appointment whose details are open at first */
+  initialSelectedAppointment?: Appointment | null;
+  /** Controlled selected appointment (overrides the internal state when defined; null = none) */
+  selectedAppointment?: Appointment | null;
+  /** Called whenever the selected appointment changes (controlled or not; null when closed) */
+  onSelectedAppointmentChange?: (appointment: Appointment | null) => void;
   /** Detail display mode */
   detailDisplay?: DetailDisplayMode;
+  /** Initial number of days shown in the N-day view (default: 3) */
+  initialDayCount?: number;
+  /** Initial number of days listed in the agenda view (default: 7) */
+  initialAgendaDays?: number;
+  /** Time zone that decides what "today" is (default: the viewer's) */
+  timeZone?: string;
+  /** Returns false for days the day view skips when navigating (hidden weekdays, closed days) */
+  isDayVisible?: (date: Date) => boolean;
 }
 
 interface UseSchedulerReturn {
@@ -30,9 +64,21 @@ interface UseSchedulerReturn {
   selectedDate: Date;
   /** Change the selected date */
   setSelectedDate: (date: Date) => void;
-  /** Navigate to previous day/week */
+  /** Number of days shown side by side in the N-day view, starting at selectedDate */
+  dayCount: number;
+  /** Change the number of days shown in the N-day view */
+  setDayCount: (days: number) => void;
+  /** Number of days listed in the agenda view, starting at selectedDate */
+  agendaDays: number;
+  /** Change the number of days listed in the agenda view */
+  setAgendaDays: (days: number) => void;
+  /** IDs of the technicians shown (null = everyone) */
+  technicianFilter: string[] | null;
+  /** Change the technicians shown */
+  setTechnicianFilter: (technicianIds: string[] | null) => void;
+  /** Navigate to previous day/N-day range/week/month/agenda range */
   goToPrevious: () => void;
-  /** Navigate to next day/week */
+  /** Navigate to next day/N-day range/week/month/agenda range */
   goToNext: () => void;
   /** Navigate to today */
   goToToday: () => void;
@@ -48,68 +94,164 @@ interface UseSchedulerReturn {
   detailDisplay: DetailDisplayMode;
 }
 
+type StateUpdate<T> = T | ((current: T) => T);
+
+/**
+ * State that the caller may control: a defined `value` wins over the internal state,
+ * and every change is reported to `onChange` (a controlled value only changes when the caller updates it)
+ */
+function useControllableState<T>(
+  value: T | undefined,
+  initialValue: T | (() => T),
+  onChange?: (value: T) => void
+): [T, (update: StateUpdate<T>) => void] {
+  const [internalValue, setInternalValue] = useState<T>(initialValue);
+  const isControlled = value !== undefined;
+  const current = isControlled ? value : internalValue;
+
+  // Latest value, so functional updates and back-to-back changes see each other
+  const currentRef = useRef(current);
+  useEffect(() => {
+    currentRef.current = current;
+  });
+
+  const setValue = useCallback(
+    (update: StateUpdate<T>) => {
+      const next =
+        typeof update === 'function' ? (update as (current: T) => T)(currentRef.current) : update;
+      if (Object.is(next, currentRef.current)) return;
+      currentRef.current = next;
+      if (!isControlled) setInternalValue(next);
+      onChange?.(next);
+    },
+    [isControlled, onChange]
+  );
+
+  return [current, setValue];
+}
+
+/**
+ * Moves a date by one day in the given direction, skipping days that aren't visible
+ * (at most a week, so a fully hidden week still moves by one day)
+ */
+function stepVisibleDay(date: Date, step: 1 | -1, isDayVisible?: (date: Date) => boolean): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + step);
+  for (let i = 0; i < 6 && isDayVisible && !isDayVisible(next); i++) {
+    next.setDate(next.getDate() + step);
+  }
+  if (isDayVisible && !isDayVisible(next)) {
+    const fallback = new Date(date);
+    fallback.setDate(fallback.getDate() + step);
+    return fallback;
+  }
+  return next;
+}
+
 export function useScheduler({
   initialView = 'week',
+  view: controlledView,
+  onViewChange,
   initialDate,
+  selectedDate: controlledDate,
+  onDateChange,
+  initialTechnicianFilter = null,
+  technicianFilter: controlledTechnicianFilter,
+  onTechnicianFilterChange,
+  initialSelectedAppointment = null,
+  selectedAppointment: controlledAppointment,
+  onSelectedAppointmentChange,
   detailDisplay = 'modal',
+  initialDayCount = 3,
+  initialAgendaDays = 7,
+  timeZone,
+  isDayVisible,
 }: UseSchedulerOptions = {}): UseSchedulerReturn {
-  const [view, setView] = useState<ViewMode>(initialView);
-  const [selectedDate, setSelectedDate] = useState<Date>(
-    initialDate ?? getToday()
+  const [view, setView] = useControllableState<ViewMode>(controlledView, initialView, onViewChange);
+  const [selectedDate, setSelectedDate] = useControllableState<Date>(
+    controlledDate,
+    () => initialDate ?? getToday(timeZone),
+    onDateChange
+  );
+  const [dayCount, setDayCount] = useState<number>(initialDayCount);
+  const [agendaDays, setAgendaDays] = useState<number>(initialAgendaDays);
+  const [technicianFilter, setTechnicianFilter] = useControllableState<string[] | null>(
+    controlledTechnicianFilter,
+    initialTechnicianFilter,
+    onTechnicianFilterChange
+  );
+  const [selectedAppointment, setSelectedAppointment] = useControllableState<Appointment | null>(
+    controlledAppointment,
+    initialSelectedAppointment,
+    onSelectedAppointmentChange
   );
-  const [selectedAppointment, setSelectedAppointment] =
-    useState<Appointment | null>(null);
 
   /**
-   * Navigate to the previous day or week depending on current view
+   * Navigate to the previous day, N-day range, week, month or agenda range depending on current view
    */
   const goToPrevious = useCallback(() => {
     setSelectedDate((current) => {
-      const newDate = new Date(current);
+      if (view === 'month') {
+        return addMonths(current, -1);
+      }
       if (view === 'day') {
-        newDate.setDate(newDate.getDate() - 1);
+        return stepVisibleDay(current, -1, isDayVisible);
+      }
+      const newDate = new Date(current);
+      if (view === 'agenda') {
+        newDate.setDate(newDate.getDate() - agendaDays);
+      } else if (view === 'days') {
+        newDate.setDate(newDate.getDate() - dayCount);
       } else {
         newDate.setDate(newDate.getDate() - 7);
       }
       return newDate;
     });
-  }, [view]);
+  }, [view, dayCount, agendaDays, isDayVisible, setSelectedDate]);
 
   /**
-   * Navigate to the next day or week depending on current view
+   * Navigate to the next day, N-day range, week, month or agenda range depending on current view
    */
   const goToNext = useCallback(() => {
     setSelectedDate((current) => {
-      const newDate = new Date(current);
+      if (view === 'month') {
+        return addMonths(current, 1);
+      }
       if (view === 'day') {
-        newDate.setDate(newDate.getDate() + 1);
+        return stepVisibleDay(current, 1, isDayVisible);
+      }
+      const newDate = new Date(current);
+      if (view === 'agenda') {
+        newDate.setDate(newDate.getDate() + agendaDays);
+      } else if (view === 'days') {
+        newDate.setDate(newDate.getDate() + dayCount);
       } else {
         newDate.setDate(newDate.getDate() + 7);
       }
       return newDate;
     });
-  }, [view]);
+  }, [view, dayCount, agendaDays, isDayVisible, setSelectedDate]);
 
   /**
    * Navigate to today's date
    */
   const goToToday = useCallback(() => {
-    setSelectedDate(getToday());
-  }, []);
+    setSelectedDate(getToday(timeZone));
+  }, [timeZone, setSelectedDate]);
 
   /**
    * Select an appointment to view details
    */
   const selectAppointment = useCallback((appointment: Appointment | null) => {
     setSelectedAppointment(appointment);
-  }, []);
+  }, [setSelectedAppointment]);
 
   /**
    * Close the detail view
    */
   const closeDetail = useCallback(() => {
     setSelectedAppointment(null);
-  }, []);
+  }, [setSelectedAppointment]);
 
   /**
    * Whether the detail view is open
@@ -124,6 +266,12 @@ export function useScheduler({
     setView,
     selectedDate,
     setSelectedDate,
+    dayCount,
+    setDayCount,
+    agendaDays,
+    setAgendaDays,
+    technicianFilter,
+    setTechnicianFilter,
     goToPrevious,
     goToNext,
     goToToday,
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { SchedulerLocale } from '../types/scheduler';
+import { DEFAULT_SCHEDULER_LOCALE } from '../utils/i18nUtils';
+
+/**
+ * Locale context for the scheduler
+ *
+ * The Scheduler provides its resolved locale (texts, clock, first day of the week)
+ * to every component below it. Components rendered on their own get English defaults.
+ */
+export const SchedulerLocaleContext = createContext<SchedulerLocale>(DEFAULT_SCHEDULER_LOCALE);
+
+/**
+ * Reads the scheduler's locale settings
+ */
+export function useSchedulerLocale(): SchedulerLocale {
+  return useContext(SchedulerLocaleContext);
+}
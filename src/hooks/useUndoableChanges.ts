@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type {
+  Appointment,
+  ChangeHistoryEntry,
+  ChangeResult,
+  NewAppointmentData,
+  RecurrenceEditScope,
+  SchedulerMessages,
+} from '../types/scheduler';
+import { isPromiseLike, combineResults } from '../utils/asyncUtils';
+import { getAppointmentRestore, toNewAppointmentData, findCreatedAppointment } from '../utils/historyUtils';
+import {
+  applyRecurrenceReschedule,
+  applyRecurrenceResize,
+  applyRecurrenceUpdate,
+  applyRecurrenceDelete,
+  findAppointmentById,
+  getOccurrenceId,
+  parseOccurrenceId,
+} from '../utils/recurrenceUtils';
+import { useChangeHistory } from './useChangeHistory';
+
+/**
+ * Custom hook for scheduling changes that can be undone
+ *
+ * Manages:
+ * - Running each change and, once it is saved, recording how to undo and redo it
+ * - Undo steps for series (restoring every appointment the change touched)
+ * - Appointments the app creates again on undo, found in its next `appointments` by their data
+ */
+
+interface UseUndoableChangesOptions {
+  /** Appointments as shown (pending changes applied), the state a change is made from */
+  appointments: Appointment[];
+  /** Latest appointments from the app, where appointments it created are looked up */
+  savedAppointments: Appointment[];
+  /** Messages for the history labels and errors */
+  messages: SchedulerMessages;
+  /** Change actions; a change whose undo needs a missing action isn't recorded */
+  rescheduleAppointment?: (
+    id: string,
+    newStartTime: Date,
+    scope?: RecurrenceEditScope,
+    newTechnicianId?: string
+  ) => ChangeResult;
+  resizeAppointment?: (id: string, newDuration: number, scope?: RecurrenceEditScope) => ChangeResult;
+  updateAppointment?: (appointment: Appointment, scope?: RecurrenceEditScope) => ChangeResult;
+  deleteAppointment?: (id: string, scope?: RecurrenceEditScope) => ChangeResult;
+  createAppointment?: (appointmentData: NewAppointmentData) => ChangeResult;
+  /** Called with the result of drag changes and of every undo or redo step (to report failures) */
+  reportResult: (result: ChangeResult) => ChangeResult;
+  /** Called when a destructive change is saved and recorded, to offer Undo */
+  onUndoOffered?: (label: string) => void;
+}
+
+interface UseUndoableChangesReturn {
+  /** Reschedule from drag-and-drop; undone by moving back to the original time (or restoring the appointment after a reassignment) */
+  rescheduleAppointment: (id: string, newStartTime: Date, scope?: RecurrenceEditScope, newTechnicianId?: string) => void;
+  /** Resize by the bottom edge; undone by restoring the original duration */
+  resizeAppointment: (id: string, newDuration: number, scope?: RecurrenceEditScope) => void;
+  /** Edit from the detail view; undone by restoring the previous appointment (or series) */
+  updateAppointment: (appointment: Appointment, scope?: RecurrenceEditScope) => ChangeResult;
+  /** Delete; undone by creating the appointment (or series) again, or restoring the series */
+  deleteAppointment: (id: string, scope?: RecurrenceEditScope) => ChangeResult;
+  /** New appointment; undone by deleting the appointment the app added */
+  createAppointment: (appointmentData: NewAppointmentData) => ChangeResult;
+  /** Undoes the latest change; returns it, or null when there is none */
+  undo: () => ChangeHistoryEntry | null;
+  /** Redoes the latest undone change; returns it, or null when there is none */
+  redo: () => ChangeHistoryEntry | null;
+}
+
+export function useUndoableChanges({
+  appointments,
+  savedAppointments,
+  messages,
+  rescheduleAppointment,
+  resizeAppointment,
+  updateAppointment,
+  deleteAppointment,
+  createAppointment,
+  reportResult,
+  onUndoOffered,
+}: UseUndoableChangesOptions): UseUndoableChangesReturn {
+  const { record: recordChange, undo, redo } = useChangeHistory();
+
+  // Read by undo steps when they run, after the app has added what they look for
+  const savedAppointmentsRef = useRef(savedAppointments);
+  useEffect(() => {
+    savedAppointmentsRef.current = savedAppointments;
+  });
+
+  // Records a change once it is saved; destructive changes offer Undo
+  const recordWhenSaved = useCallback(
+    (
+      result: ChangeResult,
+      label: string,
+      undoStep: () => ChangeResult,
+      redoStep: () => ChangeResult,
+      offerUndo: boolean = true
+    ) => {
+      const record = () => {
+        recordChange({
+          label,
+          undo: () => reportResult(undoStep()),
+          redo: () => reportResult(redoStep()),
+        });
+        if (offerUndo) onUndoOffered?.(label);
+      };
+      if (isPromiseLike(result)) {
+        result.then(record, () => undefined);
+      } else {
+        record();
+      }
+    },
+    [recordChange, reportResult, onUndoOffered]
+  );
+
+  // Undo step that puts series back as they were before a change (series-wide edits, moves and deletes);
+  // null when an action it needs isn't set or an appointment would have to be created again
+  const getRestoreStep = useCallback(
+    (before: Appointment[], after: Appointment[]): (() => ChangeResult) | null => {
+      const { changed, added, removed } = getAppointmentRestore(before, after);
+      if (removed.length > 0) return null;
+      if (changed.length > 0 && !updateAppointment) return null;
+      if (added.length > 0 && !deleteAppointment) return null;
+      return () =>
+        combineResults([
+          ...changed.map((apt) => updateAppointment?.(apt)),
+          ...added.map((id) => deleteAppointment?.(id)),
+        ]);
+    },
+    [updateAppointment, deleteAppointment]
+  );
+
+  const reschedule = useCallback(
+    (id: string, newStartTime: Date, scope?: RecurrenceEditScope, newTechnicianId?: string) => {
+      if (!rescheduleAppointment) return;
+      const original = findAppointmentById(appointments, id);
+      const redoStep = () => rescheduleAppointment(id, newStartTime, scope, newTechnicianId);
+      const result = reportResult(redoStep());
+      if (!original) return;
+      // A move to another technician also reassigned jobs, so its undo puts the whole appointment back
+      // as it was (moving back would hand unassigned and swept-along jobs to the original technician)
+      const restoreOriginal = newTechnicianId
+        ? updateAppointment && (() => updateAppointment(original, scope))
+        : () => rescheduleAppointment(id, original.startTime, scope);
+      const undoStep =
+        !original.seriesId || scope === 'this'
+          ? restoreOriginal
+          : getRestoreStep(
+              appointments,
+              applyRecurrenceReschedule(appointments, id, newStartTime, scope, newTechnicianId)
+            );
+      if (undoStep) recordWhenSaved(result, messages.actionMoved, undoStep, redoStep);
+    },
+    [appointments, rescheduleAppointment, updateAppointment, reportResult, getRestoreStep, recordWhenSaved, messages]
+  );
+
+  const resize = useCallback(
+    (id: string, newDuration: number, scope?: RecurrenceEditScope) => {
+      if (!resizeAppointment) return;
+      const original = findAppointmentById(appointments, id);
+      const redoStep = () => resizeAppointment(id, newDuration, scope);
+      const result = reportResult(redoStep());
+      if (!original) return;
+      const undoStep =
+        !original.seriesId || scope === 'this'
+          ? () => resizeAppointment(id, original.duration, scope)
+          : getRestoreStep(appointments, applyRecurrenceResize(appointments, id, newDuration, scope));
+      if (undoStep) recordWhenSaved(result, messages.actionResized, undoStep, redoStep);
+    },
+    [appointments, resizeAppointment, reportResult, getRestoreStep, recordWhenSaved, messages]
+  );
+
+  const update = useCallback(
+    (appointment: Appointment, scope?: RecurrenceEditScope): ChangeResult => {
+      if (!updateAppointment) return;
+      const previous = findAppointmentById(appointments, appointment.id);
+      const redoStep = () => updateAppointment(appointment, scope);
+      const result = redoStep();
+      if (!previous) return result;
+      const undoStep =
+        !previous.seriesId || scope === 'this'
+          ? () => updateAppointment(previous, scope)
+          : getRestoreStep(appointments, applyRecurrenceUpdate(appointments, appointment, scope));
+      if (undoStep) recordWhenSaved(result, messages.actionUpdated, undoStep, redoStep);
+      return result;
+    },
+    [appointments, updateAppointment, getRestoreStep, recordWhenSaved, messages]
+  );
+
+  // Deleted appointments (or whole series) come back through createAppointment, under the ID the app
+  // gives them; redoing then deletes that appointment
+  const remove = useCallback(
+    (id: string, scope?: RecurrenceEditScope): ChangeResult => {
+      if (!deleteAppointment) return;
+      const after = applyRecurrenceDelete(appointments, id, scope);
+      const { changed, added, removed } = getAppointmentRestore(appointments, after);
+      let currentId = id;
+      const redoStep = () => deleteAppointment(currentId, scope);
+      const result = redoStep();
+
+      const deleted = removed.length === 1 && changed.length === 0 && added.length === 0 ? removed[0] : null;
+      if (!deleted) {
+        const undoStep = getRestoreStep(appointments, after);
+        if (undoStep) recordWhenSaved(result, messages.actionDeleted, undoStep, redoStep);
+        return result;
+      }
+      if (!createAppointment || deleted.recurrenceExceptions?.length) return result;
+
+      const data = toNewAppointmentData(deleted);
+      let recordId = deleted.id;
+      let knownIds: Set<string> | null = null;
+      const undoStep = () => {
+        knownIds = new Set(savedAppointmentsRef.current.map((apt) => apt.id));
+        return createAppointment(data);
+      };
+      const redoAfterUndo = () => {
+        if (knownIds) {
+          const created = findCreatedAppointment(savedAppointmentsRef.current, data, knownIds);
+          if (!created) return Promise.reject(new Error(messages.createdAppointmentNotFound));
+          // Occurrence IDs of a series created again use its new ID
+          const occurrence = currentId !== recordId ? parseOccurrenceId(currentId) : null;
+          currentId = occurrence ? getOccurrenceId(created.id, occurrence.occurrenceStart) : created.id;
+          recordId = created.id;
+          knownIds = null;
+        }
+        return redoStep();
+      };
+      recordWhenSaved(result, messages.actionDeleted, undoStep, redoAfterUndo);
+      return result;
+    },
+    [appointments, deleteAppointment, createAppointment, getRestoreStep, recordWhenSaved, messages]
+  );
+
+  const create = useCallback(
+    (appointmentData: NewAppointmentData): ChangeResult => {
+      if (!createAppointment) return;
+      let knownIds = new Set<string>();
+      const redoStep = () => {
+        knownIds = new Set(savedAppointmentsRef.current.map((apt) => apt.id));
+        return createAppointment(appointmentData);
+      };
+      const undoStep = () => {
+        const created = findCreatedAppointment(savedAppointmentsRef.current, appointmentData, knownIds);
+        return created
+          ? deleteAppointment?.(created.id)
+          : Promise.reject(new Error(messages.createdAppointmentNotFound));
+      };
+      const result = redoStep();
+      if (deleteAppointment) recordWhenSaved(result, messages.actionCreated, undoStep, redoStep, false);
+      return result;
+    },
+    [createAppointment, deleteAppointment, recordWhenSaved, messages]
+  );
+
+  return {
+    rescheduleAppointment: reschedule,
+    resizeAppointment: resize,
+    updateAppointment: update,
+    deleteAppointment: remove,
+    createAppointment: create,
+    undo,
+    redo,
+  };
+}
+
+export default useUndoableChanges;
@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import type { SchedulerProps } from '../types/scheduler';
+import { fromZonedTime } from '../utils/timeUtils';
+import {
+  appointmentFromTimeZone,
+  appointmentIdFromTimeZone,
+  newAppointmentFromTimeZone,
+  blockedTimeFromTimeZone,
+} from '../utils/timeZoneUtils';
+
+/**
+ * Custom hook for the app's callbacks in the studio's time zone
+ *
+ * Inside the scheduler every date is the studio's wall-clock time (see timeZoneUtils); the app
+ * gets real instants. Each callback is wrapped so its dates and occurrence IDs are converted
+ * back at the boundary. Without a time zone the callbacks are returned as they are.
+ *
+ * A new callback that carries dates gets its conversion in ZONED_ARGUMENTS.
+ */
+
+/** App callbacks whose arguments carry dates or occurrence IDs */
+export type ZonedCallbacks = Pick<
+  SchedulerProps,
+  | 'onDateChange'
+  | 'onSelectedAppointmentChange'
+  | 'onRangeChange'
+  | 'onSelectAppointment'
+  | 'onCreateAppointment'
+  | 'onNewAppointment'
+  | 'onUpdateAppointment'
+  | 'onDeleteAppointment'
+  | 'onRescheduleAppointment'
+  | 'onResizeAppointment'
+  | 'onCreateBlockedTime'
+  | 'onRescheduleBlockedTime'
+>;
+
+type Callback = (...args: never[]) => unknown;
+
+/** Converts a callback's arguments from wall-clock time in a zone to real instants */
+type ArgumentsConverter<T> = T extends Callback ? (args: Parameters<T>, timeZone: string) => Parameters<T> : never;
+
+const ZONED_ARGUMENTS: { [K in keyof ZonedCallbacks]-?: ArgumentsConverter<NonNullable<ZonedCallbacks[K]>> } = {
+  onDateChange: ([date], timeZone) => [fromZonedTime(date, timeZone)],
+  onSelectedAppointmentChange: ([appointment], timeZone) => [
+    appointment && appointmentFromTimeZone(appointment, timeZone),
+  ],
+  onRangeChange: ([range], timeZone) => [
+    { ...range, start: fromZonedTime(range.start, timeZone), end: fromZonedTime(range.end, timeZone) },
+  ],
+  onSelectAppointment: ([appointment], timeZone) => [appointmentFromTimeZone(appointment, timeZone)],
+  onCreateAppointment: ([start, end], timeZone) => [fromZonedTime(start, timeZone), fromZonedTime(end, timeZone)],
+  onNewAppointment: ([data], timeZone) => [newAppointmentFromTimeZone(data, timeZone)],
+  onUpdateAppointment: ([appointment, scope], timeZone) => [appointmentFromTimeZone(appointment, timeZone), scope],
+  onDeleteAppointment: ([id, scope], timeZone) => [appointmentIdFromTimeZone(id, timeZone), scope],
+  onRescheduleAppointment: ([id, newStartTime, scope, newTechnicianId], timeZone) => [
+    appointmentIdFromTimeZone(id, timeZone),
+    fromZonedTime(newStartTime, timeZone),
+    scope,
+    newTechnicianId,
+  ],
+  onResizeAppointment: ([id, newDuration, scope], timeZone) => [
+    appointmentIdFromTimeZone(id, timeZone),
+    newDuration,
+    scope,
+  ],
+  onCreateBlockedTime: ([data], timeZone) => [blockedTimeFromTimeZone(data, timeZone)],
+  onRescheduleBlockedTime: ([id, newStartTime, newTechnicianId], timeZone) => [
+    id,
+    fromZonedTime(newStartTime, timeZone),
+    newTechnicianId,
+  ],
+};
+
+/**
+ * Wraps one callback; the wrapper only changes with the callback or the zone
+ */
+function useZonedCallback<T extends Callback>(
+  callback: T | undefined,
+  timeZone: string | undefined,
+  convert: (args: Parameters<T>, timeZone: string) => Parameters<T>
+): T | undefined {
+  return useMemo(
+    () =>
+      timeZone && callback
+        ? (((...args: Parameters<T>) => callback(...convert(args, timeZone))) as T)
+        : callback,
+    [callback, timeZone, convert]
+  );
+}
+
+/**
+ * @param callbacks - The app's callbacks, taking real instants
+ * @param timeZone - Studio time zone (undefined: the viewer's, nothing to convert)
+ * @returns The callbacks taking the studio's wall-clock time
+ */
+export function useZonedCallbacks(callbacks: ZonedCallbacks, timeZone: string | undefined): ZonedCallbacks {
+  return {
+    onDateChange: useZonedCallback(callbacks.onDateChange, timeZone, ZONED_ARGUMENTS.onDateChange),
+    onSelectedAppointmentChange: useZonedCallback(
+      callbacks.onSelectedAppointmentChange,
+      timeZone,
+      ZONED_ARGUMENTS.onSelectedAppointmentChange
+    ),
+    onRangeChange: useZonedCallback(callbacks.onRangeChange, timeZone, ZONED_ARGUMENTS.onRangeChange),
+    onSelectAppointment: useZonedCallback(callbacks.onSelectAppointment, timeZone, ZONED_ARGUMENTS.onSelectAppointment),
+    onCreateAppointment: useZonedCallback(callbacks.onCreateAppointment, timeZone, ZONED_ARGUMENTS.onCreateAppointment),
+    onNewAppointment: useZonedCallback(callbacks.onNewAppointment, timeZone, ZONED_ARGUMENTS.onNewAppointment),
+    onUpdateAppointment: useZonedCallback(callbacks.onUpdateAppointment, timeZone, ZONED_ARGUMENTS.onUpdateAppointment),
+    onDeleteAppointment: useZonedCallback(callbacks.onDeleteAppointment, timeZone, ZONED_ARGUMENTS.onDeleteAppointment),
+    onRescheduleAppointment: useZonedCallback(
+      callbacks.onRescheduleAppointment,
+      timeZone,
+      ZONED_ARGUMENTS.onRescheduleAppointment
+    ),
+    onResizeAppointment: useZonedCallback(callbacks.onResizeAppointment, timeZone, ZONED_ARGUMENTS.onResizeAppointment),
+    onCreateBlockedTime: useZonedCallback(callbacks.onCreateBlockedTime, timeZone, ZONED_ARGUMENTS.onCreateBlockedTime),
+    onRescheduleBlockedTime: useZonedCallback(
+      callbacks.onRescheduleBlockedTime,
+      timeZone,
+      ZONED_ARGUMENTS.onRescheduleBlockedTime
+    ),
+  };
+}
+
+export default useZonedCallbacks;
@@ -0,0 +1,255 @@
+import type { SchedulerMessages } from '../types/scheduler';
+
+/**
+ * English texts (the default catalog)
+ */
+export const en: SchedulerMessages = {
+  // Shared
+  today: 'Today',
+  cancel: 'Cancel',
+  close: 'Close',
+  delete: 'Delete',
+  keep: 'Keep',
+  save: 'Save',
+  confirm: 'Confirm',
+  add: 'Add',
+  date: 'Date',
+  time: 'Time',
+  technician: 'Technician',
+  notes: 'Notes',
+  repeats: 'Repeats',
+  minutesShort: '{count} min',
+  minutesLong: '{count} minutes',
+  jobBy: 'by {name}',
+  wholeStudio: 'Whole studio',
+  uncategorized: 'Uncategorized',
+
+  // Header and navigation
+  viewDay: 'Day',
+  viewWeek: 'Week',
+  viewMonth: 'Month',
+  viewAgenda: 'Agenda',
+  viewDays: '{count} Days',
+  viewTimeline: 'Timeline',
+  previousDay: 'Previous day',
+  nextDay: 'Next day',
+  previousWeek: 'Previous week',
+  nextWeek: 'Next week',
+  previousMonth: 'Previous month',
+  nextMonth: 'Next month',
+  previousRange: 'Previous range',
+  nextRange: 'Next range',
+  selectDate: 'Select date',
+  createNew: 'Create New',
+  statusFilterLabel: 'Status',
+  statusFilterAriaLabel: 'Filter appointments by status',
+  statusAll: 'All Status',
+  statusPending: 'Pending',
+  statusConfirmed: 'Confirmed',
+  statusCancelled: 'Cancelled',
+  statusCompleted: 'Completed',
+  technicianFilterLabel: 'Technicians',
+  technicianFilterAriaLabel: 'Choose which technicians to show',
+  technicianFilterAll: 'All technicians',
+  technicianFilterSome: '{count} of {total}',
+  searchPlaceholder: 'Search appointments',
+  searchAriaLabel: 'Search appointments by client, phone, email, notes or service',
+  searchNoResults: 'No appointments found',
+  serviceFilterLabel: 'Service',
+  serviceFilterAriaLabel: 'Filter appointments by service',
+  serviceAll: 'All Services',
+  categoryFilterLabel: 'Category',
+  categoryFilterAriaLabel: 'Filter appointments by service category',
+  categoryAll: 'All Categories',
+  switchToDarkMode: 'Switch to dark mode',
+  switchToLightMode: 'Switch to light mode',
+
+  // Color legend
+  legendByTechnician: 'Colors by technician',
+  legendByCategory: 'Colors by service category',
+  legendByStatus: 'Colors by status',
+
+  // Notices after drag-and-drop, resize, undo and redo
+  dismiss: 'Dismiss',
+  dragRefused: "Can't move: {reason}",
+  dragDoubleBooked: 'Double booking: {reason}',
+  undo: 'Undo',
+  redo: 'Redo',
+  actionMoved: 'Appointment moved',
+  actionResized: 'Appointment duration changed',
+  actionUpdated: 'Appointment updated',
+  actionDeleted: 'Appointment deleted',
+  actionCreated: 'Appointment created',
+  actionUndone: 'Undone: {action}',
+  actionRedone: 'Redone: {action}',
+  createdAppointmentNotFound: "the new appointment isn't in the schedule yet",
+  moveRepeatingTitle: 'Move repeating appointment',
+  resizeRepeatingTitle: 'Resize repeating appointment',
+
+  // Keyboard drag-and-drop (screen reader instructions and announcements)
+  dragInstructions:
+    'Press Space to pick up. Use the arrow keys to move by one time slot or to the next column, ' +
+    'then press Space or Enter to drop, or Escape to cancel.',
+  dragPickedUp: 'Picked up {item}.',
+  dragMoveTo: '{place}, {time}',
+  dragMoveToDate: '{date}',
+  dragDropped: 'Dropped {item}.',
+  dragCancelled: 'Cancelled. {item} was not moved.',
+
+  // Grid, blocks and chips
+  scheduleGridLabel: 'Schedule for {date}',
+  slotClosedAt: 'Closed at {time}',
+  draggableRoleDescription: 'draggable',
+  createAppointmentAt: 'Create appointment at {time}',
+  createAppointmentOnAt: 'Create appointment on {date} at {time}',
+  createAppointmentForAt: 'Create appointment for {technician} at {time}',
+  technicianUnavailableAt: '{technician} unavailable at {time}',
+  createAppointmentForOnAt: 'Create appointment for {technician} on {date} at {time}',
+  technicianUnavailableOnAt: '{technician} unavailable on {date} at {time}',
+  appointmentLabel: '{client}, {service} at {time}',
+  appointmentLabelDoubleBooked: '{client}, {service} at {time}, double-booked',
+  outsideOpeningHours: 'outside opening hours',
+  doubleBooked: 'Double-booked',
+  resizeLabel: 'Resize {client}, ends {time}',
+  resizePreview: 'Ends {time} · {duration} min',
+  blockedTimeDeleteLabel: 'Delete {title}',
+  moreAppointments: '+{count} more',
+  appointmentCountOne: '{count} appointment',
+  appointmentCountOther: '{count} appointments',
+  loadingAppointments: 'Loading appointments…',
+  saving: 'Saving…',
+  saveFailed: "Couldn't save the change. Please try again.",
+  saveFailedReason: "Couldn't save the change: {reason}",
+
+  // Timeline view
+  timelineLabel: 'Timeline for {date}',
+  timelineZoom: 'Zoom',
+  timelineZoomIn: 'Zoom in',
+  timelineZoomOut: 'Zoom out',
+  timelineTickMinutes: '{count} min',
+  timelineTickHours: '{count} h',
+  timelineTickDay: '1 day',
+
+  // Agenda view
+  print: 'Print',
+  columnTime: 'Time',
+  columnClient: 'Client',
+  columnService: 'Service',
+  columnTechnician: 'Technician',
+  columnStatus: 'Status',
+  noAppointments: 'No appointments',
+
+  // Date picker
+  selectDateTitle: 'Select Date',
+  selectDateRangeTitle: 'Select Date Range',
+  selectDateSubtitle: 'Choose a date to view',
+  selectDateRangeSubtitle: 'Select up to {count} days',
+  selectStartDate: 'Select start date',
+  selectEndDate: 'Select end date (max {count} days)',
+  daysSelectedOne: '{count} day selected',
+  daysSelectedOther: '{count} days selected',
+
+  // Create modal
+  newAppointmentTitle: 'New Appointment',
+  newAppointmentSubtitle: 'Fill in the details below to create a new booking',
+  blockTimeTitle: 'Block Time',
+  blockTimeSubtitle: 'Reserve time for a meeting, cleaning or training',
+  modeAppointment: 'Appointment',
+  modeBlockedTime: 'Blocked time',
+  clientName: 'Client Name',
+  clientNamePlaceholder: "Enter client's full name",
+  jobs: 'Jobs',
+  removeJob: 'Remove job {number}',
+  jobCountOne: '{count} job',
+  jobCountOther: '{count} jobs',
+  totalMinutes: '{count} min total',
+  selectService: 'Select a service',
+  selectServicePlaceholder: 'Select a service...',
+  selectTechnician: 'Select a technician',
+  technicianOptional: 'Technician (optional)',
+  repeat: 'Repeat',
+  doesNotRepeat: 'Does not repeat',
+  repeatEvery: 'Every',
+  repeatUnitDaily: 'day(s)',
+  repeatUnitWeekly: 'week(s)',
+  repeatUnitMonthly: 'month(s)',
+  occurrences: 'Occurrences',
+  noLimit: 'No limit',
+  until: 'Until',
+  emailOptional: 'Email (optional)',
+  emailPlaceholder: 'client@example.com',
+  phoneNumber: 'Phone Number',
+  phonePlaceholder: '(555) 123-4567',
+  notesPlaceholder: 'Any special requests or notes...',
+  technicianUnavailable: 'Technician unavailable',
+  blockedIssue: 'Blocked: {details}',
+  createAppointment: 'Create Appointment',
+  errorRequiredFields: 'Please fill in all required fields (client name, date, time, and phone number).',
+  errorNoJobs: 'Please add at least one job (service).',
+  errorRepeatInterval: 'Please enter how often the appointment repeats (1 or more).',
+  errorRepeatUntil: 'The repeat end date must be on or after the appointment date.',
+
+  // Blocked time form
+  blockedTimeTitleLabel: 'Title',
+  blockedTimeTitlePlaceholder: 'e.g. Staff meeting',
+  suggestionStaffMeeting: 'Staff meeting',
+  suggestionCleaning: 'Cleaning',
+  suggestionTraining: 'Training',
+  durationMinutes: 'Duration (minutes)',
+  blockedTimeNotesPlaceholder: 'Anything the team should know...',
+  errorBlockedTimeRequiredFields: 'Please fill in all required fields (title, date and time).',
+  errorBlockedTimeDuration: 'Please enter a duration of 1 minute or more.',
+  blockTimeSubmit: 'Block Time',
+
+  // Detail modal and panel
+  appointmentDetails: 'Appointment Details',
+  appointmentJobs: 'Appointment Jobs',
+  editAppointment: 'Edit Appointment',
+  cancelEditing: 'Cancel editing',
+  closePanel: 'Close panel',
+  jobToEdit: 'Job To Edit',
+  editJob: 'Edit job {number}',
+  serviceForSelectedJob: 'Service For Selected Job',
+  selectTechnicianOptional: 'Select a technician (optional)',
+  deleteConfirm: 'Are you sure you want to delete this appointment? This action cannot be undone.',
+  deleteConfirmShort: 'Delete this appointment?',
+  saveChanges: 'Save Changes',
+  customer: 'Customer',
+  customerEmail: 'Customer Email',
+  customerPhone: 'Customer Phone',
+  email: 'Email',
+  phone: 'Phone',
+  durationLabel: 'Duration: {count} minutes',
+
+  // Recurring series
+  scopeGroupLabel: 'Choose which appointments to change',
+  scopeThis: 'This appointment',
+  scopeFollowing: 'This and following appointments',
+  scopeAll: 'All appointments in the series',
+  scopePromptEdit: 'This is a repeating appointment. Save changes to:',
+  scopePromptDelete: 'This is a repeating appointment. Delete:',
+  scopePromptReschedule: 'This is a repeating appointment. Move:',
+  scopePromptResize: 'This is a repeating appointment. Change the length of:',
+  frequencyDaily: 'Daily',
+  frequencyWeekly: 'Weekly',
+  frequencyMonthly: 'Monthly',
+  everyDays: 'Every {count} days',
+  everyWeeks: 'Every {count} weeks',
+  everyMonths: 'Every {count} months',
+  recurrenceOnWeekdays: '{frequency} on {weekdays}',
+  recurrenceTimesOne: '{count} time',
+  recurrenceTimesOther: '{count} times',
+  recurrenceUntil: 'until {date}',
+
+  // Conflicts and availability
+  doubleBooking: 'Double booking',
+  doubleBookingBlocked: 'Double booking – choose another time or technician',
+  conflictBookedOne: '{names} is already booked {start} – {end} ({client})',
+  conflictBookedOther: '{names} are already booked {start} – {end} ({client})',
+  blockedTimeConflict: '{title} {start} – {end} ({technician})',
+  blockedTimeConflictWholeStudio: '{title} {start} – {end} (whole studio)',
+  technicianOff: '{name} is off',
+  technicianOffReason: '{name} is off ({reason})',
+  technicianNotWorkingDay: "{name} doesn't work on this day",
+  technicianNotWorkingTime: "{name} isn't working at this time",
+};
@@ -0,0 +1,255 @@
+import type { SchedulerMessages } from '../types/scheduler';
+
+/**
+ * French texts
+ */
+export const fr: SchedulerMessages = {
+  // Shared
+  today: "Aujourd'hui",
+  cancel: 'Annuler',
+  close: 'Fermer',
+  delete: 'Supprimer',
+  keep: 'Garder',
+  save: 'Enregistrer',
+  confirm: 'Confirmer',
+  add: 'Ajouter',
+  date: 'Date',
+  time: 'Heure',
+  technician: 'Technicienne',
+  notes: 'Notes',
+  repeats: 'Récurrence',
+  minutesShort: '{count} min',
+  minutesLong: '{count} minutes',
+  jobBy: 'par {name}',
+  wholeStudio: 'Tout le studio',
+  uncategorized: 'Sans catégorie',
+
+  // Header and navigation
+  viewDay: 'Jour',
+  viewWeek: 'Semaine',
+  viewMonth: 'Mois',
+  viewAgenda: 'Agenda',
+  viewDays: '{count} jours',
+  viewTimeline: 'Chronologie',
+  previousDay: 'Jour précédent',
+  nextDay: 'Jour suivant',
+  previousWeek: 'Semaine précédente',
+  nextWeek: 'Semaine suivante',
+  previousMonth: 'Mois précédent',
+  nextMonth: 'Mois suivant',
+  previousRange: 'Période précédente',
+  nextRange: 'Période suivante',
+  selectDate: 'Choisir une date',
+  createNew: 'Nouveau',
+  statusFilterLabel: 'Statut',
+  statusFilterAriaLabel: 'Filtrer les rendez-vous par statut',
+  statusAll: 'Tous les statuts',
+  statusPending: 'En attente',
+  statusConfirmed: 'Confirmé',
+  statusCancelled: 'Annulé',
+  statusCompleted: 'Terminé',
+  technicianFilterLabel: 'Techniciennes',
+  technicianFilterAriaLabel: 'Choisir les techniciennes affichées',
+  technicianFilterAll: 'Toutes les techniciennes',
+  technicianFilterSome: '{count} sur {total}',
+  searchPlaceholder: 'Rechercher un rendez-vous',
+  searchAriaLabel: 'Rechercher des rendez-vous par cliente, téléphone, courriel, notes ou service',
+  searchNoResults: 'Aucun rendez-vous trouvé',
+  serviceFilterLabel: 'Service',
+  serviceFilterAriaLabel: 'Filtrer les rendez-vous par service',
+  serviceAll: 'Tous les services',
+  categoryFilterLabel: 'Catégorie',
+  categoryFilterAriaLabel: 'Filtrer les rendez-vous par catégorie de service',
+  categoryAll: 'Toutes les catégories',
+  switchToDarkMode: 'Passer en mode sombre',
+  switchToLightMode: 'Passer en mode clair',
+
+  // Color legend
+  legendByTechnician: 'Couleurs par technicienne',
+  legendByCategory: 'Couleurs par catégorie de service',
+  legendByStatus: 'Couleurs par statut',
+
+  // Notices after drag-and-drop, resize, undo and redo
+  dismiss: 'Fermer',
+  dragRefused: 'Déplacement impossible : {reason}',
+  dragDoubleBooked: 'Double réservation : {reason}',
+  undo: 'Annuler',
+  redo: 'Rétablir',
+  actionMoved: 'Rendez-vous déplacé',
+  actionResized: 'Durée du rendez-vous modifiée',
+  actionUpdated: 'Rendez-vous modifié',
+  actionDeleted: 'Rendez-vous supprimé',
+  actionCreated: 'Rendez-vous créé',
+  actionUndone: 'Annulé : {action}',
+  actionRedone: 'Rétabli : {action}',
+  createdAppointmentNotFound: "le nouveau rendez-vous n'est pas encore dans le planning",
+  moveRepeatingTitle: 'Déplacer un rendez-vous récurrent',
+  resizeRepeatingTitle: "Modifier la durée d'un rendez-vous récurrent",
+
+  // Keyboard drag-and-drop (screen reader instructions and announcements)
+  dragInstructions:
+    "Appuyez sur Espace pour saisir. Utilisez les flèches pour avancer d'un créneau ou passer à la colonne suivante, " +
+    'puis appuyez sur Espace ou Entrée pour déposer, ou sur Échap pour annuler.',
+  dragPickedUp: '{item} saisi.',
+  dragMoveTo: '{place}, {time}',
+  dragMoveToDate: '{date}',
+  dragDropped: '{item} déposé.',
+  dragCancelled: "Annulé. {item} n'a pas été déplacé.",
+
+  // Grid, blocks and chips
+  scheduleGridLabel: 'Planning du {date}',
+  slotClosedAt: 'Fermé à {time}',
+  draggableRoleDescription: 'déplaçable',
+  createAppointmentAt: 'Créer un rendez-vous à {time}',
+  createAppointmentOnAt: 'Créer un rendez-vous le {date} à {time}',
+  createAppointmentForAt: 'Créer un rendez-vous pour {technician} à {time}',
+  technicianUnavailableAt: '{technician} indisponible à {time}',
+  createAppointmentForOnAt: 'Créer un rendez-vous pour {technician} le {date} à {time}',
+  technicianUnavailableOnAt: '{technician} indisponible le {date} à {time}',
+  appointmentLabel: '{client}, {service} à {time}',
+  appointmentLabelDoubleBooked: '{client}, {service} à {time}, double réservation',
+  outsideOpeningHours: "hors des heures d'ouverture",
+  doubleBooked: 'Double réservation',
+  resizeLabel: 'Modifier la durée de {client}, fin à {time}',
+  resizePreview: 'Fin à {time} · {duration} min',
+  blockedTimeDeleteLabel: 'Supprimer {title}',
+  moreAppointments: '+{count} de plus',
+  appointmentCountOne: '{count} rendez-vous',
+  appointmentCountOther: '{count} rendez-vous',
+  loadingAppointments: 'Chargement des rendez-vous…',
+  saving: 'Enregistrement…',
+  saveFailed: "Impossible d'enregistrer la modification. Veuillez réessayer.",
+  saveFailedReason: "Impossible d'enregistrer la modification : {reason}",
+
+  // Timeline view
+  timelineLabel: 'Chronologie du {date}',
+  timelineZoom: 'Zoom',
+  timelineZoomIn: 'Zoom avant',
+  timelineZoomOut: 'Zoom arrière',
+  timelineTickMinutes: '{count} min',
+  timelineTickHours: '{count} h',
+  timelineTickDay: '1 jour',
+
+  // Agenda view
+  print: 'Imprimer',
+  columnTime: 'Heure',
+  columnClient: 'Cliente',
+  columnService: 'Service',
+  columnTechnician: 'Technicienne',
+  columnStatus: 'Statut',
+  noAppointments: 'Aucun rendez-vous',
+
+  // Date picker
+  selectDateTitle: 'Choisir une date',
+  selectDateRangeTitle: 'Choisir une période',
+  selectDateSubtitle: 'Choisissez la date à afficher',
+  selectDateRangeSubtitle: "Choisissez jusqu'à {count} jours",
+  selectStartDate: 'Choisissez la date de début',
+  selectEndDate: 'Choisissez la date de fin ({count} jours max.)',
+  daysSelectedOne: '{count} jour sélectionné',
+  daysSelectedOther: '{count} jours sélectionnés',
+
+  // Create modal
+  newAppointmentTitle: 'Nouveau rendez-vous',
+  newAppointmentSubtitle: 'Remplissez les informations ci-dessous pour créer une réservation',
+  blockTimeTitle: 'Bloquer du temps',
+  blockTimeSubtitle: 'Réservez du temps pour une réunion, un nettoyage ou une formation',
+  modeAppointment: 'Rendez-vous',
+  modeBlockedTime: 'Temps bloqué',
+  clientName: 'Nom de la cliente',
+  clientNamePlaceholder: 'Nom complet de la cliente',
+  jobs: 'Prestations',
+  removeJob: 'Retirer la prestation {number}',
+  jobCountOne: '{count} prestation',
+  jobCountOther: '{count} prestations',
+  totalMinutes: '{count} min au total',
+  selectService: 'Choisir un service',
+  selectServicePlaceholder: 'Choisir un service...',
+  selectTechnician: 'Choisir une technicienne',
+  technicianOptional: 'Technicienne (facultatif)',
+  repeat: 'Répéter',
+  doesNotRepeat: 'Ne se répète pas',
+  repeatEvery: 'Tous les',
+  repeatUnitDaily: 'jour(s)',
+  repeatUnitWeekly: 'semaine(s)',
+  repeatUnitMonthly: 'mois',
+  occurrences: 'Occurrences',
+  noLimit: 'Sans limite',
+  until: "Jusqu'au",
+  emailOptional: 'Courriel (facultatif)',
+  emailPlaceholder: 'cliente@exemple.com',
+  phoneNumber: 'Numéro de téléphone',
+  phonePlaceholder: '(514) 555-1234',
+  notesPlaceholder: 'Demandes particulières ou remarques...',
+  technicianUnavailable: 'Technicienne indisponible',
+  blockedIssue: 'Bloqué : {details}',
+  createAppointment: 'Créer le rendez-vous',
+  errorRequiredFields: 'Veuillez remplir tous les champs obligatoires (nom de la cliente, date, heure et numéro de téléphone).',
+  errorNoJobs: 'Veuillez ajouter au moins une prestation (service).',
+  errorRepeatInterval: 'Veuillez indiquer la fréquence de répétition du rendez-vous (1 ou plus).',
+  errorRepeatUntil: 'La date de fin de la répétition doit être le jour du rendez-vous ou après.',
+
+  // Blocked time form
+  blockedTimeTitleLabel: 'Titre',
+  blockedTimeTitlePlaceholder: "p. ex. Réunion d'équipe",
+  suggestionStaffMeeting: "Réunion d'équipe",
+  suggestionCleaning: 'Nettoyage',
+  suggestionTraining: 'Formation',
+  durationMinutes: 'Durée (minutes)',
+  blockedTimeNotesPlaceholder: "Ce que l'équipe doit savoir...",
+  errorBlockedTimeRequiredFields: 'Veuillez remplir tous les champs obligatoires (titre, date et heure).',
+  errorBlockedTimeDuration: "Veuillez indiquer une durée d'au moins 1 minute.",
+  blockTimeSubmit: 'Bloquer',
+
+  // Detail modal and panel
+  appointmentDetails: 'Détails du rendez-vous',
+  appointmentJobs: 'Prestations du rendez-vous',
+  editAppointment: 'Modifier le rendez-vous',
+  cancelEditing: 'Annuler la modification',
+  closePanel: 'Fermer le panneau',
+  jobToEdit: 'Prestation à modifier',
+  editJob: 'Modifier la prestation {number}',
+  serviceForSelectedJob: 'Service de la prestation choisie',
+  selectTechnicianOptional: 'Choisir une technicienne (facultatif)',
+  deleteConfirm: 'Voulez-vous vraiment supprimer ce rendez-vous? Cette action est irréversible.',
+  deleteConfirmShort: 'Supprimer ce rendez-vous?',
+  saveChanges: 'Enregistrer',
+  customer: 'Cliente',
+  customerEmail: 'Courriel de la cliente',
+  customerPhone: 'Téléphone de la cliente',
+  email: 'Courriel',
+  phone: 'Téléphone',
+  durationLabel: 'Durée : {count} minutes',
+
+  // Recurring series
+  scopeGroupLabel: 'Choisissez les rendez-vous à modifier',
+  scopeThis: 'Ce rendez-vous',
+  scopeFollowing: 'Ce rendez-vous et les suivants',
+  scopeAll: 'Tous les rendez-vous de la série',
+  scopePromptEdit: 'Ce rendez-vous est récurrent. Enregistrer les modifications pour :',
+  scopePromptDelete: 'Ce rendez-vous est récurrent. Supprimer :',
+  scopePromptReschedule: 'Ce rendez-vous est récurrent. Déplacer :',
+  scopePromptResize: 'Ce rendez-vous est récurrent. Modifier la durée de :',
+  frequencyDaily: 'Tous les jours',
+  frequencyWeekly: 'Toutes les semaines',
+  frequencyMonthly: 'Tous les mois',
+  everyDays: 'Tous les {count} jours',
+  everyWeeks: 'Toutes les {count} semaines',
+  everyMonths: 'Tous les {count} mois',
+  recurrenceOnWeekdays: '{frequency} le {weekdays}',
+  recurrenceTimesOne: '{count} fois',
+  recurrenceTimesOther: '{count} fois',
+  recurrenceUntil: "jusqu'au {date}",
+
+  // Conflicts and availability
+  doubleBooking: 'Double réservation',
+  doubleBookingBlocked: 'Double réservation – choisissez une autre heure ou technicienne',
+  conflictBookedOne: '{names} est déjà réservée de {start} à {end} ({client})',
+  conflictBookedOther: '{names} sont déjà réservées de {start} à {end} ({client})',
+  blockedTimeConflict: '{title} de {start} à {end} ({technician})',
+  blockedTimeConflictWholeStudio: '{title} de {start} à {end} (tout le studio)',
+  technicianOff: '{name} est en congé',
+  technicianOffReason: '{name} est en congé ({reason})',
+  technicianNotWorkingDay: '{name} ne travaille pas ce jour-là',
+  technicianNotWorkingTime: '{name} ne travaille pas à cette heure',
+};
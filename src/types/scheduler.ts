@@ -56,6 +56,47 @@ export interface Technician {
   name: string;
   /** Optional color (e.g. hex #rrggbb) for this technician; used for blocks and UI. If omitted, a default is used. */
   color?: string;
+  /** Optional working hours and time off; without it the technician works whenever the studio is open */
+  availability?: TechnicianAvailability;
+}
+
+/**
+ * A dated period when a technician doesn't work (vacation, sick day, appointment).
+ * For whole days use midnight to midnight.
+ */
+export interface TimeOff {
+  /** Start of the time off */
+  start: Date;
+  /** End of the time off (exclusive) */
+  end: Date;
+  /** Optional reason shown in warnings, e.g. 'Vacation' */
+  reason?: string;
+}
+
+/**
+ * When a technician is available.
+ *
+ * @example
+ * ```ts
+ * const availability: TechnicianAvailability = {
+ *   // Mon 10–19 with a lunch break 13–14; Tuesday off (no rows)
+ *   shifts: [
+ *     { day: 'monday', open: '10:00', close: '13:00' },
+ *     { day: 'monday', open: '14:00', close: '19:00' },
+ *     { day: 'wednesday', open: '12:00', close: '20:00' },
+ *   ],
+ *   timeOff: [{ start: new Date(2026, 7, 3), end: new Date(2026, 7, 10), reason: 'Vacation' }],
+ * };
+ * ```
+ */
+export interface TechnicianAvailability {
+  /**
+   * Weekly shifts ('HH:mm', like businessHours). Several rows for one day leave breaks between them;
+   * days without rows are days off. When omitted, every day is a working day.
+   */
+  shifts?: DaySchedule[];
+  /** Dated time off */
+  timeOff?: TimeOff[];
 }
 
 /**
@@ -74,39 +115,136 @@ export interface Technician {
  */
 export type TechnicianServices = Record<string, string[]>;
 
+/**
+ * A time range within a day during which the studio is open.
+ * Times are 'HH:mm' strings ('9:30', '19:00'); a whole hour ('10') is also accepted.
+ */
+export interface OpeningInterval {
+  /** Opening time, e.g. '10:00' or '9:30' */
+  open: string;
+  /** Closing time, e.g. '19:00' ('24:00' for midnight) */
+  close: string;
+}
+
 /**
  * Open/close hours for a single day of the week.
  * Used when business hours differ by day (e.g. Mon–Fri 10–19, Sat–Sun 11–18).
+ * Several rows for the same day are combined into split shifts (e.g. a lunch closure).
  *
  * @example
  * ```ts
  * const businessHours: DaySchedule[] = [
- *   { day: 'monday', open: '10', close: '19' },
- *   { day: 'saturday', open: '11', close: '18' },
+ *   { day: 'monday', open: '10:00', close: '13:00' },
+ *   { day: 'monday', open: '14:00', close: '19:00' },
+ *   { day: 'saturday', open: '9:30', close: '18:00' },
  * ];
  * ```
  */
-export interface DaySchedule {
+export interface DaySchedule extends OpeningInterval {
   /** Day name in lowercase: 'sunday' | 'monday' | ... | 'saturday' */
   day: string;
-  /** Opening hour (0–23) as string, e.g. '10' for 10:00 */
-  open: string;
-  /** Closing hour (0–23) as string, e.g. '19' for 19:00 */
-  close: string;
+}
+
+/**
+ * Opening hours for one calendar date, replacing the weekly schedule on that date
+ * (holidays, special hours).
+ *
+ * @example
+ * ```ts
+ * const overrides: DateScheduleOverride[] = [
+ *   { date: '2026-12-25', hours: [] },                              // closed
+ *   { date: '2026-12-24', hours: [{ open: '9:00', close: '14:00' }] }, // short day
+ * ];
+ * ```
+ */
+export interface DateScheduleOverride {
+  /** Local calendar date as 'YYYY-MM-DD' */
+  date: string;
+  /** Open intervals on that date; an empty array means closed all day */
+  hours: OpeningInterval[];
+}
+
+/** Parsed open interval in minutes from midnight (end exclusive) */
+export interface OpenInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Resolved hours for one date.
+ * startHour/endHour are whole hours that cover every interval (the grid range);
+ * intervals hold the exact open times. An empty intervals array means closed.
+ */
+export interface DayHours {
+  startHour: number;
+  endHour: number;
+  intervals: OpenInterval[];
 }
 
 /** View modes for the scheduler */
-export type ViewMode = 'day' | 'week';
+export type ViewMode = 'day' | 'days' | 'week' | 'month' | 'agenda' | 'timeline';
 
 /** Detail display modes */
 export type DetailDisplayMode = 'modal' | 'panel';
 
+/** What appointment blocks are colored by: their technician, their service's category or their status */
+export type ColorByMode = 'technician' | 'category' | 'status';
+
 /** Artist can be a string id or an object with id and optional name (e.g. from APIs) */
 export type Artist = string | { id: string; name?: string };
 
 export type Client = { name: string; path: string }
 /** Status options for appointments */
 export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+
+/** How often a recurring series repeats */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * RRULE-style recurrence rule for a series of appointments.
+ * The series starts at the appointment's startTime; occurrences keep its time of day.
+ *
+ * @example
+ * ```ts
+ * // Lash refill every 3 weeks, 6 times
+ * const rule: RecurrenceRule = { frequency: 'weekly', interval: 3, count: 6 };
+ * ```
+ */
+export interface RecurrenceRule {
+  /** Base repeat unit */
+  frequency: RecurrenceFrequency;
+  /** Repeat every N units (default 1), e.g. 2 with 'weekly' = every 2 weeks */
+  interval?: number;
+  /** Weekly only: days of the week (0 = Sunday … 6 = Saturday). Defaults to the start date's weekday */
+  byWeekday?: number[];
+  /** Stop after this many occurrences */
+  count?: number;
+  /** Last date an occurrence may start on (inclusive) */
+  until?: Date;
+}
+
+/** Appointment fields that a single occurrence can override */
+export type RecurrenceOverrides = Partial<
+  Pick<Appointment, 'startTime' | 'duration' | 'jobs' | 'serviceType' | 'artist' | 'notes' | 'status'>
+>;
+
+/**
+ * Per-occurrence exception for a recurring series.
+ * Identified by the occurrence's original start time; either skips it or overrides fields
+ * (overriding startTime moves the occurrence).
+ */
+export interface RecurrenceException {
+  /** Start time the occurrence would have had according to the rule */
+  originalStartTime: Date;
+  /** When true, the occurrence is skipped */
+  cancelled?: boolean;
+  /** Field overrides for this occurrence only */
+  overrides?: RecurrenceOverrides;
+}
+
+/** Which occurrences of a series an edit, reschedule or delete applies to */
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
 /**
  * Represents a single appointment in the scheduler
  */
@@ -133,6 +271,14 @@ export interface Appointment {
   phone?: string;
   /** Email address for client contact */
   email: string;
+  /** When set, this appointment is the first occurrence (master) of a recurring series */
+  recurrence?: RecurrenceRule;
+  /** Skipped or modified occurrences of the series (masters only) */
+  recurrenceExceptions?: RecurrenceException[];
+  /** Set on expanded occurrences: ID of the series master */
+  seriesId?: string;
+  /** Set on expanded occurrences: start time of this occurrence according to the rule */
+  occurrenceStart?: Date;
 }
 
 /**
@@ -173,6 +319,383 @@ export interface NewAppointmentData {
   /** Required phone number for client contact */
   phone: string;
   notes?: string;
+  /** Recurrence rule when the booking repeats */
+  recurrence?: RecurrenceRule;
+}
+
+/**
+ * Time on the grid that isn't a client appointment (staff meeting, cleaning, training).
+ * Technicians can't be booked during it; without technicianId it applies to the whole studio.
+ *
+ * @example
+ * ```ts
+ * const blockedTimes: BlockedTime[] = [
+ *   { id: 'b1', title: 'Staff meeting', startTime: new Date(2026, 0, 12, 9, 0), duration: 30 },
+ *   { id: 'b2', title: 'Training', startTime: new Date(2026, 0, 12, 14, 0), duration: 120, technicianId: 'tech-2' },
+ * ];
+ * ```
+ */
+export interface BlockedTime {
+  /** Unique identifier */
+  id: string;
+  /** What the time is blocked for, e.g. 'Cleaning' */
+  title: string;
+  /** Start of the block */
+  startTime: Date;
+  /** Duration in minutes */
+  duration: number;
+  /** Technician the block applies to; omit to block the whole studio */
+  technicianId?: string;
+  /** Optional notes */
+  notes?: string;
+}
+
+/** Data for creating blocked time (without ID) */
+export type NewBlockedTimeData = Omit<BlockedTime, 'id'>;
+
+/**
+ * What happens when a booking overlaps another booking of the same technician:
+ * - 'block': the create/save/drop is refused
+ * - 'warn': the user is warned but may go ahead
+ * - 'allow': no checks and no conflict markers
+ */
+export type ConflictPolicy = 'block' | 'warn' | 'allow';
+
+/** Fields of a new or changed booking that are checked for conflicts */
+export type ConflictCandidate = Pick<Appointment, 'startTime' | 'duration'> &
+  Partial<Pick<Appointment, 'id' | 'artist' | 'jobs' | 'status'>>;
+
+/** An existing appointment that overlaps a booking for at least one technician */
+export interface AppointmentConflict {
+  /** The overlapping appointment */
+  appointment: Appointment;
+  /** Technicians booked in both */
+  technicianIds: string[];
+}
+
+/** Clock used for times; by default the locale decides */
+export type TimeFormat = '12h' | '24h';
+
+/** Locale settings used when formatting dates and times (default: 'en-US', 12-hour clock) */
+export interface DateFormatOptions {
+  /** BCP 47 locale, e.g. 'fr-CA' */
+  locale?: string;
+  /** true for a 12-hour clock, false for 24-hour (default: the locale's) */
+  hour12?: boolean;
+}
+
+/**
+ * Every text shown by the scheduler.
+ * Placeholders in braces ({name}, {time}, {count}, ...) are filled in at runtime;
+ * keys ending in One/Other are the singular and plural forms of a count.
+ */
+export interface SchedulerMessages {
+  // Shared
+  today: string;
+  cancel: string;
+  close: string;
+  delete: string;
+  keep: string;
+  save: string;
+  confirm: string;
+  add: string;
+  date: string;
+  time: string;
+  technician: string;
+  notes: string;
+  repeats: string;
+  minutesShort: string;
+  minutesLong: string;
+  jobBy: string;
+  wholeStudio: string;
+  uncategorized: string;
+
+  // Header and navigation
+  viewDay: string;
+  viewWeek: string;
+  viewMonth: string;
+  viewAgenda: string;
+  viewDays: string;
+  viewTimeline: string;
+  previousDay: string;
+  nextDay: string;
+  previousWeek: string;
+  nextWeek: string;
+  previousMonth: string;
+  nextMonth: string;
+  previousRange: string;
+  nextRange: string;
+  selectDate: string;
+  createNew: string;
+  statusFilterLabel: string;
+  statusFilterAriaLabel: string;
+  statusAll: string;
+  statusPending: string;
+  statusConfirmed: string;
+  statusCancelled: string;
+  statusCompleted: string;
+  technicianFilterLabel: string;
+  technicianFilterAriaLabel: string;
+  technicianFilterAll: string;
+  technicianFilterSome: string;
+  searchPlaceholder: string;
+  searchAriaLabel: string;
+  searchNoResults: string;
+  serviceFilterLabel: string;
+  serviceFilterAriaLabel: string;
+  serviceAll: string;
+  categoryFilterLabel: string;
+  categoryFilterAriaLabel: string;
+  categoryAll: string;
+  switchToDarkMode: string;
+  switchToLightMode: string;
+
+  // Color legend
+  legendByTechnician: string;
+  legendByCategory: string;
+  legendByStatus: string;
+
+  // Notices after drag-and-drop, resize, undo and redo
+  dismiss: string;
+  dragRefused: string;
+  dragDoubleBooked: string;
+  undo: string;
+  redo: string;
+  actionMoved: string;
+  actionResized: string;
+  actionUpdated: string;
+  actionDeleted: string;
+  actionCreated: string;
+  actionUndone: string;
+  actionRedone: string;
+  createdAppointmentNotFound: string;
+  moveRepeatingTitle: string;
+  resizeRepeatingTitle: string;
+
+  // Keyboard drag-and-drop (screen reader instructions and announcements)
+  dragInstructions: string;
+  dragPickedUp: string;
+  dragMoveTo: string;
+  dragMoveToDate: string;
+  dragDropped: string;
+  dragCancelled: string;
+
+  // Grid, blocks and chips
+  scheduleGridLabel: string;
+  slotClosedAt: string;
+  draggableRoleDescription: string;
+  createAppointmentAt: string;
+  createAppointmentOnAt: string;
+  createAppointmentForAt: string;
+  technicianUnavailableAt: string;
+  createAppointmentForOnAt: string;
+  technicianUnavailableOnAt: string;
+  appointmentLabel: string;
+  appointmentLabelDoubleBooked: string;
+  outsideOpeningHours: string;
+  doubleBooked: string;
+  resizeLabel: string;
+  resizePreview: string;
+  blockedTimeDeleteLabel: string;
+  moreAppointments: string;
+  appointmentCountOne: string;
+  appointmentCountOther: string;
+  loadingAppointments: string;
+  saving: string;
+  saveFailed: string;
+  saveFailedReason: string;
+
+  // Timeline view
+  timelineLabel: string;
+  timelineZoom: string;
+  timelineZoomIn: string;
+  timelineZoomOut: string;
+  timelineTickMinutes: string;
+  timelineTickHours: string;
+  timelineTickDay: string;
+
+  // Agenda view
+  print: string;
+  columnTime: string;
+  columnClient: string;
+  columnService: string;
+  columnTechnician: string;
+  columnStatus: string;
+  noAppointments: string;
+
+  // Date picker
+  selectDateTitle: string;
+  selectDateRangeTitle: string;
+  selectDateSubtitle: string;
+  selectDateRangeSubtitle: string;
+  selectStartDate: string;
+  selectEndDate: string;
+  daysSelectedOne: string;
+  daysSelectedOther: string;
+
+  // Create modal
+  newAppointmentTitle: string;
+  newAppointmentSubtitle: string;
+  blockTimeTitle: string;
+  blockTimeSubtitle: string;
+  modeAppointment: string;
+  modeBlockedTime: string;
+  clientName: string;
+  clientNamePlaceholder: string;
+  jobs: string;
+  removeJob: string;
+  jobCountOne: string;
+  jobCountOther: string;
+  totalMinutes: string;
+  selectService: string;
+  selectServicePlaceholder: string;
+  selectTechnician: string;
+  technicianOptional: string;
+  repeat: string;
+  doesNotRepeat: string;
+  repeatEvery: string;
+  repeatUnitDaily: string;
+  repeatUnitWeekly: string;
+  repeatUnitMonthly: string;
+  occurrences: string;
+  noLimit: string;
+  until: string;
+  emailOptional: string;
+  emailPlaceholder: string;
+  phoneNumber: string;
+  phonePlaceholder: string;
+  notesPlaceholder: string;
+  technicianUnavailable: string;
+  blockedIssue: string;
+  createAppointment: string;
+  errorRequiredFields: string;
+  errorNoJobs: string;
+  errorRepeatInterval: string;
+  errorRepeatUntil: string;
+
+  // Blocked time form
+  blockedTimeTitleLabel: string;
+  blockedTimeTitlePlaceholder: string;
+  suggestionStaffMeeting: string;
+  suggestionCleaning: string;
+  suggestionTraining: string;
+  durationMinutes: string;
+  blockedTimeNotesPlaceholder: string;
+  errorBlockedTimeRequiredFields: string;
+  errorBlockedTimeDuration: string;
+  blockTimeSubmit: string;
+
+  // Detail modal and panel
+  appointmentDetails: string;
+  appointmentJobs: string;
+  editAppointment: string;
+  cancelEditing: string;
+  closePanel: string;
+  jobToEdit: string;
+  editJob: string;
+  serviceForSelectedJob: string;
+  selectTechnicianOptional: string;
+  deleteConfirm: string;
+  deleteConfirmShort: string;
+  saveChanges: string;
+  customer: string;
+  customerEmail: string;
+  customerPhone: string;
+  email: string;
+  phone: string;
+  durationLabel: string;
+
+  // Recurring series
+  scopeGroupLabel: string;
+  scopeThis: string;
+  scopeFollowing: string;
+  scopeAll: string;
+  scopePromptEdit: string;
+  scopePromptDelete: string;
+  scopePromptReschedule: string;
+  scopePromptResize: string;
+  frequencyDaily: string;
+  frequencyWeekly: string;
+  frequencyMonthly: string;
+  everyDays: string;
+  everyWeeks: string;
+  everyMonths: string;
+  recurrenceOnWeekdays: string;
+  recurrenceTimesOne: string;
+  recurrenceTimesOther: string;
+  recurrenceUntil: string;
+
+  // Conflicts and availability
+  doubleBooking: string;
+  doubleBookingBlocked: string;
+  conflictBookedOne: string;
+  conflictBookedOther: string;
+  blockedTimeConflict: string;
+  blockedTimeConflictWholeStudio: string;
+  technicianOff: string;
+  technicianOffReason: string;
+  technicianNotWorkingDay: string;
+  technicianNotWorkingTime: string;
+}
+
+/**
+ * Resolved locale settings shared by every scheduler component
+ * (built from the Scheduler's locale, messages, timeFormat and weekStartsOn props)
+ */
+export interface SchedulerLocale {
+  /** BCP 47 locale used for dates and times */
+  locale: string;
+  /** Whether times use a 12-hour clock */
+  hour12: boolean;
+  /** First day of the week (0 = Sunday ... 6 = Saturday) */
+  weekStartsOn: number;
+  /** Texts with the overrides applied */
+  messages: SchedulerMessages;
+}
+
+/**
+ * What an appointment change callback returns: nothing (the app updates `appointments` itself),
+ * or a Promise. While the Promise is pending the Scheduler shows the change optimistically;
+ * if it rejects, the change is rolled back and the error is shown.
+ */
+export type ChangeResult = void | Promise<void>;
+
+/**
+ * A change made in the scheduler that can be undone and redone (Ctrl+Z / Ctrl+Shift+Z).
+ * Both steps go through the same change callbacks as the original change.
+ */
+export interface ChangeHistoryEntry {
+  /** What the change did (e.g. "Appointment moved"), shown in the undo notice */
+  label: string;
+  /** Reverts the change */
+  undo: () => ChangeResult;
+  /** Makes the change again */
+  redo: () => ChangeResult;
+}
+
+/**
+ * What putting an appointments list back as it was before a change takes
+ */
+export interface AppointmentRestore {
+  /** Previous versions of appointments and series the change modified */
+  changed: Appointment[];
+  /** IDs of appointments and series the change added */
+  added: string[];
+  /** Appointments and series the change removed */
+  removed: Appointment[];
+}
+
+/**
+ * Window of days a view shows, reported by onRangeChange
+ * (the month view includes the leading and trailing days of its grid)
+ */
+export interface VisibleRange {
+  /** Start of the first visible day */
+  start: Date;
+  /** End of the last visible day */
+  end: Date;
+  /** View showing the range */
+  view: ViewMode;
 }
 
 /**
@@ -196,31 +719,187 @@ export interface SchedulerProps {
   startHour?: number;
   /** Ending hour of the work day (default: 21 for 9 PM). Ignored when businessHours is provided. */
   endHour?: number;
+  /**
+   * Length of each grid slot in minutes (default: 30), e.g. 15 or 10 for finer booking.
+   * Clicking a slot, dragging and resizing all snap to this step.
+   */
+  slotDuration?: number;
+  /** Height of each grid slot in pixels (default: 60) */
+  slotHeight?: number;
+  /**
+   * Time of day ('HH:mm', studio time) the day, N-day and week grids scroll to when they open
+   * and when Today is pressed (default: the current time, with one slot above it)
+   */
+  scrollToTime?: string;
+  /** Show a line at the current time in today's column(s), updated every minute (default: true) */
+  showCurrentTime?: boolean;
   /**
    * Per-day open/close hours. When provided (non-null, non-undefined, non-empty), the grid
    * and slots use these hours per day instead of a single startHour/endHour.
    * When null, undefined, or an empty array, the whole day uses startHour/endHour.
-   * Day names must be lowercase ('monday' … 'sunday').
+   * Day names must be lowercase ('monday' … 'sunday'); times are 'HH:mm'.
+   * Several rows for one day are split shifts; times between them are closed.
+   * Days without rows are closed (e.g. leave out 'sunday' and 'monday' for a Tuesday–Saturday studio).
    */
   businessHours?: DaySchedule[] | null;
-  /** Current view mode */
+  /**
+   * Date-specific opening hours (holidays, special hours). An override replaces
+   * businessHours (or startHour/endHour) for its date; `hours: []` closes the day.
+   */
+  businessHoursOverrides?: DateScheduleOverride[];
+  /**
+   * IANA time zone of the studio, e.g. 'America/Vancouver' (default: the viewer's time zone).
+   * The grid, slot clicks, drag-and-drop, "today" and the forms all use the studio's time;
+   * dates passed to callbacks are real instants. Unknown zones fall back to the viewer's.
+   */
+  timeZone?: string;
+  /**
+   * BCP 47 locale for dates, times, texts and the first day of the week, e.g. 'fr-CA' (default: 'en-US').
+   * English and French texts are built in; other languages fall back to English unless `messages` is set.
+   */
+  locale?: string;
+  /** Text overrides, merged over the locale's built-in texts */
+  messages?: Partial<SchedulerMessages>;
+  /** 12- or 24-hour clock (default: the locale's) */
+  timeFormat?: TimeFormat;
+  /** First day of the week, 0 = Sunday ... 6 = Saturday (default: the locale's) */
+  weekStartsOn?: number;
+  /**
+   * Weekdays left out of the week view and skipped by day-to-day navigation (0 = Sunday ... 6 = Saturday),
+   * e.g. [0, 6] for a 5-day work week. When every day would be hidden, all days are shown.
+   */
+  hiddenDays?: number[];
+  /** Also hide days that businessHours (days without rows) or a date override closes (default: false) */
+  hideClosedDays?: boolean;
+  /**
+   * View mode. Controlled together with onViewChange; on its own it's only the initial view (default: 'week')
+   */
   view?: ViewMode;
-  /** Currently selected/focused date */
+  /** Called when the view changes (toggle, month day click, date range pick, ref) */
+  onViewChange?: (view: ViewMode) => void;
+  /**
+   * Selected/focused date. Controlled together with onDateChange; on its own it's only the initial date (default: today)
+   */
   selectedDate?: Date;
+  /** Called when the selected date changes (navigation, date picker, month day click, ref) */
+  onDateChange?: (date: Date) => void;
+  /**
+   * ID of the appointment whose details are open (null = none).
+   * Controlled together with onSelectedAppointmentChange; on its own it's only the initially open appointment
+   */
+  selectedAppointmentId?: string | null;
+  /** Called when an appointment's details open (click, ref) or close (null) */
+  onSelectedAppointmentChange?: (appointment: Appointment | null) => void;
+  /**
+   * IDs of the technicians shown (null = everyone). The others' columns and rows are hidden, and their
+   * appointments and blocked time left out of every view. Controlled together with onTechnicianFilterChange;
+   * on its own it's only the initial filter (a filter saved under technicianFilterStorageKey wins)
+   */
+  technicianFilter?: string[] | null;
+  /** Called when the technician filter changes (header filter; null = everyone) */
+  onTechnicianFilterChange?: (technicianIds: string[] | null) => void;
+  /**
+   * localStorage key the technician filter is saved under when it isn't controlled, so it's kept across visits.
+   * Use a per-user key (e.g. `scheduler-technicians-${userId}`) when several people share a device
+   * (default: 'scheduler-technician-filter')
+   */
+  technicianFilterStorageKey?: string;
+  /**
+   * Called with the visible window on mount and whenever navigation, the date picker or a view switch changes it.
+   * Use it to load only that range's appointments.
+   */
+  onRangeChange?: (range: VisibleRange) => void;
+  /** Shows a loading overlay over the grid (e.g. while the visible range is fetched) */
+  loading?: boolean;
+  /** Number of days listed in the agenda view, starting at the selected date (default: 7) */
+  agendaDays?: number;
+  /** Number of days shown side by side in the 'days' view, starting at the selected date (1-14, default: 3) */
+  dayCount?: number;
+  /** Split each day of the week and 'days' views into one column per technician (default: false) */
+  groupByTechnician?: boolean;
+  /**
+   * Initial zoom of the timeline view: minutes between ticks, from 15 to 1440 (one tick per day).
+   * Rounded to the nearest zoom level (15, 30, 60, 120, 240, 1440); default: 60
+   */
+  timelineTick?: number;
+  /** What appointment blocks are colored by (default: 'technician') */
+  colorBy?: ColorByMode;
+  /** Show a legend of the colors under the header (default: false) */
+  showLegend?: boolean;
   /** How to display appointment details */
   detailDisplay?: DetailDisplayMode;
+  /** How overlapping bookings for the same technician are handled (default: 'warn') */
+  conflictPolicy?: ConflictPolicy;
+  /** Non-appointment events (meetings, cleaning, training) shown in day and week views */
+  blockedTimes?: BlockedTime[];
   /** Callback when an appointment is clicked/selected */
   onSelectAppointment?: (appointment: Appointment) => void;
   /** Callback when an empty slot is clicked to create new appointment (legacy) */
   onCreateAppointment?: (startTime: Date, endTime: Date) => void;
-  /** Callback when a new appointment is created with full data */
-  onNewAppointment?: (appointmentData: NewAppointmentData) => void;
-  /** Callback when an appointment is updated */
-  onUpdateAppointment?: (appointment: Appointment) => void;
-  /** Callback when an appointment is deleted */
-  onDeleteAppointment?: (id: string) => void;
-  /** Callback when an appointment is rescheduled via drag-and-drop */
-  onRescheduleAppointment?: (id: string, newStartTime: Date) => void;
+  /** Callback when a new appointment is created with full data (may return a Promise, see ChangeResult) */
+  onNewAppointment?: (appointmentData: NewAppointmentData) => ChangeResult;
+  /**
+   * Callback when an appointment is updated.
+   * For occurrences of a recurring series, `scope` says which occurrences the edit applies to.
+   * May return a Promise (see ChangeResult).
+   */
+  onUpdateAppointment?: (appointment: Appointment, scope?: RecurrenceEditScope) => ChangeResult;
+  /**
+   * Callback when an appointment is deleted.
+   * For occurrences of a recurring series, `id` is the occurrence ID and `scope` is set.
+   * May return a Promise (see ChangeResult).
+   */
+  onDeleteAppointment?: (id: string, scope?: RecurrenceEditScope) => ChangeResult;
+  /**
+   * Callback when an appointment is rescheduled via drag-and-drop.
+   * For occurrences of a recurring series, `id` is the occurrence ID and `scope` is set.
+   * `newTechnicianId` is set when the appointment was dropped on another technician's column
+   * (day view); the artist and their jobs move to that technician.
+   * May return a Promise (see ChangeResult).
+   */
+  onRescheduleAppointment?: (
+    id: string,
+    newStartTime: Date,
+    scope?: RecurrenceEditScope,
+    newTechnicianId?: string
+  ) => ChangeResult;
+  /**
+   * Callback when an appointment is resized by dragging its bottom edge (enables the resize handle).
+   * `newDuration` is in minutes. For occurrences of a recurring series, `scope` is set.
+   * May return a Promise (see ChangeResult).
+   */
+  onResizeAppointment?: (id: string, newDuration: number, scope?: RecurrenceEditScope) => ChangeResult;
+  /**
+   * Callback when blocked time is created from the Create modal.
+   * When set, the modal offers a "Blocked time" option next to "Appointment".
+   */
+  onCreateBlockedTime?: (data: NewBlockedTimeData) => void;
+  /**
+   * Callback after blocked time is dragged to a new time (and, in day view, possibly another technician).
+   * `newTechnicianId` is only set for blocks that belong to a technician.
+   */
+  onRescheduleBlockedTime?: (id: string, newStartTime: Date, newTechnicianId?: string) => void;
+  /** Callback when blocked time is deleted (enables the delete button on blocks) */
+  onDeleteBlockedTime?: (id: string) => void;
+}
+
+/**
+ * Imperative API of the Scheduler, reached through its ref
+ */
+export interface SchedulerHandle {
+  /** Shows a date, optionally switching the view (reported through onDateChange/onViewChange) */
+  goToDate: (date: Date, view?: ViewMode) => void;
+  /**
+   * Scrolls the day, N-day or week grid so a time of day is at the top
+   * ('HH:mm' in the studio's time, or a Date's time in the studio's zone). Does nothing in month and agenda views.
+   */
+  scrollToTime: (time: string | Date) => void;
+  /** Opens an appointment's details and shows its day; returns false when no appointment has this ID */
+  openAppointment: (id: string) => boolean;
+  /** Undoes the last change made in the scheduler (like Ctrl+Z); returns false when there is none */
+  undo: () => boolean;
+  /** Redoes the last undone change (like Ctrl+Shift+Z); returns false when there is none */
+  redo: () => boolean;
 }
 
 /**
@@ -241,6 +920,71 @@ export interface AppointmentLayout {
   color?: string;
 }
 
+/**
+ * Layout information for rendering a blocked time block
+ */
+export interface BlockedTimeLayout {
+  /** The blocked time data */
+  blockedTime: BlockedTime;
+  /** Lane index among overlapping events (0-based) */
+  lane: number;
+  /** Total number of lanes in this overlap group */
+  totalLanes: number;
+  /** Calculated top position in pixels */
+  top: number;
+  /** Calculated height in pixels */
+  height: number;
+}
+
+/**
+ * Scale of the timeline view: the days it lays side by side along the x-axis
+ * (each covering startHour to endHour) and how wide a minute is
+ */
+export interface TimelineScale {
+  /** Days shown, left to right */
+  dates: Date[];
+  /** Hour each day starts at */
+  startHour: number;
+  /** Hour each day ends at */
+  endHour: number;
+  /** Minutes between ticks (1440 = one tick per day) */
+  tick: number;
+  /** Width of a minute in pixels */
+  minuteWidth: number;
+  /** Length of a slot in minutes (drags and clicks snap to it) */
+  slotDuration: number;
+}
+
+/**
+ * Layout information for rendering an appointment in a timeline row
+ */
+export interface TimelineAppointmentLayout {
+  /** The appointment data */
+  appointment: Appointment;
+  /** Lane (stacked from the top of the row) among overlapping events (0-based) */
+  lane: number;
+  /** Calculated left position in pixels */
+  left: number;
+  /** Calculated width in pixels */
+  width: number;
+  /** Resolved color for this block (from technician or default) */
+  color?: string;
+}
+
+/**
+ * Layout information for rendering blocked time in a timeline row
+ */
+export interface TimelineBlockedTimeLayout {
+  /** The blocked time data */
+  blockedTime: BlockedTime;
+  /** Lane (stacked from the top of the row) among overlapping events (0-based) */
+  lane: number;
+  /** Calculated left position in pixels */
+  left: number;
+  /** Calculated width in pixels */
+  width: number;
+}
+
 /**
  * Time slot for the grid
  */
@@ -249,7 +993,7 @@ export interface TimeSlot {
   time: Date;
   /** Hour component (0-23) */
   hour: number;
-  /** Minute component (0 or 30 for 30-min slots) */
+  /** Minute component (a multiple of the slot duration past the hour) */
   minute: number;
   /** Formatted display string (e.g., "9:00 AM") */
   label: string;
@@ -1,4 +1,4 @@
-import type { Artist, Technician } from '../types/scheduler';
+import type { Appointment, Artist, Job, Technician, TechnicianServices } from '../types/scheduler';
 
 /**
  * Gets the technician/artist ID from an appointment's artist field.
@@ -27,3 +27,48 @@ export function getArtistDisplayName(
   }
   return artist;
 }
+
+/**
+ * Gets the jobs performed by the appointment's artist.
+ * Jobs without a technician count as the artist's; appointments without jobs
+ * are treated as a single job of their serviceType.
+ */
+export function getArtistJobs(appointment: Appointment): Job[] {
+  const artistId = getArtistId(appointment.artist);
+  if (!appointment.jobs?.length) {
+    return [{ serviceType: appointment.serviceType, technicianId: artistId }];
+  }
+  return appointment.jobs.filter((job) => !job.technicianId || job.technicianId === artistId);
+}
+
+/**
+ * Checks whether a technician can perform all the given services.
+ * Without a technicianServices map, or for technicians missing from it, every service is allowed.
+ */
+export function canTechnicianPerformServices(
+  technicianServices: TechnicianServices | undefined,
+  technicianId: string,
+  serviceIds: string[]
+): boolean {
+  const allowedServiceIds = technicianServices?.[technicianId];
+  if (!allowedServiceIds) return true;
+  return serviceIds.every((serviceId) => allowedServiceIds.includes(serviceId));
+}
+
+/**
+ * Reassigns an appointment to another technician.
+ * The artist and the artist's jobs (see getArtistJobs) move to the new technician;
+ * jobs of other technicians are unchanged.
+ */
+export function reassignTechnician(appointment: Appointment, technicianId: string): Appointment {
+  const artistId = getArtistId(appointment.artist);
+  return {
+    ...appointment,
+    artist: technicianId,
+    ...(appointment.jobs && {
+      jobs: appointment.jobs.map((job) =>
+        !job.technicianId || job.technicianId === artistId ? { ...job, technicianId } : job
+      ),
+    }),
+  };
+}
@@ -0,0 +1,33 @@
+import type { ChangeResult } from '../types/scheduler';
+
+/**
+ * Async utilities for the scheduler
+ * Change callbacks (onUpdateAppointment, ...) may return a Promise; these helpers detect it
+ * and read its rejection.
+ */
+
+/**
+ * Checks whether a callback returned a Promise (or another thenable)
+ */
+export function isPromiseLike<T = unknown>(value: unknown): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | null | undefined)?.then === 'function';
+}
+
+/**
+ * Combines the results of several change callbacks into one
+ * (a Promise for all of them when any returned one, otherwise nothing)
+ */
+export function combineResults(results: ChangeResult[]): ChangeResult {
+  const pending = results.filter((result) => isPromiseLike(result));
+  if (pending.length === 0) return;
+  return Promise.all(pending).then(() => undefined);
+}
+
+/**
+ * Gets the message of a rejection reason ('' when it has none)
+ */
+export function getErrorMessage(reason: unknown): string {
+  if (reason instanceof Error) return reason.message;
+  if (typeof reason === 'string') return reason;
+  return '';
+}
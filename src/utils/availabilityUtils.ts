@@ -0,0 +1,141 @@
+import type { OpenInterval, SchedulerLocale, Technician, TimeOff } from '../types/scheduler';
+import {
+  parseBusinessHours,
+  getWeekdayName,
+  getMinuteOfDay,
+  isWithinOpenIntervals,
+} from './businessHoursUtils';
+import { addMinutes, startOfDay } from './timeUtils';
+import { DEFAULT_SCHEDULER_LOCALE, formatMessage } from './i18nUtils';
+
+/**
+ * Technician availability utilities for the scheduler
+ * Combines a technician's weekly shifts and dated time off into the minutes
+ * they can be booked on a given day.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Removes a range from sorted, non-overlapping intervals
+ */
+function subtractInterval(intervals: OpenInterval[], cut: OpenInterval): OpenInterval[] {
+  const result: OpenInterval[] = [];
+  for (const interval of intervals) {
+    if (cut.end <= interval.start || cut.start >= interval.end) {
+      result.push(interval);
+      continue;
+    }
+    if (cut.start > interval.start) result.push({ start: interval.start, end: cut.start });
+    if (cut.end < interval.end) result.push({ start: cut.end, end: interval.end });
+  }
+  return result;
+}
+
+/**
+ * Gets the technician's time off that overlaps a time range
+ */
+export function findTimeOff(
+  technician: Technician,
+  start: Date,
+  end: Date
+): TimeOff | undefined {
+  return technician.availability?.timeOff?.find(
+    (off) => off.start.getTime() < end.getTime() && off.end.getTime() > start.getTime()
+  );
+}
+
+/**
+ * Gets the minutes of a day a technician can be booked
+ *
+ * @returns Sorted intervals in minutes from midnight, or null when the technician has no
+ * availability restrictions that day (they follow the studio's hours)
+ */
+export function getTechnicianWorkingIntervals(
+  technician: Technician,
+  date: Date
+): OpenInterval[] | null {
+  const { shifts, timeOff } = technician.availability ?? {};
+
+  let intervals: OpenInterval[] | null = shifts?.length
+    ? parseBusinessHours(shifts).get(getWeekdayName(date)) ?? []
+    : null;
+
+  const dayStart = startOfDay(date);
+  const dayEnd = addMinutes(dayStart, MINUTES_PER_DAY);
+  const offThatDay = (timeOff ?? []).filter(
+    (off) => off.start.getTime() < dayEnd.getTime() && off.end.getTime() > dayStart.getTime()
+  );
+  if (offThatDay.length === 0) return intervals;
+
+  intervals = intervals ?? [{ start: 0, end: MINUTES_PER_DAY }];
+  for (const off of offThatDay) {
+    intervals = subtractInterval(intervals, {
+      start: off.start <= dayStart ? 0 : getMinuteOfDay(off.start),
+      end: off.end >= dayEnd ? MINUTES_PER_DAY : getMinuteOfDay(off.end),
+    });
+  }
+  return intervals;
+}
+
+/**
+ * Explains why a technician can't take a booking
+ *
+ * @param technician - The technician to check
+ * @param startTime - Booking start
+ * @param duration - Booking length in minutes
+ * @param i18n - Locale settings for the message (default: English)
+ * @returns A message such as "Sarah Wilson is off (Vacation)", or null when they're available
+ */
+export function getAvailabilityIssue(
+  technician: Technician,
+  startTime: Date,
+  duration: number,
+  i18n: SchedulerLocale = DEFAULT_SCHEDULER_LOCALE
+): string | null {
+  const { messages } = i18n;
+  const name = technician.name;
+  const endTime = addMinutes(startTime, duration);
+  const off = findTimeOff(technician, startTime, endTime);
+  if (off) {
+    return off.reason
+      ? formatMessage(messages.technicianOffReason, { name, reason: off.reason })
+      : formatMessage(messages.technicianOff, { name });
+  }
+
+  const shifts = technician.availability?.shifts;
+  if (shifts?.length) {
+    const dayShifts = parseBusinessHours(shifts).get(getWeekdayName(startTime)) ?? [];
+    const startMinute = getMinuteOfDay(startTime);
+    if (!isWithinOpenIntervals(dayShifts, startMinute, startMinute + duration)) {
+      return formatMessage(
+        dayShifts.length === 0 ? messages.technicianNotWorkingDay : messages.technicianNotWorkingTime,
+        { name }
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks availability for several technicians of one booking
+ *
+ * @returns One message per unavailable technician (unknown IDs are skipped)
+ */
+export function getAvailabilityIssues(
+  technicians: Technician[],
+  technicianIds: string[],
+  startTime: Date,
+  duration: number,
+  i18n: SchedulerLocale = DEFAULT_SCHEDULER_LOCALE
+): string[] {
+  const issues: string[] = [];
+  for (const id of technicianIds) {
+    const technician = technicians.find((t) => t.id === id);
+    if (!technician) continue;
+    const issue = getAvailabilityIssue(technician, startTime, duration, i18n);
+    if (issue) issues.push(issue);
+  }
+  return issues;
+}
@@ -0,0 +1,203 @@
+import type {
+  DayHours,
+  DaySchedule,
+  DateScheduleOverride,
+  OpeningInterval,
+  OpenInterval,
+} from '../types/scheduler';
+
+/**
+ * Business hours utilities for the scheduler
+ * Parses 'HH:mm' opening hours (split shifts, date overrides) into minute intervals
+ * and answers the "is the studio open then?" questions for the grid and drag-and-drop.
+ */
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parses a time of day into minutes from midnight
+ * Accepts 'HH:mm', 'H:mm' and whole hours ('10'); '24:00' is the end of the day.
+ *
+ * @returns Minutes from midnight, or null when the value isn't a valid time
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^\s*(\d{1,2})(?::(\d{2}))?\s*$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (minutes > 59) return null;
+  const total = hours * 60 + minutes;
+  return total > MINUTES_PER_DAY ? null : total;
+}
+
+/**
+ * Gets the lowercase weekday name of a date ('sunday' … 'saturday'), as used by DaySchedule
+ */
+export function getWeekdayName(date: Date): string {
+  return DAY_NAMES[date.getDay()];
+}
+
+/**
+ * Gets the local calendar date of a Date as 'YYYY-MM-DD'
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Converts opening intervals to sorted minute ranges
+ * Invalid or empty intervals are dropped; overlapping or touching intervals are merged.
+ */
+export function parseOpeningIntervals(intervals: OpeningInterval[]): OpenInterval[] {
+  const parsed: OpenInterval[] = [];
+  for (const { open, close } of intervals) {
+    const start = parseTimeOfDay(open);
+    const end = parseTimeOfDay(close);
+    if (start !== null && end !== null && end > start) {
+      parsed.push({ start, end });
+    }
+  }
+
+  parsed.sort((a, b) => a.start - b.start);
+  const merged: OpenInterval[] = [];
+  for (const interval of parsed) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Groups weekly business hours by lowercase day name
+ * Several rows for the same day become split shifts.
+ */
+export function parseBusinessHours(businessHours: DaySchedule[]): Map<string, OpenInterval[]> {
+  const rowsByDay = new Map<string, OpeningInterval[]>();
+  for (const row of businessHours) {
+    const day = row.day.toLowerCase();
+    rowsByDay.set(day, [...(rowsByDay.get(day) ?? []), row]);
+  }
+
+  const byDay = new Map<string, OpenInterval[]>();
+  for (const [day, rows] of rowsByDay) {
+    const intervals = parseOpeningIntervals(rows);
+    if (intervals.length > 0) {
+      byDay.set(day, intervals);
+    }
+  }
+  return byDay;
+}
+
+/**
+ * Indexes date overrides by 'YYYY-MM-DD' (a later override for the same date wins)
+ */
+export function parseScheduleOverrides(
+  overrides: DateScheduleOverride[]
+): Map<string, OpenInterval[]> {
+  const byDate = new Map<string, OpenInterval[]>();
+  for (const override of overrides) {
+    byDate.set(override.date, parseOpeningIntervals(override.hours));
+  }
+  return byDate;
+}
+
+/**
+ * Resolves the hours for a date: date override first, then the weekly schedule,
+ * then the default startHour/endHour. With a weekly schedule, weekdays it has no rows for are closed.
+ *
+ * @param date - The date to resolve
+ * @param weekly - Parsed weekly hours (see parseBusinessHours), or null for the default hours every day
+ * @param overrides - Parsed date overrides (see parseScheduleOverrides), or null
+ * @param defaultStartHour - Opening hour when nothing else applies
+ * @param defaultEndHour - Closing hour when nothing else applies
+ */
+export function resolveDayHours(
+  date: Date,
+  weekly: Map<string, OpenInterval[]> | null,
+  overrides: Map<string, OpenInterval[]> | null,
+  defaultStartHour: number,
+  defaultEndHour: number
+): DayHours {
+  const intervals =
+    overrides?.get(toDateKey(date)) ??
+    (weekly
+      ? weekly.get(getWeekdayName(date)) ?? []
+      : [{ start: defaultStartHour * 60, end: defaultEndHour * 60 }]);
+
+  // Closed days keep the default grid range so the view still has rows to shade
+  if (intervals.length === 0) {
+    return { startHour: defaultStartHour, endHour: defaultEndHour, intervals };
+  }
+
+  return {
+    startHour: Math.floor(intervals[0].start / 60),
+    endHour: Math.ceil(intervals[intervals.length - 1].end / 60),
+    intervals,
+  };
+}
+
+/**
+ * Gets the minute of the day of a date
+ */
+export function getMinuteOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Finds the open interval containing a minute of the day
+ */
+export function findOpenInterval(
+  intervals: OpenInterval[],
+  minuteOfDay: number
+): OpenInterval | undefined {
+  return intervals.find((interval) => minuteOfDay >= interval.start && minuteOfDay < interval.end);
+}
+
+/**
+ * Checks whether a time range fits entirely inside one open interval
+ * (so a booking can't run through a lunch closure)
+ *
+ * @param startMinute - Start in minutes from midnight
+ * @param endMinute - End in minutes from midnight (exclusive)
+ */
+export function isWithinOpenIntervals(
+  intervals: OpenInterval[],
+  startMinute: number,
+  endMinute: number
+): boolean {
+  return intervals.some((interval) => startMinute >= interval.start && endMinute <= interval.end);
+}
+
+/**
+ * Checks whether a booking falls outside opening hours (not entirely inside one open interval),
+ * e.g. on a day or during a closure declared after it was booked
+ */
+export function isOutsideOpenIntervals(
+  intervals: OpenInterval[],
+  item: { startTime: Date; duration: number }
+): boolean {
+  const startMinute = getMinuteOfDay(item.startTime);
+  return !isWithinOpenIntervals(intervals, startMinute, startMinute + item.duration);
+}
+
+/**
+ * Gets the closing time, in (possibly fractional) hours, of the interval a booking starts in
+ * Used to stop resizing at the next closure. Falls back to fallbackEndHour outside open hours.
+ */
+export function getClosingHour(
+  intervals: OpenInterval[],
+  startTime: Date,
+  fallbackEndHour: number
+): number {
+  const interval = findOpenInterval(intervals, getMinuteOfDay(startTime));
+  return interval ? interval.end / 60 : fallbackEndHour;
+}
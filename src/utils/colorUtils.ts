@@ -1,5 +1,13 @@
-import type { ServiceType, Technician, Appointment } from '../types/scheduler';
+import type {
+  ServiceType,
+  Technician,
+  Appointment,
+  AppointmentStatus,
+  ColorByMode,
+  Service,
+} from '../types/scheduler';
 import { getArtistId } from './artistUtils';
+import { getAppointmentCategories, getServiceCategories } from './serviceUtils';
 
 /**
  * Default color used for a technician when the app does not provide one.
@@ -36,6 +44,61 @@ export function getTechnicianColorForAppointment(
   return getTechnicianColor(id ?? undefined, technicians);
 }
 
+/**
+ * Colors of the appointment statuses (colorBy 'status')
+ */
+export const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  pending: '#f97316',
+  confirmed: '#22c55e',
+  cancelled: '#ef4444',
+  completed: '#3b82f6',
+};
+
+/**
+ * Colors given to service categories in order (colorBy 'category'); repeats after the last
+ */
+export const CATEGORY_COLORS = [
+  '#f43f5e',
+  '#8b5cf6',
+  '#f59e0b',
+  '#10b981',
+  '#0ea5e9',
+  '#ec4899',
+  '#14b8a6',
+  '#6366f1',
+];
+
+/**
+ * Resolves the color of a service category: its position among the services' categories
+ * picks a CATEGORY_COLORS entry. Unknown categories get the default color.
+ */
+export function getCategoryColor(category: string | undefined, services: Service[]): string {
+  const index = category ? getServiceCategories(services).indexOf(category) : -1;
+  return index === -1 ? DEFAULT_TECHNICIAN_COLOR : CATEGORY_COLORS[index % CATEGORY_COLORS.length];
+}
+
+/**
+ * Resolves the block color of an appointment for a color-by mode
+ * - 'technician': the artist's color
+ * - 'category': the category color of its (first job's) service
+ * - 'status': its status color
+ */
+export function getAppointmentColor(
+  appointment: Appointment,
+  colorBy: ColorByMode,
+  technicians: Technician[],
+  services: Service[] = []
+): string {
+  switch (colorBy) {
+    case 'category':
+      return getCategoryColor(getAppointmentCategories(appointment, services)[0], services);
+    case 'status':
+      return STATUS_COLORS[appointment.status ?? 'pending'];
+    default:
+      return getTechnicianColorForAppointment(appointment, technicians);
+  }
+}
+
 /**
  * Color utility functions for the scheduler
  * Maps service types to consistent color schemes
@@ -0,0 +1,200 @@
+import type {
+  Appointment,
+  AppointmentConflict,
+  BlockedTime,
+  ConflictCandidate,
+  SchedulerLocale,
+  Technician,
+} from '../types/scheduler';
+import { getArtistId, getArtistDisplayName } from './artistUtils';
+import { formatTime, addMinutes } from './timeUtils';
+import { DEFAULT_SCHEDULER_LOCALE, formatList, formatMessage } from './i18nUtils';
+
+/**
+ * Conflict detection utilities for the scheduler
+ * A technician is busy for the whole time of every appointment they have a job in,
+ * so multi-job appointments block all of their technicians. Cancelled appointments never conflict.
+ * Blocked time conflicts with every booking of its technician (or of anyone, when studio-wide).
+ */
+
+/**
+ * Gets every technician booked by an appointment (the artist and each job's technician)
+ */
+export function getAppointmentTechnicianIds(appointment: ConflictCandidate): string[] {
+  const ids = new Set<string>();
+  const artistId = getArtistId(appointment.artist);
+  if (artistId) ids.add(artistId);
+  for (const job of appointment.jobs ?? []) {
+    if (job.technicianId) ids.add(job.technicianId);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Checks whether two bookings overlap in time (touching end/start is not an overlap)
+ */
+export function appointmentsOverlap(a: ConflictCandidate, b: ConflictCandidate): boolean {
+  const aStart = a.startTime.getTime();
+  const bStart = b.startTime.getTime();
+  const aEnd = aStart + a.duration * 60 * 1000;
+  const bEnd = bStart + b.duration * 60 * 1000;
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Finds the appointments that overlap a booking for at least one shared technician
+ *
+ * @param candidate - New or changed booking (its own ID is skipped)
+ * @param appointments - Existing appointments (occurrences of series should already be expanded)
+ * @returns Conflicts sorted by start time
+ */
+export function findConflicts(
+  candidate: ConflictCandidate,
+  appointments: Appointment[]
+): AppointmentConflict[] {
+  if (candidate.status === 'cancelled') return [];
+  const candidateTechnicians = getAppointmentTechnicianIds(candidate);
+  if (candidateTechnicians.length === 0) return [];
+
+  const conflicts: AppointmentConflict[] = [];
+  for (const apt of appointments) {
+    if (apt.id === candidate.id || apt.status === 'cancelled') continue;
+    if (!appointmentsOverlap(candidate, apt)) continue;
+    const shared = getAppointmentTechnicianIds(apt).filter((id) =>
+      candidateTechnicians.includes(id)
+    );
+    if (shared.length > 0) {
+      conflicts.push({ appointment: apt, technicianIds: shared });
+    }
+  }
+
+  return conflicts.sort(
+    (a, b) => a.appointment.startTime.getTime() - b.appointment.startTime.getTime()
+  );
+}
+
+/**
+ * Finds the blocked time that overlaps a booking for one of its technicians
+ * Studio-wide blocks (no technicianId) overlap every booking.
+ *
+ * @returns Overlapping blocks sorted by start time
+ */
+export function findBlockedTimeConflicts(
+  candidate: ConflictCandidate,
+  blockedTimes: BlockedTime[]
+): BlockedTime[] {
+  if (candidate.status === 'cancelled') return [];
+  const candidateTechnicians = getAppointmentTechnicianIds(candidate);
+
+  return blockedTimes
+    .filter(
+      (block) =>
+        (!block.technicianId || candidateTechnicians.includes(block.technicianId)) &&
+        appointmentsOverlap(candidate, block)
+    )
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Gets the IDs of all appointments that overlap another one for the same technician,
+ * or overlap blocked time. Used to flag double bookings in the grid.
+ */
+export function getConflictingAppointmentIds(
+  appointments: Appointment[],
+  blockedTimes: BlockedTime[] = []
+): Set<string> {
+  const byTechnician = new Map<string, Appointment[]>();
+  for (const apt of appointments) {
+    if (apt.status === 'cancelled') continue;
+    for (const technicianId of getAppointmentTechnicianIds(apt)) {
+      const list = byTechnician.get(technicianId) ?? [];
+      list.push(apt);
+      byTechnician.set(technicianId, list);
+    }
+  }
+
+  const conflicting = new Set<string>();
+  for (const list of byTechnician.values()) {
+    const sorted = [...list].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    // Sweep in start order, keeping the bookings that are still running
+    let running: Appointment[] = [];
+    for (const apt of sorted) {
+      running = running.filter((other) => appointmentsOverlap(other, apt));
+      if (running.length > 0) {
+        conflicting.add(apt.id);
+        running.forEach((other) => conflicting.add(other.id));
+      }
+      running.push(apt);
+    }
+  }
+
+  for (const apt of appointments) {
+    if (!conflicting.has(apt.id) && findBlockedTimeConflicts(apt, blockedTimes).length > 0) {
+      conflicting.add(apt.id);
+    }
+  }
+
+  return conflicting;
+}
+
+/**
+ * Formats conflicts for display
+ * (e.g. "Sarah Wilson is already booked 10:00 AM – 11:30 AM (Jane Doe)")
+ *
+ * @param i18n - Locale settings for the texts and times (default: English)
+ */
+export function describeConflicts(
+  conflicts: AppointmentConflict[],
+  technicians?: Technician[],
+  i18n: SchedulerLocale = DEFAULT_SCHEDULER_LOCALE
+): string {
+  const { messages } = i18n;
+  return conflicts
+    .map(({ appointment, technicianIds }) => {
+      const names = formatList(
+        technicianIds.map((id) => getArtistDisplayName(id, technicians)),
+        i18n.locale
+      );
+      const endTime = addMinutes(appointment.startTime, appointment.duration);
+      return formatMessage(
+        technicianIds.length > 1 ? messages.conflictBookedOther : messages.conflictBookedOne,
+        {
+          names,
+          start: formatTime(appointment.startTime, i18n),
+          end: formatTime(endTime, i18n),
+          client: appointment.client.name,
+        }
+      );
+    })
+    .join('; ');
+}
+
+/**
+ * Formats blocked time conflicts for display
+ * (e.g. "Staff meeting 9:00 AM – 9:30 AM (whole studio)")
+ *
+ * @param i18n - Locale settings for the texts and times (default: English)
+ */
+export function describeBlockedTimeConflicts(
+  blockedTimes: BlockedTime[],
+  technicians?: Technician[],
+  i18n: SchedulerLocale = DEFAULT_SCHEDULER_LOCALE
+): string {
+  const { messages } = i18n;
+  return blockedTimes
+    .map((block) => {
+      const endTime = addMinutes(block.startTime, block.duration);
+      const values = {
+        title: block.title,
+        start: formatTime(block.startTime, i18n),
+        end: formatTime(endTime, i18n),
+      };
+      return block.technicianId
+        ? formatMessage(messages.blockedTimeConflict, {
+          ...values,
+          technician: getArtistDisplayName(block.technicianId, technicians),
+        })
+        : formatMessage(messages.blockedTimeConflictWholeStudio, values);
+    })
+    .join('; ');
+}
@@ -0,0 +1,100 @@
+import type { TimeSlot } from '../types/scheduler';
+
+/**
+ * Keyboard navigation utilities for the day and week grids
+ * Name the grid cells (slots and blocks) and find them in the markup:
+ * `data-grid-column` marks each column; each cell has `data-grid-cell` (its key) and
+ * `data-grid-time` (minute of the day it starts at), and slots also have `data-grid-slot`.
+ *
+ * The markup is laid out in columns, while the ARIA grid is made of time rows: each row
+ * takes the slots at its time across the columns by ID (aria-owns), and each slot takes
+ * the blocks that start in it.
+ */
+
+/**
+ * Gets the key of a technician's column on a date (the same technician has a column per day
+ * when the week view is grouped by technician)
+ */
+export function getTechnicianColumnKey(technicianId: string, date: Date): string {
+  return `${technicianId}@${date.toISOString()}`;
+}
+
+/**
+ * Gets the key of a slot cell
+ *
+ * @param column - Key of the slot's column: getTechnicianColumnKey, or the ISO date of a week view day
+ */
+export function getSlotCellKey(column: string, slot: TimeSlot): string {
+  return `slot:${column}:${slot.hour * 60 + slot.minute}`;
+}
+
+/**
+ * Gets the key of an appointment block cell
+ */
+export function getAppointmentCellKey(appointmentId: string): string {
+  return `appointment:${appointmentId}`;
+}
+
+/**
+ * Gets the key of a blocked time cell
+ *
+ * @param column - Key of the block's column (studio-wide blocks show in every technician's column)
+ */
+export function getBlockedTimeCellKey(blockedTimeId: string, column: string): string {
+  return `blocked:${column}:${blockedTimeId}`;
+}
+
+/**
+ * Gets the DOM ID of a grid cell (slot or block) in a column
+ * IDs are listed in aria-owns, so the key is encoded (technician IDs may contain spaces)
+ *
+ * @param gridId - Unique ID of the grid (useId)
+ */
+export function getGridCellId(gridId: string, column: string, cellKey: string): string {
+  return `${gridId}-${encodeURIComponent(`${column}|${cellKey}`)}`;
+}
+
+/**
+ * Gets the DOM ID of a column header
+ */
+export function getColumnHeaderId(gridId: string, column: string): string {
+  return `${gridId}-header-${encodeURIComponent(column)}`;
+}
+
+/**
+ * Groups the IDs of a column's blocks by the slot they start in: the last slot starting at
+ * or before them (the first slot for blocks starting earlier)
+ *
+ * @param blocks - IDs of the blocks with the minute of the day they start at
+ */
+export function groupBlockIdsBySlot(
+  slots: TimeSlot[],
+  blocks: Array<{ id: string; minute: number }>
+): Map<TimeSlot, string[]> {
+  const grouped = new Map<TimeSlot, string[]>();
+  for (const block of blocks) {
+    const before = slots.filter((slot) => slot.hour * 60 + slot.minute <= block.minute);
+    const slot = before[before.length - 1] ?? slots[0];
+    if (slot) grouped.set(slot, [...(grouped.get(slot) ?? []), block.id]);
+  }
+  return grouped;
+}
+
+/**
+ * Gets the cells of a column in reading order: by time, with each block right before
+ * the slot it starts in (blocks starting together keep their lane order)
+ */
+export function getColumnCells(column: HTMLElement): HTMLElement[] {
+  const cells = Array.from(column.querySelectorAll<HTMLElement>('[data-grid-cell]'));
+  const getOrder = (cell: HTMLElement) => Number(cell.dataset.gridTime) * 2 + (cell.dataset.gridSlot === undefined ? 0 : 1);
+  return cells.sort((a, b) => getOrder(a) - getOrder(b));
+}
+
+/**
+ * Finds the slot of a column that contains a minute of the day (its first slot when none does)
+ */
+export function findSlotCell(column: HTMLElement, minute: number): HTMLElement | undefined {
+  const slots = Array.from(column.querySelectorAll<HTMLElement>('[data-grid-slot]'));
+  const before = slots.filter((slot) => Number(slot.dataset.gridTime) <= minute);
+  return before[before.length - 1] ?? slots[0];
+}
@@ -0,0 +1,78 @@
+import type { Appointment, AppointmentRestore, NewAppointmentData } from '../types/scheduler';
+import { getArtistId } from './artistUtils';
+
+/**
+ * Undo/redo utilities for the scheduler
+ * Work out what putting appointments back after a change takes, and find
+ * appointments the app created again under a new ID.
+ */
+
+/**
+ * Compares an appointments list before and after a change (see applyRecurrenceUpdate and the
+ * other apply helpers) to find the appointments and series the change modified, added or removed
+ */
+export function getAppointmentRestore(before: Appointment[], after: Appointment[]): AppointmentRestore {
+  const afterById = new Map(after.map((apt) => [apt.id, apt]));
+  const beforeIds = new Set(before.map((apt) => apt.id));
+  return {
+    changed: before.filter((apt) => afterById.has(apt.id) && afterById.get(apt.id) !== apt),
+    added: after.filter((apt) => !beforeIds.has(apt.id)).map((apt) => apt.id),
+    removed: before.filter((apt) => !afterById.has(apt.id)),
+  };
+}
+
+/**
+ * Gets the data to create an appointment again (its ID, exceptions and conflict flags aren't kept)
+ */
+export function toNewAppointmentData(appointment: Appointment): NewAppointmentData {
+  const artist = getArtistId(appointment.artist);
+  return {
+    client: appointment.client,
+    jobs: appointment.jobs ?? [{ serviceType: appointment.serviceType, technicianId: artist }],
+    ...(artist && { artist }),
+    status: appointment.status,
+    startTime: appointment.startTime,
+    duration: appointment.duration,
+    ...(appointment.email && { email: appointment.email }),
+    phone: appointment.phone ?? '',
+    ...(appointment.notes && { notes: appointment.notes }),
+    ...(appointment.recurrence && { recurrence: appointment.recurrence }),
+  };
+}
+
+/**
+ * Checks whether an appointment was created from onNewAppointment data: same client, start, duration
+ * and services. Technicians are compared where the data names them (the app may assign the others).
+ */
+function matchesNewAppointmentData(appointment: Appointment, data: NewAppointmentData): boolean {
+  const created = toNewAppointmentData(appointment);
+  return (
+    created.client.name === data.client.name &&
+    created.startTime.getTime() === data.startTime.getTime() &&
+    created.duration === data.duration &&
+    (!data.artist || created.artist === data.artist) &&
+    created.jobs.length === data.jobs.length &&
+    data.jobs.every(
+      (job, index) =>
+        job.serviceType === created.jobs[index].serviceType &&
+        (!job.technicianId || job.technicianId === created.jobs[index].technicianId)
+    )
+  );
+}
+
+/**
+ * Finds the appointment the app added for onNewAppointment data
+ * Appointments matching the same data are interchangeable, so any of them is returned.
+ *
+ * @param appointments - The current appointments
+ * @param data - Data passed to onNewAppointment
+ * @param knownIds - IDs of the appointments that existed before it was created
+ * @returns The new appointment matching the data, or undefined when the app hasn't added it
+ */
+export function findCreatedAppointment(
+  appointments: Appointment[],
+  data: NewAppointmentData,
+  knownIds: Set<string>
+): Appointment | undefined {
+  return appointments.find((apt) => !knownIds.has(apt.id) && matchesNewAppointmentData(apt, data));
+}
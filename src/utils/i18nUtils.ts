@@ -0,0 +1,185 @@
+import type {
+  AppointmentStatus,
+  SchedulerLocale,
+  SchedulerMessages,
+  TimeFormat,
+} from '../types/scheduler';
+import { DEFAULT_LOCALE } from './timeUtils';
+import { getErrorMessage } from './asyncUtils';
+import { en } from '../locales/en';
+import { fr } from '../locales/fr';
+
+/**
+ * Internationalization utilities for the scheduler
+ * Resolves the locale props into texts, clock and first day of the week,
+ * and fills in message placeholders.
+ */
+
+/** Built-in text catalogs by language ('fr-CA' uses 'fr') */
+export const BUILT_IN_MESSAGES: Record<string, SchedulerMessages> = { en, fr };
+
+/** Regions whose week starts on Sunday or Saturday (CLDR); every other region starts on Monday */
+const SUNDAY_FIRST_REGIONS = new Set([
+  'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CN', 'CO', 'DM', 'DO', 'ET', 'GT', 'GU',
+  'HK', 'HN', 'ID', 'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH', 'MM', 'MO', 'MT', 'MX',
+  'MZ', 'NI', 'NP', 'PA', 'PE', 'PH', 'PK', 'PR', 'PT', 'PY', 'SA', 'SG', 'SV', 'TH', 'TT', 'TW',
+  'UM', 'US', 'VE', 'VI', 'WS', 'YE', 'ZA', 'ZW',
+]);
+const SATURDAY_FIRST_REGIONS = new Set([
+  'AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY',
+]);
+
+/** Week data exposed by newer Intl.Locale implementations (firstDay: 1 = Monday ... 7 = Sunday) */
+type LocaleWithWeekInfo = Intl.Locale & {
+  getWeekInfo?: () => { firstDay: number };
+  weekInfo?: { firstDay: number };
+};
+
+/**
+ * Checks whether a string is a valid BCP 47 locale
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the first day of the week for a locale (0 = Sunday ... 6 = Saturday)
+ * Uses the browser's week data when available, otherwise the locale's region
+ */
+export function getFirstDayOfWeek(locale: string): number {
+  const intlLocale = new Intl.Locale(locale) as LocaleWithWeekInfo;
+  const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+  if (weekInfo) return weekInfo.firstDay % 7;
+
+  const region = intlLocale.maximize().region ?? '';
+  if (SUNDAY_FIRST_REGIONS.has(region)) return 0;
+  if (SATURDAY_FIRST_REGIONS.has(region)) return 6;
+  return 1;
+}
+
+/**
+ * Checks whether a locale writes times with a 12-hour clock
+ */
+export function usesTwelveHourClock(locale: string): boolean {
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hour12 ?? false;
+}
+
+/**
+ * Gets the built-in texts for a locale (English when its language isn't built in)
+ */
+export function getBuiltInMessages(locale: string): SchedulerMessages {
+  const language = new Intl.Locale(locale).language;
+  return BUILT_IN_MESSAGES[language] ?? en;
+}
+
+/**
+ * Resolves the Scheduler's locale props into the settings shared by its components
+ *
+ * @param locale - BCP 47 locale (invalid values fall back to 'en-US')
+ * @param messages - Text overrides merged over the built-in texts
+ * @param timeFormat - Clock override (default: the locale's)
+ * @param weekStartsOn - First day of the week override, 0-6 (default: the locale's; other values are ignored)
+ */
+export function resolveSchedulerLocale(
+  locale: string = DEFAULT_LOCALE,
+  messages?: Partial<SchedulerMessages>,
+  timeFormat?: TimeFormat,
+  weekStartsOn?: number
+): SchedulerLocale {
+  const resolvedLocale = isValidLocale(locale) ? locale : DEFAULT_LOCALE;
+  const isValidWeekStart = weekStartsOn != null && Number.isInteger(weekStartsOn) && weekStartsOn >= 0 && weekStartsOn <= 6;
+  return {
+    locale: resolvedLocale,
+    hour12: timeFormat ? timeFormat === '12h' : usesTwelveHourClock(resolvedLocale),
+    weekStartsOn: isValidWeekStart ? weekStartsOn : getFirstDayOfWeek(resolvedLocale),
+    messages: { ...getBuiltInMessages(resolvedLocale), ...messages },
+  };
+}
+
+/** English, 12-hour clock, weeks start on Sunday (used outside a Scheduler) */
+export const DEFAULT_SCHEDULER_LOCALE: SchedulerLocale = resolveSchedulerLocale();
+
+/**
+ * Fills in the {placeholders} of a message
+ *
+ * @example
+ * ```ts
+ * formatMessage('Create appointment at {time}', { time: '9:00 AM' });
+ * ```
+ */
+export function formatMessage(
+  template: string,
+  values: Record<string, string | number> = {}
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
+
+/**
+ * Picks the singular or plural form of a message for a count and fills it in ({count} included)
+ */
+export function formatCountMessage(
+  i18n: SchedulerLocale,
+  one: string,
+  other: string,
+  count: number,
+  values: Record<string, string | number> = {}
+): string {
+  const isOne = new Intl.PluralRules(i18n.locale).select(count) === 'one';
+  return formatMessage(isOne ? one : other, { count, ...values });
+}
+
+/**
+ * Joins names into a list ("Emma and Alex", "Emma, Alex et Sophie")
+ */
+export function formatList(items: string[], locale: string): string {
+  return new Intl.ListFormat(locale, { type: 'conjunction' }).format(items);
+}
+
+/**
+ * Gets the label of an appointment status
+ */
+export function getStatusLabel(status: AppointmentStatus, messages: SchedulerMessages): string {
+  const labels: Record<AppointmentStatus, string> = {
+    pending: messages.statusPending,
+    confirmed: messages.statusConfirmed,
+    cancelled: messages.statusCancelled,
+    completed: messages.statusCompleted,
+  };
+  return labels[status];
+}
+
+/**
+ * Describes a failed save for the user, with the error's message when it has one
+ *
+ * @param reason - Rejection reason of the app's callback
+ */
+export function formatSaveError(reason: unknown, messages: SchedulerMessages): string {
+  const detail = getErrorMessage(reason);
+  return detail ? formatMessage(messages.saveFailedReason, { reason: detail }) : messages.saveFailed;
+}
+
+/**
+ * Gets weekday names in week order, starting at weekStartsOn
+ *
+ * @param locale - BCP 47 locale
+ * @param weekStartsOn - First day of the week (0 = Sunday)
+ * @param width - 'short' ("Mon") or 'long' ("Monday")
+ */
+export function getWeekdayNames(
+  locale: string,
+  weekStartsOn: number = 0,
+  width: 'short' | 'long' = 'short'
+): string[] {
+  const formatter = new Intl.DateTimeFormat(locale, { weekday: width });
+  return Array.from({ length: 7 }, (_, i) => {
+    // January 7, 2024 was a Sunday
+    const date = new Date(2024, 0, 7 + ((weekStartsOn + i) % 7));
+    return formatter.format(date);
+  });
+}
@@ -1,56 +1,70 @@
-import type { Appointment, AppointmentLayout } from '../types/scheduler';
-import { calculateTopPosition, calculateHeight, isSameDay } from './timeUtils';
+import type {
+  Appointment,
+  AppointmentLayout,
+  BlockedTime,
+  BlockedTimeLayout,
+} from '../types/scheduler';
+import {
+  calculateTopPosition,
+  calculateHeight,
+  isSameDay,
+  SLOT_DURATION,
+  SLOT_HEIGHT,
+} from './timeUtils';
 
 /**
  * Layout utility functions for the scheduler
- * Handles overlap detection and position calculations for appointments
+ * Handles overlap detection and position calculations for appointments and blocked time
  */
 
+/** Anything placed on the time grid (appointments, blocked time) */
+type TimedItem = Pick<Appointment, 'startTime' | 'duration'>;
+
 /**
- * Gets the end time of an appointment
+ * Gets the end time of an appointment or blocked time
  */
-function getEndTime(appointment: Appointment): Date {
+function getEndTime(item: TimedItem): Date {
   return new Date(
-    appointment.startTime.getTime() + appointment.duration * 60 * 1000
+    item.startTime.getTime() + item.duration * 60 * 1000
   );
 }
 
 
 /**
- * Groups overlapping appointments together
+ * Groups overlapping items together
  * Uses a union-find style approach to identify overlap clusters
  * 
- * @param appointments - Array of appointments to group
- * @returns Array of appointment groups (each group contains overlapping appointments)
+ * @param items - Array of appointments/blocked times to group
+ * @returns Array of groups (each group contains overlapping items)
  */
-function groupOverlappingAppointments(
-  appointments: Appointment[]
-): Appointment[][] {
-  if (appointments.length === 0) return [];
+function groupOverlappingItems<T extends TimedItem>(
+  items: T[]
+): T[][] {
+  if (items.length === 0) return [];
   
   // Sort by start time
-  const sorted = [...appointments].sort(
+  const sorted = [...items].sort(
     (a, b) => a.startTime.getTime() - b.startTime.getTime()
   );
   
-  const groups: Appointment[][] = [];
-  let currentGroup: Appointment[] = [sorted[0]];
+  const groups: T[][] = [];
+  let currentGroup: T[] = [sorted[0]];
   let currentGroupEnd = getEndTime(sorted[0]).getTime();
   
   for (let i = 1; i < sorted.length; i++) {
-    const appointment = sorted[i];
-    const appointmentStart = appointment.startTime.getTime();
+    const item = sorted[i];
+    const itemStart = item.startTime.getTime();
     
-    // If this appointment starts before the current group ends, it overlaps
-    if (appointmentStart < currentGroupEnd) {
-      currentGroup.push(appointment);
-      // Extend the group end time if this appointment ends later
-      currentGroupEnd = Math.max(currentGroupEnd, getEndTime(appointment).getTime());
+    // If this item starts before the current group ends, it overlaps
+    if (itemStart < currentGroupEnd) {
+      currentGroup.push(item);
+      // Extend the group end time if this item ends later
+      currentGroupEnd = Math.max(currentGroupEnd, getEndTime(item).getTime());
     } else {
       // Start a new group
       groups.push(currentGroup);
-      currentGroup = [appointment];
-      currentGroupEnd = getEndTime(appointment).getTime();
+      currentGroup = [item];
+      currentGroupEnd = getEndTime(item).getTime();
     }
   }
   
@@ -61,30 +75,30 @@ function groupOverlappingAppointments(
 }
 
 /**
- * Assigns lanes to appointments within an overlap group
+ * Assigns lanes to items within an overlap group
  * Uses a greedy algorithm to minimize the number of lanes needed
  * 
- * @param group - Array of overlapping appointments
- * @returns Map of appointment ID to lane index
+ * @param group - Array of overlapping items
+ * @returns Map of item to lane index (keyed by object, since appointment and blocked time IDs may clash)
  */
-function assignLanes(group: Appointment[]): Map<string, number> {
+function assignLanes<T extends TimedItem>(group: T[]): Map<T, number> {
   // Sort by start time, then by duration (longer first for better visual layout)
   const sorted = [...group].sort((a, b) => {
     const startDiff = a.startTime.getTime() - b.startTime.getTime();
     if (startDiff !== 0) return startDiff;
-    return b.duration - a.duration; // Longer appointments first
+    return b.duration - a.duration; // Longer items first
   });
   
-  const lanes: Map<string, number> = new Map();
+  const lanes: Map<T, number> = new Map();
   const laneEndTimes: number[] = []; // Track when each lane becomes free
   
-  for (const appointment of sorted) {
-    const appointmentStart = appointment.startTime.getTime();
+  for (const item of sorted) {
+    const itemStart = item.startTime.getTime();
     
-    // Find the first lane that's free (ends before this appointment starts)
+    // Find the first lane that's free (ends before this item starts)
     let assignedLane = -1;
     for (let i = 0; i < laneEndTimes.length; i++) {
-      if (laneEndTimes[i] <= appointmentStart) {
+      if (laneEndTimes[i] <= itemStart) {
         assignedLane = i;
         break;
       }
@@ -96,80 +110,113 @@ function assignLanes(group: Appointment[]): Map<string, number> {
       laneEndTimes.push(0);
     }
     
-    lanes.set(appointment.id, assignedLane);
-    laneEndTimes[assignedLane] = getEndTime(appointment).getTime();
+    lanes.set(item, assignedLane);
+    laneEndTimes[assignedLane] = getEndTime(item).getTime();
   }
   
   return lanes;
 }
 
 /**
- * Calculates layout information for all appointments
- * Handles overlap detection and assigns lanes for proper positioning
+ * Calculates layout information for appointments and blocked time together
+ * Overlapping events share lanes, so blocked time sits next to the appointments it overlaps
  * 
- * @param appointments - Array of appointments to layout
+ * @param appointments - Appointments to layout
+ * @param blockedTimes - Blocked times to layout
  * @param gridStartHour - The hour the grid starts at (for calculating top position)
- * @returns Array of AppointmentLayout objects with position data
+ * @param slotDuration - Length of each slot in minutes (default: 30)
+ * @param slotHeight - Height of each slot in pixels (default: 60)
+ * @returns Appointment and blocked time layouts with position data
  */
-export function calculateAppointmentLayouts(
+export function calculateScheduleLayouts(
   appointments: Appointment[],
-  gridStartHour: number
-): AppointmentLayout[] {
-  if (appointments.length === 0) return [];
-  
-  // Group overlapping appointments
-  const groups = groupOverlappingAppointments(appointments);
+  blockedTimes: BlockedTime[],
+  gridStartHour: number,
+  slotDuration: number = SLOT_DURATION,
+  slotHeight: number = SLOT_HEIGHT
+): { appointmentLayouts: AppointmentLayout[]; blockedTimeLayouts: BlockedTimeLayout[] } {
+  const appointmentLayouts: AppointmentLayout[] = [];
+  const blockedTimeLayouts: BlockedTimeLayout[] = [];
+  const blockedSet = new Set<TimedItem>(blockedTimes);
   
-  const layouts: AppointmentLayout[] = [];
+  // Group overlapping events
+  const groups = groupOverlappingItems<Appointment | BlockedTime>([...appointments, ...blockedTimes]);
   
   for (const group of groups) {
     // Assign lanes within this group
     const lanes = assignLanes(group);
     const totalLanes = new Set(lanes.values()).size;
     
-    // Create layout for each appointment in the group
-    for (const appointment of group) {
-      layouts.push({
-        appointment,
-        lane: lanes.get(appointment.id) ?? 0,
+    // Create layout for each event in the group
+    for (const item of group) {
+      const position = {
+        lane: lanes.get(item) ?? 0,
         totalLanes,
-        top: calculateTopPosition(appointment.startTime, gridStartHour),
-        height: calculateHeight(appointment.duration),
-      });
+        top: calculateTopPosition(item.startTime, gridStartHour, slotDuration, slotHeight),
+        height: calculateHeight(item.duration, slotDuration, slotHeight),
+      };
+      if (blockedSet.has(item)) {
+        blockedTimeLayouts.push({ blockedTime: item as BlockedTime, ...position });
+      } else {
+        appointmentLayouts.push({ appointment: item as Appointment, ...position });
+      }
     }
   }
   
-  return layouts;
+  return { appointmentLayouts, blockedTimeLayouts };
+}
+
+/**
+ * Calculates layout information for all appointments
+ * Handles overlap detection and assigns lanes for proper positioning
+ * 
+ * @param appointments - Array of appointments to layout
+ * @param gridStartHour - The hour the grid starts at (for calculating top position)
+ * @param slotDuration - Length of each slot in minutes (default: 30)
+ * @param slotHeight - Height of each slot in pixels (default: 60)
+ * @returns Array of AppointmentLayout objects with position data
+ */
+export function calculateAppointmentLayouts(
+  appointments: Appointment[],
+  gridStartHour: number,
+  slotDuration: number = SLOT_DURATION,
+  slotHeight: number = SLOT_HEIGHT
+): AppointmentLayout[] {
+  if (appointments.length === 0) return [];
+  return calculateScheduleLayouts(appointments, [], gridStartHour, slotDuration, slotHeight)
+    .appointmentLayouts;
 }
 
 /**
- * Filters appointments to only those on a specific day
+ * Filters appointments (or blocked times) to only those on a specific day
  * 
  * @param appointments - Array of all appointments
  * @param date - The date to filter for
  * @returns Appointments that occur on the given day
  */
-export function filterAppointmentsByDay(
-  appointments: Appointment[],
+export function filterAppointmentsByDay<T extends TimedItem>(
+  appointments: T[],
   date: Date
-): Appointment[] {
+): T[] {
   return appointments.filter((apt) => isSameDay(apt.startTime, date));
 }
 
 /**
- * Filters appointments to only those within working hours
+ * Filters appointments (or blocked times) to only those within working hours
  * Adjusts appointments that partially fall outside working hours
+ * Pass the grid's hours, not the open intervals: bookings on a day closed later or inside
+ * a closure stay on the grid, so staff can still move or cancel them.
  * 
  * @param appointments - Array of appointments
  * @param startHour - Working hours start
  * @param endHour - Working hours end
  * @returns Appointments within working hours
  */
-export function filterByWorkingHours(
-  appointments: Appointment[],
+export function filterByWorkingHours<T extends TimedItem>(
+  appointments: T[],
   startHour: number,
   endHour: number
-): Appointment[] {
+): T[] {
   return appointments.filter((apt) => {
     const hour = apt.startTime.getHours();
     const endTime = getEndTime(apt);
@@ -189,10 +236,14 @@ export function filterByWorkingHours(
 
 /**
  * Calculates the number of time slots for a given hour range
- * Each hour has 2 slots (30-minute intervals)
+ * A trailing partial slot counts as a whole one (matches generateTimeSlots)
  */
-export function calculateTotalSlots(startHour: number, endHour: number): number {
-  return (endHour - startHour) * 2;
+export function calculateTotalSlots(
+  startHour: number,
+  endHour: number,
+  slotDuration: number = SLOT_DURATION
+): number {
+  return Math.ceil(((endHour - startHour) * 60) / slotDuration);
 }
 
 /**
@@ -201,7 +252,8 @@ export function calculateTotalSlots(startHour: number, endHour: number): number
 export function calculateGridHeight(
   startHour: number,
   endHour: number,
-  slotHeight: number
+  slotHeight: number,
+  slotDuration: number = SLOT_DURATION
 ): number {
-  return calculateTotalSlots(startHour, endHour) * slotHeight;
+  return calculateTotalSlots(startHour, endHour, slotDuration) * slotHeight;
 }
@@ -0,0 +1,645 @@
+import type {
+  Appointment,
+  RecurrenceEditScope,
+  RecurrenceException,
+  RecurrenceFrequency,
+  RecurrenceOverrides,
+  RecurrenceRule,
+  SchedulerLocale,
+} from '../types/scheduler';
+import { endOfDay, startOfDay } from './timeUtils';
+import { DEFAULT_SCHEDULER_LOCALE, formatCountMessage, formatMessage, getWeekdayNames } from './i18nUtils';
+import { reassignTechnician } from './artistUtils';
+
+/**
+ * Recurrence utility functions for the scheduler
+ * Expands recurring series into occurrences and applies scoped edits
+ * (this occurrence / this and following / all) back onto the series masters
+ */
+
+/** Separator between the series ID and the occurrence timestamp in occurrence IDs */
+export const OCCURRENCE_ID_SEPARATOR = '::';
+
+/** Safety cap on rule iterations so a malformed rule can never loop forever */
+const MAX_RECURRENCE_STEPS = 10000;
+
+/** Fields an occurrence can override (see RecurrenceOverrides) */
+const OVERRIDABLE_FIELDS = [
+  'startTime',
+  'duration',
+  'jobs',
+  'serviceType',
+  'artist',
+  'notes',
+  'status',
+] as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds the ID of a single occurrence of a series
+ * Occurrence IDs are stable for a given series and original start time
+ */
+export function getOccurrenceId(seriesId: string, occurrenceStart: Date): string {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${occurrenceStart.getTime()}`;
+}
+
+/**
+ * Parses an occurrence ID back into its series ID and original start time
+ *
+ * @returns The parts, or null when the ID is not an occurrence ID
+ */
+export function parseOccurrenceId(
+  id: string
+): { seriesId: string; occurrenceStart: Date } | null {
+  const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (index <= 0) return null;
+  const timestamp = Number(id.slice(index + OCCURRENCE_ID_SEPARATOR.length));
+  if (!Number.isFinite(timestamp)) return null;
+  return { seriesId: id.slice(0, index), occurrenceStart: new Date(timestamp) };
+}
+
+/**
+ * Candidate start times for one step of the rule (one day, week or month period)
+ */
+function getStepCandidates(start: Date, rule: RecurrenceRule, interval: number, step: number): Date[] {
+  if (rule.frequency === 'daily') {
+    const date = new Date(start);
+    date.setDate(start.getDate() + step * interval);
+    return [date];
+  }
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday?.length
+      ? Array.from(new Set(rule.byWeekday)).sort((a, b) => a - b)
+      : [start.getDay()];
+    return weekdays.map((weekday) => {
+      const date = new Date(start);
+      date.setDate(start.getDate() - start.getDay() + step * interval * 7 + weekday);
+      return date;
+    });
+  }
+
+  // Monthly: same day of month; months without that day are skipped (RRULE behaviour)
+  const date = new Date(start);
+  date.setDate(1);
+  date.setMonth(start.getMonth() + step * interval);
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  if (start.getDate() > daysInMonth) return [];
+  date.setDate(start.getDate());
+  return [date];
+}
+
+/**
+ * Yields the original start time of every occurrence of a rule, in order
+ * Occurrences keep the local time of day of the series start (also across DST changes)
+ */
+function* iterateOccurrenceStarts(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const interval = Math.max(1, Math.floor(rule.interval ?? 1));
+  const until = rule.until ? endOfDay(rule.until).getTime() : Infinity;
+  let emitted = 0;
+
+  for (let step = 0; step < MAX_RECURRENCE_STEPS; step++) {
+    for (const candidate of getStepCandidates(start, rule, interval, step)) {
+      if (candidate.getTime() < start.getTime()) continue;
+      if (candidate.getTime() > until) return;
+      if (rule.count != null && emitted >= rule.count) return;
+      emitted++;
+      yield candidate;
+    }
+  }
+}
+
+/**
+ * Builds a single occurrence from the series master and its optional exception
+ */
+function buildOccurrence(
+  master: Appointment,
+  originalStart: Date,
+  exception?: RecurrenceException
+): Appointment {
+  const { recurrenceExceptions: _exceptions, ...series } = master;
+  return {
+    ...series,
+    ...exception?.overrides,
+    id: getOccurrenceId(master.id, originalStart),
+    startTime: exception?.overrides?.startTime ?? originalStart,
+    seriesId: master.id,
+    occurrenceStart: originalStart,
+  };
+}
+
+/**
+ * Gets the occurrences of a recurring appointment that start within a date range
+ * Skipped occurrences are left out and per-occurrence overrides are applied
+ *
+ * @param master - The series master (appointment with a recurrence rule)
+ * @param rangeStart - Start of the range (inclusive)
+ * @param rangeEnd - End of the range (inclusive)
+ * @returns Occurrences starting within the range
+ */
+export function getSeriesOccurrences(
+  master: Appointment,
+  rangeStart: Date,
+  rangeEnd: Date
+): Appointment[] {
+  if (!master.recurrence) return [master];
+
+  const exceptions = new Map<number, RecurrenceException>(
+    (master.recurrenceExceptions ?? []).map((exception) => [
+      exception.originalStartTime.getTime(),
+      exception,
+    ])
+  );
+
+  // A moved occurrence can land in range even when its original slot lies after it
+  let scanEnd = rangeEnd.getTime();
+  for (const originalTime of exceptions.keys()) {
+    scanEnd = Math.max(scanEnd, originalTime);
+  }
+
+  const occurrences: Appointment[] = [];
+  for (const originalStart of iterateOccurrenceStarts(master.startTime, master.recurrence)) {
+    if (originalStart.getTime() > scanEnd) break;
+    const exception = exceptions.get(originalStart.getTime());
+    if (exception?.cancelled) continue;
+
+    const occurrence = buildOccurrence(master, originalStart, exception);
+    const start = occurrence.startTime.getTime();
+    if (start >= rangeStart.getTime() && start <= rangeEnd.getTime()) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Expands recurring series into their occurrences for a visible date range
+ * Non-recurring appointments are passed through unchanged
+ *
+ * @param appointments - Appointments, some of which may be series masters
+ * @param rangeStart - Start of the visible range (inclusive)
+ * @param rangeEnd - End of the visible range (inclusive)
+ * @returns Flat list of one-off appointments and occurrences
+ */
+export function expandRecurringAppointments(
+  appointments: Appointment[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Appointment[] {
+  return appointments.flatMap((apt) =>
+    apt.recurrence ? getSeriesOccurrences(apt, rangeStart, rangeEnd) : [apt]
+  );
+}
+
+/**
+ * Finds an appointment by ID: a one-off appointment, a series master or a single occurrence
+ *
+ * @param appointments - Appointments, some of which may be series masters
+ * @param id - Appointment ID or occurrence ID (see getOccurrenceId)
+ * @returns The appointment or occurrence, or null when none has the ID (skipped occurrences included)
+ */
+export function findAppointmentById(appointments: Appointment[], id: string): Appointment | null {
+  const appointment = appointments.find((apt) => apt.id === id);
+  if (appointment) return appointment;
+
+  const parsed = parseOccurrenceId(id);
+  const master = parsed ? appointments.find((apt) => apt.id === parsed.seriesId) : undefined;
+  if (!parsed || !master?.recurrence) return null;
+
+  const originalTime = parsed.occurrenceStart.getTime();
+  for (const originalStart of iterateOccurrenceStarts(master.startTime, master.recurrence)) {
+    if (originalStart.getTime() > originalTime) break;
+    if (originalStart.getTime() !== originalTime) continue;
+    const exception = master.recurrenceExceptions?.find(
+      (candidate) => candidate.originalStartTime.getTime() === originalTime
+    );
+    return exception?.cancelled ? null : buildOccurrence(master, originalStart, exception);
+  }
+  return null;
+}
+
+/**
+ * Counts the occurrences of a series (including skipped ones) that start before a date
+ */
+function countOccurrencesBefore(master: Appointment, date: Date): number {
+  if (!master.recurrence) return 0;
+  let count = 0;
+  for (const start of iterateOccurrenceStarts(master.startTime, master.recurrence)) {
+    if (start.getTime() >= date.getTime()) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Picks the overridable fields present on a change set
+ */
+function pickOverrides(changes: Partial<Appointment>): RecurrenceOverrides {
+  const overrides: Record<string, unknown> = {};
+  for (const key of OVERRIDABLE_FIELDS) {
+    if (key in changes) overrides[key] = changes[key];
+  }
+  return overrides as RecurrenceOverrides;
+}
+
+/**
+ * Shifts a date by whole calendar days and minutes, keeping local wall-clock time stable across DST
+ */
+function shiftDate(date: Date, dayDelta: number, minuteDelta: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + dayDelta);
+  result.setMinutes(result.getMinutes() + minuteDelta);
+  return result;
+}
+
+/**
+ * Calendar-day and time-of-day difference between two dates
+ */
+function getDateDelta(from: Date, to: Date): { dayDelta: number; minuteDelta: number } {
+  const dayDelta = Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+  const minuteDelta =
+    to.getHours() * 60 + to.getMinutes() - (from.getHours() * 60 + from.getMinutes());
+  return { dayDelta, minuteDelta };
+}
+
+/**
+ * Applies changes to a whole series, moving it by the same amount the edited occurrence moved
+ */
+function updateWholeSeries(
+  master: Appointment,
+  occurrenceStart: Date,
+  changes: Partial<Appointment>
+): Appointment {
+  const { startTime: newStart, ...fields } = pickOverrides(changes);
+  const { dayDelta, minuteDelta } = newStart
+    ? getDateDelta(occurrenceStart, newStart)
+    : { dayDelta: 0, minuteDelta: 0 };
+  const rule = master.recurrence as RecurrenceRule;
+  const weekdayShift = ((dayDelta % 7) + 7) % 7;
+
+  return {
+    ...master,
+    ...fields,
+    startTime: shiftDate(master.startTime, dayDelta, minuteDelta),
+    recurrence: {
+      ...rule,
+      ...(rule.byWeekday && weekdayShift !== 0 && {
+        byWeekday: rule.byWeekday.map((weekday) => (weekday + weekdayShift) % 7),
+      }),
+    },
+    ...(master.recurrenceExceptions && {
+      recurrenceExceptions: master.recurrenceExceptions.map((exception) => ({
+        ...exception,
+        originalStartTime: shiftDate(exception.originalStartTime, dayDelta, minuteDelta),
+      })),
+    }),
+  };
+}
+
+/**
+ * Ends a series right before the given occurrence
+ */
+function truncateSeries(master: Appointment, occurrenceStart: Date): Appointment {
+  const rule = master.recurrence as RecurrenceRule;
+  return {
+    ...master,
+    recurrence: { ...rule, count: countOccurrencesBefore(master, occurrenceStart) },
+    recurrenceExceptions: master.recurrenceExceptions?.filter(
+      (exception) => exception.originalStartTime.getTime() < occurrenceStart.getTime()
+    ),
+  };
+}
+
+/**
+ * Splits a series at an occurrence: the original series ends before it and a new
+ * series (ID `${seriesId}-${timestamp}`) starts at it with the changes applied
+ */
+function splitSeries(
+  master: Appointment,
+  occurrenceStart: Date,
+  changes: Partial<Appointment>
+): Appointment[] {
+  if (occurrenceStart.getTime() <= master.startTime.getTime()) {
+    return [updateWholeSeries(master, occurrenceStart, changes)];
+  }
+
+  const rule = master.recurrence as RecurrenceRule;
+  const before = truncateSeries(master, occurrenceStart);
+  const remainingCount =
+    rule.count != null ? rule.count - (before.recurrence?.count ?? 0) : undefined;
+  const { count: _count, ...ruleWithoutCount } = rule;
+
+  const following: Appointment = {
+    ...master,
+    id: `${master.id}-${occurrenceStart.getTime()}`,
+    startTime: occurrenceStart,
+    recurrence: remainingCount != null ? { ...rule, count: remainingCount } : ruleWithoutCount,
+    recurrenceExceptions: master.recurrenceExceptions?.filter(
+      (exception) => exception.originalStartTime.getTime() >= occurrenceStart.getTime()
+    ),
+  };
+
+  return [before, updateWholeSeries(following, occurrenceStart, changes)];
+}
+
+/**
+ * Adds (or replaces) the exception for one occurrence of a series
+ */
+function withException(
+  master: Appointment,
+  occurrenceStart: Date,
+  exception: Omit<RecurrenceException, 'originalStartTime'>
+): Appointment {
+  const others = (master.recurrenceExceptions ?? []).filter(
+    (existing) => existing.originalStartTime.getTime() !== occurrenceStart.getTime()
+  );
+  return {
+    ...master,
+    recurrenceExceptions: [...others, { originalStartTime: occurrenceStart, ...exception }],
+  };
+}
+
+/**
+ * Finds the series master an occurrence ID refers to
+ */
+function findSeries(
+  appointments: Appointment[],
+  occurrenceId: string
+): { master: Appointment; occurrenceStart: Date } | null {
+  const parsed = parseOccurrenceId(occurrenceId);
+  if (!parsed) return null;
+  const master = appointments.find((apt) => apt.id === parsed.seriesId && apt.recurrence);
+  return master ? { master, occurrenceStart: parsed.occurrenceStart } : null;
+}
+
+/**
+ * Applies a change set to one occurrence, the following occurrences or the whole series
+ */
+function applySeriesChange(
+  appointments: Appointment[],
+  master: Appointment,
+  occurrenceStart: Date,
+  changes: Partial<Appointment>,
+  scope: RecurrenceEditScope
+): Appointment[] {
+  return appointments.flatMap((apt) => {
+    if (apt !== master) return [apt];
+    if (scope === 'all') return [updateWholeSeries(apt, occurrenceStart, changes)];
+    if (scope === 'following') return splitSeries(apt, occurrenceStart, changes);
+    const previous = apt.recurrenceExceptions?.find(
+      (exception) => exception.originalStartTime.getTime() === occurrenceStart.getTime()
+    );
+    return [
+      withException(apt, occurrenceStart, {
+        overrides: { ...previous?.overrides, ...pickOverrides(changes) },
+      }),
+    ];
+  });
+}
+
+/**
+ * Applies a drag-and-drop reschedule to an appointments list
+ * Helper for parent apps handling `onRescheduleAppointment`; one-off appointments are
+ * simply moved, occurrences update their series according to `scope` (default 'this').
+ * With `newTechnicianId`, the artist and their jobs are reassigned as well.
+ *
+ * @param appointments - The appointments list passed to the Scheduler
+ * @param id - Appointment or occurrence ID from the callback
+ * @param newStartTime - New start time from the callback
+ * @param scope - Scope from the callback
+ * @param newTechnicianId - New technician from the callback
+ * @returns A new appointments list
+ */
+export function applyRecurrenceReschedule(
+  appointments: Appointment[],
+  id: string,
+  newStartTime: Date,
+  scope: RecurrenceEditScope = 'this',
+  newTechnicianId?: string
+): Appointment[] {
+  const series = findSeries(appointments, id);
+  if (!series) {
+    return appointments.map((apt) => {
+      if (apt.id !== id) return apt;
+      const moved = newTechnicianId ? reassignTechnician(apt, newTechnicianId) : apt;
+      return { ...moved, startTime: newStartTime };
+    });
+  }
+
+  const changes: Partial<Appointment> = { startTime: newStartTime };
+  if (newTechnicianId) {
+    // Reassign from the occurrence's current values (its overrides on top of the series)
+    const previous = series.master.recurrenceExceptions?.find(
+      (exception) => exception.originalStartTime.getTime() === series.occurrenceStart.getTime()
+    );
+    const { artist, jobs } = reassignTechnician(
+      { ...series.master, ...previous?.overrides },
+      newTechnicianId
+    );
+    changes.artist = artist;
+    if (jobs) changes.jobs = jobs;
+  }
+  return applySeriesChange(appointments, series.master, series.occurrenceStart, changes, scope);
+}
+
+/**
+ * Applies a resize (new duration) to an appointments list
+ * Helper for parent apps handling `onResizeAppointment`; one-off appointments get the
+ * new duration, occurrences update their series according to `scope` (default 'this').
+ *
+ * @param appointments - The appointments list passed to the Scheduler
+ * @param id - Appointment or occurrence ID from the callback
+ * @param newDuration - New duration in minutes from the callback
+ * @param scope - Scope from the callback
+ * @returns A new appointments list
+ */
+export function applyRecurrenceResize(
+  appointments: Appointment[],
+  id: string,
+  newDuration: number,
+  scope: RecurrenceEditScope = 'this'
+): Appointment[] {
+  const series = findSeries(appointments, id);
+  if (!series) {
+    return appointments.map((apt) => (apt.id === id ? { ...apt, duration: newDuration } : apt));
+  }
+  return applySeriesChange(
+    appointments,
+    series.master,
+    series.occurrenceStart,
+    { duration: newDuration },
+    scope
+  );
+}
+
+/**
+ * Applies an edit from the detail view to an appointments list
+ * Helper for parent apps handling `onUpdateAppointment`; one-off appointments are
+ * replaced, occurrences update their series according to `scope` (default 'this').
+ *
+ * @param appointments - The appointments list passed to the Scheduler
+ * @param updated - Updated appointment or occurrence from the callback
+ * @param scope - Scope from the callback
+ * @returns A new appointments list
+ */
+export function applyRecurrenceUpdate(
+  appointments: Appointment[],
+  updated: Appointment,
+  scope: RecurrenceEditScope = 'this'
+): Appointment[] {
+  const series = findSeries(appointments, updated.id);
+  if (!series) {
+    return appointments.map((apt) => (apt.id === updated.id ? updated : apt));
+  }
+  // Every overridable field is listed so cleared values (e.g. notes) are applied too
+  const changes: Partial<Appointment> = {};
+  for (const key of OVERRIDABLE_FIELDS) {
+    (changes as Record<string, unknown>)[key] = updated[key];
+  }
+  return applySeriesChange(appointments, series.master, series.occurrenceStart, changes, scope);
+}
+
+/**
+ * Applies a delete to an appointments list
+ * Helper for parent apps handling `onDeleteAppointment`; one-off appointments are
+ * removed, occurrences are skipped / end the series / remove the series per `scope`.
+ *
+ * @param appointments - The appointments list passed to the Scheduler
+ * @param id - Appointment or occurrence ID from the callback
+ * @param scope - Scope from the callback
+ * @returns A new appointments list
+ */
+export function applyRecurrenceDelete(
+  appointments: Appointment[],
+  id: string,
+  scope: RecurrenceEditScope = 'this'
+): Appointment[] {
+  const series = findSeries(appointments, id);
+  if (!series) {
+    return appointments.filter((apt) => apt.id !== id);
+  }
+  const { master, occurrenceStart } = series;
+  return appointments.flatMap((apt) => {
+    if (apt !== master) return [apt];
+    if (scope === 'all') return [];
+    if (scope === 'following') {
+      return occurrenceStart.getTime() <= apt.startTime.getTime()
+        ? []
+        : [truncateSeries(apt, occurrenceStart)];
+    }
+    return [withException(apt, occurrenceStart, { cancelled: true })];
+  });
+}
+
+/**
+ * Formats a recurrence rule for display (e.g. "Every 2 weeks on Tue, 6 times")
+ *
+ * @param i18n - Locale settings for the texts and dates (default: English)
+ */
+export function describeRecurrence(
+  rule: RecurrenceRule,
+  i18n: SchedulerLocale = DEFAULT_SCHEDULER_LOCALE
+): string {
+  const { messages } = i18n;
+  const interval = Math.max(1, Math.floor(rule.interval ?? 1));
+  const frequencyLabels: Record<RecurrenceFrequency, string> = {
+    daily: interval === 1 ? messages.frequencyDaily : messages.everyDays,
+    weekly: interval === 1 ? messages.frequencyWeekly : messages.everyWeeks,
+    monthly: interval === 1 ? messages.frequencyMonthly : messages.everyMonths,
+  };
+  let frequency = formatMessage(frequencyLabels[rule.frequency], { count: interval });
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    const weekdayNames = getWeekdayNames(i18n.locale);
+    frequency = formatMessage(messages.recurrenceOnWeekdays, {
+      frequency,
+      weekdays: [...rule.byWeekday].sort((a, b) => a - b).map((d) => weekdayNames[d]).join(', '),
+    });
+  }
+  const parts = [frequency];
+  if (rule.count != null) {
+    parts.push(formatCountMessage(i18n, messages.recurrenceTimesOne, messages.recurrenceTimesOther, rule.count));
+  }
+  if (rule.until) {
+    parts.push(
+      formatMessage(messages.recurrenceUntil, {
+        date: rule.until.toLocaleDateString(i18n.locale, { month: 'short', day: 'numeric', year: 'numeric' }),
+      })
+    );
+  }
+  return parts.join(', ');
+}
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+};
+
+/**
+ * Parses an iCalendar RRULE string (FREQ, INTERVAL, BYDAY, COUNT, UNTIL)
+ *
+ * @example
+ * ```ts
+ * parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10');
+ * ```
+ * @returns The rule, or null when FREQ is missing or unsupported
+ */
+export function parseRRule(rrule: string): RecurrenceRule | null {
+  const fields = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value = ''] = part.split('=');
+    fields.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const frequency = RRULE_FREQUENCIES[fields.get('FREQ') ?? ''];
+  if (!frequency) return null;
+
+  const rule: RecurrenceRule = { frequency };
+  const interval = parseInt(fields.get('INTERVAL') ?? '', 10);
+  if (interval > 1) rule.interval = interval;
+  const count = parseInt(fields.get('COUNT') ?? '', 10);
+  if (count > 0) rule.count = count;
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const weekdays = byDay
+      .split(',')
+      .map((day) => RRULE_WEEKDAYS.indexOf(day.slice(-2)))
+      .filter((day) => day >= 0);
+    if (weekdays.length) rule.byWeekday = weekdays;
+  }
+
+  const until = fields.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (until) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = until;
+    rule.until = utc
+      ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+      : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  }
+
+  return rule;
+}
+
+/**
+ * Formats a recurrence rule as an iCalendar RRULE string (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval != null && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map((day) => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.count != null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const until = endOfDay(rule.until);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    parts.push(
+      `UNTIL=${until.getFullYear()}${pad(until.getMonth() + 1)}${pad(until.getDate())}T${pad(until.getHours())}${pad(until.getMinutes())}${pad(until.getSeconds())}`
+    );
+  }
+  return parts.join(';');
+}
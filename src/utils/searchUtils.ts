@@ -0,0 +1,100 @@
+import type { Appointment, Service } from '../types/scheduler';
+import { expandRecurringAppointments } from './recurrenceUtils';
+import { getAppointmentServiceTypes } from './serviceUtils';
+
+/**
+ * Appointment search utilities for the scheduler
+ * Matches a typed query against an appointment's client, contact details, notes and
+ * services, ignoring case and accents. Recurring series are searched occurrence by occurrence.
+ */
+
+/** Days before and after now within which occurrences of recurring series are searched */
+export const SEARCH_RECURRENCE_WINDOW_DAYS = 365;
+
+/** Most results listed for a query */
+export const MAX_SEARCH_RESULTS = 20;
+
+/**
+ * Lowercases text and strips its accents ("Zoé" matches "zoe")
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Gets the texts of an appointment a search looks at: client name, phone, email, notes and
+ * service names (resolved through services when the service type is an ID)
+ */
+function getSearchableTexts(appointment: Appointment, services: Service[]): string[] {
+  const serviceNames = getAppointmentServiceTypes(appointment).flatMap((serviceType) => {
+    const name = services.find((service) => service.id === serviceType)?.name;
+    return name && name !== serviceType ? [serviceType, name] : [serviceType];
+  });
+  return [
+    appointment.client.name,
+    appointment.phone ?? '',
+    appointment.email,
+    appointment.notes ?? '',
+    ...serviceNames,
+  ].map(normalizeSearchText);
+}
+
+/**
+ * Checks whether an appointment matches a query
+ * Every word of the query must appear in one of its texts; phone numbers also match
+ * when typed without spaces or dashes ("5551234" matches "555-1234").
+ */
+export function matchesAppointmentSearch(
+  appointment: Appointment,
+  query: string,
+  services: Service[] = []
+): boolean {
+  const words = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return false;
+  const texts = getSearchableTexts(appointment, services);
+  const phoneDigits = (appointment.phone ?? '').replace(/\D/g, '');
+  return words.every(
+    (word) =>
+      texts.some((text) => text.includes(word)) ||
+      (/^\+?\d{3,}$/.test(word) && phoneDigits.includes(word.replace(/\D/g, '')))
+  );
+}
+
+/**
+ * Searches appointments, soonest upcoming first, then past ones from the most recent
+ *
+ * @param appointments - Appointments, some of which may be series masters
+ * @param query - Text typed in the search box
+ * @param services - Services, to match service names
+ * @param now - Current time; splits upcoming from past results and centers the recurrence window
+ * @param limit - Most results returned (default: MAX_SEARCH_RESULTS)
+ * @returns Matching appointments and occurrences
+ */
+export function searchAppointments(
+  appointments: Appointment[],
+  query: string,
+  services: Service[] = [],
+  now: Date = new Date(),
+  limit: number = MAX_SEARCH_RESULTS
+): Appointment[] {
+  if (!query.trim()) return [];
+
+  const windowStart = new Date(now);
+  windowStart.setDate(windowStart.getDate() - SEARCH_RECURRENCE_WINDOW_DAYS);
+  const windowEnd = new Date(now);
+  windowEnd.setDate(windowEnd.getDate() + SEARCH_RECURRENCE_WINDOW_DAYS);
+
+  // Occurrences are matched one by one: an edited occurrence may have its own notes or services
+  const matches = expandRecurringAppointments(appointments, windowStart, windowEnd).filter((apt) =>
+    matchesAppointmentSearch(apt, query, services)
+  );
+
+  const nowTime = now.getTime();
+  const upcoming = matches
+    .filter((apt) => apt.startTime.getTime() >= nowTime)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const past = matches
+    .filter((apt) => apt.startTime.getTime() < nowTime)
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  return [...upcoming, ...past].slice(0, limit);
+}
@@ -0,0 +1,46 @@
+import type { Appointment, Service, ServiceCategory, ServiceType } from '../types/scheduler';
+
+/**
+ * Service and category utilities for the scheduler
+ * A service's category is a name (string) or a ServiceCategory object; both are
+ * identified by their name, as in the Create modal's service groups.
+ */
+
+/**
+ * Gets the name of a service category (string categories are their own name)
+ */
+export function getCategoryName(category: string | ServiceCategory | undefined): string | undefined {
+  if (category == null) return undefined;
+  return typeof category === 'string' ? category : category.name;
+}
+
+/**
+ * Gets the distinct category names of a list of services, in order of first appearance
+ */
+export function getServiceCategories(services: Service[]): string[] {
+  const names = new Set<string>();
+  for (const service of services) {
+    const name = getCategoryName(service.category);
+    if (name) names.add(name);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Gets the service types of an appointment: one per job, or its serviceType when it has no jobs
+ */
+export function getAppointmentServiceTypes(appointment: Appointment): ServiceType[] {
+  return appointment.jobs?.length
+    ? appointment.jobs.map((job) => job.serviceType)
+    : [appointment.serviceType];
+}
+
+/**
+ * Gets the category names of an appointment's services (services not in the list have none)
+ */
+export function getAppointmentCategories(appointment: Appointment, services: Service[]): string[] {
+  const names = getAppointmentServiceTypes(appointment)
+    .map((serviceType) => getCategoryName(services.find((service) => service.id === serviceType)?.category))
+    .filter((name): name is string => Boolean(name));
+  return Array.from(new Set(names));
+}
@@ -0,0 +1,78 @@
+import type { Appointment, BlockedTime, Technician } from '../types/scheduler';
+import { getAppointmentTechnicianIds } from './conflictUtils';
+
+/**
+ * Technician filter utilities for the scheduler
+ * The filter is a list of technician IDs to show, or null for everyone. It is saved in
+ * localStorage (under a key the app may make per-user) so it's kept across visits.
+ */
+
+/** Default localStorage key of the technician filter */
+export const TECHNICIAN_FILTER_STORAGE_KEY = 'scheduler-technician-filter';
+
+/**
+ * Check if we're in a browser environment
+ */
+const isBrowser = typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+/**
+ * Reads a saved technician filter
+ *
+ * @returns The saved IDs, null when "everyone" was saved, or undefined when nothing (valid) is saved
+ */
+export function loadTechnicianFilter(
+  storageKey: string = TECHNICIAN_FILTER_STORAGE_KEY
+): string[] | null | undefined {
+  if (!isBrowser) return undefined;
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (saved === null) return undefined;
+    const parsed: unknown = JSON.parse(saved);
+    if (parsed === null) return null;
+    if (Array.isArray(parsed) && parsed.every((id) => typeof id === 'string')) return parsed;
+  } catch {
+    // Storage blocked (private mode) or an unreadable value: nothing saved
+  }
+  return undefined;
+}
+
+/**
+ * Saves a technician filter (null = everyone)
+ */
+export function saveTechnicianFilter(
+  technicianIds: string[] | null,
+  storageKey: string = TECHNICIAN_FILTER_STORAGE_KEY
+): void {
+  if (!isBrowser) return;
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(technicianIds));
+  } catch {
+    // Storage full or blocked: the filter just isn't kept
+  }
+}
+
+/**
+ * Gets the technicians a filter shows, in their original order
+ * Everyone is shown for a null filter, and when none of the filter's IDs exist
+ * (e.g. a saved filter of technicians who have since left).
+ */
+export function filterTechnicians(technicians: Technician[], technicianIds: string[] | null): Technician[] {
+  if (!technicianIds) return technicians;
+  const shown = technicians.filter((technician) => technicianIds.includes(technician.id));
+  return shown.length > 0 ? shown : technicians;
+}
+
+/**
+ * Checks whether an appointment belongs to one of the shown technicians
+ * (its artist or a technician of one of its jobs); unassigned appointments don't
+ */
+export function isAppointmentShown(appointment: Appointment, technicianIds: Set<string>): boolean {
+  return getAppointmentTechnicianIds(appointment).some((id) => technicianIds.has(id));
+}
+
+/**
+ * Checks whether blocked time is shown: studio-wide blocks always are, a technician's only with them
+ */
+export function isBlockedTimeShown(blockedTime: BlockedTime, technicianIds: Set<string>): boolean {
+  return !blockedTime.technicianId || technicianIds.has(blockedTime.technicianId);
+}
@@ -1,32 +1,35 @@
-import type { TimeSlot } from '../types/scheduler';
+import type { DateFormatOptions, TimeSlot } from '../types/scheduler';
 
 /**
  * Time utility functions for the scheduler
  * Handles time calculations, formatting, and slot generation
  */
 
-/** Height of each 30-minute slot in pixels */
+/** Default height of each slot in pixels */
 export const SLOT_HEIGHT = 60;
 
-/** Duration of each slot in minutes */
+/** Default duration of each slot in minutes */
 export const SLOT_DURATION = 30;
 
+/** Locale used when none is given */
+export const DEFAULT_LOCALE = 'en-US';
+
 /**
- * Formats a Date to a 12-hour time string (e.g., "9:00 AM")
+ * Formats a Date to a time string (e.g., "9:00 AM", or "14 h 30" in fr-CA)
  */
-export function formatTime(date: Date): string {
-  return date.toLocaleTimeString('en-US', {
+export function formatTime(date: Date, options: DateFormatOptions = {}): string {
+  return date.toLocaleTimeString(options.locale ?? DEFAULT_LOCALE, {
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true,
+    ...(options.hour12 !== undefined && { hourCycle: options.hour12 ? 'h12' : 'h23' }),
   });
 }
 
 /**
  * Formats a Date to a short date string (e.g., "Mon 15")
  */
-export function formatShortDate(date: Date): string {
-  return date.toLocaleDateString('en-US', {
+export function formatShortDate(date: Date, options: DateFormatOptions = {}): string {
+  return date.toLocaleDateString(options.locale ?? DEFAULT_LOCALE, {
     weekday: 'short',
     day: 'numeric',
   });
@@ -35,8 +38,8 @@ export function formatShortDate(date: Date): string {
 /**
  * Formats a Date to a full date string (e.g., "Monday, January 15, 2024")
  */
-export function formatFullDate(date: Date): string {
-  return date.toLocaleDateString('en-US', {
+export function formatFullDate(date: Date, options: DateFormatOptions = {}): string {
+  return date.toLocaleDateString(options.locale ?? DEFAULT_LOCALE, {
     weekday: 'long',
     month: 'long',
     day: 'numeric',
@@ -44,35 +47,49 @@ export function formatFullDate(date: Date): string {
   });
 }
 
+/**
+ * Formats a Date to a month and year string (e.g., "January 2024")
+ */
+export function formatMonthYear(date: Date, options: DateFormatOptions = {}): string {
+  return date.toLocaleDateString(options.locale ?? DEFAULT_LOCALE, {
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
 /**
  * Generates time slots for the given hour range
- * Creates 30-minute intervals from startHour to endHour
+ * Creates slotDuration-minute intervals from startHour to endHour
  * 
  * @param date - The base date for the slots
  * @param startHour - Starting hour (0-23)
  * @param endHour - Ending hour (0-23)
+ * @param slotDuration - Length of each slot in minutes (default: 30)
+ * @param format - Locale and clock of the slot labels (default: en-US)
  * @returns Array of TimeSlot objects
  */
 export function generateTimeSlots(
   date: Date,
   startHour: number,
-  endHour: number
+  endHour: number,
+  slotDuration: number = SLOT_DURATION,
+  format?: DateFormatOptions
 ): TimeSlot[] {
   const slots: TimeSlot[] = [];
   
-  for (let hour = startHour; hour < endHour; hour++) {
-    for (let minute = 0; minute < 60; minute += SLOT_DURATION) {
-      const slotTime = new Date(date);
-      slotTime.setHours(hour, minute, 0, 0);
-      
-      slots.push({
-        time: slotTime,
-        hour,
-        minute,
-        label: formatTime(slotTime),
-        isHourStart: minute === 0,
-      });
-    }
+  for (let offset = startHour * 60; offset < endHour * 60; offset += slotDuration) {
+    const hour = Math.floor(offset / 60);
+    const minute = offset % 60;
+    const slotTime = new Date(date);
+    slotTime.setHours(hour, minute, 0, 0);
+    
+    slots.push({
+      time: slotTime,
+      hour,
+      minute,
+      label: formatTime(slotTime, format),
+      isHourStart: minute === 0,
+    });
   }
   
   return slots;
@@ -84,11 +101,15 @@ export function generateTimeSlots(
  * 
  * @param startTime - The appointment's start time
  * @param gridStartHour - The hour the grid starts at
+ * @param slotDuration - Length of each slot in minutes (default: 30)
+ * @param slotHeight - Height of each slot in pixels (default: 60)
  * @returns Top position in pixels
  */
 export function calculateTopPosition(
   startTime: Date,
-  gridStartHour: number
+  gridStartHour: number,
+  slotDuration: number = SLOT_DURATION,
+  slotHeight: number = SLOT_HEIGHT
 ): number {
   const appointmentHour = startTime.getHours();
   const appointmentMinute = startTime.getMinutes();
@@ -97,18 +118,24 @@ export function calculateTopPosition(
   const minutesFromStart = 
     (appointmentHour - gridStartHour) * 60 + appointmentMinute;
   
-  // Convert to pixels (each 30 min = SLOT_HEIGHT pixels)
-  return (minutesFromStart / SLOT_DURATION) * SLOT_HEIGHT;
+  // Convert to pixels (each slot = slotHeight pixels)
+  return (minutesFromStart / slotDuration) * slotHeight;
 }
 
 /**
  * Calculates the height in pixels for an appointment based on its duration
  * 
  * @param durationMinutes - Duration in minutes
+ * @param slotDuration - Length of each slot in minutes (default: 30)
+ * @param slotHeight - Height of each slot in pixels (default: 60)
  * @returns Height in pixels
  */
-export function calculateHeight(durationMinutes: number): number {
-  return (durationMinutes / SLOT_DURATION) * SLOT_HEIGHT;
+export function calculateHeight(
+  durationMinutes: number,
+  slotDuration: number = SLOT_DURATION,
+  slotHeight: number = SLOT_HEIGHT
+): number {
+  return (durationMinutes / slotDuration) * slotHeight;
 }
 
 /**
@@ -142,14 +169,14 @@ export function isSameDay(date1: Date, date2: Date): boolean {
 
 /**
  * Gets an array of dates for the week containing the given date
- * Week starts on Sunday
  * 
  * @param date - Any date in the desired week
- * @returns Array of 7 Date objects (Sun-Sat)
+ * @param weekStartsOn - First day of the week (0 = Sunday ... 6 = Saturday; default: 0)
+ * @returns Array of 7 Date objects (Sun-Sat by default)
  */
-export function getWeekDates(date: Date): Date[] {
+export function getWeekDates(date: Date, weekStartsOn: number = 0): Date[] {
   const startOfWeek = new Date(date);
-  const dayOfWeek = startOfWeek.getDay();
+  const dayOfWeek = (startOfWeek.getDay() - weekStartsOn + 7) % 7;
   startOfWeek.setDate(startOfWeek.getDate() - dayOfWeek);
   startOfWeek.setHours(0, 0, 0, 0);
   
@@ -163,6 +190,75 @@ export function getWeekDates(date: Date): Date[] {
   return weekDates;
 }
 
+/**
+ * Gets consecutive dates starting at the given date
+ *
+ * @param date - First date of the range
+ * @param days - Number of dates (at least 1)
+ * @returns Array of Date objects at midnight
+ */
+export function getRangeDates(date: Date, days: number): Date[] {
+  const start = startOfDay(date);
+  return Array.from({ length: Math.max(1, days) }, (_, i) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() + i);
+    return day;
+  });
+}
+
+/**
+ * Keeps the dates a view shows, given a visibility check (e.g. hidden weekdays)
+ * Returns all dates when every one of them would be hidden, so a view is never empty
+ *
+ * @param dates - Dates to filter (e.g. from getWeekDates)
+ * @param isDayVisible - Returns false for dates to leave out (default: all visible)
+ */
+export function filterVisibleDates(
+  dates: Date[],
+  isDayVisible?: (date: Date) => boolean
+): Date[] {
+  if (!isDayVisible) return dates;
+  const visible = dates.filter((date) => isDayVisible(date));
+  return visible.length > 0 ? visible : dates;
+}
+
+/**
+ * Gets the dates shown in a month calendar grid
+ * Full weeks covering the whole month, including leading/trailing days
+ * 
+ * @param date - Any date in the desired month
+ * @param weekStartsOn - First day of the week (0 = Sunday ... 6 = Saturday; default: 0)
+ * @returns Array of Date objects; length is a multiple of 7 (4-6 weeks)
+ */
+export function getMonthGridDates(date: Date, weekStartsOn: number = 0): Date[] {
+  const lastOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const dates: Date[] = [];
+  let weekStart = getWeekDates(new Date(date.getFullYear(), date.getMonth(), 1), weekStartsOn)[0];
+
+  while (weekStart <= lastOfMonth) {
+    const week = getWeekDates(weekStart, weekStartsOn);
+    dates.push(...week);
+    weekStart = new Date(week[6]);
+    weekStart.setDate(weekStart.getDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Adds months to a date and returns a new Date
+ * The day of month is clamped to the target month (e.g., Jan 31 + 1 month = Feb 28)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, daysInMonth));
+  return result;
+}
+
 /**
  * Adds minutes to a date and returns a new Date
  */
@@ -171,16 +267,55 @@ export function addMinutes(date: Date, minutes: number): Date {
 }
 
 /**
- * Rounds a date to the nearest 30-minute slot
+ * Rounds a date to the nearest slot (slots are counted from midnight)
  */
-export function roundToSlot(date: Date): Date {
+export function roundToSlot(date: Date, slotDuration: number = SLOT_DURATION): Date {
   const result = new Date(date);
-  const minutes = result.getMinutes();
-  const roundedMinutes = Math.round(minutes / SLOT_DURATION) * SLOT_DURATION;
-  result.setMinutes(roundedMinutes, 0, 0);
+  const minutes = result.getHours() * 60 + result.getMinutes();
+  const roundedMinutes = Math.round(minutes / slotDuration) * slotDuration;
+  result.setHours(0, roundedMinutes, 0, 0);
   return result;
 }
 
+/**
+ * Calculates an appointment's duration after dragging its bottom edge
+ * The new end time snaps to the slot grid; the result is at least one slot long
+ * and is not stretched past endHour on the appointment's day
+ * 
+ * @param startTime - The appointment's start time
+ * @param duration - Current duration in minutes
+ * @param deltaY - Vertical drag distance in pixels
+ * @param endHour - Closing time of the appointment's day in hours; fractions allowed, e.g. 18.5 (optional)
+ * @param slotDuration - Length of each slot in minutes (default: 30)
+ * @param slotHeight - Height of each slot in pixels (default: 60)
+ * @returns New duration in minutes
+ */
+export function calculateResizedDuration(
+  startTime: Date,
+  duration: number,
+  deltaY: number,
+  endHour?: number,
+  slotDuration: number = SLOT_DURATION,
+  slotHeight: number = SLOT_HEIGHT
+): number {
+  const slotsMoved = Math.round(deltaY / slotHeight);
+  if (slotsMoved === 0) return duration;
+
+  const newEnd = roundToSlot(addMinutes(startTime, duration + slotsMoved * slotDuration), slotDuration);
+  let newDuration = Math.max(
+    slotDuration,
+    Math.round((newEnd.getTime() - startTime.getTime()) / 60000)
+  );
+
+  if (endHour !== undefined && newDuration > duration) {
+    const dayEnd = addMinutes(startOfDay(startTime), endHour * 60);
+    const maxDuration = Math.round((dayEnd.getTime() - startTime.getTime()) / 60000);
+    newDuration = Math.max(duration, Math.min(newDuration, maxDuration));
+  }
+
+  return newDuration;
+}
+
 /**
  * Checks if a time is within working hours
  */
@@ -215,15 +350,134 @@ export function createDateTime(
 }
 
 /**
- * Gets today's date at midnight
+ * Gets the current time, as wall-clock time in timeZone when given (see toZonedTime)
+ */
+export function getNow(timeZone?: string): Date {
+  const now = new Date();
+  return timeZone ? toZonedTime(now, timeZone) : now;
+}
+
+/**
+ * Gets today's date at midnight (today in timeZone when given)
+ */
+export function getToday(timeZone?: string): Date {
+  return startOfDay(getNow(timeZone));
+}
+
+/**
+ * Checks if a date is today (today in timeZone when given; date is wall-clock time there)
+ */
+export function isToday(date: Date, timeZone?: string): boolean {
+  return isSameDay(date, getNow(timeZone));
+}
+
+// ============================================
+// Time zones
+// ============================================
+//
+// With a studio time zone the scheduler works on "wall-clock" Dates: Dates whose local
+// fields (getHours, getDate, ...) read the studio's time. toZonedTime builds them from
+// real instants and fromZonedTime turns them back, so the rest of these helpers can
+// keep using local-time methods.
+
+/** Cached formatters per time zone (creating Intl formatters is slow) */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Gets the calendar fields of an instant in a time zone
+ */
+function getZonedFields(date: Date, timeZone: string) {
+  const fields: Record<string, number> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year,
+    month: fields.month - 1,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+/**
+ * Checks whether a string is an IANA time zone the browser knows (e.g. 'America/Vancouver')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getZoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the UTC offset of a time zone at an instant, in minutes (e.g. -420 for PDT)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedFields(date, timeZone);
+  const asUtc = Date.UTC(year, month, day, hour, minute, second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Converts an instant to a wall-clock Date whose local fields read the time in timeZone
+ *
+ * @example
+ * // 2026-07-01T17:00Z is 10:00 in Vancouver
+ * toZonedTime(new Date('2026-07-01T17:00:00Z'), 'America/Vancouver').getHours(); // 10
  */
-export function getToday(): Date {
-  return startOfDay(new Date());
+export function toZonedTime(date: Date, timeZone: string): Date {
+  const { year, month, day, hour, minute, second } = getZonedFields(date, timeZone);
+  return new Date(year, month, day, hour, minute, second, date.getMilliseconds());
 }
 
 /**
- * Checks if a date is today
+ * Converts a wall-clock Date (local fields = time in timeZone) back to the real instant
+ * Around DST changes: a time skipped by the clocks moving forward is moved forward by the gap,
+ * and a time that happens twice when they move back resolves to the first one.
  */
-export function isToday(date: Date): boolean {
-  return isSameDay(date, new Date());
+export function fromZonedTime(wallClock: Date, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+
+  const firstOffset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const first = asUtc - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffset(new Date(first), timeZone);
+  if (secondOffset === firstOffset) return new Date(first);
+
+  // A transition lies between the guess and the result: retry with the offset after it
+  const second = asUtc - secondOffset * 60000;
+  if (getTimeZoneOffset(new Date(second), timeZone) === secondOffset) return new Date(second);
+
+  // Neither offset maps back: the time is in a spring-forward gap
+  return new Date(asUtc - Math.min(firstOffset, secondOffset) * 60000);
 }
@@ -0,0 +1,135 @@
+import type {
+  Appointment,
+  BlockedTime,
+  NewAppointmentData,
+  Technician,
+} from '../types/scheduler';
+import { toZonedTime, fromZonedTime } from './timeUtils';
+import { getOccurrenceId, parseOccurrenceId } from './recurrenceUtils';
+
+/**
+ * Time zone utilities for the scheduler
+ * Moves scheduler data between real instants (what the app stores and receives in callbacks)
+ * and the studio's wall-clock time (what the grid, drag-and-drop and forms work in).
+ * See toZonedTime / fromZonedTime in timeUtils.
+ */
+
+type DateConverter = (date: Date) => Date;
+
+/**
+ * Converts an occurrence ID (`seriesId::timestamp`); other IDs are returned unchanged
+ */
+function convertOccurrenceId(id: string, convert: DateConverter): string {
+  const parsed = parseOccurrenceId(id);
+  return parsed ? getOccurrenceId(parsed.seriesId, convert(parsed.occurrenceStart)) : id;
+}
+
+/**
+ * Converts every date of an appointment (start, recurrence end, exceptions, occurrence data)
+ */
+function convertAppointment(appointment: Appointment, convert: DateConverter): Appointment {
+  return {
+    ...appointment,
+    id: appointment.seriesId ? convertOccurrenceId(appointment.id, convert) : appointment.id,
+    startTime: convert(appointment.startTime),
+    ...(appointment.recurrence?.until && {
+      recurrence: { ...appointment.recurrence, until: convert(appointment.recurrence.until) },
+    }),
+    ...(appointment.recurrenceExceptions && {
+      recurrenceExceptions: appointment.recurrenceExceptions.map((exception) => ({
+        ...exception,
+        originalStartTime: convert(exception.originalStartTime),
+        ...(exception.overrides?.startTime && {
+          overrides: { ...exception.overrides, startTime: convert(exception.overrides.startTime) },
+        }),
+      })),
+    }),
+    ...(appointment.occurrenceStart && { occurrenceStart: convert(appointment.occurrenceStart) }),
+  };
+}
+
+/**
+ * Converts an appointment to the studio's wall-clock time
+ */
+export function appointmentToTimeZone(appointment: Appointment, timeZone: string): Appointment {
+  return convertAppointment(appointment, (date) => toZonedTime(date, timeZone));
+}
+
+/**
+ * Converts an appointment from the studio's wall-clock time back to real instants
+ */
+export function appointmentFromTimeZone(appointment: Appointment, timeZone: string): Appointment {
+  return convertAppointment(appointment, (date) => fromZonedTime(date, timeZone));
+}
+
+/**
+ * Converts the data of a new appointment from the studio's wall-clock time back to real instants
+ */
+export function newAppointmentFromTimeZone(
+  data: NewAppointmentData,
+  timeZone: string
+): NewAppointmentData {
+  return {
+    ...data,
+    startTime: fromZonedTime(data.startTime, timeZone),
+    ...(data.recurrence?.until && {
+      recurrence: { ...data.recurrence, until: fromZonedTime(data.recurrence.until, timeZone) },
+    }),
+  };
+}
+
+/**
+ * Converts an occurrence ID to the studio's wall-clock time
+ * (IDs of non-recurring appointments are returned unchanged)
+ */
+export function appointmentIdToTimeZone(id: string, timeZone: string): string {
+  return convertOccurrenceId(id, (date) => toZonedTime(date, timeZone));
+}
+
+/**
+ * Converts an occurrence ID from the studio's wall-clock time back to real instants
+ * (IDs of non-recurring appointments are returned unchanged)
+ */
+export function appointmentIdFromTimeZone(id: string, timeZone: string): string {
+  return convertOccurrenceId(id, (date) => fromZonedTime(date, timeZone));
+}
+
+/**
+ * Converts blocked time to the studio's wall-clock time
+ */
+export function blockedTimeToTimeZone<T extends Pick<BlockedTime, 'startTime'>>(
+  blockedTime: T,
+  timeZone: string
+): T {
+  return { ...blockedTime, startTime: toZonedTime(blockedTime.startTime, timeZone) };
+}
+
+/**
+ * Converts blocked time from the studio's wall-clock time back to real instants
+ */
+export function blockedTimeFromTimeZone<T extends Pick<BlockedTime, 'startTime'>>(
+  blockedTime: T,
+  timeZone: string
+): T {
+  return { ...blockedTime, startTime: fromZonedTime(blockedTime.startTime, timeZone) };
+}
+
+/**
+ * Converts a technician's time off to the studio's wall-clock time
+ * (weekly shifts are already studio times and are left as they are)
+ */
+export function technicianToTimeZone(technician: Technician, timeZone: string): Technician {
+  const timeOff = technician.availability?.timeOff;
+  if (!timeOff?.length) return technician;
+  return {
+    ...technician,
+    availability: {
+      ...technician.availability,
+      timeOff: timeOff.map((off) => ({
+        ...off,
+        start: toZonedTime(off.start, timeZone),
+        end: toZonedTime(off.end, timeZone),
+      })),
+    },
+  };
+}
@@ -0,0 +1,211 @@
+import type {
+  Appointment,
+  BlockedTime,
+  OpenInterval,
+  TimelineAppointmentLayout,
+  TimelineBlockedTimeLayout,
+  TimelineScale,
+} from '../types/scheduler';
+import { isSameDay, roundToSlot, SLOT_DURATION } from './timeUtils';
+import { getMinuteOfDay } from './businessHoursUtils';
+import { calculateScheduleLayouts, filterByWorkingHours } from './layoutUtils';
+
+/**
+ * Timeline utility functions
+ * The timeline view lays its days side by side along the x-axis, each covering the grid
+ * hours (startHour to endHour), with one row per technician. These map times to x positions,
+ * drag offsets and clicks back to times, and pack a row's events into lanes.
+ */
+
+/** Minutes between ticks at each zoom level, finest first (1440 = one tick per day) */
+export const TIMELINE_TICKS = [15, 30, 60, 120, 240, 1440];
+
+/** Default zoom: one tick per hour */
+export const DEFAULT_TIMELINE_TICK = 60;
+
+/** Width of a tick in pixels, for ticks shorter than a day */
+export const TIMELINE_TICK_WIDTH = 80;
+
+/** Width of a day in pixels with one tick per day */
+export const TIMELINE_DAY_WIDTH = 160;
+
+/** Height of a lane (one row of blocks) in a technician's row, in pixels */
+export const TIMELINE_LANE_HEIGHT = 48;
+
+const MINUTES_PER_DAY = 1440;
+
+/**
+ * Gets the zoom level closest to a number of minutes between ticks
+ */
+export function getTimelineTick(minutes: number): number {
+  return TIMELINE_TICKS.reduce((best, tick) =>
+    Math.abs(tick - minutes) < Math.abs(best - minutes) ? tick : best
+  );
+}
+
+/**
+ * Creates the scale of a timeline
+ *
+ * @param dates - Days to show, left to right
+ * @param startHour - Hour each day starts at
+ * @param endHour - Hour each day ends at
+ * @param tick - Minutes between ticks (a zoom level of TIMELINE_TICKS)
+ * @param slotDuration - Length of a slot in minutes (default: 30)
+ */
+export function createTimelineScale(
+  dates: Date[],
+  startHour: number,
+  endHour: number,
+  tick: number,
+  slotDuration: number = SLOT_DURATION
+): TimelineScale {
+  const dayMinutes = (endHour - startHour) * 60;
+  const minuteWidth = tick >= MINUTES_PER_DAY
+    ? TIMELINE_DAY_WIDTH / dayMinutes
+    : TIMELINE_TICK_WIDTH / tick;
+  return { dates, startHour, endHour, tick, minuteWidth, slotDuration };
+}
+
+/**
+ * Gets the width of one day of a timeline in pixels
+ */
+export function getTimelineDayWidth(scale: TimelineScale): number {
+  return (scale.endHour - scale.startHour) * 60 * scale.minuteWidth;
+}
+
+/**
+ * Gets the width of a slot of a timeline in pixels (the drag and resize step)
+ */
+export function getTimelineSlotWidth(scale: TimelineScale): number {
+  return scale.slotDuration * scale.minuteWidth;
+}
+
+/**
+ * Gets the x position of a time on a timeline (clamped to its day's hours)
+ *
+ * @returns Pixels from the left edge, or null when the time's day isn't shown
+ */
+export function getTimelineOffset(scale: TimelineScale, time: Date): number | null {
+  const dayIndex = scale.dates.findIndex((date) => isSameDay(date, time));
+  if (dayIndex === -1) return null;
+  const dayMinutes = (scale.endHour - scale.startHour) * 60;
+  const minute = Math.min(Math.max(getMinuteOfDay(time) - scale.startHour * 60, 0), dayMinutes);
+  return (dayIndex * dayMinutes + minute) * scale.minuteWidth;
+}
+
+/**
+ * Gets the time at an x position of a timeline, rounded down to the slot
+ *
+ * @returns The time, or null outside the timeline
+ */
+export function getTimelineTimeAt(scale: TimelineScale, x: number): Date | null {
+  const dayMinutes = (scale.endHour - scale.startHour) * 60;
+  const position = x / scale.minuteWidth;
+  const dayIndex = Math.floor(position / dayMinutes);
+  const date = scale.dates[dayIndex];
+  if (!date || position < 0) return null;
+  const minute = scale.startHour * 60 +
+    Math.floor((position - dayIndex * dayMinutes) / scale.slotDuration) * scale.slotDuration;
+  const time = new Date(date);
+  time.setHours(0, minute, 0, 0);
+  return time;
+}
+
+/**
+ * Moves a time along a timeline by a horizontal drag offset
+ * The offset is counted in whole slots and runs on from one day's end into the next day's start.
+ *
+ * @param scale - The timeline's scale
+ * @param time - Original time
+ * @param deltaX - Drag offset in pixels
+ * @returns The moved time rounded to the slot, or null when it leaves the timeline
+ */
+export function moveOnTimeline(scale: TimelineScale, time: Date, deltaX: number): Date | null {
+  const dayIndex = scale.dates.findIndex((date) => isSameDay(date, time));
+  if (dayIndex === -1) return null;
+
+  const dayMinutes = (scale.endHour - scale.startHour) * 60;
+  const position = dayIndex * dayMinutes + getMinuteOfDay(time) - scale.startHour * 60 +
+    Math.round(deltaX / getTimelineSlotWidth(scale)) * scale.slotDuration;
+  const newDayIndex = Math.floor(position / dayMinutes);
+  const date = scale.dates[newDayIndex];
+  if (!date || position < 0) return null;
+
+  const moved = new Date(date);
+  moved.setHours(0, scale.startHour * 60 + position - newDayIndex * dayMinutes, 0, 0);
+  return roundToSlot(moved, scale.slotDuration);
+}
+
+/**
+ * Gets the parts of [startMinute, endMinute) outside a list of intervals
+ * (closed hours from open intervals, time off from working intervals)
+ */
+export function getIntervalGaps(
+  intervals: OpenInterval[],
+  startMinute: number,
+  endMinute: number
+): OpenInterval[] {
+  const gaps: OpenInterval[] = [];
+  let cursor = startMinute;
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    if (interval.start > cursor) gaps.push({ start: cursor, end: Math.min(interval.start, endMinute) });
+    cursor = Math.max(cursor, interval.end);
+    if (cursor >= endMinute) break;
+  }
+  if (cursor < endMinute) gaps.push({ start: cursor, end: endMinute });
+  return gaps.filter((gap) => gap.end > gap.start);
+}
+
+/**
+ * Calculates the layout of a timeline row: appointments and blocked time on the shown days,
+ * stacked into lanes where they overlap (the same lane packing as the day and week columns)
+ *
+ * @param appointments - The row's appointments
+ * @param blockedTimes - The row's blocked time
+ * @param scale - The timeline's scale
+ * @returns Appointment and blocked time layouts, and the number of lanes the row needs (at least 1)
+ */
+export function calculateTimelineLayouts(
+  appointments: Appointment[],
+  blockedTimes: BlockedTime[],
+  scale: TimelineScale
+): {
+  appointmentLayouts: TimelineAppointmentLayout[];
+  blockedTimeLayouts: TimelineBlockedTimeLayout[];
+  laneCount: number;
+} {
+  const { startHour, endHour, minuteWidth } = scale;
+  const isShown = (item: Appointment | BlockedTime) => scale.dates.some((date) => isSameDay(date, item.startTime));
+  const dayWidth = getTimelineDayWidth(scale);
+
+  // Laid out as on a day column with one-minute slots of minuteWidth pixels: top and height become left and width
+  const raw = calculateScheduleLayouts(
+    filterByWorkingHours(appointments.filter(isShown), startHour, endHour),
+    filterByWorkingHours(blockedTimes.filter(isShown), startHour, endHour),
+    startHour,
+    1,
+    minuteWidth
+  );
+  const place = (startTime: Date, top: number, height: number) => {
+    const dayIndex = scale.dates.findIndex((date) => isSameDay(date, startTime));
+    // Events running past the day's end are cut at it
+    return { left: dayIndex * dayWidth + top, width: Math.min(height, dayWidth - top) };
+  };
+
+  const appointmentLayouts = raw.appointmentLayouts.map(({ appointment, lane, top, height }) => ({
+    appointment,
+    lane,
+    ...place(appointment.startTime, top, height),
+  }));
+  const blockedTimeLayouts = raw.blockedTimeLayouts.map(({ blockedTime, lane, top, height }) => ({
+    blockedTime,
+    lane,
+    ...place(blockedTime.startTime, top, height),
+  }));
+  const laneCount = Math.max(
+    1,
+    ...appointmentLayouts.map((layout) => layout.lane + 1),
+    ...blockedTimeLayouts.map((layout) => layout.lane + 1)
+  );
+  return { appointmentLayouts, blockedTimeLayouts, laneCount };
+}